@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { 
   Sparkles, 
   FileCode, 
@@ -15,52 +15,53 @@ import {
   Check,
   User as UserIcon,
   LogOut,
+  Columns2,
+  Files,
+  Search,
+  History,
+  Gauge,
   Settings as SettingsIcon
 } from 'lucide-react';
-import { GoogleGenAI } from "@google/genai";
-import { INITIAL_FILES } from './constants';
-import { TEMPLATES } from './templates';
-import { FileNode, ChatMessage, AgentTask, Theme, SaveStatus, AgentOptions, TargetAgent, User } from './types';
-import { FileTreeItem } from './components/FileTreeItem';
+import { FileNode, ChatMessage, AgentTask, Theme, SaveStatus, AgentOptions, User, CodeDiagnostic, ProjectMeta, ConversationThread, Commit } from './types';
+import { FileExplorer } from './components/FileExplorer';
 import { Editor } from './components/Editor';
 import { Preview } from './components/Preview';
 import { ChatInterface } from './components/ChatInterface';
 import { TasksView } from './components/TasksView';
+import { PendingChangesPanel } from './components/PendingChangesPanel';
 import { AuthModal } from './components/AuthModal';
 import { SettingsModal } from './components/SettingsModal';
+import { PipelineEditorModal } from './components/PipelineEditorModal';
+import { EditorTabs } from './components/EditorTabs';
+import { ProblemsPanel } from './components/ProblemsPanel';
+import { ProjectSwitcher } from './components/ProjectSwitcher';
+import { SearchPanel } from './components/SearchPanel';
+import { ThreadBrowser } from './components/ThreadBrowser';
+import { HistoryPanel } from './components/HistoryPanel';
+import { UsagePanel } from './components/UsagePanel';
 import { GEMINI_KEY_ENV_ORDER } from './envKeys';
+import { buildPreviewDocument } from './services/previewDocument';
+import { basename, copyNode, copyPath, createFile, createFolder, deleteNode, getFile, listEntries, listFiles, moveNode, updateNode, writeFile } from './services/virtualFs';
+import { isScriptPath } from './services/bundler';
+import { createProvider, loadProviderSettings, saveProviderSettings } from './services/providers/registry';
+import { LlmProvider, ProviderSettings } from './services/providers/types';
+import { AgentEvent, DEFAULT_DESIGN_LIBRARY, PausedRun, PipelineResult, StreamingDraft, resumePipeline, runPipeline, sanitizeForPrompt } from './services/orchestrator';
+import { BUILT_IN_PIPELINES, DEFAULT_PIPELINE_ID, PipelineDefinition, findPipeline, loadCustomPipelines, saveCustomPipelines } from './services/pipelines';
+import { PendingChangeSet, PendingFileChange, acceptFileChange, removeHunk } from './services/changeSet';
+import { runTestsInWorker } from './services/testRunner';
+import { checkProject, findDefinition, getQuickInfo } from './services/typescriptService';
+import { EditHistory, FileEdit, applyHistoryWrites, canRedo, canUndo, contentAt, recordEdits, redoEdit, renameHistory, undoEdit } from './services/editHistory';
+import { SearchOptions, replaceInProject } from './services/projectSearch';
+import { MAX_IMPORT_FILE_BYTES, SkippedFile, downloadFile, exportProjectZip, pickFolderProject, pickZipProject, projectSlug } from './services/projectArchive';
+import { PROJECT_TEMPLATES, ProjectTemplate, createProject, deleteProject, duplicateProject, loadActiveProjectId, loadProjects, renameProject, saveActiveProjectId, templateFiles, touchProject, validateProjectName } from './services/projects';
+import { LoadedProject, ProjectItem, StorageQuotaError, deleteThread, describeStorageUsage, loadProject, saveProjectFiles, saveProjectItem, saveThread } from './services/storage';
+import { branchThread, createThread, restoreThread, sortThreads, threadCheckpoints, updateThread } from './services/threads';
+import { EMPTY_PROJECT_USAGE, EMPTY_USAGE, UsageBudget, addUsage, loadBudget, parseProjectUsage, recordCall, recordRun, saveBudget } from './services/usage';
+import { Repository, checkoutBranch, commitFiles, compareSnapshots, createBranch, openRepository, readSnapshot, removeBranch, tipOf, treeEdits } from './services/versionControl';
+import { EditorLayout, MAX_PANES, activePathOf, clearActive, closeTab, focusPane, openTab, parseEditorLayout, pruneTabs, renameTabs, reorderTabs, splitPane } from './services/editorLayout';
 
 const generateId = () => Math.random().toString(36).substr(2, 9);
 
-/**
- * Robustly extracts the FIRST valid balanced JSON object from a string.
- */
-const cleanJson = (text: string) => {
-  if (!text) return "";
-  const firstBrace = text.indexOf('{');
-  if (firstBrace === -1) return text;
-  
-  let stack = 0;
-  let inString = false;
-  let escaped = false;
-
-  for (let i = firstBrace; i < text.length; i++) {
-    const char = text[i];
-    if (char === '"' && !escaped) inString = !inString;
-    if (!inString) {
-      if (char === '{') stack++;
-      if (char === '}') {
-        stack--;
-        if (stack === 0) return text.substring(firstBrace, i + 1);
-      }
-    }
-    escaped = char === '\\' && !escaped;
-  }
-  const lastBrace = text.lastIndexOf('}');
-  if (lastBrace > firstBrace) return text.substring(firstBrace, lastBrace + 1);
-  return text;
-};
-
 const EXAMPLE_PROMPTS = [
   "Build a modern calculator",
   "Create a kanban board with resizable columns",
@@ -69,26 +70,24 @@ const EXAMPLE_PROMPTS = [
 ];
 
 const PREVIEW_REFRESH_MS = 250;
-const PREVIEW_NONCE = 'symbiotic-preview-nonce';
-const FAST_MODEL = 'models/gemini-1.5-flash-latest';
-const REASONING_MODEL = 'models/gemini-1.5-pro-latest';
+const TYPE_CHECK_DELAY_MS = 600;
+const THREAD_SAVE_DELAY_MS = 1000;
 
-const escapeHtml = (input: string) =>
-  input.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
-
-const sanitizeForPrompt = (value: string, maxLen = 6000) => {
-  if (!value) return '';
-  const cleaned = value.replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '').slice(0, maxLen);
-  return cleaned;
+const SKIP_REASONS: Record<SkippedFile['reason'], string> = {
+  ignored: 'ignored (node_modules, build output, .gitignore)',
+  binary: 'binary',
+  'too-large': `larger than ${MAX_IMPORT_FILE_BYTES / 1024} KB`,
 };
 
-const detectTemplateKey = (request: string): keyof typeof TEMPLATES | null => {
-  const lowerRequest = request.toLowerCase();
-  if (lowerRequest.includes('kanban')) return 'kanban';
-  if (lowerRequest.includes('calculator')) return 'calculator';
-  if (lowerRequest.includes('todo')) return 'todo';
-  if (lowerRequest.includes('login')) return 'login';
-  return null;
+/** One line per skip reason, listing a few of the paths. */
+const summarizeSkipped = (skipped: SkippedFile[]) => {
+  const lines = (Object.keys(SKIP_REASONS) as SkippedFile['reason'][]).flatMap(reason => {
+    const paths = skipped.filter(file => file.reason === reason).map(file => file.path);
+    if (paths.length === 0) return [];
+    const examples = reason === 'ignored' ? '' : `: ${paths.slice(0, 5).join(', ')}${paths.length > 5 ? ', ...' : ''}`;
+    return [`- ${paths.length} ${SKIP_REASONS[reason]}${examples}`];
+  });
+  return lines.length > 0 ? `\n\nSkipped:\n${lines.join('\n')}` : '';
 };
 
 /** Minimal shape of Gemini error payloads returned by the SDK. */
@@ -162,26 +161,6 @@ const formatAgentError = (error: unknown) => {
   return '';
 };
 
-const extractMarkup = (content: string) => {
-  const match = content.match(/return\s*\(([\s\S]*?)\)\s*;?/);
-  const normalize = (value: string) => {
-    const sanitized = value.replace(/className=/g, 'class=').trim();
-    return sanitized || `<pre style="padding:16px;font-family:monospace">${escapeHtml(content)}</pre>`;
-  };
-  if (match?.[1]) return normalize(match[1]);
-
-  const fragmentMatch = content.match(/return\s*<>\s*([\s\S]*?)\s*<\/>/);
-  if (fragmentMatch?.[1]) return normalize(fragmentMatch[1]);
-
-  const jsxStart = content.indexOf('<');
-  const jsxEnd = content.lastIndexOf('>');
-  if (jsxStart !== -1 && jsxEnd > jsxStart) {
-    return normalize(content.slice(jsxStart, jsxEnd + 1));
-  }
-
-  return `<pre style="padding:16px;font-family:monospace">${escapeHtml(content)}</pre>`;
-};
-
 const analyzeAppState = (content: string) => {
   const snapshot: Record<string, string> = {};
   const matches = [...content.matchAll(/const\s*\[\s*([\w$]+)[^\]]*\]\s*=\s*useState(?:<[^>]+>)?\(([^)]+)\)/g)];
@@ -191,78 +170,51 @@ const analyzeAppState = (content: string) => {
   return snapshot;
 };
 
-const buildPreviewDocument = (file: FileNode | null, snapshot: Record<string, string>) => {
-  if (!file?.content) return '';
-  const markup = extractMarkup(file.content);
-  const stateJson = JSON.stringify(snapshot || {});
-  return `
-  <!doctype html>
-  <html>
-    <head>
-      <meta charset="UTF-8" />
-      <meta name="viewport" content="width=device-width, initial-scale=1.0" />
-      <meta http-equiv="Content-Security-Policy" content="default-src 'self'; style-src 'self' 'nonce-${PREVIEW_NONCE}'; script-src 'self' 'nonce-${PREVIEW_NONCE}'; img-src data: 'self'">
-      <style nonce="${PREVIEW_NONCE}">
-        body { margin: 0; font-family: 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; background: #0b1021; color: #e2e8f0; }
-        .__symbiotic_state { position: fixed; bottom: 12px; right: 12px; background: rgba(15,23,42,0.85); color: #cbd5f5; padding: 10px 12px; border-radius: 12px; border: 1px solid rgba(148,163,184,0.4); font-size: 12px; max-width: 320px; }
-        .__symbiotic_state pre { margin: 6px 0 0; white-space: pre-wrap; word-break: break-word; }
-      </style>
-    </head>
-    <body>
-      <div id="app">${markup}</div>
-      <div class="__symbiotic_state">
-        <strong>Persisted state</strong>
-        <pre>${escapeHtml(stateJson)}</pre>
-      </div>
-      <script nonce="${PREVIEW_NONCE}">
-        try {
-          const saved = localStorage.getItem('symbiotic_app_state_data');
-          const fallback = ${stateJson};
-          const next = saved ? JSON.parse(saved) : fallback;
-          localStorage.setItem('symbiotic_app_state_data', JSON.stringify(next));
-          window.__SYMBIOTIC_STATE__ = next;
-          window.addEventListener('message', (event) => {
-            if (event?.origin && event.origin !== window.location.origin) return;
-            if (event?.data?.type === 'symbiotic_state_update') {
-              localStorage.setItem('symbiotic_app_state_data', JSON.stringify(event.data.payload));
-            }
-          });
-        } catch (err) {
-          console.warn('State hydration failed', err);
-        }
-      </script>
-    </body>
-  </html>`;
+/**
+ * Re-applies the last active file's content on load. Older saves only recorded a filename, so
+ * those still fall back to matching the first file with that name.
+ */
+const mergeAppContent = (nodes: FileNode[], persisted?: { path?: string; filename?: string; content?: string }) => {
+  if (!persisted?.content) return nodes;
+  const legacyMatch = persisted.filename
+    ? listEntries(nodes).find(({ node }) => node.type === 'file' && node.name.toLowerCase() === persisted.filename?.toLowerCase())
+    : undefined;
+  const path = persisted.path || legacyMatch?.path;
+  if (!path || !getFile(nodes, path)) return nodes;
+  return writeFile(nodes, path, persisted.content);
 };
 
-const mergeAppContent = (nodes: FileNode[], persisted?: { filename?: string; content?: string }) => {
-  if (!persisted?.content) return nodes;
-  return nodes.map(node => {
-    if (node.type === 'file') {
-      const isAppFile = node.name.toLowerCase().startsWith('app');
-      const matchesPersisted = persisted.filename ? node.name.toLowerCase() === persisted.filename.toLowerCase() : isAppFile;
-      if (matchesPersisted) {
-        return { ...node, content: persisted.content };
-      }
-      return node;
-    }
-    if (node.children) {
-      return { ...node, children: mergeAppContent(node.children, persisted) };
-    }
-    return node;
-  });
+/** First line of a request, shortened, to label the snapshot taken before its run. */
+const summarizeRequest = (text: string) => {
+  const line = text.trim().split('\n')[0];
+  return line.length > 60 ? `${line.slice(0, 59)}…` : line || '(image)';
 };
 
-const serializeProjectGraph = (nodes: FileNode[]): any[] => {
-  return nodes.map(node => ({
-    name: node.name,
-    type: node.type,
-    language: node.language,
-    children: node.children ? serializeProjectGraph(node.children) : undefined,
-  }));
+const serializeProjectGraph = (nodes: FileNode[]) =>
+  listEntries(nodes).map(({ path, node }) => ({ path, type: node.type, language: node.language }));
+
+/** The saved design library and brief; the tokens are the project's theme.json. */
+const parseDesignContext = (saved: string | undefined) => {
+  try {
+    const parsed = saved ? JSON.parse(saved) : null;
+    return {
+      library: typeof parsed?.library === 'string' && parsed.library ? parsed.library : DEFAULT_DESIGN_LIBRARY,
+      brief: typeof parsed?.brief === 'string' ? parsed.brief : '',
+    };
+  } catch {
+    return { library: DEFAULT_DESIGN_LIBRARY, brief: '' };
+  }
+};
+
+const parsePausedRun = (saved: string | undefined): PausedRun | null => {
+  try {
+    const parsed = saved ? JSON.parse(saved) : null;
+    return Array.isArray(parsed?.pausedAt) && Array.isArray(parsed.pipeline?.stages) && Array.isArray(parsed.files) ? parsed : null;
+  } catch {
+    return null;
+  }
 };
 
-const DEFAULT_DESIGN_LIBRARY = 'shadcn/ui';
 const DEFAULT_THEME_TOKENS = JSON.stringify({
   colors: {
     primary: '#6366f1',
@@ -340,10 +292,41 @@ const EmptyState = ({ onStart, onExampleClick, theme }: { onStart: () => void, o
   </div>
 );
 
-export default function App() {
+/** Undo history and unreviewed changes, kept in memory per project while the app stays open. */
+interface ProjectSession {
+  editHistory: EditHistory;
+  pendingChangeSets: PendingChangeSet[];
+}
+
+interface ProjectActions {
+  switchTo: (id: string) => void;
+  create: (template: ProjectTemplate) => void;
+  /** Creates a project from imported files and opens it. */
+  createFrom: (name: string, files: FileNode[]) => void;
+  /** Returns an error to show, or null once renamed. */
+  rename: (id: string, name: string) => string | null;
+  duplicate: (id: string) => void;
+  remove: (id: string) => void;
+}
+
+interface WorkspaceProps {
+  project: ProjectMeta;
+  projects: ProjectMeta[];
+  /** The project as read from storage, with notes about records that had to be recovered. */
+  data: LoadedProject;
+  session?: ProjectSession;
+  actions: ProjectActions;
+  onSaved: () => void;
+  /** Called on unmount with the state to restore when the project is reopened. */
+  onLeave: (session: ProjectSession) => void;
+}
+
+/** The IDE for one project. `App` remounts it (keyed by project id) to switch projects. */
+const Workspace: React.FC<WorkspaceProps> = ({ project, projects, data, session, actions, onSaved, onLeave }) => {
   const [theme, setTheme] = useState<Theme>(() => (localStorage.getItem('symbiotic_theme') as Theme) || 'dark');
-  const [activeTab, setActiveTab] = useState<'editor' | 'preview'>('editor');
-  const [rightTab, setRightTab] = useState<'chat' | 'tasks' | 'preview'>('chat');
+  /** `split` shows the editor panes and the preview side by side. */
+  const [activeTab, setActiveTab] = useState<'editor' | 'preview' | 'split'>('editor');
+  const [rightTab, setRightTab] = useState<'chat' | 'tasks' | 'changes' | 'preview'>('chat');
   const [mobileView, setMobileView] = useState<'files' | 'editor' | 'preview' | 'hub'>('editor');
   
   const [leftWidth, setLeftWidth] = useState(() => Number(localStorage.getItem('symbiotic_left_width')) || 280);
@@ -353,45 +336,95 @@ export default function App() {
   const isResizingBottom = useRef(false);
   const workspaceRef = useRef<HTMLDivElement | null>(null);
   const [bottomHeight, setBottomHeight] = useState(() => Number(localStorage.getItem('symbiotic_bottom_height')) || 220);
+  const [bottomPanel, setBottomPanel] = useState<'monitor' | 'problems'>('monitor');
 
   const [files, setFiles] = useState<FileNode[]>(() => {
     try {
-      const saved = localStorage.getItem('symbiotic_files');
-      const persistedApp = localStorage.getItem('symbiotic_app_state');
-      const parsedPersisted = persistedApp ? JSON.parse(persistedApp) : null;
-      const base = saved ? JSON.parse(saved) : INITIAL_FILES;
-      return mergeAppContent(base, parsedPersisted);
+      const persistedApp = data.items.app_state;
+      return mergeAppContent(data.files, persistedApp ? JSON.parse(persistedApp) : null);
     } catch (e) {
-      console.error("Corrupted local storage for files, resetting to default.", e);
-      return INITIAL_FILES;
+      console.error("Corrupted preview state, ignoring it.", e);
+      return data.files;
     }
   });
 
-  const [activeFile, setActiveFile] = useState<FileNode | null>(null);
+  const [editorLayout, setEditorLayout] = useState<EditorLayout>(() => parseEditorLayout(data.items.editor_layout));
+  const activeFilePath = activePathOf(editorLayout);
+  const setActiveFilePath = useCallback((path: string | null) => setEditorLayout(prev => path ? openTab(prev, path) : clearActive(prev)), []);
+  const activeFile = useMemo(() => getFile(files, activeFilePath), [files, activeFilePath]);
+  // Content as of the last save, per path; tabs whose file differs from it are marked dirty.
+  const [savedContents, setSavedContents] = useState<Record<string, string>>(() =>
+    Object.fromEntries(listFiles(files).map(({ path, node }) => [path, node.content ?? ''])));
+  const dirtyPaths = useMemo(
+    () => new Set(listFiles(files).filter(({ path, node }) => savedContents[path] !== (node.content ?? '')).map(({ path }) => path)),
+    [files, savedContents]
+  );
+  const [diagnostics, setDiagnostics] = useState<CodeDiagnostic[]>([]);
+  const diagnosticsByPath = useMemo(() => diagnostics.reduce<Record<string, CodeDiagnostic[]>>((byPath, diagnostic) => {
+    (byPath[diagnostic.path] ??= []).push(diagnostic);
+    return byPath;
+  }, {}), [diagnostics]);
+  const errorCount = diagnostics.filter(diagnostic => diagnostic.severity === 'error').length;
+  // Set by go-to-definition and the Problems panel; the editor showing `path` moves its cursor there.
+  const [reveal, setReveal] = useState<{ path: string; offset: number; at: number } | null>(null);
   const [zenMode, setZenMode] = useState(false);
   const [saveStatus, setSaveStatus] = useState<SaveStatus>('saved');
-  const [history, setHistory] = useState<{content: string, timestamp: number}[]>([]);
-  const [historyIndex, setHistoryIndex] = useState(-1);
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  // Failed writes (e.g. a full quota) and records recovered on load are reported here.
+  const [storageNotice, setStorageNotice] = useState<{ kind: 'error' | 'warning'; text: string } | null>(() =>
+    data.recovered.length > 0 ? { kind: 'warning', text: `Some saved data was damaged and has been recovered:\n- ${data.recovered.join('\n- ')}` } : null);
+  const [editHistory, setEditHistory] = useState<EditHistory>(session?.editHistory ?? {});
+  // The open thread's messages and tasks live in `messages` and `tasks`; `threads` catches up after each change.
+  const [threads, setThreads] = useState<ConversationThread[]>(() => {
+    const restored = sortThreads(data.threads.map(restoreThread));
+    return restored.length > 0 ? restored : [createThread(generateId())];
+  });
+  const [activeThreadId, setActiveThreadId] = useState(() =>
+    threads.some(thread => thread.id === data.items.active_thread) ? data.items.active_thread as string : threads[0].id);
+  const [messages, setMessages] = useState<ChatMessage[]>(() => threads.find(thread => thread.id === activeThreadId)?.messages ?? []);
   const [inputValue, setInputValue] = useState('');
-  const [selectedAgent, setSelectedAgent] = useState<TargetAgent>('team');
-  const [designTokens, setDesignTokens] = useState<string>(DEFAULT_THEME_TOKENS);
-  const [designLibrary, setDesignLibrary] = useState<string>(DEFAULT_DESIGN_LIBRARY);
-  const [designBrief, setDesignBrief] = useState<string>('');
-  const [pendingDeveloperContext, setPendingDeveloperContext] = useState<null | { userRequest: string; architectPlan: string; options: AgentOptions; design: { tokens: string; library: string; brief: string } }>(null);
-  const [designerPauseEnabled, setDesignerPauseEnabled] = useState(true);
-  const [tasks, setTasks] = useState<AgentTask[]>([]);
+  const [customPipelines, setCustomPipelines] = useState<PipelineDefinition[]>(() => loadCustomPipelines());
+  const [selectedPipelineId, setSelectedPipelineId] = useState<string>(() => localStorage.getItem('symbiotic_pipeline') || DEFAULT_PIPELINE_ID);
+  const [isPipelineEditorOpen, setIsPipelineEditorOpen] = useState(false);
+  // Tokens live in the project's theme.json, so each project keeps its own.
+  const [designTokens, setDesignTokens] = useState<string>(() => getFile(files, 'theme.json')?.content || DEFAULT_THEME_TOKENS);
+  const [designLibrary, setDesignLibrary] = useState<string>(() => parseDesignContext(data.items.design_context).library);
+  const [designBrief, setDesignBrief] = useState<string>(() => parseDesignContext(data.items.design_context).brief);
+  // Saved with the project, so a run paused at a hand-off can be resumed after a reload.
+  const [pausedRun, setPausedRun] = useState<PausedRun | null>(() => parsePausedRun(data.items.paused_run));
+  const [pausePointsEnabled, setPausePointsEnabled] = useState(true);
+  const [tasks, setTasks] = useState<AgentTask[]>(() => threads.find(thread => thread.id === activeThreadId)?.tasks ?? []);
+  const [pendingChangeSets, setPendingChangeSets] = useState<PendingChangeSet[]>(session?.pendingChangeSets ?? []);
+  const [reviewError, setReviewError] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [streamingDraft, setStreamingDraft] = useState<StreamingDraft | null>(null);
+  const streamingDraftRef = useRef<StreamingDraft | null>(null);
+  const agentAbortRef = useRef<AbortController | null>(null);
+  // Replies and change-sets of the run in flight, for the checkpoint taken when it ends.
+  const runReplies = useRef<string[]>([]);
+  const runChangeSets = useRef(new Map<string, PendingChangeSet>());
+  // Finished runs whose replies get their checkpoint once every change-set they proposed is reviewed.
+  const [awaitingReview, setAwaitingReview] = useState<{ request: string; replies: string[]; changeSetIds: string[] }[]>([]);
+  // Model calls of the run in flight, recorded with the project's recent runs when it ends.
+  const runUsage = useRef(EMPTY_USAGE);
+  // Agent events arrive from a run started several renders ago; they read the tree from here.
+  const filesRef = useRef(files);
+  filesRef.current = files;
   const [sidebarOpen, setSidebarOpen] = useState(true);
-  const [livePreviewDoc, setLivePreviewDoc] = useState<string>(() => localStorage.getItem('symbiotic_preview_doc') || '');
+  const [sidebarView, setSidebarView] = useState<'files' | 'search' | 'history' | 'usage'>('files');
+  const [searchFocusKey, setSearchFocusKey] = useState(0);
+  const lastReplaceRef = useRef<string | null>(null);
+  const [livePreviewDoc, setLivePreviewDoc] = useState<string>(() => data.items.preview_doc || '');
+  // The refresh reads the current document from here, so it does not have to depend on it.
+  const livePreviewDocRef = useRef(livePreviewDoc);
+  livePreviewDocRef.current = livePreviewDoc;
   const [previousPreviewDoc, setPreviousPreviewDoc] = useState<string | null>(null);
   const [lastPreviewRun, setLastPreviewRun] = useState<number | null>(() => {
-    const saved = localStorage.getItem('symbiotic_preview_time');
+    const saved = data.items.preview_time;
     return saved ? Number(saved) : null;
   });
   const [appStateSnapshot, setAppStateSnapshot] = useState<Record<string, string>>(() => {
     try {
-      const saved = localStorage.getItem('symbiotic_app_state');
+      const saved = data.items.app_state;
       return saved ? (JSON.parse(saved).snapshot || {}) : {};
     } catch {
       return {};
@@ -405,6 +438,13 @@ export default function App() {
     }
   });
   const [lastUserRequest, setLastUserRequest] = useState('');
+  const [repository, setRepository] = useState<Repository | null>(null);
+  // Files of the checked-out branch's latest commit; the history panel counts changes against them.
+  const [headFiles, setHeadFiles] = useState<FileNode[]>([]);
+  // A checkpoint the preview shows on its "before" side instead of the previous run.
+  const [previewBaseline, setPreviewBaseline] = useState<{ id: string; doc: string } | null>(null);
+  const repositoryRef = useRef<Repository | null>(null);
+  const historyQueue = useRef<Promise<unknown>>(Promise.resolve());
 
   // Auth & Settings State
   const [user, setUser] = useState<User | null>(() => {
@@ -417,6 +457,18 @@ export default function App() {
   });
   const [isAuthModalOpen, setIsAuthModalOpen] = useState(false);
   const [isSettingsModalOpen, setIsSettingsModalOpen] = useState(false);
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(() => loadProviderSettings());
+  const [projectUsage, setProjectUsage] = useState(() => parseProjectUsage(data.items.usage));
+  const [budget, setBudget] = useState<UsageBudget>(() => loadBudget());
+
+  const sessionRef = useRef<ProjectSession | null>(null);
+  sessionRef.current = { editHistory, pendingChangeSets };
+  useEffect(() => () => {
+    // Leaving the project stops its agent run; undo history and pending changes are handed back to `App`.
+    agentAbortRef.current?.abort();
+    flushThreads();
+    if (sessionRef.current) onLeave(sessionRef.current);
+  }, []);
 
   useEffect(() => {
     localStorage.setItem('symbiotic_theme', theme);
@@ -440,13 +492,101 @@ export default function App() {
     localStorage.setItem('symbiotic_user', JSON.stringify(updatedUser));
   };
 
-  const performSave = useCallback(() => {
-    localStorage.setItem('symbiotic_files', JSON.stringify(files));
-    if (activeFile) {
-      localStorage.setItem('symbiotic_app_state', JSON.stringify({ filename: activeFile.name, snapshot: appStateSnapshot, content: activeFile.content }));
+  const reportStorageError = useCallback(async (err: unknown) => {
+    const message = err instanceof Error ? err.message : String(err);
+    const usage = err instanceof StorageQuotaError ? await describeStorageUsage() : null;
+    setStorageNotice({ kind: 'error', text: usage ? `${message} (${usage} used)` : message });
+  }, []);
+
+  const persistItem = useCallback((item: ProjectItem, value: string) => {
+    saveProjectItem(project.id, item, value).catch(reportStorageError);
+  }, [project.id, reportStorageError]);
+
+  // Threads changed since they were last written.
+  const unsavedThreads = useRef(new Set<string>());
+  const threadSaveTimer = useRef<number | null>(null);
+  const threadsRef = useRef(threads);
+  threadsRef.current = threads;
+  const flushThreads = useCallback(() => {
+    if (threadSaveTimer.current !== null) window.clearTimeout(threadSaveTimer.current);
+    threadSaveTimer.current = null;
+    threadsRef.current.filter(thread => unsavedThreads.current.has(thread.id)).forEach(thread => {
+      saveThread(project.id, thread).catch(reportStorageError);
+    });
+    unsavedThreads.current.clear();
+  }, [project.id, reportStorageError]);
+
+  /** Runs history operations one at a time, each on the repository the previous one left. */
+  const updateRepository = useCallback((operation: (repo: Repository) => Promise<Repository>) => {
+    const run = historyQueue.current.then(async () => {
+      if (!repositoryRef.current) return;
+      const next = await operation(repositoryRef.current);
+      repositoryRef.current = next;
+      setRepository(next);
+    });
+    historyQueue.current = run.catch(() => undefined);
+    return run.catch(reportStorageError);
+  }, [reportStorageError]);
+
+  /**
+   * Commits `snapshot` (the files as they are now, by default) on the checked-out branch. Resolves
+   * with the commit's id, or null when it could not be stored.
+   */
+  const commitProject = useCallback(async (message: string, author: Commit['author'], snapshot = filesRef.current) => {
+    const created: { id: string | null } = { id: null };
+    await updateRepository(async repo => {
+      const { repo: next, commit } = await commitFiles(repo, snapshot, message, author);
+      setHeadFiles(snapshot);
+      created.id = commit.id;
+      return next;
+    });
+    return created.id;
+  }, [updateRepository]);
+
+  // A run's "after" checkpoint is the project once its proposals were accepted or rejected, not the proposals themselves.
+  useEffect(() => {
+    const reviewed = awaitingReview.filter(run => !pendingChangeSets.some(set => run.changeSetIds.includes(set.id)));
+    if (reviewed.length === 0) return;
+    setAwaitingReview(prev => prev.filter(run => !reviewed.includes(run)));
+    reviewed.forEach(({ request, replies }) => {
+      commitProject(`After agent run: ${summarizeRequest(request)}`, 'agent').then(id => {
+        if (id) setMessages(prev => prev.map(message => replies.includes(message.id) ? { ...message, checkpoint: id } : message));
+      });
+    });
+  }, [awaitingReview, pendingChangeSets, commitProject]);
+
+  useEffect(() => {
+    historyQueue.current = openRepository(project.id, data.items.vcs_head)
+      .then(async repo => {
+        const tip = tipOf(repo);
+        const snapshot = filesRef.current;
+        // A project without history starts it with its current files.
+        const opened = tip ? repo : (await commitFiles(repo, snapshot, 'Initial snapshot', 'user')).repo;
+        setHeadFiles(tip ? await readSnapshot(repo, tip) : snapshot);
+        repositoryRef.current = opened;
+        setRepository(opened);
+      })
+      .catch(reportStorageError);
+  }, []);
+
+  /** Writes the changed files to storage; resolves false (and shows why) when that failed. */
+  const performSave = useCallback(async () => {
+    try {
+      await saveProjectFiles(project.id, files);
+      if (activeFile) {
+        await saveProjectItem(project.id, 'app_state', JSON.stringify({ path: activeFilePath, snapshot: appStateSnapshot, content: activeFile.content }));
+      }
+    } catch (err) {
+      setSaveStatus('unsaved');
+      await reportStorageError(err);
+      return false;
     }
+    setSavedContents(Object.fromEntries(listFiles(files).map(({ path, node }) => [path, node.content ?? ''])));
     setSaveStatus('saved');
-  }, [files, activeFile, appStateSnapshot]);
+    setStorageNotice(notice => notice?.kind === 'error' ? null : notice);
+    onSaved();
+    return true;
+  }, [project.id, files, activeFile, activeFilePath, appStateSnapshot, onSaved, reportStorageError]);
 
   useEffect(() => {
     if (saveStatus === 'saving') {
@@ -461,6 +601,12 @@ export default function App() {
         e.preventDefault();
         performSave();
       }
+      if ((e.ctrlKey || e.metaKey) && e.shiftKey && e.key.toLowerCase() === 'f') {
+        e.preventDefault();
+        setSidebarOpen(true);
+        setSidebarView('search');
+        setSearchFocusKey(key => key + 1);
+      }
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
@@ -475,23 +621,17 @@ export default function App() {
   }, [files]);
 
   useEffect(() => {
-    if (!designTokens) return;
-    setFiles(prev => {
-      let updated = false;
-      const next = prev.map(node => {
-        if (node.type === 'file' && node.name === 'theme.json') {
-          updated = true;
-          return { ...node, content: designTokens };
-        }
-        return node;
-      });
-      if (!updated) {
-        next.push({ name: 'theme.json', type: 'file', language: 'json', content: designTokens });
-      }
-      return next;
-    });
+    if (!designTokens || getFile(filesRef.current, 'theme.json')?.content === designTokens) return;
+    setFiles(prev => writeFile(prev, 'theme.json', designTokens));
+    setSaveStatus('saving');
   }, [designTokens]);
 
+  // Accepted proposals, undo and restores change theme.json behind the tokens editor.
+  const themeContent = getFile(files, 'theme.json')?.content;
+  useEffect(() => {
+    if (themeContent !== undefined) setDesignTokens(themeContent);
+  }, [themeContent]);
+
   useEffect(() => {
     const handleMouseMove = (e: MouseEvent) => {
       if (isResizingLeft.current) {
@@ -530,156 +670,451 @@ export default function App() {
   const toggleZenMode = () => {
     setZenMode(prev => {
       if (!prev) {
-        setActiveTab('preview');
+        showPreview();
         setMobileView('preview');
       }
       return !prev;
     });
   };
 
-  const refreshLivePreview = useCallback((file?: FileNode | null) => {
-    const target = file ?? activeFile;
+  const refreshLivePreview = useCallback(() => {
+    const target = activeFile;
     if (!target) return;
     const snapshot = analyzeAppState(target.content || '');
     setAppStateSnapshot(snapshot);
-    const doc = buildPreviewDocument(target, snapshot);
-    setPreviousPreviewDoc(livePreviewDoc || null);
+    const doc = buildPreviewDocument(files, activeFilePath);
+    setPreviousPreviewDoc(livePreviewDocRef.current || null);
     setLivePreviewDoc(doc);
     const now = Date.now();
     setLastPreviewRun(now);
-    localStorage.setItem('symbiotic_preview_doc', doc);
-    localStorage.setItem('symbiotic_preview_time', String(now));
-    localStorage.setItem('symbiotic_app_state', JSON.stringify({ filename: target.name, snapshot, content: target.content }));
-  }, [activeFile]);
+    persistItem('preview_doc', doc);
+    persistItem('preview_time', String(now));
+    persistItem('app_state', JSON.stringify({ path: activeFilePath, snapshot, content: target.content }));
+  }, [persistItem, activeFile, activeFilePath, files]);
 
   useEffect(() => {
     if (!activeFile) return;
-    const timer = setTimeout(() => refreshLivePreview(activeFile), PREVIEW_REFRESH_MS);
+    const timer = setTimeout(refreshLivePreview, PREVIEW_REFRESH_MS);
     return () => clearTimeout(timer);
-  }, [activeFile, activeFile?.content, refreshLivePreview]);
+  }, [activeFile, refreshLivePreview]);
 
   useEffect(() => {
     if (!activeFile) return;
-    localStorage.setItem('symbiotic_app_state', JSON.stringify({ filename: activeFile.name, snapshot: appStateSnapshot, content: activeFile.content }));
-  }, [activeFile, appStateSnapshot]);
+    persistItem('app_state', JSON.stringify({ path: activeFilePath, snapshot: appStateSnapshot, content: activeFile.content }));
+  }, [persistItem, activeFile, activeFilePath, appStateSnapshot]);
 
-  const updateFileContent = useCallback((newContent: string) => {
-    if (!activeFile) return;
-    setHistory(prev => [...prev.slice(0, historyIndex + 1), { content: newContent, timestamp: Date.now() }]);
-    setHistoryIndex(prev => prev + 1);
-    const updatedFile = { ...activeFile, content: newContent };
-    setActiveFile(updatedFile);
+  useEffect(() => {
+    setEditorLayout(prev => pruneTabs(prev, path => getFile(files, path) !== null));
+  }, [files]);
+
+  useEffect(() => {
+    persistItem('editor_layout', JSON.stringify(editorLayout));
+  }, [persistItem, editorLayout]);
+
+  useEffect(() => {
+    persistItem('design_context', JSON.stringify({ library: designLibrary, brief: designBrief }));
+  }, [persistItem, designLibrary, designBrief]);
+
+  useEffect(() => {
+    persistItem('paused_run', JSON.stringify(pausedRun));
+  }, [persistItem, pausedRun]);
+
+  useEffect(() => {
+    persistItem('usage', JSON.stringify(projectUsage));
+  }, [persistItem, projectUsage]);
+
+  useEffect(() => {
+    persistItem('active_thread', activeThreadId);
+  }, [persistItem, activeThreadId]);
+
+  useEffect(() => {
+    const active = threadsRef.current.find(thread => thread.id === activeThreadId);
+    if (!active || (active.messages === messages && active.tasks === tasks)) return;
+    unsavedThreads.current.add(active.id);
+    setThreads(prev => prev.map(thread => thread.id === active.id ? updateThread(thread, messages, tasks) : thread));
+  }, [messages, tasks]);
+
+  // Streaming replies change the thread many times a second; it is written at most once per delay.
+  useEffect(() => {
+    if (unsavedThreads.current.size === 0 || threadSaveTimer.current !== null) return;
+    threadSaveTimer.current = window.setTimeout(flushThreads, THREAD_SAVE_DELAY_MS);
+  }, [threads, flushThreads]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      checkProject(files).then(setDiagnostics).catch(err => console.error('Type check failed', err));
+    }, TYPE_CHECK_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [files]);
+
+  const updateFileContent = useCallback((path: string, newContent: string) => {
+    setEditHistory(prev => recordEdits(prev, [{ path, before: contentAt(files, path), after: newContent }], { kind: 'typing' }));
     setSaveStatus('saving');
-    setFiles(prev => prev.map(f => f.children ? { ...f, children: f.children.map(c => c.name === activeFile.name ? updatedFile : c) } : (f.name === activeFile.name ? updatedFile : f)));
-  }, [activeFile, historyIndex]);
-
-  const runCriticStage = async (ai: GoogleGenAI, code: string, design: { tokens: string; library: string; brief: string }, architectPlan: string, userRequest: string) => {
-    const criticTaskId = generateId();
-    setTasks(prev => [...prev, { id: criticTaskId, title: "Critic Review", status: 'active', assignedTo: 'critic' }]);
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: `You are the critic. Compare the generated code with the plan and design tokens. 
-Design tokens: ${sanitizeForPrompt(design.tokens)}
-Library: ${sanitizeForPrompt(design.library)}
-Brief: ${sanitizeForPrompt(design.brief)}
-Plan: ${sanitizeForPrompt(architectPlan)}
-User request: ${sanitizeForPrompt(userRequest)}
-Current preview markup (after run): ${sanitizeForPrompt(livePreviewDoc || '')}
-Previous preview markup (before run): ${sanitizeForPrompt(previousPreviewDoc || 'none')}
-
-List visual defects, missing imports, or violations of the no-placeholder rule. Provide a concise summary and a small patch if needed.`,
-      config: {
-        systemInstruction: "Reviewer. If quality is low, send explicit fixes back to the coder. Keep feedback tight.",
-        tools: undefined
-      }
-    });
-    setMessages(prev => [...prev, { id: generateId(), sender: 'agent', agentRole: 'critic', text: response.text || 'Critic review complete.', timestamp: new Date() }]);
-    setTasks(prev => prev.map(t => t.id === criticTaskId ? { ...t, status: 'completed' } : t));
+    setFiles(prev => writeFile(prev, path, newContent));
+  }, [files]);
+
+  /** Records agent changes applied to the project; a group is undone as one step. */
+  const recordAgentEdits = (before: FileNode[], after: FileNode[], paths: string[], group: string) => {
+    const edits: FileEdit[] = [...new Set(paths)].map(path => ({ path, before: contentAt(before, path), after: contentAt(after, path) }));
+    setEditHistory(prev => recordEdits(prev, edits, { kind: 'agent', group }));
   };
 
-  const runDeveloperStage = async (params: { userRequest: string; architectPlan: string; design: { tokens: string; library: string; brief: string }; options: AgentOptions; templateKey: keyof typeof TEMPLATES | null; ai: GoogleGenAI; }) => {
-    const { userRequest, architectPlan, design, options, templateKey, ai } = params;
-    const taskId = generateId();
-    setTasks(prev => [...prev, { id: taskId, title: "Implementation", status: 'active', assignedTo: 'developer' }]);
-    
-    let generatedCode = "";
-    let filename = "Component.tsx";
-    let explanation = "Built component.";
-
-    if (templateKey && !options.useThinking && !options.useSearch) {
-      const template = TEMPLATES[templateKey];
-      generatedCode = template.content;
-      filename = template.filename;
-    } else {
-      const response = await ai.models.generateContent({
-        model: options.useThinking ? 'gemini-3-pro-preview' : 'gemini-3-flash-preview',
-        contents: `Build a React component using Tailwind and lucide-react. 
-Plan: ${architectPlan}. 
-Design library: ${sanitizeForPrompt(design.library)}. Theme tokens: ${sanitizeForPrompt(design.tokens)}.
-Brief: ${sanitizeForPrompt(design.brief)}
-Project graph: ${sanitizeForPrompt(projectGraph)}
-Request: ${userRequest}. 
-
-Rules:
-- CRITICAL: Do not use placeholder comments like "// ...rest of code". Emit full, working code.
-- Verify imports exist in the project graph; if missing, include the module in the same file.
-- Prefer atomic components (Logo/Nav/UserMenu) over one massive file. If too large, request to split but still provide working code.
-- Use the chosen component library primitives instead of raw CSS.
-- Use RAG: cite exact import syntax from documentation (shadcn/ui, Radix UI or Chakra UI).
-- If building a Kanban board, implement resizable columns with a drag handle and dnd-kit. Make DragOverlay visually distinct (shadow-2xl, scale-105, border-blue-500).
-- Persist design tokens by referencing theme.json when defining styles.
-Return ONLY valid JSON.`,
-        config: { 
-          responseMimeType: "application/json", 
-          systemInstruction: "Senior React Developer. You MUST return ONLY a single JSON object. Do not include any text before or after the JSON block. Format: { \"filename\": string, \"content\": string, \"explanation\": string }. CRITICAL: no placeholders or truncated code.",
-          thinkingConfig: options.useThinking ? { thinkingBudget: 32768 } : undefined,
-          tools: options.useSearch ? [] : undefined
-        }
-      });
-      
-      try {
-        const rawJson = cleanJson(response.text || "{}");
-        const json = JSON.parse(rawJson);
-        generatedCode = json.content || "// Error generating code";
-        filename = json.filename || "Component.tsx";
-        explanation = json.explanation || "Implementation complete.";
-      } catch (parseErr) {
-        console.error("Failed to parse developer response", parseErr, response.text);
-        generatedCode = `// Extraction Error: Failed to parse code output. Check Console.`;
-        explanation = "Developer agent encountered a JSON formatting error. I've attempted to recover, but the code block may be partial.";
-      }
-    }
+  const stepHistory = (step: typeof undoEdit, path: string | null) => {
+    if (!path) return;
+    const result = step(editHistory, path);
+    if (!result) return;
+    setEditHistory(result.history);
+    setFiles(prev => applyHistoryWrites(prev, result.writes));
+    setSaveStatus('saving');
+  };
 
-    const newFile: FileNode = { name: filename, type: 'file', language: 'typescript', content: generatedCode, isNew: true };
-    setFiles(prev => {
-      const next = [...prev];
-      const srcFolder = next.find(f => f.name === 'src' && f.type === 'folder');
-      if (srcFolder && srcFolder.children) {
-        srcFolder.children = srcFolder.children.filter(f => f.name !== filename);
-        srcFolder.children.push(newFile);
-      } else {
-        next.push(newFile);
+  /** Replaces the whole tree with a snapshot's files; undo brings the previous files back. */
+  const restoreFiles = (target: FileNode[]) => {
+    const edits = treeEdits(filesRef.current, target);
+    if (edits.length > 0) setEditHistory(prev => recordEdits(prev, edits, { kind: 'restore', group: `restore-${generateId()}` }));
+    setFiles(target);
+    setSaveStatus('saving');
+  };
+
+  const confirmDiscard = (action: string) =>
+    treeEdits(headFiles, files).length === 0 || window.confirm(`${action} replaces files changed since the last commit. Undo can bring them back. Continue?`);
+
+  const checkoutHistoryBranch = (branch: string) => {
+    if (!confirmDiscard(`Checking out "${branch}"`)) return;
+    updateRepository(async repo => {
+      const next = await checkoutBranch(repo, branch);
+      const tip = tipOf(next);
+      // A branch without commits keeps the current files as its starting point.
+      const target = tip ? await readSnapshot(next, tip) : filesRef.current;
+      restoreFiles(target);
+      setHeadFiles(target);
+      return next;
+    });
+  };
+
+  const createHistoryBranch = (name: string, commitId: string | null) => {
+    const branchesFromTip = commitId === repositoryRef.current?.branches[repositoryRef.current.head];
+    if (!branchesFromTip && !confirmDiscard('Branching from an earlier commit')) return;
+    updateRepository(async repo => {
+      const next = await createBranch(repo, name, commitId);
+      const tip = tipOf(next);
+      if (!branchesFromTip && tip) {
+        const target = await readSnapshot(next, tip);
+        restoreFiles(target);
+        setHeadFiles(target);
       }
       return next;
     });
-    setActiveFile(newFile);
-    setActiveTab('preview');
+  };
+
+  const restoreCommit = (commit: Commit) => {
+    updateRepository(async repo => {
+      restoreFiles(await readSnapshot(repo, commit));
+      return repo;
+    });
+  };
+
+  const checkpoints = useMemo(() => threadCheckpoints(messages), [messages]);
+
+  const uncommittedCount = useMemo(
+    () => repository && sidebarView === 'history' ? treeEdits(headFiles, files).length : 0,
+    [repository, sidebarView, headFiles, files]
+  );
+
+  /** Replaces across the project as one undoable step; returns how many files changed. */
+  const replaceAcrossProject = (options: SearchOptions, replacement: string) => {
+    const result = replaceInProject(files, options, replacement);
+    if (result.edits.length === 0) return 0;
+    setEditHistory(prev => recordEdits(prev, result.edits, { kind: 'replace', group: `replace-${generateId()}` }));
+    setFiles(result.files);
+    setSaveStatus('saving');
+    lastReplaceRef.current = result.edits[0].path;
+    return result.edits.length;
+  };
+
+  /** Switches to the preview unless it is already visible next to the editor. */
+  const showPreview = () => setActiveTab(tab => tab === 'split' ? tab : 'preview');
+
+  const updatePendingFile = (setId: string, path: string, update: (change: PendingFileChange) => PendingFileChange | null) => {
+    setPendingChangeSets(prev => prev
+      .map(set => set.id !== setId ? set : {
+        ...set,
+        files: set.files.flatMap(change => {
+          if (change.path !== path) return [change];
+          const next = update(change);
+          return next ? [next] : [];
+        }),
+      })
+      .filter(set => set.files.length > 0));
+  };
+
+  const focusAcceptedFiles = (changes: PendingFileChange[]) => {
+    const focus = changes.find(change => change.after !== null && isScriptPath(change.path)) ?? changes.find(change => change.after !== null);
+    if (!focus) return;
+    setActiveFilePath(focus.path);
+    showPreview();
     setMobileView('preview');
-    setMessages(prev => [...prev, { id: generateId(), sender: 'agent', agentRole: 'developer', text: explanation, timestamp: new Date() }]);
-    setTasks(prev => prev.map(t => t.id === taskId ? { ...t, status: 'completed' } : t));
-    await runCriticStage(ai, generatedCode, design, architectPlan, userRequest);
   };
 
-  const handleSendMessage = async (target: TargetAgent, options: AgentOptions) => {
-    if (!inputValue.trim() && !options.image) return;
-    const apiKey = import.meta.env.RESOLVED_GEMINI_API_KEY;
-    if (!apiKey) {
-      const keyList = GEMINI_KEY_ENV_ORDER.join(' or ');
-      setMessages(prev => [...prev, { id: generateId(), sender: 'system', text: `Missing Gemini API key. Add ${keyList} to your .env.local file.`, timestamp: new Date() }]);
-      setIsProcessing(false);
+  const acceptPendingChange = (setId: string, path: string, hunkIndex?: number) => {
+    const change = pendingChangeSets.find(set => set.id === setId)?.files.find(candidate => candidate.path === path);
+    if (!change) return;
+    try {
+      const next = acceptFileChange(files, change, hunkIndex === undefined ? undefined : [hunkIndex]);
+      recordAgentEdits(files, next, [path], `accept-${setId}-${Date.now()}`);
+      setFiles(next);
+    } catch (err) {
+      setReviewError(`Could not apply ${path}: ${err instanceof Error ? err.message : String(err)}`);
+      return;
+    }
+    setReviewError(null);
+    setSaveStatus('saving');
+    updatePendingFile(setId, path, current => hunkIndex === undefined ? null : removeHunk(current, hunkIndex));
+    if (hunkIndex === undefined) focusAcceptedFiles([change]);
+  };
+
+  const rejectPendingChange = (setId: string, path: string, hunkIndex?: number) => {
+    setReviewError(null);
+    updatePendingFile(setId, path, current => hunkIndex === undefined ? null : removeHunk(current, hunkIndex));
+  };
+
+  const acceptAllPendingChanges = () => {
+    const changes = pendingChangeSets.flatMap(set => set.files);
+    let next = files;
+    try {
+      // All or nothing: a single conflicting file leaves the whole proposal pending.
+      changes.forEach(change => { next = acceptFileChange(next, change); });
+    } catch (err) {
+      setReviewError(`Nothing was applied: ${err instanceof Error ? err.message : String(err)}`);
+      return;
+    }
+    recordAgentEdits(files, next, changes.map(change => change.path), `accept-all-${Date.now()}`);
+    setFiles(next);
+    setSaveStatus('saving');
+    setPendingChangeSets([]);
+    setReviewError(null);
+    focusAcceptedFiles(changes);
+  };
+
+  const rejectAllPendingChanges = () => {
+    setPendingChangeSets([]);
+    setReviewError(null);
+  };
+
+  const openFile = (path: string, paneIndex?: number) => {
+    setEditorLayout(prev => openTab(prev, path, paneIndex));
+    if (getFile(files, path)?.changeStatus) {
+      setFiles(prev => updateNode(prev, path, { changeStatus: undefined }));
+    }
+  };
+
+  /** Applies a file operation from the explorer; returns its error instead of throwing. */
+  const changeTree = (update: (nodes: FileNode[]) => FileNode[]) => {
+    try {
+      setFiles(update(files));
+      setSaveStatus('saving');
+      return null;
+    } catch (err) {
+      return err instanceof Error ? err.message : String(err);
+    }
+  };
+
+  const createEntry = (path: string, type: 'file' | 'folder') => {
+    const error = changeTree(nodes => type === 'file' ? createFile(nodes, path) : createFolder(nodes, path));
+    if (!error && type === 'file') setActiveFilePath(path);
+    return error;
+  };
+
+  /** Renames, moves or reorders; open tabs and undo history follow the moved paths. */
+  const moveEntry = (from: string, to: string, before?: string) => {
+    const error = changeTree(nodes => moveNode(nodes, from, to, before));
+    if (!error && from !== to) {
+      setEditorLayout(prev => renameTabs(prev, from, to));
+      setEditHistory(prev => renameHistory(prev, from, to));
+    }
+    return error;
+  };
+
+  const duplicateEntry = (path: string) => {
+    const target = copyPath(files, path);
+    const error = changeTree(nodes => copyNode(nodes, path, target));
+    if (error) window.alert(error);
+    else if (getFile(files, path)) setActiveFilePath(target);
+  };
+
+  const deleteEntry = (path: string) => {
+    const error = changeTree(nodes => deleteNode(nodes, path));
+    if (error) window.alert(error);
+  };
+
+  const exportProject = () => {
+    downloadFile(exportProjectZip(files, project.name), `${projectSlug(project.name)}.zip`);
+  };
+
+  /** Saves the open project before another one is opened (or copied). */
+  const leaveProject = async (action: () => void) => {
+    if (!(await performSave()) && !window.confirm('This project could not be saved. Leave it anyway? Its latest changes will be lost.')) return;
+    action();
+  };
+
+  /** Opens an imported zip or folder as a new project. */
+  const importProject = async (source: 'zip' | 'folder') => {
+    try {
+      const imported = await (source === 'zip' ? pickZipProject() : pickFolderProject());
+      if (!imported) return;
+      const skipped = summarizeSkipped(imported.skipped);
+      if (listFiles(imported.files).length === 0) {
+        window.alert(`"${imported.name}" has no text files to import.${skipped}`);
+        return;
+      }
+      if (skipped) window.alert(`Importing "${imported.name}" as a new project.${skipped}`);
+      leaveProject(() => actions.createFrom(imported.name, imported.files));
+    } catch (err) {
+      window.alert(`Import failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const revealLocation = (path: string, offset: number, paneIndex?: number) => {
+    openFile(path, paneIndex);
+    setReveal({ path, offset, at: Date.now() });
+  };
+
+  const goToDefinition = (path: string, position: number, paneIndex: number) => {
+    findDefinition(filesRef.current, path, position)
+      .then(location => { if (location) revealLocation(location.path, location.offset, paneIndex); })
+      .catch(err => console.error('Go to definition failed', err));
+  };
+
+  const pendingActions = useMemo(
+    () => Object.fromEntries(pendingChangeSets.flatMap(set => set.files.map(change => [change.path, change.action]))),
+    [pendingChangeSets]
+  );
+  const pendingFileCount = pendingChangeSets.reduce((total, set) => total + set.files.length, 0);
+
+  /** Applies orchestrator events to the UI state. */
+  const handleAgentEvent = (event: AgentEvent) => {
+    switch (event.type) {
+      case 'task-started':
+        setTasks(prev => [...prev, event.task]);
+        break;
+      case 'task-finished':
+        setTasks(prev => prev.map(t => t.id === event.taskId ? { ...t, status: event.status, description: event.description ?? t.description } : t));
+        break;
+      case 'message':
+        runReplies.current.push(event.message.id);
+        setMessages(prev => [...prev, event.message]);
+        break;
+      case 'message-updated':
+        setMessages(prev => prev.map(m => m.id === event.messageId ? { ...m, ...event.patch } : m));
+        break;
+      case 'design':
+        // The tokens arrive as a proposed theme.json and reach the editor once that is accepted.
+        setDesignLibrary(event.design.library);
+        setDesignBrief(event.design.brief);
+        break;
+      case 'draft':
+        if (event.draft && !streamingDraftRef.current) setActiveTab(tab => tab === 'preview' ? 'editor' : tab);
+        streamingDraftRef.current = event.draft;
+        setStreamingDraft(event.draft);
+        break;
+      case 'change-proposed':
+        // Later developer passes in the same run re-propose the whole set under the same id.
+        runChangeSets.current.set(event.changeSet.id, event.changeSet);
+        setPendingChangeSets(prev => prev.some(set => set.id === event.changeSet.id)
+          ? prev.map(set => set.id === event.changeSet.id ? event.changeSet : set)
+          : [...prev, event.changeSet]);
+        setReviewError(null);
+        setRightTab('changes');
+        break;
+      case 'usage':
+        runUsage.current = addUsage(runUsage.current, event.usage);
+        setTasks(prev => prev.map(t => t.id === event.taskId ? { ...t, usage: addUsage(t.usage ?? EMPTY_USAGE, event.usage) } : t));
+        setProjectUsage(prev => recordCall(prev, event.agentRole, event.model, event.usage));
+        break;
+    }
+  };
+
+  const startAgentRun = () => {
+    const controller = new AbortController();
+    agentAbortRef.current = controller;
+    runReplies.current = [];
+    runChangeSets.current = new Map();
+    runUsage.current = EMPTY_USAGE;
+    setIsProcessing(true);
+    return controller;
+  };
+
+  /** Ends a run; its replies are linked to a snapshot of the project once its proposed changes have been reviewed. */
+  const finishAgentRun = (controller: AbortController, request: string) => {
+    if (agentAbortRef.current === controller) agentAbortRef.current = null;
+    setIsProcessing(false);
+    const usage = runUsage.current;
+    if (usage.calls > 0) setProjectUsage(prev => recordRun(prev, summarizeRequest(request), usage));
+    setAwaitingReview(prev => [...prev, { request, replies: runReplies.current, changeSetIds: [...runChangeSets.current.keys()] }]);
+  };
+
+  const cancelAgentRun = () => {
+    agentAbortRef.current?.abort();
+  };
+
+  const reportAgentError = (e: unknown, controller: AbortController, provider: LlmProvider) => {
+    if (controller.signal.aborted) {
+      setMessages(prev => [...prev, { id: generateId(), sender: 'system', text: 'Run cancelled. Partial responses were kept.', timestamp: new Date() }]);
       return;
     }
-    const ai = new GoogleGenAI({ apiKey });
+    console.error(e);
+    const detail = formatAgentError(e);
+    const errorMessage = detail ? `Error connecting to agents: ${detail}` : "Error connecting to agents. Mission aborted.";
+    setMessages(prev => [...prev, { id: generateId(), sender: 'system', text: `${errorMessage} Please verify your ${provider.label} settings and network access.`, timestamp: new Date() }]);
+  };
+
+  /** Keeps a paused or failed run for Resume Pipeline; a failed one is reported with what resuming will retry. */
+  const settleRun = (result: PipelineResult, controller: AbortController, provider: LlmProvider) => {
+    setPausedRun(result.paused);
+    if (!result.paused?.failed) return;
+    if (result.error !== undefined) reportAgentError(result.error, controller, provider);
+    const stages = result.paused.pausedAt.join(', ');
+    setMessages(prev => [...prev, { id: generateId(), sender: 'system', text: `The run stopped at ${stages}. Output of the stages that finished is kept; Resume Pipeline retries from ${stages}.`, timestamp: new Date() }]);
+  };
+
+  /** Builds the configured model provider, reporting misconfiguration in the chat instead of throwing. */
+  const connectProvider = (): LlmProvider | null => {
+    try {
+      return createProvider(providerSettings);
+    } catch (err) {
+      const detail = err instanceof Error ? err.message : String(err);
+      setMessages(prev => [...prev, { id: generateId(), sender: 'system', text: detail, timestamp: new Date() }]);
+      return null;
+    }
+  };
+
+  const handleUpdateProviderSettings = (settings: ProviderSettings) => {
+    setProviderSettings(settings);
+    saveProviderSettings(settings);
+  };
+
+  const updateBudget = (next: UsageBudget) => {
+    setBudget(next);
+    saveBudget(next);
+  };
+
+  const pipelines = useMemo(() => [...BUILT_IN_PIPELINES, ...customPipelines], [customPipelines]);
+
+  const selectPipeline = (id: string) => {
+    setSelectedPipelineId(id);
+    localStorage.setItem('symbiotic_pipeline', id);
+  };
+
+  const handleSavePipelines = (next: PipelineDefinition[], selectedId: string) => {
+    setCustomPipelines(next);
+    saveCustomPipelines(next);
+    selectPipeline(selectedId);
+  };
+
+  const handleSendMessage = async (pipelineId: string, options: AgentOptions) => {
+    if (!inputValue.trim() && !options.image) return;
+    const provider = connectProvider();
+    if (!provider) return;
     const userMsg: ChatMessage = { 
       id: generateId(), 
       sender: 'user', 
@@ -689,189 +1124,54 @@ Return ONLY valid JSON.`,
     };
     setMessages(prev => [...prev, userMsg]);
     setInputValue('');
-    setIsProcessing(true);
+    commitProject(`Before agent run: ${summarizeRequest(userMsg.text)}`, 'agent', files).then(id => {
+      if (id) setMessages(prev => prev.map(message => message.id === userMsg.id ? { ...message, checkpoint: id } : message));
+    });
+    const controller = startAgentRun();
 
     const userRequest = sanitizeForPrompt(userMsg.text);
     setLastUserRequest(userRequest);
-    const templateKey = detectTemplateKey(userRequest);
 
     try {
-      let shouldPauseForEdit = false;
-      let designContext = { tokens: designTokens, library: designLibrary || DEFAULT_DESIGN_LIBRARY, brief: designBrief };
-      if (target === 'team' || target === 'designer') {
-        const taskId = generateId();
-        setTasks(prev => [...prev, { id: taskId, title: "Design System Draft", status: 'active', assignedTo: 'designer' }]);
-        const response = await ai.models.generateContent({
-          model: options.useThinking ? 'gemini-3-pro-preview' : 'gemini-3-flash-preview',
-          contents: `You are the Visual Designer. Study the request and return a JSON with { "library": one of ["shadcn/ui","chakra-ui","radix-ui"], "tokens": { colors, spacing, typography, radii, shadows }, "brief": short guidance on layouts and states }. Do NOT guess raw CSS; pick from the libraries. If possible, base palette on existing preview markup. Request: ${userRequest}
-Existing preview doc (acts like a screenshot): ${sanitizeForPrompt(livePreviewDoc || 'not available', 4000)}`,
-          config: { 
-            responseMimeType: "application/json",
-            systemInstruction: "Visual Designer with VLM awareness. First emit a design token theme.json (colors, spacing, typography). Pre-seed with a component library (shadcn/ui default). Enforce atomic components and consistent scales. Never use placeholder text.",
-            thinkingConfig: options.useThinking ? { thinkingBudget: 32768 } : undefined,
-            tools: options.useSearch ? [] : undefined
-          }
-        });
-        try {
-          const rawJson = cleanJson(response.text || "{}");
-          const parsed = JSON.parse(rawJson);
-          const tokens = typeof parsed.tokens === 'string' ? parsed.tokens : JSON.stringify(parsed.tokens || {}, null, 2);
-          const library = parsed.library || DEFAULT_DESIGN_LIBRARY;
-          const brief = parsed.brief || 'Use consistent spacing and card system.';
-          designContext = { tokens, library, brief };
-          setDesignTokens(tokens);
-          setDesignLibrary(library);
-          setDesignBrief(brief);
-          const themeFile: FileNode = { name: 'theme.json', type: 'file', language: 'json', content: tokens };
-          setFiles(prev => {
-            const next = [...prev];
-            const existing = next.find(f => f.name === 'theme.json');
-            if (existing && existing.type === 'file') {
-              existing.content = tokens;
-            } else {
-              next.push(themeFile);
-            }
-            return next;
-          });
-          setMessages(prev => [...prev, { 
-            id: generateId(), 
-            sender: 'agent', 
-            agentRole: 'designer', 
-            text: `Library: ${library}\nBrief: ${brief}\nTokens saved to theme.json`, 
-            timestamp: new Date() 
-          }]);
-        } catch (err) {
-          console.error("Designer parse error", err);
-        }
-        setTasks(prev => prev.map(t => t.id === taskId ? { ...t, status: 'completed' } : t));
-        setPendingDeveloperContext({ userRequest, architectPlan: '', options, design: designContext });
-        shouldPauseForEdit = designerPauseEnabled && target !== 'designer';
-      }
-
-      let architectPlan = "";
-      if (target === 'team' || target === 'architect') {
-        const taskId = generateId();
-        setTasks(prev => [...prev, { id: taskId, title: "Architecture Planning", status: 'active', assignedTo: 'architect' }]);
-        const response = await ai.models.generateContent({
-          model: options.useThinking ? 'gemini-3-pro-preview' : 'gemini-3-flash-preview',
-          contents: `User request: ${userRequest}
-Design brief: ${sanitizeForPrompt(designContext.brief)}
-Theme tokens: ${sanitizeForPrompt(designContext.tokens)}
-Project graph (existing files): ${sanitizeForPrompt(projectGraph)}
-
-Plan small, atomic components (Logo.tsx, NavLinks.tsx, UserMenu.tsx etc.) and ensure imports reference existing paths.`,
-          model: options.useThinking ? REASONING_MODEL : FAST_MODEL,
-          contents: userRequest,
-          config: { 
-            systemInstruction: "Senior Software Architect. Maintain a live JSON tree of files and only reference existing imports. Enforce component decomposition and describe how Coder will use the theme.json tokens and the selected component library. Avoid placeholders.",
-            thinkingConfig: options.useThinking ? { thinkingBudget: 32768 } : undefined,
-            tools: options.useSearch ? [] : undefined
-          }
-        });
-        architectPlan = response.text || "";
-        const grounding = response.candidates?.[0]?.groundingMetadata?.groundingChunks?.map((c: any) => ({
-          title: c.web?.title || "Source",
-          uri: c.web?.uri || "#"
-        })) || [];
-
-        setMessages(prev => [...prev, { 
-          id: generateId(), 
-          sender: 'agent', 
-          agentRole: 'architect', 
-          text: architectPlan, 
-          timestamp: new Date(),
-          groundingUrls: grounding.length > 0 ? grounding : undefined
-        }]);
-        setTasks(prev => prev.map(t => t.id === taskId ? { ...t, status: 'completed' } : t));
-        setPendingDeveloperContext(prev => prev ? { ...prev, architectPlan } : prev);
-      }
-
-      if (shouldPauseForEdit) {
-        setIsProcessing(false);
-        return;
-      }
-      if (target === 'team' || target === 'developer') {
-        const taskId = generateId();
-        setTasks(prev => [...prev, { id: taskId, title: "Implementation", status: 'active', assignedTo: 'developer' }]);
-        
-        let generatedCode = "";
-        let filename = "Component.tsx";
-        let explanation = "Built component.";
-
-        if (templateKey && !options.useThinking && !options.useSearch) {
-          const template = TEMPLATES[templateKey];
-          generatedCode = template.content;
-          filename = template.filename;
-        } else {
-          const response = await ai.models.generateContent({
-            model: options.useThinking ? REASONING_MODEL : FAST_MODEL,
-            contents: `Build a React component using Tailwind and lucide-react. 
-            Plan: ${architectPlan}. 
-            Request: ${userRequest}. 
-            
-            IMPORTANT: If building a Kanban board, you MUST implement resizable columns using a drag handle and local state. Use dnd-kit for drag and drop.
-            Styling: The DragOverlay MUST be visually distinct (shadow-2xl, scale-105, border-blue-500). Use a dark 'slate' palette for modern IDE-like feel.
-            
-            Return ONLY valid JSON.`,
-            config: { 
-              responseMimeType: "application/json", 
-              systemInstruction: "Senior React Developer. You MUST return ONLY a single JSON object. Do not include any text before or after the JSON block. Format: { \"filename\": string, \"content\": string, \"explanation\": string }",
-              thinkingConfig: options.useThinking ? { thinkingBudget: 32768 } : undefined,
-              tools: options.useSearch ? [{ googleSearch: {} }] : undefined
-            }
-          });
-          
-          try {
-            const rawJson = cleanJson(response.text || "{}");
-            const json = JSON.parse(rawJson);
-            generatedCode = json.content || "// Error generating code";
-            filename = json.filename || "Component.tsx";
-            explanation = json.explanation || "Implementation complete.";
-          } catch (parseErr) {
-            console.error("Failed to parse developer response", parseErr, response.text);
-            generatedCode = `// Extraction Error: Failed to parse code output. Check Console.`;
-            explanation = "Developer agent encountered a JSON formatting error. I've attempted to recover, but the code block may be partial.";
-          }
-        }
-      }
-
-      if (target === 'team' || target === 'developer') {
-        const designForDev = pendingDeveloperContext?.design || designContext;
-        const architectForDev = pendingDeveloperContext?.architectPlan || architectPlan;
-        await runDeveloperStage({ userRequest, architectPlan: architectForDev, design: designForDev, options, templateKey, ai });
-        setPendingDeveloperContext(null);
-      }
+      const result = await runPipeline({
+        request: userRequest,
+        pipeline: findPipeline(pipelines, pipelineId),
+        options,
+        design: { tokens: designTokens, library: designLibrary || DEFAULT_DESIGN_LIBRARY, brief: designBrief },
+        pausePoints: pausePointsEnabled,
+        snapshot: { files, projectGraph, previewDoc: livePreviewDoc, previousPreviewDoc },
+      }, { provider, signal: controller.signal, onEvent: handleAgentEvent, runTests: runTestsInWorker, checkTypes: checkProject, budget, projectCost: projectUsage.total.cost });
+      settleRun(result, controller, provider);
     } catch (e) {
-      console.error(e);
-      const detail = formatAgentError(e);
-      const errorMessage = detail ? `Error connecting to agents: ${detail}` : "Error connecting to agents. Mission aborted.";
-      setMessages(prev => [...prev, { id: generateId(), sender: 'system', text: `${errorMessage} Please verify your Gemini API key and network access.`, timestamp: new Date() }]);
+      reportAgentError(e, controller, provider);
     } finally {
-      setIsProcessing(false);
+      finishAgentRun(controller, userMsg.text);
     }
   };
 
-  const resumeDeveloperFromDesign = async () => {
-    if (!pendingDeveloperContext) return;
-    const apiKey = import.meta.env.RESOLVED_GEMINI_API_KEY;
-    if (!apiKey) {
-      const keyList = GEMINI_KEY_ENV_ORDER.join(' or ');
-      setMessages(prev => [...prev, { id: generateId(), sender: 'system', text: `Missing Gemini API key. Add ${keyList} to your .env.local file.`, timestamp: new Date() }]);
-      return;
+  const resumePausedRun = async () => {
+    if (!pausedRun) return;
+    // Tokens the designer proposed and that are still under review are the ones the run goes on with.
+    const proposedThemeTokens = pendingChangeSets.flatMap(set => set.files).find(change => change.path === 'theme.json')?.after ?? undefined;
+    const provider = connectProvider();
+    if (!provider) return;
+    commitProject(`Before resuming agent run: ${summarizeRequest(pausedRun.request)}`, 'agent', files);
+    const controller = startAgentRun();
+    const run = pausedRun;
+    setPausedRun(null);
+    try {
+      const result = await resumePipeline(
+        run,
+        { design: { tokens: proposedThemeTokens ?? (designTokens || run.design.tokens), library: designLibrary || run.design.library, brief: designBrief || run.design.brief } },
+        { files, projectGraph, previewDoc: livePreviewDoc, previousPreviewDoc },
+        { provider, signal: controller.signal, onEvent: handleAgentEvent, runTests: runTestsInWorker, checkTypes: checkProject, budget, projectCost: projectUsage.total.cost }
+      );
+      settleRun(result, controller, provider);
+    } catch (e) {
+      reportAgentError(e, controller, provider);
+    } finally {
+      finishAgentRun(controller, run.request);
     }
-    setIsProcessing(true);
-    const ai = new GoogleGenAI({ apiKey });
-    const context = pendingDeveloperContext;
-    await runDeveloperStage({ 
-      userRequest: context.userRequest, 
-      architectPlan: context.architectPlan, 
-      design: { ...context.design, tokens: designTokens || context.design.tokens }, 
-      options: context.options, 
-      templateKey: detectTemplateKey(context.userRequest), 
-      ai 
-    });
-    setPendingDeveloperContext(null);
-    setIsProcessing(false);
   };
 
   const handleExampleClick = (text: string) => {
@@ -889,6 +1189,165 @@ Plan small, atomic components (Logo.tsx, NavLinks.tsx, UserMenu.tsx etc.) and en
     </button>
   );
 
+  const draftEditor = streamingDraft && (
+    <Editor file={{ name: basename(streamingDraft.path), type: 'file', content: streamingDraft.content }} path={streamingDraft.path} onChange={() => {}} theme={theme} onUndo={() => {}} onRedo={() => {}} canUndo={false} canRedo={false} onSave={() => {}} saveStatus={saveStatus} readOnly />
+  );
+
+  const editorPanes = (
+    <div className="flex flex-1 min-w-0 h-full">
+      {editorLayout.panes.map((pane, index) => {
+        const paneFile = getFile(files, pane.active);
+        return (
+          <div
+            key={index}
+            onMouseDownCapture={() => setEditorLayout(prev => focusPane(prev, index))}
+            className={`flex flex-col flex-1 min-w-0 ${index > 0 ? 'border-l border-white/10' : ''}`}
+          >
+            <EditorTabs
+              tabs={pane.tabs}
+              activePath={pane.active}
+              dirtyPaths={dirtyPaths}
+              focused={index === editorLayout.focused}
+              onSelect={(path) => openFile(path, index)}
+              onClose={(path) => setEditorLayout(prev => closeTab(prev, index, path))}
+              onReorder={(tabs) => setEditorLayout(prev => reorderTabs(prev, index, tabs))}
+              theme={theme}
+            />
+            <div className="flex-1 min-h-0">
+              {paneFile && pane.active ? (
+                <Editor
+                  file={paneFile}
+                  path={pane.active}
+                  onChange={(content) => updateFileContent(pane.active!, content)}
+                  theme={theme}
+                  onUndo={() => stepHistory(undoEdit, pane.active)}
+                  onRedo={() => stepHistory(redoEdit, pane.active)}
+                  canUndo={canUndo(editHistory, pane.active)}
+                  canRedo={canRedo(editHistory, pane.active)}
+                  onSave={performSave}
+                  saveStatus={saveStatus}
+                  diagnostics={diagnosticsByPath[pane.active]}
+                  onQuickInfo={isScriptPath(pane.active) ? (position) => getQuickInfo(filesRef.current, pane.active!, position) : undefined}
+                  onGoToDefinition={isScriptPath(pane.active) ? (position) => goToDefinition(pane.active!, position, index) : undefined}
+                  reveal={reveal?.path === pane.active ? reveal : null}
+                />
+              ) : (
+                <div className="h-full flex items-center justify-center text-xs text-gray-500">Open a file from the explorer.</div>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  const showThread = (thread: ConversationThread) => {
+    setActiveThreadId(thread.id);
+    setMessages(thread.messages);
+    setTasks(thread.tasks);
+  };
+
+  const openThread = (id: string) => {
+    const thread = threads.find(candidate => candidate.id === id);
+    if (thread && !isProcessing) showThread(thread);
+  };
+
+  const startThread = () => {
+    // An empty conversation is already a fresh one.
+    if (isProcessing || messages.length === 0) return;
+    const thread = createThread(generateId());
+    setThreads(prev => [thread, ...prev]);
+    showThread(thread);
+  };
+
+  const removeThread = (id: string) => {
+    if (isProcessing) return;
+    unsavedThreads.current.delete(id);
+    deleteThread(project.id, id).catch(reportStorageError);
+    const rest = threads.filter(thread => thread.id !== id);
+    if (id === activeThreadId) {
+      const next = sortThreads(rest)[0] ?? createThread(generateId());
+      if (rest.length === 0) rest.push(next);
+      showThread(next);
+    }
+    setThreads(rest);
+  };
+
+  const checkpointCommit = (message: ChatMessage) => {
+    const commit = message.checkpoint ? repositoryRef.current?.commits[message.checkpoint] : undefined;
+    if (!commit) window.alert('This checkpoint is no longer available.');
+    return commit ?? null;
+  };
+
+  const restoreCheckpoint = (message: ChatMessage) => {
+    const commit = checkpointCommit(message);
+    const point = message.sender === 'user' ? 'before this request' : 'after this run';
+    if (commit && window.confirm(`Restore the files to ${point}? Undo reverts the restore.`)) restoreCommit(commit);
+  };
+
+  /** Continues the conversation in a new thread from `message`, with the files as they were at that point. */
+  const branchConversation = (message: ChatMessage) => {
+    const source = threads.find(thread => thread.id === activeThreadId);
+    if (!source || isProcessing) return;
+    const commit = checkpointCommit(message);
+    if (!commit || !window.confirm('Start a new conversation from this message? The files are restored to this point; undo reverts that.')) return;
+    const thread = branchThread({ ...source, messages }, message.id, generateId());
+    unsavedThreads.current.add(thread.id);
+    setThreads(prev => [thread, ...prev]);
+    showThread(thread);
+    restoreCommit(commit);
+  };
+
+  const selectPreviewBaseline = (id: string | null) => {
+    const repo = repositoryRef.current;
+    const commit = id && repo ? repo.commits[id] : undefined;
+    if (!repo || !commit) {
+      setPreviewBaseline(null);
+      return;
+    }
+    readSnapshot(repo, commit)
+      .then(snapshot => setPreviewBaseline({ id: commit.id, doc: buildPreviewDocument(snapshot, activeFilePath) }))
+      .catch(reportStorageError);
+  };
+
+  const previewCheckpoint = (message: ChatMessage) => {
+    if (!checkpointCommit(message)) return;
+    selectPreviewBaseline(message.checkpoint ?? null);
+    showPreview();
+    setMobileView('preview');
+  };
+
+  const chatPanel = (
+    <div className="h-full flex flex-col">
+      <ThreadBrowser
+        threads={threads}
+        activeId={activeThreadId}
+        theme={theme}
+        disabled={isProcessing}
+        onOpen={openThread}
+        onNew={startThread}
+        onDelete={removeThread}
+      />
+      <div className="flex-1 min-h-0">
+        <ChatInterface messages={messages} inputValue={inputValue} setInputValue={setInputValue} onSendMessage={handleSendMessage} isProcessing={isProcessing} onCancel={cancelAgentRun} tasks={tasks} theme={theme} pipelines={pipelines} selectedPipelineId={selectedPipelineId} setSelectedPipelineId={selectPipeline} onEditPipelines={() => setIsPipelineEditorOpen(true)} onRestoreCheckpoint={restoreCheckpoint} onBranchFrom={branchConversation} onPreviewCheckpoint={previewCheckpoint} />
+      </div>
+    </div>
+  );
+
+  const projectSwitcher = (
+    <ProjectSwitcher
+      projects={projects}
+      activeId={project.id}
+      theme={theme}
+      disabled={isProcessing}
+      onSwitch={(id) => { if (id !== project.id) leaveProject(() => actions.switchTo(id)); }}
+      onCreate={(template) => leaveProject(() => actions.create(template))}
+      onRename={actions.rename}
+      onDuplicate={(id) => leaveProject(() => actions.duplicate(id))}
+      onDelete={actions.remove}
+    />
+  );
+
   return (
     <div className={`flex h-screen w-full font-sans overflow-hidden transition-colors duration-300 ${theme === 'dark' ? 'bg-[#09090b] text-gray-100' : 'bg-gray-100 text-gray-900'}`}>
       <div 
@@ -896,14 +1355,78 @@ Plan small, atomic components (Logo.tsx, NavLinks.tsx, UserMenu.tsx etc.) and en
         className={`hidden md:flex ${theme === 'dark' ? 'bg-[#0e0e11] border-white/10' : 'bg-white border-gray-200'} border-r flex-col transition-all shrink-0 relative group/sidebar`}
       >
         <div className="h-14 flex items-center px-4 border-b border-white/5 gap-3 shrink-0">
-          <Sparkles className="w-5 h-5 text-indigo-500 cursor-pointer" onClick={() => setActiveFile(null)} />
+          <Sparkles className="w-5 h-5 text-indigo-500 cursor-pointer" onClick={() => setActiveFilePath(null)} />
           {sidebarOpen && <span className="font-bold">Symbiotic</span>}
         </div>
+        {sidebarOpen && projectSwitcher}
         
+        {sidebarOpen && (
+          <div className="flex items-center gap-1 px-3 pt-3">
+            {([['files', Files, 'Explorer'], ['search', Search, 'Search (Ctrl/Cmd+Shift+F)'], ['history', History, 'History'], ['usage', Gauge, 'Usage']] as const).map(([view, Icon, label]) => (
+              <button
+                key={view}
+                onClick={() => setSidebarView(view)}
+                title={label}
+                className={`p-1.5 rounded-md ${sidebarView === view ? 'bg-indigo-500/10 text-indigo-400' : 'text-gray-500 hover:text-gray-300'}`}
+              >
+                <Icon className="w-4 h-4" />
+              </button>
+            ))}
+          </div>
+        )}
+
         <div className="flex-1 overflow-auto py-4">
-          {sidebarOpen && files.map(node => (
-            <FileTreeItem key={node.name} node={node} onSelect={setActiveFile} activeFileName={activeFile?.name} theme={theme} />
-          ))}
+          {/* Search stays mounted while hidden so its query survives switching views. */}
+          {sidebarOpen && (
+            <div className={sidebarView === 'search' ? '' : 'hidden'}>
+              <SearchPanel
+                files={files}
+                onOpen={revealLocation}
+                onReplaceAll={replaceAcrossProject}
+                onUndoReplace={() => stepHistory(undoEdit, lastReplaceRef.current)}
+                focusKey={searchFocusKey}
+                theme={theme}
+              />
+            </div>
+          )}
+          {sidebarOpen && sidebarView === 'files' && (
+            <FileExplorer
+              files={files}
+              onSelect={openFile}
+              activePath={activeFilePath}
+              pendingActions={pendingActions}
+              theme={theme}
+              onCreate={createEntry}
+              onMove={moveEntry}
+              onDuplicate={duplicateEntry}
+              onDelete={deleteEntry}
+              onImport={importProject}
+              onExport={exportProject}
+            />
+          )}
+          {sidebarOpen && sidebarView === 'history' && (
+            <HistoryPanel
+              repository={repository}
+              changedCount={uncommittedCount}
+              theme={theme}
+              disabled={isProcessing}
+              onCommit={(message) => commitProject(message, 'user')}
+              onCheckout={checkoutHistoryBranch}
+              onCreateBranch={createHistoryBranch}
+              onDeleteBranch={(name) => updateRepository(repo => removeBranch(repo, name))}
+              onRestore={restoreCommit}
+              loadDiff={(from, to) => repositoryRef.current ? compareSnapshots(repositoryRef.current, from, to) : Promise.resolve([])}
+            />
+          )}
+          {sidebarOpen && sidebarView === 'usage' && (
+            <UsagePanel
+              usage={projectUsage}
+              budget={budget}
+              theme={theme}
+              onChangeBudget={updateBudget}
+              onReset={() => setProjectUsage(EMPTY_PROJECT_USAGE)}
+            />
+          )}
         </div>
 
         {/* Sidebar Footer: User & Settings */}
@@ -988,12 +1511,16 @@ Plan small, atomic components (Logo.tsx, NavLinks.tsx, UserMenu.tsx etc.) and en
 
         <div className="hidden md:flex h-14 border-b border-white/10 items-center justify-between px-4 shrink-0 bg-[#09090b]">
           <div className="flex items-center gap-2">
-            {activeFile && (
-              <div className="flex items-center gap-2 px-3 py-1.5 rounded-t-lg text-xs font-medium border-t-2 border-indigo-500 bg-[#1e1e2e]">
-                <FileCode className="w-3.5 h-3.5 text-indigo-400" />
-                <span className="truncate max-w-[150px]">{activeFile.name}</span>
-                <X className="w-3 h-3 cursor-pointer" onClick={() => setActiveFile(null)} />
-              </div>
+            {activeFile && activeTab !== 'preview' && (
+              <button
+                onClick={() => setEditorLayout(splitPane)}
+                disabled={editorLayout.panes.length >= MAX_PANES}
+                title="Open the current file in a second editor pane"
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium text-gray-400 hover:text-white hover:bg-white/5 disabled:opacity-40 disabled:hover:bg-transparent"
+              >
+                <Columns2 className="w-3.5 h-3.5" />
+                Split Editor
+              </button>
             )}
           </div>
           <div className="flex items-center gap-4">
@@ -1008,7 +1535,7 @@ Plan small, atomic components (Logo.tsx, NavLinks.tsx, UserMenu.tsx etc.) and en
                   {saveStatus === 'saved' ? 'Saved' : 'Save'}
                 </button>
                 <button
-                  onClick={() => { refreshLivePreview(activeFile); setActiveTab('preview'); }}
+                  onClick={() => { refreshLivePreview(); showPreview(); }}
                   className="flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-bold bg-emerald-600 text-white hover:bg-emerald-700 transition-all"
                 >
                   <Zap className="w-3.5 h-3.5" />
@@ -1016,6 +1543,7 @@ Plan small, atomic components (Logo.tsx, NavLinks.tsx, UserMenu.tsx etc.) and en
                 </button>
                 <div className="flex p-1 bg-[#18181b] rounded-lg border border-white/10">
                   <button onClick={() => setActiveTab('editor')} className={`px-3 py-1.5 rounded-md text-xs font-medium ${activeTab === 'editor' ? 'bg-[#27272a] text-white' : 'text-gray-500'}`}>Editor</button>
+                  <button onClick={() => setActiveTab('split')} className={`px-3 py-1.5 rounded-md text-xs font-medium ${activeTab === 'split' ? 'bg-[#27272a] text-white' : 'text-gray-500'}`}>Editor + Preview</button>
                   <button onClick={() => setActiveTab('preview')} className={`px-3 py-1.5 rounded-md text-xs font-medium ${activeTab === 'preview' ? 'bg-[#27272a] text-white' : 'text-gray-500'}`}>Preview</button>
                 </div>
               </div>
@@ -1027,9 +1555,16 @@ Plan small, atomic components (Logo.tsx, NavLinks.tsx, UserMenu.tsx etc.) and en
           <div ref={workspaceRef} className="hidden md:flex h-full">
             <div className="flex flex-col w-full h-full">
               <div style={{ height: `calc(100% - ${bottomHeight}px)` }} className="relative">
-                {!activeFile ? <EmptyState onStart={() => setRightTab('chat')} onExampleClick={handleExampleClick} theme={theme} /> : 
-                  activeTab === 'editor' ? <Editor file={activeFile} onChange={updateFileContent} theme={theme} onUndo={() => {}} onRedo={() => {}} canUndo={false} canRedo={false} onSave={performSave} saveStatus={saveStatus} /> :
-                  <Preview file={activeFile} theme={theme} onToggleZen={toggleZenMode} zenMode={zenMode} srcDoc={livePreviewDoc} beforeDoc={previousPreviewDoc} onRunPreview={() => refreshLivePreview(activeFile)} lastRun={lastPreviewRun} stateSnapshot={appStateSnapshot} />}
+                {!activeFile && !streamingDraft ? <EmptyState onStart={() => setRightTab('chat')} onExampleClick={handleExampleClick} theme={theme} /> : (
+                  <div className="flex h-full">
+                    {activeTab !== 'preview' && (streamingDraft ? <div className="flex-1 min-w-0">{draftEditor}</div> : editorPanes)}
+                    {activeTab !== 'editor' && activeFile && (
+                      <div className={`flex-1 min-w-0 ${activeTab === 'split' ? 'border-l border-white/10' : ''}`}>
+                        <Preview file={activeFile} theme={theme} onToggleZen={toggleZenMode} zenMode={zenMode} srcDoc={livePreviewDoc} beforeDoc={previewBaseline?.doc ?? previousPreviewDoc} onRunPreview={() => refreshLivePreview()} lastRun={lastPreviewRun} stateSnapshot={appStateSnapshot} baselines={checkpoints} baselineId={previewBaseline?.id} onSelectBaseline={selectPreviewBaseline} />
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
               <div style={{ height: `${bottomHeight}px` }} className={`relative border-t ${theme === 'dark' ? 'border-white/10 bg-[#0b0b12]' : 'border-gray-200 bg-gray-50'} overflow-hidden`}>
                 <div 
@@ -1039,96 +1574,110 @@ Plan small, atomic components (Logo.tsx, NavLinks.tsx, UserMenu.tsx etc.) and en
                   <div className="absolute left-1/2 -translate-x-1/2 w-24 h-[2px] bg-transparent group-hover:bg-indigo-400/60 transition-colors" />
                 </div>
                 <div className="flex items-center justify-between px-4 py-2 border-b border-white/5">
-                  <div className="text-xs font-bold uppercase tracking-wide flex items-center gap-2">
-                    Simulation Monitor
+                  <div className="text-xs font-bold uppercase tracking-wide flex items-center gap-4">
+                    <button onClick={() => setBottomPanel('monitor')} className={bottomPanel === 'monitor' ? '' : 'text-gray-500 hover:text-gray-300'}>Simulation Monitor</button>
+                    <button onClick={() => setBottomPanel('problems')} className={`flex items-center gap-1.5 ${bottomPanel === 'problems' ? '' : 'text-gray-500 hover:text-gray-300'}`}>
+                      Problems
+                      {diagnostics.length > 0 && (
+                        <span className={`px-1.5 rounded-full text-[10px] ${errorCount > 0 ? 'bg-red-500/20 text-red-300' : 'bg-white/10 text-gray-300'}`}>{diagnostics.length}</span>
+                      )}
+                    </button>
                     {isProcessing && <span className="text-amber-400 text-[10px]">Agents running...</span>}
                   </div>
                   <button 
-                    onClick={() => { refreshLivePreview(activeFile); setActiveTab('preview'); }}
+                    onClick={() => { refreshLivePreview(); showPreview(); }}
                     className="text-[11px] px-3 py-1 rounded-md bg-indigo-600 text-white font-bold hover:bg-indigo-700 transition-all"
                   >
                     Run Preview
                   </button>
                 </div>
-                <div style={{ height: 'calc(100% - 42px)' }} className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3 p-3 overflow-auto custom-scrollbar">
-                  <div className={`p-3 rounded-xl border ${theme === 'dark' ? 'border-white/10 bg-white/5' : 'border-gray-200 bg-white'}`}>
-                    <div className="text-[11px] uppercase font-bold text-indigo-400 mb-2">Recent Messages</div>
-                    <div className="space-y-2 max-h-40 overflow-auto custom-scrollbar">
-                      {messages.slice(-4).reverse().map(msg => (
-                        <div key={msg.id} className="text-xs leading-relaxed">
-                          <span className="font-semibold text-indigo-300">{msg.sender}</span>: <span className="text-gray-300">{msg.text}</span>
-                        </div>
-                      ))}
-                      {messages.length === 0 && <div className="text-xs text-gray-500">Agents are idle. Send a command from the AI Hub.</div>}
-                    </div>
+                {bottomPanel === 'problems' ? (
+                  <div style={{ height: 'calc(100% - 42px)' }} className="overflow-auto custom-scrollbar">
+                    <ProblemsPanel diagnostics={diagnostics} onOpen={(diagnostic) => revealLocation(diagnostic.path, diagnostic.from)} theme={theme} />
                   </div>
-                   <div className={`p-3 rounded-xl border ${theme === 'dark' ? 'border-white/10 bg-white/5' : 'border-gray-200 bg-white'}`}>
-                     <div className="text-[11px] uppercase font-bold text-indigo-400 mb-2">Tasks</div>
-                     <div className="space-y-2 max-h-40 overflow-auto custom-scrollbar">
-                       {tasks.length === 0 && <div className="text-xs text-gray-500">No active tasks yet.</div>}
-                       {tasks.map(task => (
-                        <div key={task.id} className="flex items-center justify-between text-xs">
-                          <div className="font-semibold">{task.title}</div>
-                          <span className="px-2 py-0.5 rounded-full border border-white/10">{task.status}</span>
-                        </div>
-                       ))}
-                     </div>
-                   </div>
-                  <div className={`p-3 rounded-xl border ${theme === 'dark' ? 'border-white/10 bg-white/5' : 'border-gray-200 bg-white'}`}>
-                    <div className="text-[11px] uppercase font-bold text-indigo-400 mb-2">Design System &amp; Hand-off</div>
-                    <div className="space-y-2 text-xs">
-                      <div className="flex items-center justify-between">
-                        <span className="font-semibold">Library</span>
-                        <span className="px-2 py-0.5 rounded-full border border-white/10">{designLibrary || DEFAULT_DESIGN_LIBRARY}</span>
+                ) : (
+                  <div style={{ height: 'calc(100% - 42px)' }} className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3 p-3 overflow-auto custom-scrollbar">
+                    <div className={`p-3 rounded-xl border ${theme === 'dark' ? 'border-white/10 bg-white/5' : 'border-gray-200 bg-white'}`}>
+                      <div className="text-[11px] uppercase font-bold text-indigo-400 mb-2">Recent Messages</div>
+                      <div className="space-y-2 max-h-40 overflow-auto custom-scrollbar">
+                        {messages.slice(-4).reverse().map(msg => (
+                          <div key={msg.id} className="text-xs leading-relaxed">
+                            <span className="font-semibold text-indigo-300">{msg.sender}</span>: <span className="text-gray-300">{msg.text}</span>
+                          </div>
+                        ))}
+                        {messages.length === 0 && <div className="text-xs text-gray-500">Agents are idle. Send a command from the AI Hub.</div>}
                       </div>
-                      <label className="text-[11px] font-semibold text-gray-400">theme.json</label>
-                      <textarea
-                        value={designTokens}
-                        onChange={(e) => setDesignTokens(e.target.value)}
-                        className={`w-full h-24 rounded-md border text-[11px] p-2 ${theme === 'dark' ? 'bg-[#0e0e11] border-white/10 text-gray-100' : 'bg-white border-gray-200 text-gray-900'}`}
-                      />
-                      <div className="flex items-center justify-between gap-2">
-                        <button
-                          type="button"
-                          onClick={() => setDesignerPauseEnabled(prev => !prev)}
-                          className={`flex-1 px-3 py-2 rounded-md font-bold ${designerPauseEnabled ? 'bg-amber-500/20 text-amber-200 border border-amber-500/40' : 'bg-emerald-600 text-white'}`}
-                        >
-                          {designerPauseEnabled ? 'Pause & Edit Enabled' : 'Auto-send to Coder'}
-                        </button>
-                        <button
-                          type="button"
-                          disabled={!pendingDeveloperContext || isProcessing}
-                          onClick={resumeDeveloperFromDesign}
-                          className="flex-1 px-3 py-2 rounded-md font-bold bg-indigo-600 text-white disabled:opacity-50"
-                        >
-                          Send to Coder
-                        </button>
-                      </div>
-                      {pendingDeveloperContext && (
-                        <div className="text-[11px] text-gray-400">
-                          Awaiting hand-off for request: <span className="font-semibold text-indigo-300">{pendingDeveloperContext.userRequest}</span>
+                    </div>
+                     <div className={`p-3 rounded-xl border ${theme === 'dark' ? 'border-white/10 bg-white/5' : 'border-gray-200 bg-white'}`}>
+                       <div className="text-[11px] uppercase font-bold text-indigo-400 mb-2">Tasks</div>
+                       <div className="space-y-2 max-h-40 overflow-auto custom-scrollbar">
+                         {tasks.length === 0 && <div className="text-xs text-gray-500">No active tasks yet.</div>}
+                         {tasks.map(task => (
+                          <div key={task.id} className="flex items-center justify-between text-xs">
+                            <div className="font-semibold">{task.title}</div>
+                            <span className="px-2 py-0.5 rounded-full border border-white/10">{task.status}</span>
+                          </div>
+                         ))}
+                       </div>
+                     </div>
+                    <div className={`p-3 rounded-xl border ${theme === 'dark' ? 'border-white/10 bg-white/5' : 'border-gray-200 bg-white'}`}>
+                      <div className="text-[11px] uppercase font-bold text-indigo-400 mb-2">Design System &amp; Hand-off</div>
+                      <div className="space-y-2 text-xs">
+                        <div className="flex items-center justify-between">
+                          <span className="font-semibold">Library</span>
+                          <span className="px-2 py-0.5 rounded-full border border-white/10">{designLibrary || DEFAULT_DESIGN_LIBRARY}</span>
                         </div>
-                      )}
+                        <label className="text-[11px] font-semibold text-gray-400">theme.json</label>
+                        <textarea
+                          value={designTokens}
+                          onChange={(e) => setDesignTokens(e.target.value)}
+                          className={`w-full h-24 rounded-md border text-[11px] p-2 ${theme === 'dark' ? 'bg-[#0e0e11] border-white/10 text-gray-100' : 'bg-white border-gray-200 text-gray-900'}`}
+                        />
+                        <div className="flex items-center justify-between gap-2">
+                          <button
+                            type="button"
+                            onClick={() => setPausePointsEnabled(prev => !prev)}
+                            className={`flex-1 px-3 py-2 rounded-md font-bold ${pausePointsEnabled ? 'bg-amber-500/20 text-amber-200 border border-amber-500/40' : 'bg-emerald-600 text-white'}`}
+                          >
+                            {pausePointsEnabled ? 'Pause Points On' : 'Run Straight Through'}
+                          </button>
+                          <button
+                            type="button"
+                            disabled={!pausedRun || isProcessing}
+                            onClick={resumePausedRun}
+                            className="flex-1 px-3 py-2 rounded-md font-bold bg-indigo-600 text-white disabled:opacity-50"
+                          >
+                            Resume Pipeline
+                          </button>
+                        </div>
+                        {pausedRun && (
+                          <div className="text-[11px] text-gray-400">
+                            {pausedRun.failed ? 'Failed at' : 'Paused before'} <span className="font-semibold text-indigo-300">{pausedRun.pausedAt.join(', ')}</span> for request: <span className="font-semibold text-indigo-300">{pausedRun.request}</span>
+                          </div>
+                        )}
+                      </div>
                     </div>
                   </div>
-                </div>
+                )}
               </div>
             </div>
           </div>
           <div className="md:hidden h-full">
-            {mobileView === 'files' && <div className="p-4 space-y-4"><h2 className="text-lg font-bold">Project Explorer</h2>{files.map(node => <FileTreeItem key={node.name} node={node} onSelect={(f) => { setActiveFile(f); setMobileView('editor'); }} activeFileName={activeFile?.name} theme={theme} />)}</div>}
-            {mobileView === 'editor' && (activeFile ? <Editor file={activeFile} onChange={updateFileContent} theme={theme} onUndo={() => {}} onRedo={() => {}} canUndo={false} canRedo={false} onSave={performSave} saveStatus={saveStatus} /> : <EmptyState onStart={() => setMobileView('hub')} onExampleClick={handleExampleClick} theme={theme} />)}
-             {mobileView === 'preview' && <Preview file={activeFile} theme={theme} onToggleZen={toggleZenMode} zenMode={zenMode} srcDoc={livePreviewDoc} beforeDoc={previousPreviewDoc} onRunPreview={() => refreshLivePreview(activeFile)} lastRun={lastPreviewRun} stateSnapshot={appStateSnapshot} />}
+            {mobileView === 'files' && <div className="p-4 space-y-4"><h2 className="text-lg font-bold">Project Explorer</h2><div className="-mx-3 -mt-3">{projectSwitcher}</div><FileExplorer files={files} onSelect={(path) => { openFile(path); setMobileView('editor'); }} activePath={activeFilePath} pendingActions={pendingActions} theme={theme} onCreate={createEntry} onMove={moveEntry} onDuplicate={duplicateEntry} onDelete={deleteEntry} onImport={importProject} onExport={exportProject} /></div>}
+            {mobileView === 'editor' && (streamingDraft ? draftEditor : activeFile ? <Editor file={activeFile} path={activeFilePath ?? activeFile.name} onChange={(content) => activeFilePath && updateFileContent(activeFilePath, content)} theme={theme} onUndo={() => stepHistory(undoEdit, activeFilePath)} onRedo={() => stepHistory(redoEdit, activeFilePath)} canUndo={canUndo(editHistory, activeFilePath)} canRedo={canRedo(editHistory, activeFilePath)} onSave={performSave} saveStatus={saveStatus} /> : <EmptyState onStart={() => setMobileView('hub')} onExampleClick={handleExampleClick} theme={theme} />)}
+             {mobileView === 'preview' && <Preview file={activeFile} theme={theme} onToggleZen={toggleZenMode} zenMode={zenMode} srcDoc={livePreviewDoc} beforeDoc={previewBaseline?.doc ?? previousPreviewDoc} onRunPreview={() => refreshLivePreview()} lastRun={lastPreviewRun} stateSnapshot={appStateSnapshot} baselines={checkpoints} baselineId={previewBaseline?.id} onSelectBaseline={selectPreviewBaseline} />}
             {mobileView === 'hub' && (
               <div className="h-full flex flex-col">
                 <div className="flex h-10 border-b border-white/5">
                   <button onClick={() => setRightTab('chat')} className={`flex-1 text-[10px] font-bold uppercase tracking-wider ${rightTab === 'chat' ? 'text-indigo-400 bg-white/5' : 'text-gray-500'}`}>Chat</button>
                   <button onClick={() => setRightTab('tasks')} className={`flex-1 text-[10px] font-bold uppercase tracking-wider ${rightTab === 'tasks' ? 'text-indigo-400 bg-white/5' : 'text-gray-500'}`}>Tasks</button>
+                  <button onClick={() => setRightTab('changes')} className={`flex-1 text-[10px] font-bold uppercase tracking-wider ${rightTab === 'changes' ? 'text-indigo-400 bg-white/5' : 'text-gray-500'}`}>Changes{pendingFileCount > 0 ? ` (${pendingFileCount})` : ''}</button>
                   <button onClick={() => setRightTab('preview')} className={`flex-1 text-[10px] font-bold uppercase tracking-wider ${rightTab === 'preview' ? 'text-indigo-400 bg-white/5' : 'text-gray-500'}`}>Preview</button>
                 </div>
-                 {rightTab === 'chat' && <ChatInterface messages={messages} inputValue={inputValue} setInputValue={setInputValue} onSendMessage={handleSendMessage} isProcessing={isProcessing} tasks={tasks} theme={theme} selectedAgent={selectedAgent} setSelectedAgent={setSelectedAgent} />}
+                 {rightTab === 'chat' && chatPanel}
                  {rightTab === 'tasks' && <TasksView tasks={tasks} theme={theme} />}
-                 {rightTab === 'preview' && <Preview file={activeFile} theme={theme} onToggleZen={toggleZenMode} zenMode={zenMode} srcDoc={livePreviewDoc} beforeDoc={previousPreviewDoc} onRunPreview={() => refreshLivePreview(activeFile)} lastRun={lastPreviewRun} stateSnapshot={appStateSnapshot} />}
+                 {rightTab === 'changes' && <PendingChangesPanel changeSets={pendingChangeSets} files={files} theme={theme} error={reviewError} onAcceptAll={acceptAllPendingChanges} onRejectAll={rejectAllPendingChanges} onAcceptFile={(setId, path) => acceptPendingChange(setId, path)} onRejectFile={(setId, path) => rejectPendingChange(setId, path)} onAcceptHunk={acceptPendingChange} onRejectHunk={rejectPendingChange} />}
+                 {rightTab === 'preview' && <Preview file={activeFile} theme={theme} onToggleZen={toggleZenMode} zenMode={zenMode} srcDoc={livePreviewDoc} beforeDoc={previewBaseline?.doc ?? previousPreviewDoc} onRunPreview={() => refreshLivePreview()} lastRun={lastPreviewRun} stateSnapshot={appStateSnapshot} baselines={checkpoints} baselineId={previewBaseline?.id} onSelectBaseline={selectPreviewBaseline} />}
               </div>
             )}
           </div>
@@ -1142,12 +1691,14 @@ Plan small, atomic components (Logo.tsx, NavLinks.tsx, UserMenu.tsx etc.) and en
         <div className="h-12 flex border-b border-white/5 shrink-0">
           <button onClick={() => setRightTab('chat')} className={`flex-1 text-xs font-bold ${rightTab === 'chat' ? 'text-indigo-500' : 'text-gray-500'}`}>Chat</button>
           <button onClick={() => setRightTab('tasks')} className={`flex-1 text-xs font-bold ${rightTab === 'tasks' ? 'text-indigo-500' : 'text-gray-500'}`}>Tasks</button>
+          <button onClick={() => setRightTab('changes')} className={`flex-1 text-xs font-bold ${rightTab === 'changes' ? 'text-indigo-500' : 'text-gray-500'}`}>Changes{pendingFileCount > 0 ? ` (${pendingFileCount})` : ''}</button>
           <button onClick={() => setRightTab('preview')} className={`flex-1 text-xs font-bold ${rightTab === 'preview' ? 'text-indigo-500' : 'text-gray-500'}`}>Preview</button>
         </div>
         <div className="flex-1 relative overflow-hidden">
-          {rightTab === 'chat' && <ChatInterface messages={messages} inputValue={inputValue} setInputValue={setInputValue} onSendMessage={handleSendMessage} isProcessing={isProcessing} tasks={tasks} theme={theme} selectedAgent={selectedAgent} setSelectedAgent={setSelectedAgent} />}
+          {rightTab === 'chat' && chatPanel}
           {rightTab === 'tasks' && <TasksView tasks={tasks} theme={theme} />}
-          {rightTab === 'preview' && <Preview file={activeFile} theme={theme} onToggleZen={toggleZenMode} zenMode={zenMode} srcDoc={livePreviewDoc} beforeDoc={previousPreviewDoc} onRunPreview={() => refreshLivePreview(activeFile)} lastRun={lastPreviewRun} stateSnapshot={appStateSnapshot} />}
+          {rightTab === 'changes' && <PendingChangesPanel changeSets={pendingChangeSets} files={files} theme={theme} error={reviewError} onAcceptAll={acceptAllPendingChanges} onRejectAll={rejectAllPendingChanges} onAcceptFile={(setId, path) => acceptPendingChange(setId, path)} onRejectFile={(setId, path) => rejectPendingChange(setId, path)} onAcceptHunk={acceptPendingChange} onRejectHunk={rejectPendingChange} />}
+          {rightTab === 'preview' && <Preview file={activeFile} theme={theme} onToggleZen={toggleZenMode} zenMode={zenMode} srcDoc={livePreviewDoc} beforeDoc={previewBaseline?.doc ?? previousPreviewDoc} onRunPreview={() => refreshLivePreview()} lastRun={lastPreviewRun} stateSnapshot={appStateSnapshot} baselines={checkpoints} baselineId={previewBaseline?.id} onSelectBaseline={selectPreviewBaseline} />}
         </div>
       </div>
 
@@ -1158,6 +1709,15 @@ Plan small, atomic components (Logo.tsx, NavLinks.tsx, UserMenu.tsx etc.) and en
         theme={theme}
       />
 
+      <PipelineEditorModal
+        isOpen={isPipelineEditorOpen}
+        onClose={() => setIsPipelineEditorOpen(false)}
+        pipelines={pipelines}
+        selectedId={selectedPipelineId}
+        onSave={handleSavePipelines}
+        theme={theme}
+      />
+
       <SettingsModal 
         isOpen={isSettingsModalOpen}
         onClose={() => setIsSettingsModalOpen(false)}
@@ -1165,7 +1725,132 @@ Plan small, atomic components (Logo.tsx, NavLinks.tsx, UserMenu.tsx etc.) and en
         onUpdateProfile={handleUpdateProfile}
         theme={theme}
         onToggleTheme={toggleTheme}
+        providerSettings={providerSettings}
+        onUpdateProviderSettings={handleUpdateProviderSettings}
       />
+
+      {storageNotice && (
+        <div className={`fixed bottom-4 right-4 z-[100] max-w-sm flex items-start gap-3 p-3 rounded-lg border shadow-xl text-xs whitespace-pre-wrap ${
+          storageNotice.kind === 'error' ? 'bg-red-950/95 border-red-500/50 text-red-100' : 'bg-amber-950/95 border-amber-500/50 text-amber-100'
+        }`}>
+          <span className="flex-1">{storageNotice.text}</span>
+          <button onClick={() => setStorageNotice(null)} title="Dismiss" className="shrink-0 opacity-70 hover:opacity-100">
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      )}
     </div>
   );
+};
+
+/** Full-window message shown while storage opens, or when it cannot be used at all. */
+const StartupScreen = ({ error }: { error?: string | null }) => (
+  <div className="flex h-screen w-full items-center justify-center bg-[#09090b] text-gray-300 font-sans">
+    {error ? (
+      <div className="max-w-md p-6 rounded-xl border border-red-500/40 bg-red-950/40 text-sm space-y-3">
+        <p className="font-bold text-red-300">Your projects could not be opened</p>
+        <p className="whitespace-pre-wrap">{error}</p>
+        <button onClick={() => window.location.reload()} className="px-3 py-1.5 rounded-md bg-white/10 hover:bg-white/20 font-semibold">Reload</button>
+      </div>
+    ) : (
+      <div className="flex items-center gap-2 text-sm"><Sparkles className="w-4 h-4 text-indigo-500 animate-pulse" /> Opening project...</div>
+    )}
+  </div>
+);
+
+export default function App() {
+  const [projects, setProjects] = useState<ProjectMeta[] | null>(null);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [opened, setOpened] = useState<{ id: string; data: LoadedProject } | null>(null);
+  const [fatalError, setFatalError] = useState<string | null>(null);
+  // Notes from the localStorage migration, shown by the first workspace that opens.
+  const migrationNotes = useRef<string[]>([]);
+  const projectsRef = useRef(projects);
+  projectsRef.current = projects;
+  const sessions = useRef(new Map<string, ProjectSession>());
+
+  const describe = (err: unknown) => err instanceof Error ? err.message : String(err);
+
+  useEffect(() => {
+    loadProjects()
+      .then(({ projects: loaded, recovered }) => {
+        migrationNotes.current = recovered;
+        setProjects(loaded);
+        setActiveId(loadActiveProjectId(loaded));
+      })
+      .catch(err => setFatalError(describe(err)));
+  }, []);
+
+  useEffect(() => {
+    if (!activeId) return;
+    let cancelled = false;
+    saveActiveProjectId(activeId);
+    loadProject(activeId)
+      .then(data => {
+        if (cancelled) return;
+        setOpened({ id: activeId, data: { ...data, recovered: [...migrationNotes.current, ...data.recovered] } });
+        migrationNotes.current = [];
+      })
+      .catch(err => { if (!cancelled) setFatalError(describe(err)); });
+    return () => { cancelled = true; };
+  }, [activeId]);
+
+  const project = projects?.find(candidate => candidate.id === opened?.id);
+
+  const handleSaved = useCallback(() => {
+    if (!projectsRef.current || !project) return;
+    touchProject(projectsRef.current, project.id).then(setProjects).catch(err => console.error('Could not update the project list', err));
+  }, [project?.id]);
+
+  const handleLeave = useCallback((session: ProjectSession) => {
+    // A deleted project is gone from the list by the time its workspace unmounts.
+    if (project && projectsRef.current?.some(candidate => candidate.id === project.id)) sessions.current.set(project.id, session);
+  }, [project?.id]);
+
+  if (fatalError) return <StartupScreen error={fatalError} />;
+  if (!projects || !opened || !project || opened.id !== activeId) return <StartupScreen />;
+
+  const open = (pending: Promise<{ projects: ProjectMeta[]; project: ProjectMeta }>) => {
+    pending
+      .then(next => {
+        setProjects(next.projects);
+        setActiveId(next.project.id);
+      })
+      .catch(err => window.alert(describe(err)));
+  };
+
+  const actions: ProjectActions = {
+    switchTo: setActiveId,
+    create: (template) => open(createProject(projects, template === 'blank' ? 'Untitled' : PROJECT_TEMPLATES.find(candidate => candidate.key === template)?.label ?? 'Untitled', templateFiles(template))),
+    createFrom: (name, files) => open(createProject(projects, name, files)),
+    rename: (id, name) => {
+      const error = validateProjectName(projects, id, name);
+      if (error) return error;
+      renameProject(projects, id, name).then(setProjects).catch(err => window.alert(describe(err)));
+      return null;
+    },
+    duplicate: (id) => open(duplicateProject(projects, id)),
+    remove: (id) => {
+      deleteProject(projects, id)
+        .then(next => {
+          sessions.current.delete(id);
+          setProjects(next);
+          if (id === project.id) setActiveId(next[0].id);
+        })
+        .catch(err => window.alert(describe(err)));
+    },
+  };
+
+  return (
+    <Workspace
+      key={project.id}
+      project={project}
+      projects={projects}
+      data={opened.data}
+      session={sessions.current.get(project.id)}
+      actions={actions}
+      onSaved={handleSaved}
+      onLeave={handleLeave}
+    />
+  );
 }
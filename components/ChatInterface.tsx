@@ -1,16 +1,26 @@
 import React, { useMemo, useState } from 'react';
-import { AgentOptions, AgentTask, ChatMessage, TargetAgent, Theme } from '../types';
+import { Eye, GitBranch, RotateCcw } from 'lucide-react';
+import { AgentOptions, AgentTask, ChatMessage, Theme } from '../types';
+import { PipelineDefinition } from '../services/pipelines';
 
 interface Props {
   messages: ChatMessage[];
   inputValue: string;
   setInputValue: (value: string) => void;
-  onSendMessage: (target: TargetAgent, options: AgentOptions) => void;
+  onSendMessage: (pipelineId: string, options: AgentOptions) => void;
   isProcessing: boolean;
+  /** Aborts the agent run in flight. */
+  onCancel: () => void;
   tasks: AgentTask[];
   theme: Theme;
-  selectedAgent: TargetAgent;
-  setSelectedAgent: (agent: TargetAgent) => void;
+  pipelines: PipelineDefinition[];
+  selectedPipelineId: string;
+  setSelectedPipelineId: (id: string) => void;
+  onEditPipelines: () => void;
+  /** Actions on a message's checkpoint: the project before its run (user messages) or after it (replies). */
+  onRestoreCheckpoint?: (message: ChatMessage) => void;
+  onBranchFrom?: (message: ChatMessage) => void;
+  onPreviewCheckpoint?: (message: ChatMessage) => void;
 }
 
 export function ChatInterface({
@@ -19,10 +29,16 @@ export function ChatInterface({
   setInputValue,
   onSendMessage,
   isProcessing,
+  onCancel,
   tasks,
   theme,
-  selectedAgent,
-  setSelectedAgent,
+  pipelines,
+  selectedPipelineId,
+  setSelectedPipelineId,
+  onEditPipelines,
+  onRestoreCheckpoint,
+  onBranchFrom,
+  onPreviewCheckpoint,
 }: Props) {
   const [useSearch, setUseSearch] = useState(false);
   const [useThinking, setUseThinking] = useState(false);
@@ -33,11 +49,13 @@ export function ChatInterface({
     'Draft a design system with tokens and shadcn/ui components',
   ];
 
+  const checkpointButton = 'p-1 rounded opacity-70 hover:opacity-100 hover:bg-white/10';
+
   const taskSummary = useMemo(() => tasks.filter((t) => t.status === 'active').length, [tasks]);
 
   const runSubmit = () => {
-    if (!inputValue.trim()) return;
-    onSendMessage(selectedAgent, { useSearch, useThinking });
+    if (!inputValue.trim() || isProcessing) return;
+    onSendMessage(selectedPipelineId, { useSearch, useThinking });
   };
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -56,18 +74,24 @@ export function ChatInterface({
             </span>
           )}
         </div>
-        <select
-          value={selectedAgent}
-          onChange={(e) => setSelectedAgent(e.target.value as TargetAgent)}
-          className="text-xs bg-transparent border border-white/10 rounded-md px-2 py-1"
-        >
-          <option value="team">Team</option>
-          <option value="architect">Architect</option>
-          <option value="designer">Visual Designer</option>
-          <option value="developer">Developer</option>
-          <option value="qa">QA</option>
-          <option value="critic">Critic</option>
-        </select>
+        <div className="flex items-center gap-1">
+          <select
+            value={selectedPipelineId}
+            onChange={(e) => setSelectedPipelineId(e.target.value)}
+            className="text-xs bg-transparent border border-white/10 rounded-md px-2 py-1 max-w-[12rem]"
+          >
+            {pipelines.map((pipeline) => (
+              <option key={pipeline.id} value={pipeline.id}>{pipeline.name}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={onEditPipelines}
+            className="text-[11px] font-semibold border border-white/10 rounded-md px-2 py-1 hover:border-indigo-500/50"
+          >
+            Edit
+          </button>
+        </div>
       </div>
 
       <div className="flex-1 overflow-auto space-y-3 p-4 custom-scrollbar">
@@ -77,18 +101,96 @@ export function ChatInterface({
         {messages.map((msg) => (
           <div
             key={msg.id}
-            className={`p-3 rounded-xl text-sm border ${
-              msg.sender === 'user'
-                ? 'border-indigo-500/30 bg-indigo-500/10 text-indigo-100'
-                : msg.sender === 'agent'
-                  ? 'border-emerald-500/30 bg-emerald-500/5 text-emerald-100'
-                  : 'border-gray-500/30 bg-gray-500/10 text-gray-200'
+            className={`group p-3 rounded-xl text-sm border ${
+              msg.failure
+                ? 'border-red-500/40 bg-red-500/10 text-red-100'
+                : msg.sender === 'user'
+                  ? 'border-indigo-500/30 bg-indigo-500/10 text-indigo-100'
+                  : msg.sender === 'agent'
+                    ? 'border-emerald-500/30 bg-emerald-500/5 text-emerald-100'
+                    : 'border-gray-500/30 bg-gray-500/10 text-gray-200'
             }`}
           >
-            <div className="text-[10px] uppercase tracking-wide font-bold opacity-70 mb-1">
-              {msg.sender === 'agent' ? msg.agentRole ?? 'agent' : msg.sender}
+            <div className="flex items-center gap-1 mb-1">
+              <div className="text-[10px] uppercase tracking-wide font-bold opacity-70">
+                {msg.sender === 'agent' ? msg.agentRole ?? 'agent' : msg.sender}
+              </div>
+              {msg.checkpoint && !isProcessing && (
+                <div className="ml-auto hidden group-hover:flex items-center gap-0.5">
+                  {onPreviewCheckpoint && (
+                    <button onClick={() => onPreviewCheckpoint(msg)} title="Compare the preview with this point" className={checkpointButton}>
+                      <Eye className="w-3 h-3" />
+                    </button>
+                  )}
+                  {onRestoreCheckpoint && (
+                    <button
+                      onClick={() => onRestoreCheckpoint(msg)}
+                      title={msg.sender === 'user' ? 'Restore the files to before this request' : 'Restore the files to after this run'}
+                      className={checkpointButton}
+                    >
+                      <RotateCcw className="w-3 h-3" />
+                    </button>
+                  )}
+                  {onBranchFrom && (
+                    <button onClick={() => onBranchFrom(msg)} title="Branch the conversation from here" className={checkpointButton}>
+                      <GitBranch className="w-3 h-3" />
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+            <div className="whitespace-pre-wrap">
+              {msg.text}
+              {msg.streaming && <span className="inline-block w-1.5 h-3.5 ml-0.5 align-middle bg-current animate-pulse" />}
             </div>
-            <div className="whitespace-pre-wrap">{msg.text}</div>
+            {msg.failure && (
+              <div className="mt-2 space-y-1">
+                <pre className="max-h-40 overflow-auto custom-scrollbar rounded-lg bg-black/40 p-2 text-[11px] font-mono whitespace-pre-wrap text-red-200">{msg.failure.error}</pre>
+                <details>
+                  <summary className="text-[11px] font-bold cursor-pointer opacity-80">View rejected reply</summary>
+                  <pre className="mt-2 max-h-64 overflow-auto custom-scrollbar rounded-lg bg-black/40 p-2 text-[11px] font-mono whitespace-pre-wrap text-gray-400">{msg.failure.reply || '(empty reply)'}</pre>
+                </details>
+              </div>
+            )}
+            {msg.diff && (
+              <details className="mt-2">
+                <summary className="text-[11px] font-bold cursor-pointer opacity-80">View diff</summary>
+                <pre className="mt-2 max-h-64 overflow-auto custom-scrollbar rounded-lg bg-black/40 p-2 text-[11px] font-mono leading-relaxed">
+                  {msg.diff.split('\n').map((line, index) => (
+                    <div
+                      key={index}
+                      className={
+                        line.startsWith('+') && !line.startsWith('+++')
+                          ? 'text-emerald-300'
+                          : line.startsWith('-') && !line.startsWith('---')
+                            ? 'text-red-300'
+                            : line.startsWith('@@')
+                              ? 'text-indigo-300'
+                              : 'text-gray-400'
+                      }
+                    >
+                      {line || ' '}
+                    </div>
+                  ))}
+                </pre>
+              </details>
+            )}
+            {msg.testResults && msg.testResults.length > 0 && (
+              <details className="mt-2" open={msg.testResults.some(result => result.status === 'failed')}>
+                <summary className="text-[11px] font-bold cursor-pointer opacity-80">
+                  Test results ({msg.testResults.filter(result => result.status === 'passed').length}/{msg.testResults.length} passed)
+                </summary>
+                <ul className="mt-2 max-h-64 overflow-auto custom-scrollbar rounded-lg bg-black/40 p-2 text-[11px] font-mono space-y-1">
+                  {msg.testResults.map((result, index) => (
+                    <li key={index} className={result.status === 'passed' ? 'text-emerald-300' : 'text-red-300'}>
+                      <div>{result.status === 'passed' ? '✓' : '✗'} {result.file} › {result.name}</div>
+                      {result.error && <div className="pl-4 whitespace-pre-wrap text-red-200/80">{result.error}</div>}
+                      {result.output && <pre className="pl-4 whitespace-pre-wrap text-gray-400">{result.output}</pre>}
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            )}
           </div>
         ))}
       </div>
@@ -145,13 +247,22 @@ export function ChatInterface({
                 : 'bg-white border-gray-200 text-gray-900'
             }`}
           />
-          <button
-            type="submit"
-            disabled={isProcessing}
-            className="px-4 py-2 rounded-lg bg-indigo-600 text-white text-sm font-bold hover:bg-indigo-700 disabled:opacity-60"
-          >
-            {isProcessing ? 'Thinking...' : 'Send'}
-          </button>
+          {isProcessing ? (
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-4 py-2 rounded-lg bg-red-600 text-white text-sm font-bold hover:bg-red-700"
+            >
+              Cancel
+            </button>
+          ) : (
+            <button
+              type="submit"
+              className="px-4 py-2 rounded-lg bg-indigo-600 text-white text-sm font-bold hover:bg-indigo-700"
+            >
+              Send
+            </button>
+          )}
         </div>
       </form>
     </div>
@@ -1,8 +1,28 @@
-import React, { useEffect, useState } from 'react';
-import { FileNode, SaveStatus, Theme } from '../types';
+import React, { useEffect, useRef } from 'react';
+import { Annotation, Compartment, EditorState, Extension, Prec } from '@codemirror/state';
+import {
+  EditorView, crosshairCursor, drawSelection, dropCursor, highlightActiveLine, highlightActiveLineGutter,
+  highlightSpecialChars, hoverTooltip, keymap, lineNumbers, rectangularSelection,
+} from '@codemirror/view';
+import { defaultKeymap, indentWithTab } from '@codemirror/commands';
+import { highlightSelectionMatches, searchKeymap } from '@codemirror/search';
+import { autocompletion, closeBrackets, closeBracketsKeymap, completionKeymap } from '@codemirror/autocomplete';
+import { bracketMatching, defaultHighlightStyle, foldGutter, foldKeymap, indentOnInput, syntaxHighlighting } from '@codemirror/language';
+import { javascript } from '@codemirror/lang-javascript';
+import { css } from '@codemirror/lang-css';
+import { html } from '@codemirror/lang-html';
+import { json } from '@codemirror/lang-json';
+import { markdown } from '@codemirror/lang-markdown';
+import { lintGutter, setDiagnostics } from '@codemirror/lint';
+import { oneDark } from '@codemirror/theme-one-dark';
+import { Redo2, Undo2 } from 'lucide-react';
+import { CodeDiagnostic, FileNode, SaveStatus, Theme } from '../types';
+import { inferLanguage } from '../services/virtualFs';
+import { QuickInfo } from '../services/typescriptService';
 
 interface Props {
   file: FileNode;
+  path: string;
   onChange: (value: string) => void;
   theme: Theme;
   onUndo: () => void;
@@ -11,56 +31,272 @@ interface Props {
   canRedo: boolean;
   onSave: () => void;
   saveStatus: SaveStatus;
+  /** Shows agent output as it streams in: not editable, follows the end of the text. */
+  readOnly?: boolean;
+  /** Compiler messages for this file, underlined in the text and marked in the gutter. */
+  diagnostics?: CodeDiagnostic[];
+  onQuickInfo?: (position: number) => Promise<QuickInfo | null>;
+  /** F12 or Ctrl/Cmd+click on a symbol. */
+  onGoToDefinition?: (position: number) => void;
+  /** Moves the cursor to `offset`; a new `at` repeats the jump to the same place. */
+  reveal?: { offset: number; at: number } | null;
 }
 
+/**
+ * Marks transactions that mirror `file.content` into the editor, so they are not echoed to
+ * `onChange`. Undo/redo is owned by the app (per-file, including agent edits), not CodeMirror.
+ */
+const External = Annotation.define<boolean>();
+
+const EDITING: Extension = [
+  lineNumbers(),
+  highlightActiveLineGutter(),
+  highlightSpecialChars(),
+  foldGutter(),
+  drawSelection(),
+  dropCursor(),
+  EditorState.allowMultipleSelections.of(true),
+  indentOnInput(),
+  syntaxHighlighting(defaultHighlightStyle, { fallback: true }),
+  bracketMatching(),
+  closeBrackets(),
+  autocompletion(),
+  // Ctrl/Cmd+click goes to a definition, so extra cursors are added with Alt+click and
+  // rectangular selections are made with Shift+Alt+drag.
+  EditorView.clickAddsSelectionRange.of(event => event.altKey && !event.shiftKey),
+  rectangularSelection({ eventFilter: event => event.altKey && event.shiftKey }),
+  crosshairCursor(),
+  lintGutter(),
+  highlightActiveLine(),
+  highlightSelectionMatches(),
+  keymap.of([...closeBracketsKeymap, ...defaultKeymap, ...searchKeymap, ...foldKeymap, ...completionKeymap, indentWithTab]),
+  EditorView.theme({
+    '&': { height: '100%', fontSize: '13px' },
+    '.cm-scroller': { fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace' },
+    '.cm-quick-info': { padding: '4px 8px', maxWidth: '560px', fontSize: '12px' },
+    '.cm-quick-info code': { fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace', whiteSpace: 'pre-wrap' },
+    '.cm-quick-info p': { marginTop: '4px', opacity: 0.8 },
+  }),
+];
+
+const quickInfoTooltip = (info: QuickInfo) => {
+  const dom = document.createElement('div');
+  dom.className = 'cm-quick-info';
+  const signature = dom.appendChild(document.createElement('code'));
+  signature.textContent = info.text;
+  if (info.documentation) dom.appendChild(document.createElement('p')).textContent = info.documentation;
+  return { dom };
+};
+
+const languageExtension = (language: string, path: string): Extension => {
+  switch (language) {
+    case 'typescript': return javascript({ typescript: true, jsx: !path.endsWith('.ts') });
+    case 'javascript': return javascript({ jsx: true });
+    case 'json': return json();
+    case 'css': return css();
+    case 'html': return html();
+    case 'markdown': return markdown();
+    default: return [];
+  }
+};
+
+const themeExtension = (theme: Theme): Extension => theme === 'dark'
+  ? [oneDark, EditorView.theme({ '&, .cm-gutters': { backgroundColor: '#0f0f12' } }, { dark: true })]
+  : EditorView.theme({ '&': { backgroundColor: '#ffffff' }, '.cm-gutters': { backgroundColor: '#f9fafb', borderRight: '1px solid #e5e7eb' } });
+
+const readOnlyExtension = (readOnly: boolean): Extension => [EditorState.readOnly.of(readOnly), EditorView.editable.of(!readOnly)];
+
+/** Smallest single replacement turning `from` into `to`, so the cursor survives external updates. */
+const minimalChange = (from: string, to: string) => {
+  let start = 0;
+  while (start < from.length && start < to.length && from[start] === to[start]) start++;
+  let endFrom = from.length;
+  let endTo = to.length;
+  while (endFrom > start && endTo > start && from[endFrom - 1] === to[endTo - 1]) {
+    endFrom--;
+    endTo--;
+  }
+  return { from: start, to: endFrom, insert: to.slice(start, endTo) };
+};
+
 export function Editor({
   file,
+  path,
   onChange,
   theme,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo,
   onSave,
   saveStatus,
+  readOnly = false,
+  diagnostics,
+  onQuickInfo,
+  onGoToDefinition,
+  reveal,
 }: Props) {
-  const [value, setValue] = useState<string>(file.content ?? '');
+  const hostRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef<EditorView | null>(null);
+  const compartments = useRef({ language: new Compartment(), theme: new Compartment(), readOnly: new Compartment() }).current;
+  // The view outlives renders; it reads the latest props through this ref.
+  const latest = useRef({ file, path, theme, readOnly, onChange, onSave, onUndo, onRedo, onQuickInfo, onGoToDefinition });
+  latest.current = { file, path, theme, readOnly, onChange, onSave, onUndo, onRedo, onQuickInfo, onGoToDefinition };
+  const revealedAt = useRef(0);
+  const language = file.language ?? inferLanguage(path);
+
+  // A new file gets a fresh editor state, so undo history and folds never leak between files.
+  useEffect(() => {
+    const current = latest.current;
+    const view = new EditorView({
+      parent: hostRef.current!,
+      state: EditorState.create({
+        doc: current.file.content ?? '',
+        extensions: [
+          EDITING,
+          Prec.high(keymap.of([
+            { key: 'Mod-s', preventDefault: true, run: () => { latest.current.onSave(); return true; } },
+            { key: 'Mod-z', preventDefault: true, run: () => { latest.current.onUndo(); return true; } },
+            { key: 'Mod-Shift-z', preventDefault: true, run: () => { latest.current.onRedo(); return true; } },
+            { key: 'Mod-y', preventDefault: true, run: () => { latest.current.onRedo(); return true; } },
+            {
+              key: 'F12',
+              run: target => {
+                if (!latest.current.onGoToDefinition) return false;
+                latest.current.onGoToDefinition(target.state.selection.main.head);
+                return true;
+              },
+            },
+          ])),
+          EditorView.domEventHandlers({
+            mousedown: (event, target) => {
+              if (!(event.metaKey || event.ctrlKey) || !latest.current.onGoToDefinition) return false;
+              const position = target.posAtCoords(event);
+              if (position === null) return false;
+              event.preventDefault();
+              latest.current.onGoToDefinition(position);
+              return true;
+            },
+          }),
+          hoverTooltip(async (_, position) => {
+            const info = await latest.current.onQuickInfo?.(position);
+            return info ? { pos: info.from, end: info.to, above: true, create: () => quickInfoTooltip(info) } : null;
+          }),
+          compartments.language.of(languageExtension(current.file.language ?? inferLanguage(current.path), current.path)),
+          compartments.theme.of(themeExtension(current.theme)),
+          compartments.readOnly.of(readOnlyExtension(current.readOnly)),
+          EditorView.updateListener.of(update => {
+            if (!update.docChanged || update.transactions.some(tr => tr.annotation(External))) return;
+            latest.current.onChange(update.state.doc.toString());
+          }),
+        ],
+      }),
+    });
+    viewRef.current = view;
+    return () => {
+      view.destroy();
+      viewRef.current = null;
+    };
+  }, [path, compartments]);
+
+  useEffect(() => {
+    const view = viewRef.current;
+    const content = file.content ?? '';
+    if (!view || view.state.doc.toString() === content) return;
+    view.dispatch({
+      changes: minimalChange(view.state.doc.toString(), content),
+      annotations: External.of(true),
+      effects: readOnly ? EditorView.scrollIntoView(content.length) : undefined,
+    });
+  }, [file.content, readOnly]);
+
+  // Offsets may predate the latest keystrokes; they are clamped to the current text.
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view) return;
+    const length = view.state.doc.length;
+    view.dispatch(setDiagnostics(view.state, (diagnostics ?? []).map(diagnostic => ({
+      from: Math.min(diagnostic.from, length),
+      to: Math.min(Math.max(diagnostic.to, diagnostic.from), length),
+      severity: diagnostic.severity,
+      message: diagnostic.message,
+      source: `TS${diagnostic.code}`,
+    }))));
+  }, [diagnostics, path]);
+
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view || !reveal || reveal.at === revealedAt.current) return;
+    revealedAt.current = reveal.at;
+    const anchor = Math.min(reveal.offset, view.state.doc.length);
+    view.dispatch({ selection: { anchor }, effects: EditorView.scrollIntoView(anchor, { y: 'center' }) });
+    view.focus();
+  }, [reveal, path]);
+
+  useEffect(() => {
+    viewRef.current?.dispatch({ effects: compartments.language.reconfigure(languageExtension(language, path)) });
+  }, [language, path, compartments]);
+
+  useEffect(() => {
+    viewRef.current?.dispatch({ effects: compartments.theme.reconfigure(themeExtension(theme)) });
+  }, [theme, compartments]);
 
   useEffect(() => {
-    setValue(file.content ?? '');
-  }, [file]);
+    viewRef.current?.dispatch({ effects: compartments.readOnly.reconfigure(readOnlyExtension(readOnly)) });
+  }, [readOnly, compartments]);
 
   return (
     <div className="h-full flex flex-col">
       <div className="flex items-center justify-between px-4 py-2 text-xs border-b border-white/5">
         <div className="flex items-center gap-2 font-mono">
-          <span>{file.name}</span>
-          <span
-            className={`px-2 py-0.5 rounded-full text-[10px] uppercase font-bold ${
-              saveStatus === 'saved'
-                ? 'bg-emerald-500/10 text-emerald-400'
-                : 'bg-indigo-500/10 text-indigo-400'
-            }`}
-          >
-            {saveStatus}
-          </span>
+          <span>{path}</span>
+          {readOnly ? (
+            <span className="px-2 py-0.5 rounded-full text-[10px] uppercase font-bold bg-amber-500/10 text-amber-400 animate-pulse">
+              streaming
+            </span>
+          ) : (
+            <span
+              className={`px-2 py-0.5 rounded-full text-[10px] uppercase font-bold ${
+                saveStatus === 'saved'
+                  ? 'bg-emerald-500/10 text-emerald-400'
+                  : 'bg-indigo-500/10 text-indigo-400'
+              }`}
+            >
+              {saveStatus}
+            </span>
+          )}
         </div>
-        <button
-          onClick={onSave}
-          className="px-3 py-1.5 rounded-md bg-indigo-600 text-white text-[11px] font-bold hover:bg-indigo-700 transition-colors"
-        >
-          Save
-        </button>
+        {!readOnly && (
+          <div className="flex items-center gap-1">
+            <button
+              onClick={onUndo}
+              disabled={!canUndo}
+              title="Undo (Ctrl+Z)"
+              className="p-1.5 rounded-md hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent"
+            >
+              <Undo2 className="w-3.5 h-3.5" />
+            </button>
+            <button
+              onClick={onRedo}
+              disabled={!canRedo}
+              title="Redo (Ctrl+Shift+Z)"
+              className="p-1.5 rounded-md hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent"
+            >
+              <Redo2 className="w-3.5 h-3.5" />
+            </button>
+            <button
+              onClick={onSave}
+              className="px-3 py-1.5 rounded-md bg-indigo-600 text-white text-[11px] font-bold hover:bg-indigo-700 transition-colors"
+            >
+              Save
+            </button>
+          </div>
+        )}
       </div>
 
-      <textarea
-        value={value}
-        onChange={(e) => {
-          setValue(e.target.value);
-          onChange(e.target.value);
-        }}
-        className={`flex-1 p-4 font-mono text-sm outline-none resize-none ${
-          theme === 'dark'
-            ? 'bg-[#0f0f12] text-gray-100 border-none'
-            : 'bg-white text-gray-900 border border-gray-200'
-        }`}
-        spellCheck={false}
+      <div
+        ref={hostRef}
+        className={`flex-1 min-h-0 overflow-hidden ${theme === 'dark' ? 'bg-[#0f0f12]' : 'bg-white border border-gray-200'}`}
       />
     </div>
   );
@@ -0,0 +1,98 @@
+import React from 'react';
+import { DndContext, DragEndEvent, PointerSensor, closestCenter, useSensor, useSensors } from '@dnd-kit/core';
+import { SortableContext, arrayMove, horizontalListSortingStrategy, useSortable } from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import { FileCode, X } from 'lucide-react';
+import { Theme } from '../types';
+import { basename } from '../services/virtualFs';
+
+interface Props {
+  tabs: string[];
+  activePath: string | null;
+  /** Files with edits that have not been saved yet. */
+  dirtyPaths: Set<string>;
+  /** Whether this strip belongs to the focused pane. */
+  focused: boolean;
+  onSelect: (path: string) => void;
+  onClose: (path: string) => void;
+  onReorder: (tabs: string[]) => void;
+  theme: Theme;
+}
+
+interface TabProps {
+  path: string;
+  active: boolean;
+  dirty: boolean;
+  focused: boolean;
+  onSelect: () => void;
+  onClose: () => void;
+  theme: Theme;
+}
+
+const SortableTab: React.FC<TabProps> = ({ path, active, dirty, focused, onSelect, onClose, theme }) => {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id: path });
+  const activeClass = theme === 'dark' ? 'bg-[#1e1e2e] text-gray-100' : 'bg-white text-gray-900';
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ transform: CSS.Transform.toString(transform), transition }}
+      {...attributes}
+      {...listeners}
+      onClick={onSelect}
+      onAuxClick={(e) => { if (e.button === 1) onClose(); }}
+      title={path}
+      className={`group flex items-center gap-2 px-3 py-1.5 text-xs font-medium border-t-2 cursor-pointer select-none shrink-0 ${
+        active ? `${activeClass} ${focused ? 'border-indigo-500' : 'border-gray-500'}` : 'border-transparent text-gray-500 hover:text-gray-300'
+      } ${isDragging ? 'opacity-60 z-10' : ''}`}
+    >
+      <FileCode className="w-3.5 h-3.5 text-indigo-400" />
+      <span className="truncate max-w-[150px]">{basename(path)}</span>
+      <button
+        onPointerDown={(e) => e.stopPropagation()}
+        onClick={(e) => { e.stopPropagation(); onClose(); }}
+        title={dirty ? 'Unsaved changes' : 'Close'}
+        className="w-3.5 h-3.5 flex items-center justify-center rounded hover:bg-white/10"
+      >
+        {dirty ? (
+          <>
+            <span className="w-2 h-2 rounded-full bg-amber-400 group-hover:hidden" />
+            <X className="w-3 h-3 hidden group-hover:block" />
+          </>
+        ) : (
+          <X className="w-3 h-3" />
+        )}
+      </button>
+    </div>
+  );
+};
+
+export function EditorTabs({ tabs, activePath, dirtyPaths, focused, onSelect, onClose, onReorder, theme }: Props) {
+  // A small drag threshold keeps plain clicks selecting tabs.
+  const sensors = useSensors(useSensor(PointerSensor, { activationConstraint: { distance: 5 } }));
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    if (!over || active.id === over.id) return;
+    onReorder(arrayMove(tabs, tabs.indexOf(String(active.id)), tabs.indexOf(String(over.id))));
+  };
+
+  return (
+    <div className={`flex items-end overflow-x-auto custom-scrollbar border-b shrink-0 ${theme === 'dark' ? 'bg-[#09090b] border-white/10' : 'bg-gray-100 border-gray-200'}`}>
+      <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+        <SortableContext items={tabs} strategy={horizontalListSortingStrategy}>
+          {tabs.map(path => (
+            <SortableTab
+              key={path}
+              path={path}
+              active={path === activePath}
+              dirty={dirtyPaths.has(path)}
+              focused={focused}
+              onSelect={() => onSelect(path)}
+              onClose={() => onClose(path)}
+              theme={theme}
+            />
+          ))}
+        </SortableContext>
+      </DndContext>
+    </div>
+  );
+}
@@ -0,0 +1,307 @@
+import React, { useEffect, useState } from 'react';
+import {
+  CollisionDetection, DndContext, DragEndEvent, DragOverlay, DragStartEvent, PointerSensor, pointerWithin, useDroppable, useSensor, useSensors,
+} from '@dnd-kit/core';
+import { Download, FileArchive, FileCode, FilePlus, FolderInput, FolderPlus } from 'lucide-react';
+import { FileChangeAction, FileNode, Theme } from '../types';
+import { basename, dirname, exists, getFile, getNode, isValidName, joinPath, normalizePath } from '../services/virtualFs';
+import { FileTreeItem, InlineEdit, TreeHandlers } from './FileTreeItem';
+
+interface Props {
+  files: FileNode[];
+  onSelect: (path: string) => void;
+  activePath?: string | null;
+  pendingActions?: Record<string, FileChangeAction>;
+  theme: Theme;
+  /** File operations return an error to show, or null once applied. */
+  onCreate: (path: string, type: 'file' | 'folder') => string | null;
+  onMove: (from: string, to: string, before?: string) => string | null;
+  onDuplicate: (path: string) => void;
+  onDelete: (path: string) => void;
+  onImport?: (source: 'zip' | 'folder') => void;
+  onExport?: () => void;
+}
+
+interface MenuState {
+  /** `''` for the explorer background (the project root). */
+  path: string;
+  x: number;
+  y: number;
+}
+
+const ROOT_DROP_ID = 'drop-root';
+
+// The root area surrounds every row; it only wins when the pointer is over no row at all.
+const collisionDetection: CollisionDetection = (args) => {
+  const hits = pointerWithin(args);
+  const rows = hits.filter(hit => hit.id !== ROOT_DROP_ID);
+  return rows.length > 0 ? rows : hits;
+};
+
+const isMod = (event: React.KeyboardEvent) => event.metaKey || event.ctrlKey;
+
+interface NameInputProps {
+  initial: string;
+  icon: React.ReactNode;
+  validate: (value: string) => string | null;
+  /** Returns an error to keep the input open with. */
+  onCommit: (value: string) => string | null;
+  onCancel: () => void;
+  theme: Theme;
+}
+
+const NameInput: React.FC<NameInputProps> = ({ initial, icon, validate, onCommit, onCancel, theme }) => {
+  const [value, setValue] = useState(initial);
+  const [commitError, setCommitError] = useState<string | null>(null);
+  const error = commitError ?? (value === initial ? null : validate(value));
+
+  const commit = () => {
+    if (value === initial || !value.trim()) return onCancel();
+    if (error) return;
+    setCommitError(onCommit(value.trim()));
+  };
+
+  return (
+    <div>
+      <div className="flex items-center gap-2">
+        {icon}
+        <input
+          autoFocus
+          value={value}
+          onChange={(e) => { setValue(e.target.value); setCommitError(null); }}
+          // Select the name without its extension, like most editors.
+          onFocus={(e) => e.target.setSelectionRange(value.lastIndexOf('/') + 1, value.lastIndexOf('.') > value.lastIndexOf('/') + 1 ? value.lastIndexOf('.') : value.length)}
+          onKeyDown={(e) => {
+            e.stopPropagation();
+            if (e.key === 'Enter') commit();
+            if (e.key === 'Escape') onCancel();
+          }}
+          onBlur={() => (error || value === initial ? onCancel() : commit())}
+          className={`flex-1 min-w-0 px-1.5 py-0.5 rounded text-sm border outline-none ${
+            error ? 'border-red-500' : 'border-indigo-500'
+          } ${theme === 'dark' ? 'bg-[#09090b] text-gray-100' : 'bg-white text-gray-900'}`}
+        />
+      </div>
+      {error && <div className="mt-1 text-[11px] text-red-400">{error}</div>}
+    </div>
+  );
+};
+
+function RootDropZone({ children, onContextMenu }: { children: React.ReactNode; onContextMenu: (event: React.MouseEvent) => void }) {
+  const { setNodeRef, isOver } = useDroppable({ id: ROOT_DROP_ID, data: { path: '', isFolder: true } });
+  return (
+    <div ref={setNodeRef} onContextMenu={onContextMenu} className={`min-h-full space-y-1 ${isOver ? 'bg-indigo-500/5' : ''}`}>
+      {children}
+    </div>
+  );
+}
+
+/** The project tree with file management: context menu, keyboard shortcuts, inline rename and drag-and-drop moves. */
+export function FileExplorer({ files, onSelect, activePath, pendingActions, theme, onCreate, onMove, onDuplicate, onDelete, onImport, onExport }: Props) {
+  const [editing, setEditing] = useState<InlineEdit | null>(null);
+  const [menu, setMenu] = useState<MenuState | null>(null);
+  const [dragging, setDragging] = useState<string | null>(null);
+  const sensors = useSensors(useSensor(PointerSensor, { activationConstraint: { distance: 5 } }));
+
+  useEffect(() => {
+    if (!menu) return;
+    const close = () => setMenu(null);
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') close(); };
+    window.addEventListener('mousedown', close);
+    window.addEventListener('blur', close);
+    window.addEventListener('keydown', onKey);
+    return () => {
+      window.removeEventListener('mousedown', close);
+      window.removeEventListener('blur', close);
+      window.removeEventListener('keydown', onKey);
+    };
+  }, [menu]);
+
+  const isFolder = (path: string) => path === '' || getNode(files, path)?.type === 'folder';
+  /** Folder that new entries go into when `path` is selected. */
+  const folderOf = (path: string) => isFolder(path) ? path : dirname(path);
+  const siblingsOf = (path: string) => (dirname(path) ? getNode(files, dirname(path))?.children : files) ?? [];
+
+  /** Checks a full target path; `source` is the node being renamed or moved, if any. */
+  const validateTarget = (target: string, source?: string) => {
+    if (target.split('/').some(segment => !isValidName(segment))) return 'Enter a name without empty parts, "." or ".." or backslashes.';
+    const normalized = normalizePath(target);
+    if (source && normalized === source) return null;
+    if (source && normalized.startsWith(`${source}/`)) return 'A folder cannot be moved into itself.';
+    if (exists(files, normalized)) return `"${normalized}" already exists.`;
+    const segments = normalized.split('/');
+    const blocking = segments.slice(0, -1).map((_, index) => segments.slice(0, index + 1).join('/')).find(prefix => getFile(files, prefix));
+    return blocking ? `"${blocking}" is a file, not a folder.` : null;
+  };
+
+  const targetOf = (edit: InlineEdit, value: string) => {
+    if (edit.mode === 'move') return value;
+    const folder = edit.mode === 'rename' ? dirname(edit.path) : edit.path;
+    return folder ? `${folder}/${value}` : value;
+  };
+
+  const commitEdit = (edit: InlineEdit, value: string) => {
+    const target = normalizePath(targetOf(edit, value));
+    const error = edit.mode === 'new-file' || edit.mode === 'new-folder'
+      ? onCreate(target, edit.mode === 'new-file' ? 'file' : 'folder')
+      : onMove(edit.path, target);
+    if (!error) setEditing(null);
+    return error;
+  };
+
+  const startCreate = (path: string, type: 'file' | 'folder') => setEditing({ mode: type === 'file' ? 'new-file' : 'new-folder', path: folderOf(path) });
+
+  const confirmDelete = (path: string) => {
+    const what = isFolder(path) ? `the folder "${path}" and everything in it` : `"${path}"`;
+    if (window.confirm(`Delete ${what}? This cannot be undone.`)) onDelete(path);
+  };
+
+  /** Alt+Up/Down: swaps a node with its neighbour in the same folder. */
+  const reorder = (path: string, direction: -1 | 1) => {
+    const siblings = siblingsOf(path);
+    const index = siblings.findIndex(node => node.name === basename(path));
+    const neighbour = siblings[index + direction];
+    if (index === -1 || !neighbour) return;
+    const neighbourPath = joinPath(dirname(path), neighbour.name);
+    // Moving down is the neighbour moving up.
+    if (direction === -1) onMove(path, path, neighbour.name);
+    else onMove(neighbourPath, neighbourPath, basename(path));
+  };
+
+  const openMenuAt = (path: string, x: number, y: number) => {
+    setEditing(null);
+    setMenu({ path, x, y });
+  };
+
+  const handlers: TreeHandlers = {
+    editing,
+    renderInput: () => editing && (
+      <NameInput
+        key={`${editing.mode}:${editing.path}`}
+        initial={editing.mode === 'move' ? editing.path : editing.mode === 'rename' ? basename(editing.path) : ''}
+        icon={editing.mode === 'new-folder' ? <FolderPlus className="w-4 h-4 shrink-0" /> : <FileCode className="w-4 h-4 shrink-0" />}
+        validate={(value) => validateTarget(targetOf(editing, value), editing.mode === 'rename' || editing.mode === 'move' ? editing.path : undefined)}
+        onCommit={(value) => commitEdit(editing, value)}
+        onCancel={() => setEditing(null)}
+        theme={theme}
+      />
+    ),
+    onContextMenu: (event, path) => {
+      event.preventDefault();
+      event.stopPropagation();
+      openMenuAt(path, event.clientX, event.clientY);
+    },
+    onKeyDown: (event, path) => {
+      if (event.key === 'F2') setEditing({ mode: event.shiftKey ? 'move' : 'rename', path });
+      else if (event.key === 'Delete' || (event.key === 'Backspace' && isMod(event))) confirmDelete(path);
+      else if (event.key.toLowerCase() === 'd' && isMod(event)) onDuplicate(path);
+      else if (event.key.toLowerCase() === 'n' && !isMod(event) && !event.altKey) startCreate(path, event.shiftKey ? 'folder' : 'file');
+      else if (event.altKey && (event.key === 'ArrowUp' || event.key === 'ArrowDown')) reorder(path, event.key === 'ArrowUp' ? -1 : 1);
+      else if (event.key === 'ContextMenu' || (event.key === 'F10' && event.shiftKey)) {
+        const rect = event.currentTarget.getBoundingClientRect();
+        openMenuAt(path, rect.left + 24, rect.bottom);
+      } else return;
+      event.preventDefault();
+    },
+  };
+
+  const handleDragStart = ({ active }: DragStartEvent) => setDragging(String(active.id));
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    setDragging(null);
+    const from = String(active.id);
+    const target = over?.data.current as { path: string; isFolder: boolean } | undefined;
+    if (!target || target.path === from) return;
+    const folder = target.isFolder ? target.path : dirname(target.path);
+    const error = onMove(from, joinPath(folder, basename(from)), target.isFolder ? undefined : basename(target.path));
+    if (error) window.alert(error);
+  };
+
+  const menuItems: { label: string; hint?: string; run: () => void; danger?: boolean }[] = menu ? [
+    { label: 'New File', hint: 'N', run: () => startCreate(menu.path, 'file') },
+    { label: 'New Folder', hint: 'Shift+N', run: () => startCreate(menu.path, 'folder') },
+    ...(menu.path ? [
+      { label: 'Rename', hint: 'F2', run: () => setEditing({ mode: 'rename', path: menu.path }) },
+      { label: 'Move to...', hint: 'Shift+F2', run: () => setEditing({ mode: 'move', path: menu.path }) },
+      { label: 'Duplicate', hint: 'Ctrl+D', run: () => onDuplicate(menu.path) },
+      { label: 'Delete', hint: 'Del', run: () => confirmDelete(menu.path), danger: true },
+    ] : []),
+  ] : [];
+
+  const rootCreating = editing && (editing.mode === 'new-file' || editing.mode === 'new-folder') && editing.path === '';
+
+  return (
+    <DndContext sensors={sensors} collisionDetection={collisionDetection} onDragStart={handleDragStart} onDragEnd={handleDragEnd} onDragCancel={() => setDragging(null)}>
+      <RootDropZone onContextMenu={(e) => { e.preventDefault(); openMenuAt('', e.clientX, e.clientY); }}>
+        <div className="flex items-center justify-end gap-1 px-3 pb-1">
+          <button onClick={() => startCreate('', 'file')} title="New file" className="p-1 rounded-md text-gray-500 hover:text-gray-200 hover:bg-white/5">
+            <FilePlus className="w-3.5 h-3.5" />
+          </button>
+          <button onClick={() => startCreate('', 'folder')} title="New folder" className="p-1 rounded-md text-gray-500 hover:text-gray-200 hover:bg-white/5">
+            <FolderPlus className="w-3.5 h-3.5" />
+          </button>
+          {onImport && (
+            <>
+              <button onClick={() => onImport('zip')} title="Import a .zip" className="p-1 rounded-md text-gray-500 hover:text-gray-200 hover:bg-white/5">
+                <FileArchive className="w-3.5 h-3.5" />
+              </button>
+              <button onClick={() => onImport('folder')} title="Import a folder" className="p-1 rounded-md text-gray-500 hover:text-gray-200 hover:bg-white/5">
+                <FolderInput className="w-3.5 h-3.5" />
+              </button>
+            </>
+          )}
+          {onExport && (
+            <button onClick={onExport} title="Download as .zip" className="p-1 rounded-md text-gray-500 hover:text-gray-200 hover:bg-white/5">
+              <Download className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+        {rootCreating && <div className="px-3 py-1">{handlers.renderInput()}</div>}
+        {files.map(node => (
+          <FileTreeItem
+            key={node.name}
+            node={node}
+            path={node.name}
+            onSelect={onSelect}
+            activePath={activePath}
+            pendingActions={pendingActions}
+            theme={theme}
+            handlers={handlers}
+          />
+        ))}
+      </RootDropZone>
+
+      <DragOverlay dropAnimation={null}>
+        {dragging && (
+          <div className="inline-flex items-center gap-2 px-3 py-1.5 rounded-md text-sm shadow-xl bg-indigo-600 text-white">
+            <FileCode className="w-4 h-4" />
+            {basename(dragging)}
+          </div>
+        )}
+      </DragOverlay>
+
+      {menu && (
+        <div
+          style={{ left: menu.x, top: menu.y }}
+          onMouseDown={(e) => e.stopPropagation()}
+          className={`fixed z-50 min-w-[190px] py-1 rounded-lg border shadow-2xl text-xs ${
+            theme === 'dark' ? 'bg-[#18181b] border-white/10 text-gray-200' : 'bg-white border-gray-200 text-gray-800'
+          }`}
+        >
+          {menuItems.map(item => (
+            <button
+              key={item.label}
+              onClick={() => { setMenu(null); item.run(); }}
+              className={`w-full flex items-center justify-between gap-6 px-3 py-1.5 text-left ${
+                theme === 'dark' ? 'hover:bg-white/10' : 'hover:bg-gray-100'
+              } ${item.danger ? 'text-red-400' : ''}`}
+            >
+              {item.label}
+              {item.hint && <span className="text-[10px] text-gray-500">{item.hint}</span>}
+            </button>
+          ))}
+        </div>
+      )}
+    </DndContext>
+  );
+}
@@ -1,59 +1,123 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { useDraggable, useDroppable } from '@dnd-kit/core';
 import { ChevronDown, ChevronRight, FileCode, Folder } from 'lucide-react';
-import { FileNode, Theme } from '../types';
+import { FileChangeAction, FileNode, Theme } from '../types';
+
+/** Inline name input shown in the tree: renaming or moving `path`, or creating inside folder `path` (`''` is the root). */
+export interface InlineEdit {
+  mode: 'rename' | 'move' | 'new-file' | 'new-folder';
+  path: string;
+}
+
+/** Explorer state and handlers every row needs; see `FileExplorer`. */
+export interface TreeHandlers {
+  editing: InlineEdit | null;
+  renderInput: () => React.ReactNode;
+  onContextMenu: (event: React.MouseEvent, path: string) => void;
+  onKeyDown: (event: React.KeyboardEvent<HTMLButtonElement>, path: string) => void;
+}
 
 interface Props {
   node: FileNode;
-  onSelect: (file: FileNode) => void;
-  activeFileName?: string;
+  path: string;
+  onSelect: (path: string) => void;
+  activePath?: string | null;
+  pendingActions?: Record<string, FileChangeAction>;
   theme: Theme;
+  handlers: TreeHandlers;
 }
 
-export function FileTreeItem({ node, onSelect, activeFileName, theme }: Props) {
+const PENDING_BADGES: Record<FileChangeAction, { label: string; className: string }> = {
+  create: { label: 'A', className: 'text-emerald-400' },
+  modify: { label: 'M', className: 'text-amber-400' },
+  delete: { label: 'D', className: 'text-red-400' },
+};
+
+export function FileTreeItem({ node, path, onSelect, activePath, pendingActions = {}, theme, handlers }: Props) {
   const [isOpen, setIsOpen] = useState<boolean>(node.isOpen ?? false);
   const isFolder = node.type === 'folder';
+  const pending = pendingActions[path];
+  const { editing } = handlers;
+  const renaming = editing && (editing.mode === 'rename' || editing.mode === 'move') && editing.path === path;
+  const creatingHere = isFolder && editing && (editing.mode === 'new-file' || editing.mode === 'new-folder') && editing.path === path;
+
+  // Rows are dragged by their path and dropped onto: into a folder, or in front of a file.
+  const { attributes, listeners, setNodeRef: setDragRef, isDragging } = useDraggable({ id: path });
+  const { setNodeRef: setDropRef, isOver } = useDroppable({ id: `drop:${path}`, data: { path, isFolder } });
+
+  useEffect(() => {
+    if (creatingHere) setIsOpen(true);
+  }, [creatingHere]);
 
   const toggleOpen = () => {
     if (isFolder) {
       setIsOpen((prev) => !prev);
     } else {
-      onSelect(node);
+      onSelect(path);
     }
   };
 
   return (
     <div className="text-sm">
-      <button
-        onClick={toggleOpen}
-        className={`w-full flex items-center gap-2 px-3 py-2 rounded-md transition-colors ${
-          theme === 'dark'
-            ? 'hover:bg-white/5 text-gray-200'
-            : 'hover:bg-gray-100 text-gray-700'
-        } ${activeFileName === node.name ? 'bg-indigo-500/10 text-indigo-500' : ''}`}
-      >
-        {isFolder ? (
-          <>
-            {isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
-            <Folder className="w-4 h-4" />
-          </>
-        ) : (
-          <>
-            <span className="w-4 h-4" />
-            <FileCode className="w-4 h-4" />
-          </>
-        )}
-        <span className="truncate text-left">{node.name}</span>
-      </button>
+      {renaming ? (
+        <div className="px-3 py-1">{handlers.renderInput()}</div>
+      ) : (
+        <button
+          ref={(element) => { setDragRef(element); setDropRef(element); }}
+          {...attributes}
+          {...listeners}
+          onClick={toggleOpen}
+          onContextMenu={(e) => handlers.onContextMenu(e, path)}
+          onKeyDown={(e) => handlers.onKeyDown(e, path)}
+          data-path={path}
+          className={`w-full flex items-center gap-2 px-3 py-2 rounded-md transition-colors ${
+            theme === 'dark'
+              ? 'hover:bg-white/5 text-gray-200'
+              : 'hover:bg-gray-100 text-gray-700'
+          } ${activePath === path ? 'bg-indigo-500/10 text-indigo-500' : ''} ${
+            isOver ? 'ring-1 ring-indigo-400 bg-indigo-500/10' : ''
+          } ${isDragging ? 'opacity-40' : ''}`}
+        >
+          {isFolder ? (
+            <>
+              {isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+              <Folder className="w-4 h-4" />
+            </>
+          ) : (
+            <>
+              <span className="w-4 h-4" />
+              <FileCode className="w-4 h-4" />
+            </>
+          )}
+          <span className="truncate text-left">{node.name}</span>
+          {pending ? (
+            <span title="Pending agent change" className={`ml-auto text-[10px] font-bold italic ${PENDING_BADGES[pending].className}`}>
+              {PENDING_BADGES[pending].label}
+            </span>
+          ) : node.changeStatus ? (
+            <span
+              title={node.changeStatus === 'added' ? 'Added by an agent' : 'Modified by an agent'}
+              className={`ml-auto text-[10px] font-bold ${node.changeStatus === 'added' ? 'text-emerald-400' : 'text-amber-400'}`}
+            >
+              {node.changeStatus === 'added' ? 'A' : 'M'}
+            </span>
+          ) : null}
+        </button>
+      )}
 
       {isFolder && isOpen && node.children && (
         <div className="pl-5 border-l border-white/5 space-y-1">
+          {creatingHere && <div className="px-3 py-1">{handlers.renderInput()}</div>}
           {node.children.map((child) => (
             <FileTreeItem
               key={child.name}
               node={child}
+              path={`${path}/${child.name}`}
               onSelect={onSelect}
-              activeFileName={activeFileName}
+              activePath={activePath}
+              pendingActions={pendingActions}
               theme={theme}
+              handlers={handlers}
             />
           ))}
         </div>
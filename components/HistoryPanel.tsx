@@ -0,0 +1,247 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Bot, ChevronDown, ChevronRight, GitBranch, GitCommitHorizontal, Plus, RotateCcw, Trash2, User } from 'lucide-react';
+import { Commit, Theme } from '../types';
+import { Repository, SnapshotDiff, commitLog, tipOf, validateBranchName } from '../services/versionControl';
+
+interface Props {
+  /** Null while the history is loading. */
+  repository: Repository | null;
+  /** Files that differ from the checked-out branch's latest commit. */
+  changedCount: number;
+  theme: Theme;
+  /** History actions wait until the agents finish, since a run writes to the files. */
+  disabled?: boolean;
+  onCommit: (message: string) => void;
+  onCheckout: (branch: string) => void;
+  onCreateBranch: (name: string, commitId: string | null) => void;
+  onDeleteBranch: (name: string) => void;
+  /** Replaces the files with those of `commit`; undoable like other edits. */
+  onRestore: (commit: Commit) => void;
+  loadDiff: (from: Commit | null, to: Commit) => Promise<SnapshotDiff[]>;
+}
+
+const STATUS_STYLES = {
+  added: 'text-emerald-400',
+  modified: 'text-amber-400',
+  deleted: 'text-red-400',
+};
+
+const lineClass = (line: string) =>
+  line.startsWith('+') ? 'text-emerald-300 bg-emerald-500/5' : line.startsWith('-') ? 'text-red-300 bg-red-500/5' : line.startsWith('@@') ? 'text-indigo-300' : 'text-gray-400';
+
+export function HistoryPanel({ repository, changedCount, theme, disabled, onCommit, onCheckout, onCreateBranch, onDeleteBranch, onRestore, loadDiff }: Props) {
+  const [message, setMessage] = useState('');
+  const [selected, setSelected] = useState<string | null>(null);
+  // Commit the selected one is compared with; its parent unless another is picked.
+  const [compareWith, setCompareWith] = useState<string | null>(null);
+  const [diffs, setDiffs] = useState<SnapshotDiff[] | null>(null);
+  const [diffError, setDiffError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [newBranch, setNewBranch] = useState<{ name: string; from: string | null; error: string | null } | null>(null);
+
+  const log = useMemo(() => repository ? commitLog(repository, repository.branches[repository.head]) : [], [repository]);
+  const selectedCommit = selected && repository ? repository.commits[selected] ?? null : null;
+  const baseId = compareWith ?? selectedCommit?.parent ?? null;
+  const baseCommit = baseId && repository ? repository.commits[baseId] ?? null : null;
+
+  useEffect(() => {
+    if (!selectedCommit) return;
+    let cancelled = false;
+    setDiffs(null);
+    setDiffError(null);
+    loadDiff(baseCommit, selectedCommit)
+      .then(result => { if (!cancelled) setDiffs(result); })
+      .catch(err => { if (!cancelled) setDiffError(err instanceof Error ? err.message : String(err)); });
+    return () => { cancelled = true; };
+  }, [selectedCommit, baseCommit]);
+
+  if (!repository) return <div className="px-3 text-xs text-gray-500">Loading history…</div>;
+
+  const select = (id: string) => {
+    setSelected(prev => prev === id ? null : id);
+    setCompareWith(null);
+    setExpanded(new Set());
+  };
+
+  const commit = () => {
+    onCommit(message);
+    setMessage('');
+  };
+
+  const submitBranch = () => {
+    if (!newBranch) return;
+    const error = validateBranchName(repository, newBranch.name);
+    if (error) {
+      setNewBranch({ ...newBranch, error });
+      return;
+    }
+    onCreateBranch(newBranch.name, newBranch.from);
+    setNewBranch(null);
+  };
+
+  const inputClass = `w-full px-2 py-1.5 rounded-md border text-xs outline-none focus:border-indigo-500 ${
+    theme === 'dark' ? 'bg-[#09090b] border-white/10 text-gray-100' : 'bg-white border-gray-200 text-gray-900'
+  }`;
+  const iconButton = 'p-1 rounded text-gray-500 hover:text-gray-200 hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent';
+  const allCommits = Object.values(repository.commits).sort((a, b) => b.createdAt - a.createdAt);
+  const otherBranches = Object.keys(repository.branches).filter(name => name !== repository.head).sort();
+
+  return (
+    <div className="px-3 space-y-3 text-xs">
+      <div className="flex items-center gap-1">
+        <GitBranch className="w-3.5 h-3.5 text-indigo-400 shrink-0" />
+        <select
+          value={repository.head}
+          onChange={(e) => onCheckout(e.target.value)}
+          disabled={disabled}
+          title="Check out a branch"
+          className={`${inputClass} py-1`}
+        >
+          {Object.keys(repository.branches).sort().map(name => <option key={name} value={name}>{name}</option>)}
+        </select>
+        <button onClick={() => setNewBranch({ name: '', from: repository.branches[repository.head], error: null })} disabled={disabled} title="New branch" className={iconButton}>
+          <Plus className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      {otherBranches.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {otherBranches.map(name => (
+            <span key={name} className="flex items-center gap-0.5 pl-2 pr-0.5 py-0.5 rounded-full border border-white/10 text-[10px]">
+              {name}
+              <button
+                onClick={() => {
+                  if (window.confirm(`Delete branch "${name}"? Its commits are kept only if another branch contains them.`)) onDeleteBranch(name);
+                }}
+                disabled={disabled}
+                title={`Delete ${name}`}
+                className={`${iconButton} hover:text-red-400`}
+              >
+                <Trash2 className="w-2.5 h-2.5" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      {newBranch && (
+        <div>
+          <input
+            autoFocus
+            value={newBranch.name}
+            onChange={(e) => setNewBranch({ ...newBranch, name: e.target.value, error: null })}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') submitBranch();
+              if (e.key === 'Escape') setNewBranch(null);
+            }}
+            placeholder={`New branch from ${newBranch.from ? newBranch.from.slice(0, 7) : repository.head}`}
+            className={`${inputClass} ${newBranch.error ? 'border-red-500' : ''}`}
+          />
+          {newBranch.error && <div className="mt-1 text-red-400">{newBranch.error}</div>}
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <div className="flex items-center gap-1">
+          <input
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter' && changedCount > 0 && !disabled) commit(); }}
+            placeholder="Commit message"
+            className={inputClass}
+          />
+          <button onClick={commit} disabled={disabled || changedCount === 0} title="Commit" className="px-2 py-1.5 rounded-md font-bold bg-indigo-600 text-white disabled:opacity-40">
+            Commit
+          </button>
+        </div>
+        <div className="text-gray-500">
+          {changedCount === 0 ? `No changes since the last commit on ${repository.head}.` : `${changedCount} file(s) changed since the last commit.`}
+        </div>
+      </div>
+
+      <div className="space-y-0.5">
+        {log.length === 0 && <div className="text-gray-500">No commits on this branch yet.</div>}
+        {log.map(entry => {
+          const isSelected = entry.id === selected;
+          return (
+            <div key={entry.id} className={`rounded-md ${isSelected ? (theme === 'dark' ? 'bg-white/5' : 'bg-gray-100') : ''}`}>
+              <button
+                onClick={() => select(entry.id)}
+                className={`w-full flex items-start gap-2 px-2 py-1.5 rounded-md text-left ${theme === 'dark' ? 'hover:bg-white/5' : 'hover:bg-gray-100'}`}
+              >
+                {entry.author === 'agent' ? <Bot className="w-3.5 h-3.5 mt-0.5 text-indigo-400 shrink-0" /> : <User className="w-3.5 h-3.5 mt-0.5 text-gray-500 shrink-0" />}
+                <span className="min-w-0">
+                  <span className="block truncate font-semibold">{entry.message}</span>
+                  <span className="block text-[10px] text-gray-500">
+                    <span className="font-mono">{entry.id.slice(0, 7)}</span> · {new Date(entry.createdAt).toLocaleString()}
+                    {entry.id === tipOf(repository)?.id && <span className="ml-1 text-indigo-400">{repository.head}</span>}
+                  </span>
+                </span>
+              </button>
+              {isSelected && (
+                <div className="px-2 pb-2 space-y-2">
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => {
+                        if (window.confirm(`Restore the files as of "${entry.message}"? Undo reverts the restore.`)) onRestore(entry);
+                      }}
+                      disabled={disabled}
+                      className="flex items-center gap-1 px-2 py-1 rounded-md border border-white/10 hover:border-indigo-500/50 disabled:opacity-40"
+                    >
+                      <RotateCcw className="w-3 h-3" /> Restore
+                    </button>
+                    <button
+                      onClick={() => setNewBranch({ name: '', from: entry.id, error: null })}
+                      disabled={disabled}
+                      className="flex items-center gap-1 px-2 py-1 rounded-md border border-white/10 hover:border-indigo-500/50 disabled:opacity-40"
+                    >
+                      <GitBranch className="w-3 h-3" /> Branch here
+                    </button>
+                  </div>
+                  <label className="flex items-center gap-1 text-gray-500">
+                    Compare with
+                    <select value={baseId ?? ''} onChange={(e) => setCompareWith(e.target.value || null)} className={`${inputClass} py-0.5`}>
+                      <option value="">(empty project)</option>
+                      {allCommits.filter(candidate => candidate.id !== entry.id).map(candidate => (
+                        <option key={candidate.id} value={candidate.id}>
+                          {candidate.id.slice(0, 7)} {candidate.message}{candidate.id === entry.parent ? ' (parent)' : ''}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  {diffError && <div className="text-red-400">{diffError}</div>}
+                  {!diffs && !diffError && <div className="text-gray-500">Loading changes…</div>}
+                  {diffs?.length === 0 && <div className="text-gray-500">No file changes.</div>}
+                  {diffs?.map(diff => {
+                    const isOpen = expanded.has(diff.path);
+                    return (
+                      <div key={diff.path}>
+                        <button
+                          onClick={() => setExpanded(prev => {
+                            const next = new Set(prev);
+                            if (isOpen) next.delete(diff.path);
+                            else next.add(diff.path);
+                            return next;
+                          })}
+                          className="w-full flex items-center gap-1 py-0.5 font-mono text-left"
+                        >
+                          {isOpen ? <ChevronDown className="w-3 h-3 shrink-0" /> : <ChevronRight className="w-3 h-3 shrink-0" />}
+                          <GitCommitHorizontal className={`w-3 h-3 shrink-0 ${STATUS_STYLES[diff.status]}`} />
+                          <span className="truncate">{diff.path}</span>
+                          <span className={`ml-auto text-[10px] ${STATUS_STYLES[diff.status]}`}>{diff.status}</span>
+                        </button>
+                        {isOpen && (
+                          <pre className="mt-1 max-h-64 overflow-auto rounded bg-black/30 text-[10px] leading-4 font-mono">
+                            {diff.diff.split('\n').map((line, index) => <div key={index} className={`px-2 whitespace-pre ${lineClass(line)}`}>{line || ' '}</div>)}
+                          </pre>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import React from 'react';
+import { Check, FileCode, X } from 'lucide-react';
+import { FileNode, Theme } from '../types';
+import { PendingChangeSet, hasDrifted } from '../services/changeSet';
+import { formatHunk } from '../services/diff';
+
+interface Props {
+  changeSets: PendingChangeSet[];
+  files: FileNode[];
+  theme: Theme;
+  error?: string | null;
+  onAcceptAll: () => void;
+  onRejectAll: () => void;
+  onAcceptFile: (setId: string, path: string) => void;
+  onRejectFile: (setId: string, path: string) => void;
+  onAcceptHunk: (setId: string, path: string, hunkIndex: number) => void;
+  onRejectHunk: (setId: string, path: string, hunkIndex: number) => void;
+}
+
+const ACTION_STYLES = {
+  create: 'bg-emerald-500/10 text-emerald-400',
+  modify: 'bg-amber-500/10 text-amber-400',
+  delete: 'bg-red-500/10 text-red-400',
+};
+
+const lineClass = (line: string) =>
+  line.startsWith('+') ? 'text-emerald-300 bg-emerald-500/5' : line.startsWith('-') ? 'text-red-300 bg-red-500/5' : line.startsWith('@@') ? 'text-indigo-300' : 'text-gray-400';
+
+export function PendingChangesPanel({
+  changeSets,
+  files,
+  theme,
+  error,
+  onAcceptAll,
+  onRejectAll,
+  onAcceptFile,
+  onRejectFile,
+  onAcceptHunk,
+  onRejectHunk,
+}: Props) {
+  const fileCount = changeSets.reduce((total, set) => total + set.files.length, 0);
+
+  return (
+    <div className={`h-full flex flex-col ${theme === 'dark' ? 'bg-[#0e0e11] text-gray-100' : 'bg-white text-gray-900'}`}>
+      <div className="flex items-center justify-between px-4 py-2 text-xs border-b border-white/5">
+        <div className="font-bold uppercase tracking-wide">Pending Changes</div>
+        {fileCount > 0 && (
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onRejectAll}
+              className="px-3 py-1.5 rounded-md text-[11px] font-bold border border-white/10 hover:border-red-400/50 hover:text-red-300 transition-colors"
+            >
+              Reject all
+            </button>
+            <button
+              onClick={onAcceptAll}
+              className="px-3 py-1.5 rounded-md text-[11px] font-bold bg-emerald-600 text-white hover:bg-emerald-700 transition-colors"
+            >
+              Accept all
+            </button>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="mx-4 mt-3 p-2 rounded-lg border border-red-500/30 bg-red-500/10 text-[11px] text-red-200 whitespace-pre-wrap">{error}</div>
+      )}
+
+      <div className="flex-1 overflow-auto p-4 space-y-4 custom-scrollbar">
+        {fileCount === 0 && (
+          <div className="text-sm text-gray-500">No pending changes. Agent proposals appear here for review before they touch your files.</div>
+        )}
+        {changeSets.map(set => (
+          <div key={set.id} className="space-y-3">
+            <div className="text-[11px] text-gray-400">
+              <span className="uppercase font-bold tracking-wide text-indigo-400">{set.agentRole}</span>
+              {' · '}
+              {new Date(set.createdAt).toLocaleTimeString()}
+              {set.explanation && <div className="mt-1 text-gray-300 whitespace-pre-wrap">{set.explanation}</div>}
+            </div>
+            {set.files.map(change => (
+              <div key={change.path} className="rounded-xl border border-white/10 overflow-hidden">
+                <div className="flex items-center justify-between gap-2 px-3 py-2 bg-white/5">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <FileCode className="w-3.5 h-3.5 shrink-0 text-indigo-400" />
+                    <span className="text-xs font-mono truncate">{change.path}</span>
+                    <span className={`px-2 py-0.5 rounded-full text-[10px] uppercase font-bold ${ACTION_STYLES[change.action]}`}>{change.action}</span>
+                    {hasDrifted(files, change) && (
+                      <span className="px-2 py-0.5 rounded-full text-[10px] font-bold bg-yellow-500/10 text-yellow-300" title="The file was edited after this change was proposed">
+                        edited since
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <button onClick={() => onRejectFile(set.id, change.path)} title="Reject file" className="p-1.5 rounded-md hover:bg-red-500/10 hover:text-red-300">
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                    <button onClick={() => onAcceptFile(set.id, change.path)} title="Accept file" className="p-1.5 rounded-md hover:bg-emerald-500/10 hover:text-emerald-300">
+                      <Check className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                </div>
+                {change.action === 'delete' ? (
+                  <div className="px-3 py-2 text-[11px] text-red-300">This file will be deleted.</div>
+                ) : (
+                  change.hunks.map((hunk, hunkIndex) => (
+                    <div key={`${hunk.oldStart}-${hunk.newStart}`} className="border-t border-white/5">
+                      {change.action === 'modify' && change.hunks.length > 1 && (
+                        <div className="flex justify-end gap-1 px-2 pt-1">
+                          <button onClick={() => onRejectHunk(set.id, change.path, hunkIndex)} className="px-2 py-0.5 rounded text-[10px] font-bold text-gray-400 hover:text-red-300">
+                            Reject hunk
+                          </button>
+                          <button onClick={() => onAcceptHunk(set.id, change.path, hunkIndex)} className="px-2 py-0.5 rounded text-[10px] font-bold text-gray-400 hover:text-emerald-300">
+                            Accept hunk
+                          </button>
+                        </div>
+                      )}
+                      <pre className="max-h-72 overflow-auto custom-scrollbar px-3 py-2 text-[11px] font-mono leading-relaxed">
+                        {formatHunk(hunk).split('\n').map((line, index) => (
+                          <div key={index} className={lineClass(line)}>{line || ' '}</div>
+                        ))}
+                      </pre>
+                    </div>
+                  ))
+                )}
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,322 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AgentRole, Theme } from '../types';
+import { AGENT_ROLES, DEFAULT_QUALITY_THRESHOLD, DEFAULT_STAGE_TIMEOUT_SECONDS, MAX_REPAIR_ITERATIONS, PipelineDefinition, PipelineStage, orderStages } from '../services/pipelines';
+import { ModelTier } from '../services/providers/types';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  pipelines: PipelineDefinition[];
+  selectedId: string;
+  /** Receives the full list of custom pipelines and the id to select. */
+  onSave: (customPipelines: PipelineDefinition[], selectedId: string) => void;
+  theme: Theme;
+}
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+const copyPipeline = (pipeline: PipelineDefinition, name: string): PipelineDefinition => ({
+  id: `custom-${generateId()}`,
+  name,
+  stages: pipeline.stages.map(stage => ({ ...stage, after: [...stage.after] })),
+});
+
+const nextStageId = (stages: PipelineStage[], role: AgentRole) => {
+  let id: string = role;
+  for (let n = 2; stages.some(stage => stage.id === id); n++) id = `${role}-${n}`;
+  return id;
+};
+
+export function PipelineEditorModal({ isOpen, onClose, pipelines, selectedId, onSave, theme }: Props) {
+  const [drafts, setDrafts] = useState<PipelineDefinition[]>([]);
+  const [currentId, setCurrentId] = useState(selectedId);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setDrafts(pipelines.filter(pipeline => !pipeline.builtIn));
+    setCurrentId(selectedId);
+  }, [isOpen, pipelines, selectedId]);
+
+  const all = useMemo(() => [...pipelines.filter(pipeline => pipeline.builtIn), ...drafts], [pipelines, drafts]);
+  const current = all.find(pipeline => pipeline.id === currentId) ?? all[0];
+
+  const validationError = useMemo(() => {
+    if (!current) return null;
+    try {
+      orderStages(current);
+      return null;
+    } catch (err) {
+      return err instanceof Error ? err.message : String(err);
+    }
+  }, [current]);
+
+  if (!isOpen || !current) return null;
+
+  const editable = !current.builtIn;
+  const inputClass = `w-full px-2 py-1 rounded-md border text-xs ${theme === 'dark' ? 'bg-[#0e0e11] border-white/10' : 'bg-white border-gray-200'}`;
+
+  const updateCurrent = (update: (pipeline: PipelineDefinition) => PipelineDefinition) =>
+    setDrafts(prev => prev.map(pipeline => pipeline.id === current.id ? update(pipeline) : pipeline));
+
+  // Stages are addressed by position: ids may briefly collide while one is being retyped.
+  const updateStage = (index: number, patch: Partial<PipelineStage>) =>
+    updateCurrent(pipeline => ({
+      ...pipeline,
+      stages: pipeline.stages.map((stage, i) => i === index ? { ...stage, ...patch } : stage),
+    }));
+
+  const renameStage = (index: number, nextId: string) =>
+    updateCurrent(pipeline => {
+      const previousId = pipeline.stages[index].id;
+      const unique = pipeline.stages.filter(stage => stage.id === previousId).length === 1;
+      return {
+        ...pipeline,
+        stages: pipeline.stages.map((stage, i) => ({
+          ...stage,
+          id: i === index ? nextId : stage.id,
+          after: unique ? stage.after.map(dependency => dependency === previousId ? nextId : dependency) : stage.after,
+        })),
+      };
+    });
+
+  const removeStage = (index: number) =>
+    updateCurrent(pipeline => {
+      const removedId = pipeline.stages[index].id;
+      return {
+        ...pipeline,
+        stages: pipeline.stages
+          .filter((_, i) => i !== index)
+          .map(stage => ({ ...stage, after: stage.after.filter(dependency => dependency !== removedId) })),
+      };
+    });
+
+  const addStage = () =>
+    updateCurrent(pipeline => {
+      const last = pipeline.stages[pipeline.stages.length - 1];
+      const id = nextStageId(pipeline.stages, 'developer');
+      return { ...pipeline, stages: [...pipeline.stages, { id, role: 'developer', after: last ? [last.id] : [] }] };
+    });
+
+  const toggleDependency = (index: number, stage: PipelineStage, dependency: string) =>
+    updateStage(index, {
+      after: stage.after.includes(dependency)
+        ? stage.after.filter(id => id !== dependency)
+        : [...stage.after, dependency],
+    });
+
+  const duplicate = () => {
+    const copy = copyPipeline(current, `${current.name} (copy)`);
+    setDrafts(prev => [...prev, copy]);
+    setCurrentId(copy.id);
+  };
+
+  const createEmpty = () => {
+    const pipeline: PipelineDefinition = { id: `custom-${generateId()}`, name: 'New pipeline', stages: [{ id: 'architect', role: 'architect', after: [] }] };
+    setDrafts(prev => [...prev, pipeline]);
+    setCurrentId(pipeline.id);
+  };
+
+  const remove = () => {
+    setDrafts(prev => prev.filter(pipeline => pipeline.id !== current.id));
+    setCurrentId(all[0].id);
+  };
+
+  const invalidDraft = drafts.find(pipeline => {
+    try {
+      orderStages(pipeline);
+      return !pipeline.name.trim();
+    } catch {
+      return true;
+    }
+  });
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
+      <div
+        className={`w-full max-w-3xl max-h-[90vh] flex flex-col rounded-2xl p-6 shadow-2xl ${
+          theme === 'dark' ? 'bg-[#0f0f12] text-gray-100' : 'bg-white text-gray-900'
+        }`}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-bold">Agent pipelines</h2>
+          <button onClick={onClose} className="text-sm text-gray-500 hover:text-gray-700">
+            Close
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 mb-3 text-xs">
+          <select value={current.id} onChange={(e) => setCurrentId(e.target.value)} className={`${inputClass} flex-1 min-w-[12rem]`}>
+            {all.map(pipeline => (
+              <option key={pipeline.id} value={pipeline.id}>{pipeline.name}{pipeline.builtIn ? ' (preset)' : ''}</option>
+            ))}
+          </select>
+          <button onClick={duplicate} className="px-3 py-1.5 rounded-md border border-white/10 font-semibold hover:border-indigo-500/50">Duplicate</button>
+          <button onClick={createEmpty} className="px-3 py-1.5 rounded-md border border-white/10 font-semibold hover:border-indigo-500/50">New</button>
+          {editable && (
+            <button onClick={remove} className="px-3 py-1.5 rounded-md border border-red-500/40 text-red-400 font-semibold hover:bg-red-500/10">Delete</button>
+          )}
+        </div>
+
+        {editable ? (
+          <input
+            value={current.name}
+            onChange={(e) => updateCurrent(pipeline => ({ ...pipeline, name: e.target.value }))}
+            placeholder="Pipeline name"
+            className={`${inputClass} mb-3 text-sm font-semibold`}
+          />
+        ) : (
+          <div className="mb-3 text-[11px] text-gray-500">Presets are read-only. Duplicate one to customise it.</div>
+        )}
+
+        <div className="flex-1 overflow-auto custom-scrollbar space-y-2">
+          {current.stages.map((stage, index) => (
+            <div key={index} className={`p-3 rounded-xl border ${theme === 'dark' ? 'border-white/10 bg-white/5' : 'border-gray-200 bg-gray-50'}`}>
+              <fieldset disabled={!editable} className="grid grid-cols-2 md:grid-cols-7 gap-2 text-xs items-end">
+                <label className="space-y-1">
+                  <span className="text-[10px] uppercase font-bold text-gray-500">Stage id</span>
+                  <input
+                    value={stage.id}
+                    onChange={(e) => renameStage(index, e.target.value.replace(/\s+/g, '-'))}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="space-y-1">
+                  <span className="text-[10px] uppercase font-bold text-gray-500">Role</span>
+                  <select value={stage.role} onChange={(e) => updateStage(index, { role: e.target.value as AgentRole })} className={inputClass}>
+                    {AGENT_ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+                  </select>
+                </label>
+                <label className="space-y-1">
+                  <span className="text-[10px] uppercase font-bold text-gray-500">Tier</span>
+                  <select
+                    value={stage.tier ?? ''}
+                    onChange={(e) => updateStage(index, { tier: (e.target.value || undefined) as ModelTier | undefined })}
+                    className={inputClass}
+                  >
+                    <option value="">Run default</option>
+                    <option value="fast">Fast</option>
+                    <option value="reasoning">Reasoning</option>
+                  </select>
+                </label>
+                <label className="space-y-1">
+                  <span className="text-[10px] uppercase font-bold text-gray-500">Model</span>
+                  <input
+                    value={stage.model ?? ''}
+                    onChange={(e) => updateStage(index, { model: e.target.value || undefined })}
+                    placeholder="Provider default"
+                    className={inputClass}
+                  />
+                </label>
+                <label className="space-y-1">
+                  <span className="text-[10px] uppercase font-bold text-gray-500">Thinking budget</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={stage.thinkingBudget ?? ''}
+                    onChange={(e) => updateStage(index, { thinkingBudget: e.target.value === '' ? undefined : Number(e.target.value) })}
+                    placeholder="Default"
+                    className={inputClass}
+                  />
+                </label>
+                <label className="space-y-1">
+                  <span className="text-[10px] uppercase font-bold text-gray-500">Timeout (s)</span>
+                  <input
+                    type="number"
+                    min={1}
+                    value={stage.timeoutSeconds ?? ''}
+                    onChange={(e) => updateStage(index, { timeoutSeconds: Number(e.target.value) || undefined })}
+                    placeholder={String(DEFAULT_STAGE_TIMEOUT_SECONDS)}
+                    className={inputClass}
+                  />
+                </label>
+                <div className="flex items-center justify-between gap-2 pb-1">
+                  <label className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={!!stage.pauseBefore}
+                      onChange={(e) => updateStage(index, { pauseBefore: e.target.checked || undefined })}
+                    />
+                    Pause before
+                  </label>
+                  {editable && (
+                    <button type="button" onClick={() => removeStage(index)} className="text-red-400 font-bold hover:text-red-300">Remove</button>
+                  )}
+                </div>
+              </fieldset>
+              {stage.role === 'critic' && (
+                <fieldset disabled={!editable} className="mt-2 grid grid-cols-2 md:grid-cols-6 gap-2 text-xs items-end">
+                  <label className="space-y-1">
+                    <span className="text-[10px] uppercase font-bold text-gray-500">Repair iterations</span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={MAX_REPAIR_ITERATIONS}
+                      value={stage.repairIterations ?? 0}
+                      onChange={(e) => updateStage(index, { repairIterations: Number(e.target.value) || undefined })}
+                      className={inputClass}
+                    />
+                  </label>
+                  <label className="space-y-1">
+                    <span className="text-[10px] uppercase font-bold text-gray-500">Accept at score</span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={10}
+                      value={stage.qualityThreshold ?? ''}
+                      onChange={(e) => updateStage(index, { qualityThreshold: e.target.value === '' ? undefined : Number(e.target.value) })}
+                      placeholder={String(DEFAULT_QUALITY_THRESHOLD)}
+                      className={inputClass}
+                    />
+                  </label>
+                  <div className="col-span-2 md:col-span-4 pb-1 text-[11px] text-gray-500">
+                    Blocker and major findings go back to a developer repair pass until the score reaches the threshold or the iterations run out.
+                  </div>
+                </fieldset>
+              )}
+              {current.stages.length > 1 && (
+                <div className="mt-2 flex flex-wrap items-center gap-2 text-[11px]">
+                  <span className="text-gray-500 font-semibold">Runs after:</span>
+                  {current.stages.filter(other => other.id !== stage.id).map(other => (
+                    <label key={other.id} className="flex items-center gap-1">
+                      <input
+                        type="checkbox"
+                        disabled={!editable}
+                        checked={stage.after.includes(other.id)}
+                        onChange={() => toggleDependency(index, stage, other.id)}
+                      />
+                      {other.id}
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {validationError && <div className="mt-3 text-xs text-red-400">{validationError}</div>}
+
+        <div className="mt-4 flex items-center gap-2">
+          {editable && (
+            <button
+              onClick={addStage}
+              className="px-4 py-2 rounded-lg border border-white/10 text-sm font-semibold hover:border-indigo-500/50"
+            >
+              Add stage
+            </button>
+          )}
+          <button
+            onClick={() => {
+              onSave(drafts, current.id);
+              onClose();
+            }}
+            disabled={!!invalidDraft}
+            title={invalidDraft ? `Fix "${invalidDraft.name || 'untitled'}" before saving` : undefined}
+            className="flex-1 bg-indigo-600 text-white py-2 rounded-lg font-bold hover:bg-indigo-700 transition-colors disabled:opacity-50"
+          >
+            Save &amp; Use
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -11,10 +11,15 @@ interface Props {
   onRunPreview?: () => void;
   lastRun?: number | null;
   stateSnapshot?: Record<string, string>;
+  /** Checkpoints the "before" side can show instead of the previous run. */
+  baselines?: { id: string; label: string }[];
+  baselineId?: string | null;
+  onSelectBaseline?: (id: string | null) => void;
 }
 
-export function Preview({ file, theme, onToggleZen, zenMode, srcDoc, beforeDoc, onRunPreview, lastRun, stateSnapshot = {} }: Props) {
+export function Preview({ file, theme, onToggleZen, zenMode, srcDoc, beforeDoc, onRunPreview, lastRun, stateSnapshot = {}, baselines = [], baselineId = null, onSelectBaseline }: Props) {
   const entries = useMemo(() => Object.entries(stateSnapshot), [stateSnapshot]);
+  const baselineLabel = baselines.find(baseline => baseline.id === baselineId)?.label;
   const timestamp = lastRun ? new Date(lastRun).toLocaleTimeString() : null;
 
   return (
@@ -29,6 +34,17 @@ export function Preview({ file, theme, onToggleZen, zenMode, srcDoc, beforeDoc,
           {timestamp && <span className="text-[10px] font-medium text-gray-400">Updated {timestamp}</span>}
         </div>
         <div className="flex items-center gap-2">
+          {onSelectBaseline && baselines.length > 0 && (
+            <select
+              value={baselineId ?? ''}
+              onChange={(e) => onSelectBaseline(e.target.value || null)}
+              title="State shown on the Before side"
+              className={`max-w-[12rem] text-xs rounded-md border px-2 py-1 ${theme === 'dark' ? 'bg-[#0f0f12] border-white/10' : 'bg-white border-gray-200'}`}
+            >
+              <option value="">Compare with previous run</option>
+              {baselines.map(baseline => <option key={baseline.id} value={baseline.id}>{baseline.label}</option>)}
+            </select>
+          )}
           {onRunPreview && (
             <button
               onClick={onRunPreview}
@@ -50,9 +66,9 @@ export function Preview({ file, theme, onToggleZen, zenMode, srcDoc, beforeDoc,
         {beforeDoc ? (
           <div className="h-full grid grid-cols-1 md:grid-cols-2 gap-2 p-2">
             <div className="flex flex-col h-full border border-white/10 rounded-lg overflow-hidden">
-              <div className="px-3 py-1.5 text-[11px] uppercase tracking-wide font-bold bg-white/5">Before</div>
+              <div className="px-3 py-1.5 text-[11px] uppercase tracking-wide font-bold bg-white/5 truncate" title={baselineLabel}>{baselineLabel ?? 'Before'}</div>
               <iframe
-                key={`before-${lastRun}`}
+                key={`before-${baselineId ?? lastRun}`}
                 srcDoc={beforeDoc}
                 sandbox="allow-scripts"
                 title="Previous preview"
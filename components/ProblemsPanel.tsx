@@ -0,0 +1,43 @@
+import React from 'react';
+import { AlertTriangle, Info, XCircle } from 'lucide-react';
+import { CodeDiagnostic, Theme } from '../types';
+
+interface Props {
+  diagnostics: CodeDiagnostic[];
+  onOpen: (diagnostic: CodeDiagnostic) => void;
+  theme: Theme;
+}
+
+const SEVERITY_ICON = {
+  error: <XCircle className="w-3.5 h-3.5 text-red-400 shrink-0" />,
+  warning: <AlertTriangle className="w-3.5 h-3.5 text-amber-400 shrink-0" />,
+  info: <Info className="w-3.5 h-3.5 text-sky-400 shrink-0" />,
+};
+
+export function ProblemsPanel({ diagnostics, onOpen, theme }: Props) {
+  if (diagnostics.length === 0) {
+    return <div className="p-4 text-xs text-gray-500">No problems detected in the project.</div>;
+  }
+
+  const paths = [...new Set(diagnostics.map(diagnostic => diagnostic.path))].sort();
+  return (
+    <div className="p-2 space-y-2">
+      {paths.map(path => (
+        <div key={path}>
+          <div className="px-2 py-1 text-[11px] font-semibold font-mono text-gray-400">{path}</div>
+          {diagnostics.filter(diagnostic => diagnostic.path === path).map(diagnostic => (
+            <button
+              key={`${diagnostic.from}-${diagnostic.code}-${diagnostic.message}`}
+              onClick={() => onOpen(diagnostic)}
+              className={`w-full flex items-start gap-2 px-2 py-1 rounded-md text-left text-xs ${theme === 'dark' ? 'hover:bg-white/5' : 'hover:bg-gray-100'}`}
+            >
+              {SEVERITY_ICON[diagnostic.severity]}
+              <span className="flex-1 whitespace-pre-wrap">{diagnostic.message}</span>
+              <span className="shrink-0 font-mono text-[10px] text-gray-500">TS{diagnostic.code} · {diagnostic.line}:{diagnostic.column}</span>
+            </button>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, ChevronDown, Copy, FolderKanban, Pencil, Plus, Trash2 } from 'lucide-react';
+import { ProjectMeta, Theme } from '../types';
+import { PROJECT_TEMPLATES, ProjectTemplate } from '../services/projects';
+
+interface Props {
+  projects: ProjectMeta[];
+  activeId: string;
+  theme: Theme;
+  /** Switching is blocked while an agent run is writing to the open project. */
+  disabled?: boolean;
+  onSwitch: (id: string) => void;
+  onCreate: (template: ProjectTemplate) => void;
+  /** Returns an error to show, or null once renamed. */
+  onRename: (id: string, name: string) => string | null;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export function ProjectSwitcher({ projects, activeId, theme, disabled, onSwitch, onCreate, onRename, onDuplicate, onDelete }: Props) {
+  const [open, setOpen] = useState(false);
+  const [renaming, setRenaming] = useState<{ id: string; name: string; error: string | null } | null>(null);
+  const rootRef = useRef<HTMLDivElement>(null);
+  const active = projects.find(project => project.id === activeId);
+  const sorted = [...projects].sort((a, b) => b.updatedAt - a.updatedAt);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (event: MouseEvent) => {
+      if (!rootRef.current?.contains(event.target as Node)) {
+        setOpen(false);
+        setRenaming(null);
+      }
+    };
+    window.addEventListener('mousedown', close);
+    return () => window.removeEventListener('mousedown', close);
+  }, [open]);
+
+  const commitRename = () => {
+    if (!renaming) return;
+    const error = onRename(renaming.id, renaming.name);
+    setRenaming(error ? { ...renaming, error } : null);
+  };
+
+  const run = (action: () => void) => {
+    setOpen(false);
+    setRenaming(null);
+    action();
+  };
+
+  const iconButton = 'p-1 rounded text-gray-500 hover:text-gray-200 hover:bg-white/10';
+
+  return (
+    <div ref={rootRef} className="relative px-3 pt-3">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        disabled={disabled}
+        title={disabled ? 'Projects can be switched once the agents finish' : 'Switch project'}
+        className={`w-full flex items-center gap-2 px-2 py-1.5 rounded-md border text-sm disabled:opacity-50 ${
+          theme === 'dark' ? 'border-white/10 hover:bg-white/5' : 'border-gray-200 hover:bg-gray-100'
+        }`}
+      >
+        <FolderKanban className="w-4 h-4 text-indigo-400 shrink-0" />
+        <span className="truncate font-semibold">{active?.name ?? 'Project'}</span>
+        <ChevronDown className="w-3.5 h-3.5 ml-auto shrink-0 text-gray-500" />
+      </button>
+
+      {open && (
+        <div className={`absolute left-3 right-3 mt-1 z-50 rounded-lg border shadow-xl text-xs py-1 ${
+          theme === 'dark' ? 'bg-[#18181b] border-white/10' : 'bg-white border-gray-200'
+        }`}>
+          <div className="max-h-64 overflow-auto">
+            {sorted.map(project => renaming?.id === project.id ? (
+              <div key={project.id} className="px-2 py-1">
+                <input
+                  autoFocus
+                  value={renaming.name}
+                  onChange={(e) => setRenaming({ ...renaming, name: e.target.value, error: null })}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setRenaming(null);
+                  }}
+                  onBlur={commitRename}
+                  className={`w-full px-2 py-1 rounded border outline-none ${renaming.error ? 'border-red-500' : 'border-indigo-500'} ${
+                    theme === 'dark' ? 'bg-[#09090b]' : 'bg-white'
+                  }`}
+                />
+                {renaming.error && <div className="mt-1 text-red-400">{renaming.error}</div>}
+              </div>
+            ) : (
+              <div key={project.id} className={`group flex items-center gap-1 px-2 py-1 ${theme === 'dark' ? 'hover:bg-white/5' : 'hover:bg-gray-100'}`}>
+                <button onClick={() => run(() => onSwitch(project.id))} className="flex-1 flex items-center gap-2 min-w-0 text-left">
+                  {project.id === activeId ? <Check className="w-3.5 h-3.5 text-indigo-400 shrink-0" /> : <span className="w-3.5 shrink-0" />}
+                  <span className="truncate">{project.name}</span>
+                </button>
+                <div className="hidden group-hover:flex items-center">
+                  <button onClick={() => setRenaming({ id: project.id, name: project.name, error: null })} title="Rename" className={iconButton}>
+                    <Pencil className="w-3 h-3" />
+                  </button>
+                  <button onClick={() => run(() => onDuplicate(project.id))} title="Duplicate" className={iconButton}>
+                    <Copy className="w-3 h-3" />
+                  </button>
+                  {projects.length > 1 && (
+                    <button
+                      onClick={() => {
+                        if (window.confirm(`Delete "${project.name}"? Its files and saved state are removed from this browser.`)) run(() => onDelete(project.id));
+                      }}
+                      title="Delete"
+                      className={`${iconButton} hover:text-red-400`}
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="mt-1 pt-1 border-t border-white/10">
+            <div className="px-2 py-1 text-[10px] font-bold uppercase tracking-wider text-gray-500">New project</div>
+            {PROJECT_TEMPLATES.map(template => (
+              <button
+                key={template.key}
+                onClick={() => run(() => onCreate(template.key))}
+                className={`w-full flex items-center gap-2 px-2 py-1 text-left ${theme === 'dark' ? 'hover:bg-white/5' : 'hover:bg-gray-100'}`}
+              >
+                <Plus className="w-3.5 h-3.5 text-gray-500" />
+                {template.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
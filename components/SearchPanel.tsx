@@ -0,0 +1,149 @@
+import React, { useDeferredValue, useEffect, useMemo, useRef, useState } from 'react';
+import { CaseSensitive, ChevronDown, ChevronRight, Regex, Replace, Undo2, WholeWord } from 'lucide-react';
+import { FileNode, Theme } from '../types';
+import { EMPTY_SEARCH, SearchOptions, searchProject } from '../services/projectSearch';
+
+interface Props {
+  files: FileNode[];
+  onOpen: (path: string, offset: number) => void;
+  /** Replaces every match; returns how many files changed. */
+  onReplaceAll: (options: SearchOptions, replacement: string) => number;
+  onUndoReplace: () => void;
+  /** Changing it focuses the search box (Ctrl/Cmd+Shift+F). */
+  focusKey: number;
+  theme: Theme;
+}
+
+export function SearchPanel({ files, onOpen, onReplaceAll, onUndoReplace, focusKey, theme }: Props) {
+  const [options, setOptions] = useState<SearchOptions>(EMPTY_SEARCH);
+  const [replacement, setReplacement] = useState('');
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [lastReplace, setLastReplace] = useState<string | null>(null);
+  const queryRef = useRef<HTMLInputElement>(null);
+  const deferred = useDeferredValue(options);
+
+  useEffect(() => {
+    queryRef.current?.focus();
+    queryRef.current?.select();
+  }, [focusKey]);
+
+  const { results, error } = useMemo(() => {
+    try {
+      return { results: searchProject(files, deferred), error: null };
+    } catch (err) {
+      return { results: null, error: err instanceof Error ? err.message : String(err) };
+    }
+  }, [files, deferred]);
+
+  const update = (patch: Partial<SearchOptions>) => {
+    setOptions(prev => ({ ...prev, ...patch }));
+    setLastReplace(null);
+  };
+
+  const replaceAll = () => {
+    if (!results || results.total === 0) return;
+    const changed = onReplaceAll(options, replacement);
+    setLastReplace(`Replaced ${results.total} occurrence(s) in ${changed} file(s).`);
+  };
+
+  const inputClass = `w-full px-2 py-1.5 rounded-md border text-xs outline-none focus:border-indigo-500 ${
+    theme === 'dark' ? 'bg-[#09090b] border-white/10 text-gray-100' : 'bg-white border-gray-200 text-gray-900'
+  }`;
+  const toggle = (active: boolean) => `p-1 rounded ${active ? 'bg-indigo-500/20 text-indigo-300' : 'text-gray-500 hover:text-gray-300'}`;
+
+  return (
+    <div className="px-3 space-y-2 text-xs">
+      <div className="relative">
+        <input
+          ref={queryRef}
+          value={options.query}
+          onChange={(e) => update({ query: e.target.value })}
+          placeholder="Search"
+          className={`${inputClass} pr-20`}
+        />
+        <div className="absolute right-1 top-1/2 -translate-y-1/2 flex items-center gap-0.5">
+          <button onClick={() => update({ caseSensitive: !options.caseSensitive })} title="Match case" className={toggle(options.caseSensitive)}>
+            <CaseSensitive className="w-3.5 h-3.5" />
+          </button>
+          <button onClick={() => update({ wholeWord: !options.wholeWord })} title="Match whole word" className={toggle(options.wholeWord)}>
+            <WholeWord className="w-3.5 h-3.5" />
+          </button>
+          <button onClick={() => update({ regex: !options.regex })} title="Use regular expression" className={toggle(options.regex)}>
+            <Regex className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+      <div className="flex items-center gap-1">
+        <input
+          value={replacement}
+          onChange={(e) => setReplacement(e.target.value)}
+          placeholder={options.regex ? 'Replace ($1 for groups)' : 'Replace'}
+          className={inputClass}
+        />
+        <button
+          onClick={replaceAll}
+          disabled={!results || results.total === 0}
+          title="Replace all"
+          className="p-1.5 rounded-md text-gray-400 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent"
+        >
+          <Replace className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      <input value={options.include} onChange={(e) => update({ include: e.target.value })} placeholder="Files to include (e.g. src/**/*.tsx)" className={inputClass} />
+      <input value={options.exclude} onChange={(e) => update({ exclude: e.target.value })} placeholder="Files to exclude (e.g. *.test.tsx, dist)" className={inputClass} />
+
+      {lastReplace && (
+        <div className="flex items-center justify-between gap-2 px-2 py-1.5 rounded-md bg-emerald-500/10 text-emerald-300">
+          {lastReplace}
+          <button onClick={() => { onUndoReplace(); setLastReplace(null); }} className="flex items-center gap-1 font-semibold hover:text-white">
+            <Undo2 className="w-3 h-3" /> Undo
+          </button>
+        </div>
+      )}
+      {error && <div className="text-red-400">{error}</div>}
+      {results && options.query && (
+        <div className="text-gray-500">
+          {results.total === 0 ? 'No results.' : `${results.total} result(s) in ${results.files.length} file(s)${results.truncated ? ' (showing the first matches only)' : ''}`}
+        </div>
+      )}
+
+      <div className="space-y-1">
+        {results?.files.map(file => {
+          const isCollapsed = collapsed.has(file.path);
+          return (
+            <div key={file.path}>
+              <button
+                onClick={() => setCollapsed(prev => {
+                  const next = new Set(prev);
+                  if (isCollapsed) next.delete(file.path);
+                  else next.add(file.path);
+                  return next;
+                })}
+                className="w-full flex items-center gap-1 py-1 font-semibold font-mono text-left"
+              >
+                {isCollapsed ? <ChevronRight className="w-3.5 h-3.5 shrink-0" /> : <ChevronDown className="w-3.5 h-3.5 shrink-0" />}
+                <span className="truncate">{file.path}</span>
+                <span className="ml-auto px-1.5 rounded-full bg-white/10 text-[10px]">{file.matches.length}</span>
+              </button>
+              {!isCollapsed && file.matches.map(match => (
+                <button
+                  key={match.from}
+                  onClick={() => onOpen(file.path, match.from)}
+                  title={`Line ${match.line}, column ${match.column}`}
+                  className={`w-full flex gap-2 pl-5 pr-1 py-0.5 rounded text-left font-mono ${theme === 'dark' ? 'hover:bg-white/5' : 'hover:bg-gray-100'}`}
+                >
+                  <span className="shrink-0 w-7 text-right text-gray-500">{match.line}</span>
+                  <span className="truncate whitespace-pre">
+                    {match.before}
+                    <mark className="bg-amber-400/30 text-inherit rounded-sm">{match.match}</mark>
+                    {match.after}
+                  </span>
+                </button>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { Theme, User } from '../types';
+import { ProviderKind, ProviderSettings } from '../services/providers/types';
+import { clearRecordings, loadRecordings } from '../services/providers/mock';
 
 interface Props {
   isOpen: boolean;
@@ -8,8 +10,16 @@ interface Props {
   onUpdateProfile: (user: User) => void;
   theme: Theme;
   onToggleTheme: () => void;
+  providerSettings: ProviderSettings;
+  onUpdateProviderSettings: (settings: ProviderSettings) => void;
 }
 
+const PROVIDER_OPTIONS: { kind: ProviderKind; label: string }[] = [
+  { kind: 'gemini', label: 'Google Gemini' },
+  { kind: 'openai', label: 'OpenAI-compatible' },
+  { kind: 'mock', label: 'Offline mock (replays recordings)' },
+];
+
 export function SettingsModal({
   isOpen,
   onClose,
@@ -17,10 +27,14 @@ export function SettingsModal({
   onUpdateProfile,
   theme,
   onToggleTheme,
+  providerSettings,
+  onUpdateProviderSettings,
 }: Props) {
   const [name, setName] = useState(user?.name ?? '');
   const [email, setEmail] = useState(user?.email ?? '');
   const [avatar, setAvatar] = useState(user?.avatar ?? '');
+  const [provider, setProvider] = useState<ProviderSettings>(providerSettings);
+  const [recordingCount, setRecordingCount] = useState(0);
 
   useEffect(() => {
     setName(user?.name ?? '');
@@ -28,6 +42,14 @@ export function SettingsModal({
     setAvatar(user?.avatar ?? '');
   }, [user]);
 
+  useEffect(() => {
+    setProvider(providerSettings);
+  }, [providerSettings]);
+
+  useEffect(() => {
+    if (isOpen) setRecordingCount(loadRecordings().length);
+  }, [isOpen]);
+
   if (!isOpen) return null;
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -37,10 +59,23 @@ export function SettingsModal({
     onClose();
   };
 
+  const handleProviderSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onUpdateProviderSettings(provider);
+    onClose();
+  };
+
+  const handleClearRecordings = () => {
+    clearRecordings();
+    setRecordingCount(0);
+  };
+
+  const inputClass = 'w-full px-3 py-2 rounded-lg border border-white/10 bg-transparent';
+
   return (
     <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
       <div
-        className={`w-full max-w-md rounded-2xl p-6 shadow-2xl ${
+        className={`w-full max-w-md max-h-[90vh] overflow-y-auto rounded-2xl p-6 shadow-2xl ${
           theme === 'dark' ? 'bg-[#0f0f12] text-gray-100' : 'bg-white text-gray-900'
         }`}
       >
@@ -88,6 +123,88 @@ export function SettingsModal({
           </button>
         </form>
 
+        <form onSubmit={handleProviderSubmit} className="mt-6 pt-4 border-t border-white/10 space-y-3">
+          <h3 className="text-sm font-bold">Model provider</h3>
+          <div className="space-y-1">
+            <label className="text-sm font-medium">Provider</label>
+            <select
+              value={provider.kind}
+              onChange={(e) => setProvider({ ...provider, kind: e.target.value as ProviderKind })}
+              className={`${inputClass} ${theme === 'dark' ? 'bg-[#0f0f12]' : 'bg-white'}`}
+            >
+              {PROVIDER_OPTIONS.map(option => (
+                <option key={option.kind} value={option.kind}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          {provider.kind === 'openai' && (
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Base URL</label>
+              <input
+                value={provider.baseUrl ?? ''}
+                onChange={(e) => setProvider({ ...provider, baseUrl: e.target.value })}
+                placeholder="https://api.openai.com/v1"
+                className={inputClass}
+                required
+              />
+            </div>
+          )}
+          {provider.kind !== 'mock' && (
+            <>
+              <div className="space-y-1">
+                <label className="text-sm font-medium">API key</label>
+                <input
+                  type="password"
+                  value={provider.apiKey ?? ''}
+                  onChange={(e) => setProvider({ ...provider, apiKey: e.target.value || undefined })}
+                  placeholder={provider.kind === 'gemini' ? 'Defaults to the key in .env.local' : 'Optional for local servers'}
+                  className={inputClass}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <label className="text-sm font-medium">Fast model</label>
+                  <input
+                    value={provider.fastModel ?? ''}
+                    onChange={(e) => setProvider({ ...provider, fastModel: e.target.value || undefined })}
+                    placeholder="Default"
+                    className={inputClass}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <label className="text-sm font-medium">Reasoning model</label>
+                  <input
+                    value={provider.reasoningModel ?? ''}
+                    onChange={(e) => setProvider({ ...provider, reasoningModel: e.target.value || undefined })}
+                    placeholder="Default"
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={!!provider.recordResponses}
+                  onChange={(e) => setProvider({ ...provider, recordResponses: e.target.checked })}
+                />
+                Record responses for offline replay
+              </label>
+            </>
+          )}
+          <div className="flex items-center justify-between text-xs text-gray-500">
+            <span>{recordingCount} recorded response{recordingCount === 1 ? '' : 's'}</span>
+            <button type="button" onClick={handleClearRecordings} disabled={recordingCount === 0} className="font-semibold hover:text-red-500 disabled:opacity-40">
+              Clear recordings
+            </button>
+          </div>
+          <button
+            type="submit"
+            className="w-full bg-indigo-600 text-white py-2.5 rounded-lg font-bold hover:bg-indigo-700 transition-colors"
+          >
+            Save Provider
+          </button>
+        </form>
+
         <div className="mt-4">
           <button
             onClick={onToggleTheme}
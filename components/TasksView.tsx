@@ -1,5 +1,6 @@
 import React from 'react';
 import { AgentTask, Theme } from '../types';
+import { EMPTY_USAGE, addUsage, formatCost, formatTokens, totalTokens } from '../services/usage';
 
 interface Props {
   tasks: AgentTask[];
@@ -7,13 +8,21 @@ interface Props {
 }
 
 export function TasksView({ tasks, theme }: Props) {
+  const usage = tasks.reduce((sum, task) => task.usage ? addUsage(sum, task.usage) : sum, EMPTY_USAGE);
   return (
     <div
       className={`h-full p-4 space-y-3 ${
         theme === 'dark' ? 'bg-[#0e0e11] text-gray-100' : 'bg-white text-gray-900'
       }`}
     >
-      <div className="text-xs font-bold uppercase tracking-wide">Tasks</div>
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-xs font-bold uppercase tracking-wide">Tasks</div>
+        {usage.calls > 0 && (
+          <div className="text-[11px] text-gray-400" title="Model calls of the tasks in this conversation">
+            {formatTokens(totalTokens(usage))} tokens · {formatCost(usage.cost)}
+          </div>
+        )}
+      </div>
       {tasks.length === 0 && (
         <div className="text-sm text-gray-500">No tasks yet. Send a prompt to create one.</div>
       )}
@@ -25,6 +34,15 @@ export function TasksView({ tasks, theme }: Props) {
           <div>
             <div className="text-sm font-semibold">{task.title}</div>
             <div className="text-[11px] uppercase tracking-wide text-gray-400">{task.assignedTo}</div>
+            {task.description && <div className="text-[11px] text-gray-500">{task.description}</div>}
+            {task.usage && (
+              <div
+                className="text-[11px] text-gray-500"
+                title={`${task.usage.calls} call(s): input ${task.usage.inputTokens}, output ${task.usage.outputTokens}, thinking ${task.usage.thinkingTokens}${task.usage.unpricedCalls > 0 ? `; ${task.usage.unpricedCalls} without a known price` : ''}`}
+              >
+                {formatTokens(totalTokens(task.usage))} tokens · {formatCost(task.usage.cost)}
+              </div>
+            )}
           </div>
           <span className="text-[11px] px-2 py-1 rounded-full border border-white/10">
             {task.status}
@@ -0,0 +1,112 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Check, ChevronDown, MessagesSquare, Plus, Search, Trash2 } from 'lucide-react';
+import { ConversationThread, Theme } from '../types';
+import { searchThreads } from '../services/threads';
+
+interface Props {
+  threads: ConversationThread[];
+  activeId: string;
+  theme: Theme;
+  /** Threads can be changed once the agents finish; their events go to the open thread. */
+  disabled?: boolean;
+  onOpen: (id: string) => void;
+  onNew: () => void;
+  onDelete: (id: string) => void;
+}
+
+const UNTITLED = 'New conversation';
+
+export function ThreadBrowser({ threads, activeId, theme, disabled, onOpen, onNew, onDelete }: Props) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const rootRef = useRef<HTMLDivElement>(null);
+  const active = threads.find(thread => thread.id === activeId);
+  const matches = useMemo(() => open ? searchThreads(threads, query) : [], [open, threads, query]);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (event: MouseEvent) => {
+      if (!rootRef.current?.contains(event.target as Node)) setOpen(false);
+    };
+    window.addEventListener('mousedown', close);
+    return () => window.removeEventListener('mousedown', close);
+  }, [open]);
+
+  const run = (action: () => void) => {
+    setOpen(false);
+    setQuery('');
+    action();
+  };
+
+  const iconButton = 'p-1 rounded text-gray-500 hover:text-gray-200 hover:bg-white/10 disabled:opacity-50';
+
+  return (
+    <div ref={rootRef} className={`relative flex items-center gap-1 px-3 py-1.5 border-b text-xs ${theme === 'dark' ? 'border-white/5' : 'border-gray-200'}`}>
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        disabled={disabled}
+        title={disabled ? 'Conversations can be switched once the agents finish' : 'Browse conversations'}
+        className={`flex-1 min-w-0 flex items-center gap-2 px-2 py-1 rounded-md disabled:opacity-50 ${theme === 'dark' ? 'hover:bg-white/5' : 'hover:bg-gray-100'}`}
+      >
+        <MessagesSquare className="w-3.5 h-3.5 text-indigo-400 shrink-0" />
+        <span className="truncate font-semibold">{active?.title || UNTITLED}</span>
+        <ChevronDown className="w-3.5 h-3.5 ml-auto shrink-0 text-gray-500" />
+      </button>
+      <button onClick={() => run(onNew)} disabled={disabled} title="New conversation" className={iconButton}>
+        <Plus className="w-3.5 h-3.5" />
+      </button>
+
+      {open && (
+        <div className={`absolute left-3 right-3 top-full mt-1 z-50 rounded-lg border shadow-xl py-1 ${
+          theme === 'dark' ? 'bg-[#18181b] border-white/10' : 'bg-white border-gray-200'
+        }`}>
+          <div className="relative px-2 pb-1">
+            <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-3 h-3 text-gray-500" />
+            <input
+              autoFocus
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Escape') setOpen(false); }}
+              placeholder="Search conversations"
+              className={`w-full pl-6 pr-2 py-1 rounded border outline-none focus:border-indigo-500 ${
+                theme === 'dark' ? 'bg-[#09090b] border-white/10' : 'bg-white border-gray-200'
+              }`}
+            />
+          </div>
+          <div className="max-h-72 overflow-auto">
+            {matches.length === 0 && <div className="px-3 py-2 text-gray-500">No conversations match.</div>}
+            {matches.map(({ thread, excerpt }) => (
+              <div key={thread.id} className={`group flex items-start gap-1 px-2 py-1 ${theme === 'dark' ? 'hover:bg-white/5' : 'hover:bg-gray-100'}`}>
+                <button onClick={() => run(() => onOpen(thread.id))} className="flex-1 flex items-start gap-2 min-w-0 text-left">
+                  {thread.id === activeId ? <Check className="w-3.5 h-3.5 mt-0.5 text-indigo-400 shrink-0" /> : <span className="w-3.5 shrink-0" />}
+                  <span className="min-w-0">
+                    <span className="block truncate">{thread.title || UNTITLED}</span>
+                    <span className="block text-[10px] text-gray-500">
+                      {new Date(thread.updatedAt).toLocaleString()} · {thread.messages.length} message(s)
+                    </span>
+                    {excerpt && (
+                      <span className="block truncate text-[11px] text-gray-400">
+                        {excerpt.before}
+                        <mark className="bg-amber-400/30 text-inherit rounded-sm">{excerpt.match}</mark>
+                        {excerpt.after}
+                      </span>
+                    )}
+                  </span>
+                </button>
+                <button
+                  onClick={() => {
+                    if (window.confirm(`Delete "${thread.title || UNTITLED}"? Its messages and tasks are removed from this browser.`)) run(() => onDelete(thread.id));
+                  }}
+                  title="Delete conversation"
+                  className={`hidden group-hover:block ${iconButton} hover:text-red-400`}
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
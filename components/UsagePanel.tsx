@@ -0,0 +1,144 @@
+import React from 'react';
+import { AgentRole, Theme, TokenUsage } from '../types';
+import { ProjectUsage, UsageBudget, formatCost, formatTokens, totalTokens } from '../services/usage';
+
+interface Props {
+  usage: ProjectUsage;
+  budget: UsageBudget;
+  theme: Theme;
+  onChangeBudget: (budget: UsageBudget) => void;
+  onReset: () => void;
+}
+
+const ROLE_ORDER: AgentRole[] = ['designer', 'architect', 'developer', 'qa', 'critic'];
+
+const costLabel = (usage: TokenUsage) =>
+  `${formatCost(usage.cost)}${usage.unpricedCalls > 0 ? ` + ${usage.unpricedCalls} unpriced` : ''}`;
+
+/** Share of `limit` used, for a progress bar; null without a limit. */
+const shareOf = (value: number, limit?: number) => limit ? Math.min(1, value / limit) : null;
+
+const UsageRow: React.FC<{ label: string; usage: TokenUsage; total: number }> = ({ label, usage, total }) => {
+  const share = total > 0 ? totalTokens(usage) / total : 0;
+  return (
+    <div className="space-y-0.5">
+      <div className="flex items-center gap-2">
+        <span className="truncate font-semibold">{label}</span>
+        <span className="ml-auto shrink-0 text-gray-400">{formatTokens(totalTokens(usage))}</span>
+        <span className="w-20 shrink-0 text-right text-gray-500">{costLabel(usage)}</span>
+      </div>
+      <div className="h-1 rounded-full bg-white/5">
+        <div className="h-1 rounded-full bg-indigo-500/60" style={{ width: `${Math.round(share * 100)}%` }} />
+      </div>
+    </div>
+  );
+};
+
+export function UsagePanel({ usage, budget, theme, onChangeBudget, onReset }: Props) {
+  const { total } = usage;
+  const all = totalTokens(total);
+  const lastRun = usage.runs[0];
+  const inputClass = `w-full px-2 py-1 rounded-md border text-xs outline-none focus:border-indigo-500 ${
+    theme === 'dark' ? 'bg-[#09090b] border-white/10 text-gray-100' : 'bg-white border-gray-200 text-gray-900'
+  }`;
+  const limitInput = (key: 'runTokens' | 'runCost' | 'projectCost', label: string, step: number) => (
+    <label className="space-y-0.5">
+      <span className="text-[10px] uppercase font-bold text-gray-500">{label}</span>
+      <input
+        type="number"
+        min={0}
+        step={step}
+        value={budget[key] ?? ''}
+        onChange={(e) => onChangeBudget({ ...budget, [key]: e.target.value === '' ? undefined : Number(e.target.value) })}
+        placeholder="No limit"
+        className={inputClass}
+      />
+    </label>
+  );
+  const projectShare = shareOf(total.cost, budget.projectCost);
+
+  return (
+    <div className="px-3 space-y-4 text-xs">
+      <div className="grid grid-cols-2 gap-2">
+        <div className={`p-2 rounded-md ${theme === 'dark' ? 'bg-white/5' : 'bg-gray-100'}`}>
+          <div className="text-[10px] uppercase font-bold text-gray-500">Tokens</div>
+          <div className="text-sm font-bold">{formatTokens(all)}</div>
+          <div className="text-[10px] text-gray-500">{total.calls} call(s)</div>
+        </div>
+        <div className={`p-2 rounded-md ${theme === 'dark' ? 'bg-white/5' : 'bg-gray-100'}`}>
+          <div className="text-[10px] uppercase font-bold text-gray-500">Estimated cost</div>
+          <div className="text-sm font-bold">{formatCost(total.cost)}</div>
+          {total.unpricedCalls > 0 && <div className="text-[10px] text-gray-500">{total.unpricedCalls} call(s) without a known price</div>}
+        </div>
+      </div>
+      <div className="text-[11px] text-gray-500">
+        Input {formatTokens(total.inputTokens)} · output {formatTokens(total.outputTokens)} · thinking {formatTokens(total.thinkingTokens)}
+      </div>
+
+      <div className="space-y-2">
+        <div className="text-[10px] uppercase font-bold text-gray-500">By agent</div>
+        {all === 0 && <div className="text-gray-500">No model calls yet.</div>}
+        {ROLE_ORDER.filter(role => usage.byRole[role]).map(role => <UsageRow key={role} label={role} usage={usage.byRole[role]!} total={all} />)}
+      </div>
+
+      {Object.keys(usage.byModel).length > 0 && (
+        <div className="space-y-2">
+          <div className="text-[10px] uppercase font-bold text-gray-500">By model</div>
+          {Object.entries(usage.byModel).sort(([, a], [, b]) => totalTokens(b) - totalTokens(a)).map(([model, modelUsage]) => (
+            <UsageRow key={model} label={model} usage={modelUsage} total={all} />
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <div className="text-[10px] uppercase font-bold text-gray-500">Budget</div>
+        <div className="grid grid-cols-3 gap-2">
+          {limitInput('runTokens', 'Run tokens', 1000)}
+          {limitInput('runCost', 'Run $', 0.01)}
+          {limitInput('projectCost', 'Project $', 0.1)}
+        </div>
+        <label className="flex items-center gap-2 text-gray-400">
+          When exceeded
+          <select value={budget.onExceed} onChange={(e) => onChangeBudget({ ...budget, onExceed: e.target.value as UsageBudget['onExceed'] })} className={`${inputClass} w-auto`}>
+            <option value="warn">Warn in the chat</option>
+            <option value="stop">Stop the run</option>
+          </select>
+        </label>
+        {projectShare !== null && (
+          <div className="space-y-0.5">
+            <div className="text-gray-500">Project: {formatCost(total.cost)} of {formatCost(budget.projectCost!)}</div>
+            <div className="h-1 rounded-full bg-white/5">
+              <div className={`h-1 rounded-full ${projectShare >= 1 ? 'bg-red-500' : 'bg-emerald-500/60'}`} style={{ width: `${Math.round(projectShare * 100)}%` }} />
+            </div>
+          </div>
+        )}
+        {lastRun && budget.runTokens !== undefined && (
+          <div className="text-gray-500">Last run: {formatTokens(totalTokens(lastRun.usage))} of {formatTokens(budget.runTokens)} tokens</div>
+        )}
+      </div>
+
+      {usage.runs.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-[10px] uppercase font-bold text-gray-500">Recent runs</div>
+          {usage.runs.map((run, index) => (
+            <div key={`${run.finishedAt}-${index}`} className="flex items-center gap-2">
+              <span className="min-w-0 truncate" title={run.request}>{run.request || '(image)'}</span>
+              <span className="ml-auto shrink-0 text-gray-400">{formatTokens(totalTokens(run.usage))}</span>
+              <span className="w-20 shrink-0 text-right text-gray-500">{costLabel(run.usage)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <button
+        onClick={() => {
+          if (window.confirm('Reset the usage totals of this project? The budget settings are kept.')) onReset();
+        }}
+        disabled={all === 0}
+        className="px-2 py-1 rounded-md border border-white/10 hover:border-red-500/50 disabled:opacity-40"
+      >
+        Reset totals
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { CHANGE_SET_OUTPUT, CRITIC_OUTPUT, DESIGN_OUTPUT, cleanJson, parseStructured, schemaProblems } from './agentSchemas';
+
+const DESIGN = { library: 'shadcn/ui', tokens: { colors: {}, spacing: {}, typography: {} }, brief: 'Cards.' };
+const REVIEW = { score: 7, summary: 'Close.', findings: [{ severity: 'major', file: 'src/App.tsx', issue: 'No lower bound', patch: '  ' }] };
+
+describe('cleanJson', () => {
+  it('takes the first balanced object out of surrounding prose', () => {
+    expect(cleanJson('Here you go:\n```json\n{"a": {"b": "}"}}\n```\nand {"c": 1}')).toBe('{"a": {"b": "}"}}');
+  });
+
+  it('handles escaped quotes inside strings', () => {
+    expect(cleanJson('{"a": "say \\"}\\""} trailing')).toBe('{"a": "say \\"}\\""}');
+  });
+});
+
+describe('schemaProblems', () => {
+  it('labels every problem with its JSON path', () => {
+    expect(schemaProblems({ score: 11, findings: [{ severity: 'fatal', file: 3 }] }, CRITIC_OUTPUT.schema)).toEqual([
+      'summary is required',
+      'score must be at most 10',
+      'findings[0].issue is required',
+      'findings[0].severity must be one of blocker, major, minor',
+      'findings[0].file must be a string',
+    ]);
+  });
+
+  it('rejects a reply that is not an object', () => {
+    expect(schemaProblems([], DESIGN_OUTPUT.schema)).toEqual(['reply must be an object']);
+  });
+});
+
+describe('parseStructured', () => {
+  it('reads a design reply, filling in an empty brief', () => {
+    expect(parseStructured(JSON.stringify({ ...DESIGN, brief: ' ' }), DESIGN_OUTPUT))
+      .toEqual({ ...DESIGN, brief: 'Use consistent spacing and card system.' });
+  });
+
+  it('lists what is wrong with a design reply', () => {
+    const reply = JSON.stringify({ library: 'bootstrap', tokens: { colors: {} }, brief: 'Cards.' });
+    expect(() => parseStructured(reply, DESIGN_OUTPUT)).toThrow([
+      'Invalid design:',
+      '- library must be one of shadcn/ui, chakra-ui, radix-ui',
+      '- tokens.spacing is required',
+      '- tokens.typography is required',
+    ].join('\n'));
+  });
+
+  it('reads a change-set through parseChangeSet', () => {
+    const reply = `{"explanation":"Adds a footer","changes":[{"action":"create","path":"src/Footer.tsx","content":"footer"}]}`;
+    expect(parseStructured(reply, CHANGE_SET_OUTPUT).changes).toEqual([{ action: 'create', path: 'src/Footer.tsx', content: 'footer', diff: undefined }]);
+  });
+
+  it('lists what is wrong with a change-set', () => {
+    const reply = JSON.stringify({ explanation: '', changes: [{ action: 'create', path: 'src/Footer.tsx' }] });
+    expect(() => parseStructured(reply, CHANGE_SET_OUTPUT)).toThrow('Invalid change-set:\n- changes[0] creates "src/Footer.tsx" without content');
+  });
+
+  it('reads a critic review and drops blank patches', () => {
+    expect(parseStructured(JSON.stringify(REVIEW), CRITIC_OUTPUT).findings).toEqual([
+      { severity: 'major', file: 'src/App.tsx', issue: 'No lower bound', patch: undefined },
+    ]);
+  });
+
+  it('lists what is wrong with a critic review', () => {
+    const reply = JSON.stringify({ ...REVIEW, score: '7' });
+    expect(() => parseStructured(reply, CRITIC_OUTPUT)).toThrow('Invalid review:\n- score must be a number');
+  });
+
+  it('reports replies that are not JSON at all', () => {
+    expect(() => parseStructured('Sorry, I cannot help with that.', CRITIC_OUTPUT)).toThrow(/^Reply is not valid JSON: /);
+  });
+});
@@ -0,0 +1,222 @@
+import { ChangeSet } from '../types';
+import { parseChangeSet } from './changeSet';
+import { JsonSchema } from './providers/types';
+
+/**
+ * Structured replies of the JSON stages. Each output pairs the schema sent to the provider with a
+ * validator for the reply, since not every provider enforces the schema (and the mock ignores it).
+ * Validators throw with every problem found, so a repair prompt can list them all.
+ */
+
+export interface StructuredOutput<T> {
+  name: string;
+  schema: JsonSchema;
+  parse: (raw: unknown) => T;
+}
+
+export const DESIGN_LIBRARIES = ['shadcn/ui', 'chakra-ui', 'radix-ui'];
+
+export interface DesignReply {
+  library: string;
+  tokens: Record<string, unknown>;
+  brief: string;
+}
+
+export type FindingSeverity = 'blocker' | 'major' | 'minor';
+
+export interface CriticFinding {
+  severity: FindingSeverity;
+  file: string;
+  issue: string;
+  /** Unified diff the critic suggests; the developer decides how to apply it. */
+  patch?: string;
+}
+
+export interface CriticReview {
+  /** 0-10; compared against the stage's quality threshold. */
+  score: number;
+  summary: string;
+  findings: CriticFinding[];
+}
+
+const SEVERITIES: FindingSeverity[] = ['blocker', 'major', 'minor'];
+
+/**
+ * Robustly extracts the FIRST valid balanced JSON object from a string.
+ */
+export const cleanJson = (text: string) => {
+  if (!text) return "";
+  const firstBrace = text.indexOf('{');
+  if (firstBrace === -1) return text;
+
+  let stack = 0;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = firstBrace; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"' && !escaped) inString = !inString;
+    if (!inString) {
+      if (char === '{') stack++;
+      if (char === '}') {
+        stack--;
+        if (stack === 0) return text.substring(firstBrace, i + 1);
+      }
+    }
+    escaped = char === '\\' && !escaped;
+  }
+  const lastBrace = text.lastIndexOf('}');
+  if (lastBrace > firstBrace) return text.substring(firstBrace, lastBrace + 1);
+  return text;
+};
+
+const childPath = (at: string, key: string | number) => typeof key === 'number' ? `${at}[${key}]` : at ? `${at}.${key}` : key;
+
+/** Every way `value` departs from `schema`, labeled with the JSON path (`findings[0].severity`). */
+export const schemaProblems = (value: unknown, schema: JsonSchema, at = ''): string[] => {
+  const label = at || 'reply';
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return [`${label} must be an object`];
+      const record = value as Record<string, unknown>;
+      return [
+        ...(schema.required ?? []).filter(key => record[key] === undefined).map(key => `${childPath(at, key)} is required`),
+        ...Object.entries(schema.properties ?? {})
+          .filter(([key]) => record[key] !== undefined)
+          .flatMap(([key, property]) => schemaProblems(record[key], property, childPath(at, key))),
+        ...(schema.additionalProperties === false
+          ? Object.keys(record).filter(key => !(key in (schema.properties ?? {}))).map(key => `${childPath(at, key)} is not allowed`)
+          : []),
+      ];
+    }
+    case 'array':
+      if (!Array.isArray(value)) return [`${label} must be an array`];
+      return schema.items ? value.flatMap((item, index) => schemaProblems(item, schema.items!, childPath(at, index))) : [];
+    case 'string':
+      if (typeof value !== 'string') return [`${label} must be a string`];
+      return schema.enum && !schema.enum.includes(value) ? [`${label} must be one of ${schema.enum.join(', ')}`] : [];
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return [`${label} must be a number`];
+      if (schema.minimum !== undefined && value < schema.minimum) return [`${label} must be at least ${schema.minimum}`];
+      if (schema.maximum !== undefined && value > schema.maximum) return [`${label} must be at most ${schema.maximum}`];
+      return [];
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${label} must be true or false`];
+  }
+};
+
+const assertSchema = (raw: unknown, schema: JsonSchema, what: string) => {
+  const problems = schemaProblems(raw, schema);
+  if (problems.length > 0) throw new Error(`Invalid ${what}:\n- ${problems.join('\n- ')}`);
+};
+
+/** Extracts the JSON document from a model reply and validates it against `output`. */
+export const parseStructured = <T>(text: string, output: StructuredOutput<T>): T => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(cleanJson(text || ''));
+  } catch (err) {
+    throw new Error(`Reply is not valid JSON: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return output.parse(raw);
+};
+
+const tokenGroup = (description: string): JsonSchema => ({ type: 'object', description, additionalProperties: true });
+
+const DESIGN_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    library: { type: 'string', enum: DESIGN_LIBRARIES },
+    tokens: {
+      type: 'object',
+      properties: {
+        colors: tokenGroup('Named colors, e.g. { "primary": "#6366f1" }'),
+        spacing: tokenGroup('Spacing scale in px'),
+        typography: tokenGroup('Font family, sizes and weights'),
+        radii: tokenGroup('Corner radii in px'),
+        shadows: tokenGroup('Box shadows as CSS values'),
+      },
+      required: ['colors', 'spacing', 'typography'],
+      additionalProperties: true,
+    },
+    brief: { type: 'string', description: 'Short guidance on layouts and states' },
+  },
+  required: ['library', 'tokens', 'brief'],
+};
+
+export const DESIGN_OUTPUT: StructuredOutput<DesignReply> = {
+  name: 'design_tokens',
+  schema: DESIGN_SCHEMA,
+  parse: raw => {
+    assertSchema(raw, DESIGN_SCHEMA, 'design');
+    const { library, tokens, brief } = raw as DesignReply;
+    return { library, tokens, brief: brief.trim() || 'Use consistent spacing and card system.' };
+  },
+};
+
+/** Accepts what `parseChangeSet` accepts; its checks (paths, content per action) are stricter than the schema. */
+export const CHANGE_SET_OUTPUT: StructuredOutput<ChangeSet> = {
+  name: 'change_set',
+  schema: {
+    type: 'object',
+    properties: {
+      explanation: { type: 'string' },
+      changes: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            action: { type: 'string', enum: ['create', 'modify', 'delete'] },
+            path: { type: 'string', description: 'Relative to the project root, e.g. src/components/Nav.tsx' },
+            content: { type: 'string', description: 'Full file content; required for create' },
+            diff: { type: 'string', description: 'Unified diff against the current content; modify only' },
+          },
+          required: ['action', 'path'],
+        },
+      },
+    },
+    required: ['explanation', 'changes'],
+  },
+  parse: parseChangeSet,
+};
+
+const CRITIC_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    score: { type: 'number', minimum: 0, maximum: 10 },
+    summary: { type: 'string' },
+    findings: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          severity: { type: 'string', enum: SEVERITIES },
+          file: { type: 'string' },
+          issue: { type: 'string' },
+          patch: { type: 'string', description: 'Unified diff against the generated code' },
+        },
+        required: ['severity', 'file', 'issue'],
+      },
+    },
+  },
+  required: ['score', 'summary', 'findings'],
+};
+
+export const CRITIC_OUTPUT: StructuredOutput<CriticReview> = {
+  name: 'critic_review',
+  schema: CRITIC_SCHEMA,
+  parse: raw => {
+    assertSchema(raw, CRITIC_SCHEMA, 'review');
+    const review = raw as CriticReview;
+    return {
+      score: review.score,
+      summary: review.summary,
+      findings: review.findings.map(finding => ({
+        severity: finding.severity,
+        file: finding.file,
+        issue: finding.issue,
+        patch: finding.patch?.trim() ? finding.patch : undefined,
+      })),
+    };
+  },
+};
@@ -0,0 +1,173 @@
+import { transform } from 'sucrase';
+import { FileNode } from '../types';
+import { dirname, joinPath, listFiles } from './virtualFs';
+
+/** A compiled CommonJS-style module keyed by its project path (e.g. `src/App.tsx`). */
+export interface BundledModule {
+  path: string;
+  code: string;
+  dependencies: string[];
+}
+
+export interface BundleError {
+  path: string;
+  message: string;
+}
+
+export interface ProjectBundle {
+  entry: string;
+  /** `render` mounts the entry's default export; `execute` runs the entry for its side effects (main.tsx style). */
+  mode: 'render' | 'execute';
+  modules: Record<string, BundledModule>;
+  /** Bare specifiers (react, lucide-react/icons, ...) resolved from the CDN at runtime. */
+  externals: string[];
+  /** Versions declared in the project's package.json, keyed by package name. */
+  dependencies: Record<string, string>;
+  errors: BundleError[];
+}
+
+const SCRIPT_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js', '.mjs'];
+const RESOLVE_SUFFIXES = ['', '.tsx', '.ts', '.jsx', '.js', '.mjs', '.json', '.css', '/index.tsx', '/index.ts', '/index.jsx', '/index.js'];
+const EXECUTABLE_ENTRIES = ['src/main.tsx', 'src/main.jsx', 'src/index.tsx', 'src/index.jsx', 'main.tsx', 'index.tsx'];
+const COMPONENT_ENTRIES = ['src/App.tsx', 'src/App.jsx', 'App.tsx', 'App.jsx'];
+const REQUIRE_PATTERN = /\brequire\(\s*(['"])([^'"]+)\1\s*\)/g;
+
+export const isScriptPath = (path: string) => SCRIPT_EXTENSIONS.some(ext => path.endsWith(ext));
+
+const isRelativeSpecifier = (specifier: string) =>
+  specifier.startsWith('./') || specifier.startsWith('../') || specifier.startsWith('/') || specifier.startsWith('@/');
+
+/** Package name of a bare specifier: `@dnd-kit/core/dist/x` -> `@dnd-kit/core`, `react-dom/client` -> `react-dom`. */
+export const packageNameOf = (specifier: string) => {
+  const parts = specifier.split('/');
+  return specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+};
+
+const resolveSpecifier = (sources: Record<string, string>, importer: string, specifier: string): string | null => {
+  let base: string;
+  if (specifier.startsWith('@/')) base = joinPath('src', specifier.slice(2));
+  else if (specifier.startsWith('/')) base = joinPath(specifier);
+  else base = joinPath(dirname(importer), specifier);
+
+  for (const suffix of RESOLVE_SUFFIXES) {
+    const candidate = `${base}${suffix}`;
+    if (candidate in sources) return candidate;
+  }
+  // Generated code often imports `@/components/x` from a project without a src folder.
+  if (specifier.startsWith('@/')) return resolveSpecifier(sources, '', `./${specifier.slice(2)}`);
+  return null;
+};
+
+const readDependencies = (sources: Record<string, string>): Record<string, string> => {
+  try {
+    const manifest = JSON.parse(sources['package.json'] || '{}');
+    return { ...(manifest.devDependencies || {}), ...(manifest.dependencies || {}) };
+  } catch {
+    return {};
+  }
+};
+
+const hasDefaultExport = (content: string) => /export\s+default\b/.test(content);
+
+/**
+ * Picks the module the preview should boot. The active file wins when it is a component
+ * (so designers can preview any screen in isolation); otherwise the project's conventional
+ * entry points are used.
+ */
+const resolveEntry = (sources: Record<string, string>, activePath?: string | null): Pick<ProjectBundle, 'entry' | 'mode'> | null => {
+  if (activePath && isScriptPath(activePath) && activePath in sources) {
+    if (EXECUTABLE_ENTRIES.includes(activePath)) return { entry: activePath, mode: 'execute' };
+    if (hasDefaultExport(sources[activePath])) return { entry: activePath, mode: 'render' };
+  }
+  const executable = EXECUTABLE_ENTRIES.find(path => path in sources);
+  if (executable) return { entry: executable, mode: 'execute' };
+  const component = COMPONENT_ENTRIES.find(path => path in sources);
+  if (component) return { entry: component, mode: 'render' };
+  const fallback = Object.keys(sources).find(path => isScriptPath(path) && hasDefaultExport(sources[path]));
+  return fallback ? { entry: fallback, mode: 'render' } : null;
+};
+
+const compileSource = (path: string, source: string) => {
+  if (path.endsWith('.json')) {
+    // Validate eagerly so a broken theme.json surfaces as a build error, not a runtime crash.
+    JSON.parse(source || 'null');
+    return `module.exports = ${source.trim() || 'null'};`;
+  }
+  if (path.endsWith('.css')) {
+    return `__symbiotic_css(${JSON.stringify(path)}, ${JSON.stringify(source)});`;
+  }
+  const isTypeScript = path.endsWith('.ts') || path.endsWith('.tsx');
+  const transforms: ('typescript' | 'jsx' | 'imports')[] = isTypeScript
+    ? (path.endsWith('.tsx') ? ['typescript', 'jsx', 'imports'] : ['typescript', 'imports'])
+    : ['jsx', 'imports'];
+  return transform(source, {
+    transforms,
+    filePath: path,
+    jsxRuntime: 'automatic',
+    production: true,
+    disableESTransforms: true,
+  }).code;
+};
+
+const readSources = (files: FileNode[]) =>
+  Object.fromEntries(listFiles(files).map(({ path, node }) => [path, node.content ?? '']));
+
+/**
+ * Compiles every module reachable from `entries`. Relative imports are rewritten to project
+ * paths and bare imports are left for the runtime to load from the CDN.
+ */
+const compileGraph = (sources: Record<string, string>, entries: string[], externalSeed: string[]) => {
+  const modules: Record<string, BundledModule> = {};
+  const externals = new Set<string>(externalSeed);
+  const errors: BundleError[] = [];
+  const queue = [...entries];
+
+  while (queue.length > 0) {
+    const path = queue.shift() as string;
+    if (modules[path]) continue;
+
+    let code: string;
+    try {
+      code = compileSource(path, sources[path]);
+    } catch (err) {
+      errors.push({ path, message: err instanceof Error ? err.message : String(err) });
+      code = `throw new Error(${JSON.stringify(`Failed to compile ${path}`)});`;
+    }
+
+    const dependencies: string[] = [];
+    code = code.replace(REQUIRE_PATTERN, (match, quote: string, specifier: string) => {
+      if (!isRelativeSpecifier(specifier)) {
+        externals.add(specifier);
+        return match;
+      }
+      const resolved = resolveSpecifier(sources, path, specifier);
+      if (!resolved) {
+        errors.push({ path, message: `Cannot resolve "${specifier}"` });
+        return match;
+      }
+      dependencies.push(resolved);
+      if (!modules[resolved]) queue.push(resolved);
+      return `require(${JSON.stringify(resolved)})`;
+    });
+
+    modules[path] = { path, code, dependencies };
+  }
+
+  return { modules, externals: [...externals], dependencies: readDependencies(sources), errors };
+};
+
+/** Compiles the project tree into a module graph rooted at the preview entry. */
+export const bundleProject = (files: FileNode[], activePath?: string | null): ProjectBundle | null => {
+  const sources = readSources(files);
+  const target = resolveEntry(sources, activePath);
+  if (!target) return null;
+  return { ...target, ...compileGraph(sources, [target.entry], ['react', 'react/jsx-runtime', 'react-dom', 'react-dom/client']) };
+};
+
+/** Compiles the graphs of several entries (e.g. test files) that run outside the preview. */
+export const bundleModules = (files: FileNode[], entries: string[]) => {
+  const sources = readSources(files);
+  const missing = entries.filter(path => !(path in sources));
+  const graph = compileGraph(sources, entries.filter(path => path in sources), ['react', 'react/jsx-runtime']);
+  return { ...graph, errors: [...missing.map(path => ({ path, message: 'File not found' })), ...graph.errors] };
+};
@@ -0,0 +1,212 @@
+import { describe, expect, it } from 'vitest';
+import { ChangeSet, FileChange, FileNode } from '../types';
+import { PendingFileChange, acceptFileChange, applyChangeSet, composeResolvedChanges, createPendingChangeSet, parseChangeSet, removeHunk, resolveChangePath, resolveChangeSet } from './changeSet';
+import { formatUnifiedDiff } from './diff';
+import { getNode, readFile, writeFile } from './virtualFs';
+
+const APP = 'export default function App() {\n  return <main />;\n}';
+const NAV = 'export const Nav = () => <nav />;';
+
+const FILES: FileNode[] = writeFile(writeFile(writeFile([], 'src/App.tsx', APP), 'src/components/Nav.tsx', NAV), 'package.json', '{}');
+
+const APP_DIFF = formatUnifiedDiff('src/App.tsx', APP, APP.replace('<main />', '<main>Hi</main>'));
+
+describe('parseChangeSet', () => {
+  it('accepts a well-formed change-set and normalizes its paths', () => {
+    expect(parseChangeSet({
+      explanation: 'Adds a footer',
+      changes: [
+        { action: 'create', path: './src/Footer.tsx', content: 'footer' },
+        { action: 'modify', path: 'src/App.tsx', diff: APP_DIFF },
+        { action: 'delete', path: 'src/components/Nav.tsx' },
+      ],
+    })).toEqual({
+      explanation: 'Adds a footer',
+      changes: [
+        { action: 'create', path: 'src/Footer.tsx', content: 'footer', diff: undefined },
+        { action: 'modify', path: 'src/App.tsx', content: undefined, diff: APP_DIFF },
+        { action: 'delete', path: 'src/components/Nav.tsx', content: undefined, diff: undefined },
+      ],
+    });
+  });
+
+  it('still accepts the legacy single-file shape', () => {
+    expect(parseChangeSet({ filename: 'Nav.tsx', content: NAV, explanation: 'Nav' })).toEqual({
+      explanation: 'Nav',
+      changes: [{ action: 'create', path: 'Nav.tsx', content: NAV }],
+    });
+  });
+
+  it('reports every problem at once', () => {
+    const parse = () => parseChangeSet({
+      changes: [
+        { action: 'rename', path: 'a.ts' },
+        { action: 'create', path: 'b.ts' },
+        { action: 'modify', path: 'c.ts' },
+        { action: 'delete', path: 'src/../b.ts' },
+        { action: 'delete' },
+      ],
+    });
+    expect(parse).toThrow([
+      'Invalid change-set:',
+      '- changes[0].action must be one of create, modify, delete',
+      '- changes[1] creates "b.ts" without content',
+      '- changes[2] modifies "c.ts" without content or diff',
+      '- changes[3].path "b.ts" appears more than once',
+      '- changes[4].path must be a non-empty string',
+    ].join('\n'));
+  });
+
+  it('rejects responses that are not change-sets', () => {
+    expect(() => parseChangeSet('src/App.tsx')).toThrow('Change-set must be a JSON object');
+    expect(() => parseChangeSet({ explanation: 'Nothing' })).toThrow('Change-set is missing a "changes" array');
+    expect(() => parseChangeSet({ changes: [] })).toThrow('Change-set contains no changes');
+  });
+});
+
+describe('resolveChangePath', () => {
+  it('maps the paths agents answer with onto the project', () => {
+    expect(resolveChangePath(FILES, 'src/components/Nav.tsx')).toBe('src/components/Nav.tsx');
+    expect(resolveChangePath(FILES, 'src/hooks/useCounter.ts')).toBe('src/hooks/useCounter.ts');
+    expect(resolveChangePath(FILES, 'components/Footer.tsx')).toBe('src/components/Footer.tsx');
+    expect(resolveChangePath(FILES, 'Footer.tsx')).toBe('src/Footer.tsx');
+    expect(resolveChangePath(FILES, 'theme.json')).toBe('theme.json');
+  });
+});
+
+describe('resolveChangeSet', () => {
+  it('resolves both sides of every change, trusting the tree over the stated action', () => {
+    const resolved = resolveChangeSet(FILES, {
+      explanation: '',
+      changes: [
+        { action: 'create', path: 'src/App.tsx', content: 'new app' },
+        { action: 'modify', path: 'Footer.tsx', content: 'footer' },
+        { action: 'delete', path: 'components/Nav.tsx' },
+      ],
+    });
+
+    expect(resolved.map(({ action, path, before, after }) => ({ action, path, before, after }))).toEqual([
+      { action: 'modify', path: 'src/App.tsx', before: APP, after: 'new app' },
+      { action: 'create', path: 'src/Footer.tsx', before: null, after: 'footer' },
+      { action: 'delete', path: 'src/components/Nav.tsx', before: NAV, after: null },
+    ]);
+    expect(resolved[1].diff).toBe(formatUnifiedDiff('src/Footer.tsx', null, 'footer'));
+  });
+
+  it('applies unified diffs to the current content', () => {
+    const [change] = resolveChangeSet(FILES, { explanation: '', changes: [{ action: 'modify', path: 'src/App.tsx', diff: APP_DIFF }] });
+    expect(change.after).toBe(APP.replace('<main />', '<main>Hi</main>'));
+  });
+
+  it('throws on changes that cannot apply to the tree', () => {
+    const resolve = (change: FileChange) => () => resolveChangeSet(FILES, { explanation: '', changes: [change] });
+
+    expect(resolve({ action: 'delete', path: 'src/Missing.tsx' })).toThrow('Cannot delete "src/Missing.tsx": file does not exist');
+    expect(resolve({ action: 'modify', path: 'src/Missing.tsx', diff: APP_DIFF })).toThrow('Cannot patch "src/Missing.tsx": file does not exist');
+    expect(resolve({ action: 'modify', path: 'src/components/Nav.tsx', diff: APP_DIFF })).toThrow(/^Cannot patch "src\/components\/Nav.tsx": Hunk @@ .* does not match/);
+    expect(resolve({ action: 'create', path: 'src/components', content: '' })).toThrow('"src/components" is a folder');
+  });
+});
+
+describe('applyChangeSet', () => {
+  it('writes every change and marks what it touched', () => {
+    const applied = applyChangeSet(FILES, {
+      explanation: '',
+      changes: [
+        { action: 'modify', path: 'src/App.tsx', diff: APP_DIFF },
+        { action: 'create', path: 'src/components/Footer.tsx', content: 'footer' },
+        { action: 'delete', path: 'src/components/Nav.tsx' },
+      ],
+    });
+
+    expect(readFile(applied, 'src/App.tsx')).toBe(APP.replace('<main />', '<main>Hi</main>'));
+    expect(getNode(applied, 'src/App.tsx')?.changeStatus).toBe('modified');
+    expect(getNode(applied, 'src/components/Footer.tsx')?.changeStatus).toBe('added');
+    expect(getNode(applied, 'src/components/Nav.tsx')).toBeNull();
+  });
+
+  it('applies nothing when any change in the set fails', () => {
+    const apply = () => applyChangeSet(FILES, {
+      explanation: '',
+      changes: [
+        { action: 'create', path: 'src/components/Footer.tsx', content: 'footer' },
+        { action: 'delete', path: 'src/Missing.tsx' },
+      ],
+    });
+
+    expect(apply).toThrow('Cannot delete "src/Missing.tsx"');
+    expect(getNode(FILES, 'src/components/Footer.tsx')).toBeNull();
+  });
+});
+
+describe('composeResolvedChanges', () => {
+  it('folds a revision into the earlier proposal against the original tree', () => {
+    const proposal: ChangeSet = { explanation: '', changes: [
+      { action: 'create', path: 'src/Footer.tsx', content: 'footer v1' },
+      { action: 'modify', path: 'src/App.tsx', content: 'app v1' },
+    ] };
+    const first = resolveChangeSet(FILES, proposal);
+    const second = resolveChangeSet(applyChangeSet(FILES, proposal), { explanation: '', changes: [
+      { action: 'modify', path: 'src/Footer.tsx', content: 'footer v2' },
+      { action: 'modify', path: 'src/App.tsx', content: APP },
+    ] });
+
+    expect(composeResolvedChanges(first, second)).toEqual([
+      { action: 'create', path: 'src/Footer.tsx', before: null, after: 'footer v2', diff: formatUnifiedDiff('src/Footer.tsx', null, 'footer v2') },
+    ]);
+  });
+});
+
+describe('reviewing hunks', () => {
+  const LONG = Array.from({ length: 30 }, (_, index) => `line ${index + 1}`).join('\n');
+  const EDITED = LONG.replace('line 2\n', 'line two\n').replace('line 15\n', 'line fifteen\n').replace('line 28\n', 'line twenty-eight\n');
+  const files = writeFile([], 'src/lines.ts', LONG);
+  const pending = () => createPendingChangeSet('set', 'developer', '', resolveChangeSet(files, {
+    explanation: '',
+    changes: [{ action: 'modify', path: 'src/lines.ts', content: EDITED }],
+  })).files[0];
+
+  it('splits a modification into one hunk per separate edit', () => {
+    expect(pending().hunks).toHaveLength(3);
+  });
+
+  it('writes exactly the accepted hunks and leaves the others pending', () => {
+    const change = pending();
+    const accepted = acceptFileChange(files, change, [0, 2]);
+
+    expect(readFile(accepted, 'src/lines.ts')).toBe(LONG.replace('line 2\n', 'line two\n').replace('line 28\n', 'line twenty-eight\n'));
+    expect(getNode(accepted, 'src/lines.ts')?.changeStatus).toBe('modified');
+
+    const remaining = removeHunk(removeHunk(change, 2)!, 0)!;
+    expect(remaining.hunks).toEqual([change.hunks[1]]);
+    expect(readFile(acceptFileChange(accepted, remaining), 'src/lines.ts')).toBe(EDITED);
+  });
+
+  it('accepts hunks one at a time in any order', () => {
+    let change: PendingFileChange | null = pending();
+    let tree = files;
+    for (const last of [2, 1, 0]) {
+      tree = acceptFileChange(tree, change!, [last]);
+      change = removeHunk(change!, last);
+    }
+
+    expect(readFile(tree, 'src/lines.ts')).toBe(EDITED);
+    expect(change).toBeNull();
+  });
+
+  it('keeps edits made while the proposal was pending', () => {
+    const handEdited = writeFile(files, 'src/lines.ts', `// header\n${LONG.replace('line 20', 'line twenty')}`);
+    const accepted = acceptFileChange(handEdited, pending(), [1]);
+
+    expect(readFile(accepted, 'src/lines.ts')).toBe(`// header\n${LONG.replace('line 15\n', 'line fifteen\n').replace('line 20', 'line twenty')}`);
+  });
+
+  it('refuses a hunk whose lines were edited away instead of overwriting them', () => {
+    const handEdited = writeFile(files, 'src/lines.ts', LONG.replace('line 15', 'changed by hand'));
+    expect(() => acceptFileChange(handEdited, pending(), [1])).toThrow('does not match the current file');
+  });
+
+  it('writes nothing when no hunk is selected', () => {
+    expect(acceptFileChange(files, pending(), [])).toBe(files);
+  });
+});
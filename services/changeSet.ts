@@ -0,0 +1,239 @@
+import { AgentRole, ChangeSet, FileChange, FileChangeAction, FileNode } from '../types';
+import { DiffHunk, applyHunks, applyUnifiedDiff, computeHunks, formatUnifiedDiff } from './diff';
+import { deleteNode, exists, getNode, normalizePath, readFile, writeFile } from './virtualFs';
+
+/** A change-set entry checked against the current tree, with both sides of the file resolved. */
+export interface ResolvedFileChange {
+  action: FileChangeAction;
+  path: string;
+  before: string | null;
+  after: string | null;
+  diff: string;
+}
+
+/** A proposed file change awaiting review; hunks are consumed as the user accepts or rejects them. */
+export interface PendingFileChange extends ResolvedFileChange {
+  hunks: DiffHunk[];
+}
+
+export interface PendingChangeSet {
+  id: string;
+  explanation: string;
+  agentRole: AgentRole;
+  createdAt: number;
+  files: PendingFileChange[];
+}
+
+const ACTIONS: FileChangeAction[] = ['create', 'modify', 'delete'];
+const ROOT_FILE_PATTERN = /\.(json|md|html|txt)$|^\./;
+
+/**
+ * Validates a parsed model response into a `ChangeSet`. The legacy single-file shape
+ * `{ filename, content, explanation }` is still accepted so older prompts keep working.
+ * Throws with every problem found, not just the first.
+ */
+export const parseChangeSet = (raw: unknown): ChangeSet => {
+  if (typeof raw !== 'object' || raw === null) throw new Error('Change-set must be a JSON object');
+  const value = raw as Record<string, unknown>;
+  const explanation = typeof value.explanation === 'string' ? value.explanation : '';
+
+  if (!Array.isArray(value.changes) && typeof value.filename === 'string' && typeof value.content === 'string') {
+    return { explanation, changes: [{ action: 'create', path: value.filename, content: value.content }] };
+  }
+  if (!Array.isArray(value.changes)) throw new Error('Change-set is missing a "changes" array');
+
+  const problems: string[] = [];
+  const seen = new Set<string>();
+  const changes: FileChange[] = value.changes.map((entry, index) => {
+    const label = `changes[${index}]`;
+    const change = (typeof entry === 'object' && entry !== null ? entry : {}) as Record<string, unknown>;
+    const action = change.action as FileChangeAction;
+    const path = typeof change.path === 'string' ? normalizePath(change.path) : '';
+    const content = typeof change.content === 'string' ? change.content : undefined;
+    const diff = typeof change.diff === 'string' ? change.diff : undefined;
+
+    if (!ACTIONS.includes(action)) problems.push(`${label}.action must be one of ${ACTIONS.join(', ')}`);
+    if (!path) problems.push(`${label}.path must be a non-empty string`);
+    if (path && seen.has(path)) problems.push(`${label}.path "${path}" appears more than once`);
+    seen.add(path);
+    if (action === 'create' && content === undefined) problems.push(`${label} creates "${path}" without content`);
+    if (action === 'modify' && content === undefined && diff === undefined) problems.push(`${label} modifies "${path}" without content or diff`);
+    return { action, path, content, diff };
+  });
+
+  if (changes.length === 0) problems.push('Change-set contains no changes');
+  if (problems.length > 0) throw new Error(`Invalid change-set:\n- ${problems.join('\n- ')}`);
+  return { explanation, changes };
+};
+
+/**
+ * Maps an agent-supplied path onto the project. Agents answer with `Nav.tsx`,
+ * `components/Nav.tsx` or `src/components/Nav.tsx`; source files without a known top-level
+ * folder land under `src`, while root config files (package.json, theme.json) stay at the root.
+ */
+export const resolveChangePath = (files: FileNode[], path: string) => {
+  const normalized = normalizePath(path);
+  if (exists(files, normalized)) return normalized;
+  const [head] = normalized.split('/');
+  if (normalized.includes('/') && getNode(files, head)?.type === 'folder') return normalized;
+  if (!normalized.includes('/') && ROOT_FILE_PATTERN.test(normalized)) return normalized;
+  return `src/${normalized}`;
+};
+
+/**
+ * Resolves every change against `files` without touching them. Any conflict (modifying or
+ * deleting a missing file, a patch that does not apply) throws, so callers can apply the
+ * result atomically or not at all.
+ */
+export const resolveChangeSet = (files: FileNode[], changeSet: ChangeSet): ResolvedFileChange[] =>
+  changeSet.changes.map(change => {
+    const path = resolveChangePath(files, change.path);
+    const node = getNode(files, path);
+    if (node?.type === 'folder') throw new Error(`"${path}" is a folder`);
+    const before = node ? node.content ?? '' : null;
+
+    if (change.action === 'delete') {
+      if (before === null) throw new Error(`Cannot delete "${path}": file does not exist`);
+      return { action: 'delete', path, before, after: null, diff: formatUnifiedDiff(path, before, null) };
+    }
+
+    let after: string;
+    if (change.content !== undefined) {
+      after = change.content;
+    } else {
+      if (before === null) throw new Error(`Cannot patch "${path}": file does not exist`);
+      try {
+        after = applyUnifiedDiff(before, change.diff as string);
+      } catch (err) {
+        throw new Error(`Cannot patch "${path}": ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+    // Agents often say "create" for files that already exist (and vice versa); trust the tree.
+    const action: FileChangeAction = before === null ? 'create' : 'modify';
+    return { action, path, before, after, diff: formatUnifiedDiff(path, before, after) };
+  });
+
+export const applyResolvedChanges = (files: FileNode[], changes: ResolvedFileChange[]) =>
+  changes.reduce((tree, change) => {
+    if (change.after === null) return exists(tree, change.path) ? deleteNode(tree, change.path) : tree;
+    return writeFile(tree, change.path, change.after, { changeStatus: change.action === 'create' ? 'added' : 'modified' });
+  }, files);
+
+export const applyChangeSet = (files: FileNode[], changeSet: ChangeSet) =>
+  applyResolvedChanges(files, resolveChangeSet(files, changeSet));
+
+/**
+ * Folds a follow-up change-set (resolved against the tree with `earlier` applied) into the earlier
+ * one, so a run that revises its own proposal still yields one change per file against the
+ * original tree. Files that end up where they started drop out.
+ */
+export const composeResolvedChanges = (earlier: ResolvedFileChange[], later: ResolvedFileChange[]): ResolvedFileChange[] => {
+  const composed = new Map(earlier.map(change => [change.path, change]));
+  later.forEach(change => {
+    const before = composed.has(change.path) ? composed.get(change.path)!.before : change.before;
+    const { after, path } = change;
+    if (before === after) {
+      composed.delete(path);
+      return;
+    }
+    const action: FileChangeAction = after === null ? 'delete' : before === null ? 'create' : 'modify';
+    composed.set(path, { action, path, before, after, diff: formatUnifiedDiff(path, before, after) });
+  });
+  return [...composed.values()];
+};
+
+export const createPendingChangeSet = (id: string, agentRole: AgentRole, explanation: string, changes: ResolvedFileChange[]): PendingChangeSet => ({
+  id,
+  agentRole,
+  explanation,
+  createdAt: Date.now(),
+  files: changes
+    .map(change => ({ ...change, hunks: computeHunks(change.before ?? '', change.after ?? '') }))
+    .filter(change => change.action !== 'modify' || change.hunks.length > 0),
+});
+
+/** True when the file was edited after the agent proposed its change. */
+export const hasDrifted = (files: FileNode[], change: ResolvedFileChange) =>
+  (readFile(files, change.path) ?? null) !== change.before;
+
+/**
+ * Applies a reviewed change (or only the hunks at `hunkIndexes`). Modifications are replayed
+ * as hunks onto the file's current content, so edits made while the proposal was pending
+ * survive; a hunk whose context no longer exists throws instead of clobbering the file.
+ */
+export const acceptFileChange = (files: FileNode[], change: PendingFileChange, hunkIndexes?: number[]) => {
+  if (change.action === 'delete') return exists(files, change.path) ? deleteNode(files, change.path) : files;
+  const current = readFile(files, change.path);
+  if (change.action === 'create' || current === undefined) {
+    return writeFile(files, change.path, change.after ?? '', { changeStatus: 'added' });
+  }
+  const selected = hunkIndexes ? change.hunks.filter((_, index) => hunkIndexes.includes(index)) : change.hunks;
+  if (selected.length === 0) return files;
+  return writeFile(files, change.path, applyHunks(current, selected), { changeStatus: 'modified' });
+};
+
+/**
+ * Drops one hunk from a pending modification once it has been accepted or rejected. Returns
+ * null when nothing is left to review for that file.
+ */
+export const removeHunk = (change: PendingFileChange, hunkIndex: number): PendingFileChange | null => {
+  const hunks = change.hunks.filter((_, index) => index !== hunkIndex);
+  return hunks.length > 0 ? { ...change, hunks } : null;
+};
+
+export const formatChangeSetDiff = (changes: ResolvedFileChange[]) =>
+  changes.map(change => change.diff).filter(Boolean).join('\n');
+
+/** Full content of project files for prompts, so agents can write diffs against real code. */
+export const describeFilesForPrompt = (files: FileNode[], paths: string[], maxLen = 12000) => {
+  let budget = maxLen;
+  return paths.map(path => {
+    const content = readFile(files, path) ?? '';
+    const excerpt = content.slice(0, Math.max(budget, 0));
+    budget -= excerpt.length;
+    return `--- ${path}${excerpt.length < content.length ? ' (truncated)' : ''}\n${excerpt}`;
+  }).join('\n');
+};
+
+const JSON_ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+/** Decodes the body of a JSON string literal that may be cut off mid-stream (or mid-escape). */
+const decodePartialJsonString = (body: string) => {
+  let decoded = '';
+  for (let index = 0; index < body.length; index++) {
+    const char = body[index];
+    if (char === '"') break;
+    if (char !== '\\') {
+      decoded += char;
+      continue;
+    }
+    const next = body[index + 1];
+    if (next === undefined) break;
+    if (next === 'u') {
+      const hex = body.slice(index + 2, index + 6);
+      if (hex.length < 4) break;
+      decoded += String.fromCharCode(parseInt(hex, 16));
+      index += 5;
+      continue;
+    }
+    decoded += JSON_ESCAPES[next] ?? next;
+    index++;
+  }
+  return decoded;
+};
+
+/**
+ * Reads the file the developer is currently writing out of a change-set that is still streaming
+ * in, so the editor can show the code as it arrives. Returns null until a path and the start of
+ * its full `content` are visible; diff-only changes are not previewed.
+ */
+export const peekStreamingChange = (partialJson: string): { path: string; content: string } | null => {
+  const contentStart = partialJson.lastIndexOf('"content"');
+  if (contentStart === -1) return null;
+  const opening = /^"content"\s*:\s*"/.exec(partialJson.slice(contentStart));
+  if (!opening) return null;
+  const paths = [...partialJson.slice(0, contentStart).matchAll(/"path"\s*:\s*"((?:[^"\\]|\\.)*)"/g)];
+  const path = paths.length > 0 ? decodePartialJsonString(paths[paths.length - 1][1]) : '';
+  if (!path) return null;
+  return { path, content: decodePartialJsonString(partialJson.slice(contentStart + opening[0].length)) };
+};
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { applyHunks, applyUnifiedDiff, computeHunks, diffLines, formatUnifiedDiff, parseUnifiedDiff } from './diff';
+
+const lines = (count: number) => Array.from({ length: count }, (_, index) => `line ${index + 1}`);
+
+const BEFORE = lines(20).join('\n');
+
+/** `text` with its line `at` (1-based) replaced. */
+const replaceLine = (text: string, at: number, replacement: string) => {
+  const result = text.split('\n');
+  result[at - 1] = replacement;
+  return result.join('\n');
+};
+
+describe('diffLines', () => {
+  it('keeps shared lines and reports what changed between them', () => {
+    expect(diffLines('a\nb\nc', 'a\nB\nc\nd')).toEqual([
+      { type: 'equal', line: 'a' },
+      { type: 'delete', line: 'b' },
+      { type: 'insert', line: 'B' },
+      { type: 'equal', line: 'c' },
+      { type: 'insert', line: 'd' },
+    ]);
+  });
+
+  it('treats an empty side as having no lines', () => {
+    expect(diffLines('', 'a')).toEqual([{ type: 'insert', line: 'a' }]);
+    expect(diffLines('a', '')).toEqual([{ type: 'delete', line: 'a' }]);
+  });
+});
+
+describe('computeHunks', () => {
+  it('splits distant changes into separate hunks with surrounding context', () => {
+    const after = replaceLine(replaceLine(BEFORE, 2, 'changed 2'), 18, 'changed 18');
+    const hunks = computeHunks(BEFORE, after);
+
+    expect(hunks).toHaveLength(2);
+    expect(hunks[0]).toEqual({
+      oldStart: 1,
+      oldLines: 5,
+      newStart: 1,
+      newLines: 5,
+      lines: [' line 1', '-line 2', '+changed 2', ' line 3', ' line 4', ' line 5'],
+    });
+    expect(hunks[1].oldStart).toBe(15);
+  });
+
+  it('merges changes that are close enough to share context', () => {
+    const after = replaceLine(replaceLine(BEFORE, 5, 'changed 5'), 10, 'changed 10');
+    expect(computeHunks(BEFORE, after)).toHaveLength(1);
+  });
+});
+
+describe('formatUnifiedDiff and parseUnifiedDiff', () => {
+  it('round-trips hunks through the unified format', () => {
+    const after = replaceLine(replaceLine(BEFORE, 2, 'changed 2'), 18, 'changed 18');
+    const diff = formatUnifiedDiff('src/App.tsx', BEFORE, after);
+
+    expect(diff.split('\n').slice(0, 3)).toEqual(['--- a/src/App.tsx', '+++ b/src/App.tsx', '@@ -1,5 +1,5 @@']);
+    expect(parseUnifiedDiff(diff)).toEqual(computeHunks(BEFORE, after));
+    expect(applyUnifiedDiff(BEFORE, diff)).toBe(after);
+  });
+
+  it('uses /dev/null for created and deleted files, and nothing for unchanged ones', () => {
+    expect(formatUnifiedDiff('a.ts', null, 'x').split('\n').slice(0, 2)).toEqual(['--- /dev/null', '+++ b/a.ts']);
+    expect(formatUnifiedDiff('a.ts', 'x', null).split('\n').slice(0, 2)).toEqual(['--- a/a.ts', '+++ /dev/null']);
+    expect(formatUnifiedDiff('a.ts', 'x', 'x')).toBe('');
+  });
+
+  it('accepts the shortcuts models take when writing patches', () => {
+    const hunks = parseUnifiedDiff('diff --git a/x b/x\r\n@@ -2 +2 @@\r\n-b\r\n+B\r\n\\ No newline at end of file\r\n\r\n');
+    expect(hunks).toEqual([{ oldStart: 2, oldLines: 1, newStart: 2, newLines: 1, lines: ['-b', '+B'] }]);
+  });
+
+  it('restores the leading space of blank context lines', () => {
+    const [hunk] = parseUnifiedDiff('@@ -1,3 +1,3 @@\n a\n\n-c\n+C');
+    expect(hunk.lines).toEqual([' a', ' ', '-c', '+C']);
+    expect(applyHunks('a\n\nc', [hunk])).toBe('a\n\nC');
+  });
+
+  it('rejects text without hunks', () => {
+    expect(() => parseUnifiedDiff('--- a/x\n+++ b/x\n')).toThrow('Patch contains no hunks');
+  });
+});
+
+describe('applyHunks', () => {
+  it('lands hunks whose line numbers drifted because lines were added above them', () => {
+    const after = replaceLine(BEFORE, 15, 'changed 15');
+    const hunks = computeHunks(BEFORE, after);
+    const edited = ['// header', '// more header', BEFORE].join('\n');
+
+    expect(applyHunks(edited, hunks)).toBe(['// header', '// more header', after].join('\n'));
+  });
+
+  it('carries the drift of an earlier hunk over to the later ones', () => {
+    // Two lines inserted after line 1, and line 18 (now line 20) changed.
+    const after = replaceLine(['line 1', 'new a', 'new b', ...lines(20).slice(1)].join('\n'), 20, 'changed 18');
+    const hunks = computeHunks(BEFORE, after);
+
+    expect(hunks).toHaveLength(2);
+    expect(applyHunks(BEFORE, hunks)).toBe(after);
+  });
+
+  it('prefers the match nearest to the expected position when context repeats', () => {
+    const repeated = ['}', 'x', '}', 'x', '}'].join('\n');
+    const diff = '@@ -3,2 +3,2 @@\n }\n-x\n+y';
+    expect(applyUnifiedDiff(repeated, diff)).toBe(['}', 'x', '}', 'y', '}'].join('\n'));
+  });
+
+  it('places additions without context at their line number', () => {
+    const hunks = computeHunks('a\nb', 'a\ninserted\nb', 0);
+    expect(applyHunks('a\nb', hunks)).toBe('a\ninserted\nb');
+  });
+
+  it('throws instead of guessing when the context is no longer in the file', () => {
+    const hunks = computeHunks(BEFORE, replaceLine(BEFORE, 10, 'changed 10'));
+    const rewritten = replaceLine(BEFORE, 10, 'someone else changed 10');
+
+    expect(() => applyHunks(rewritten, hunks)).toThrow('Hunk @@ -7,7 @@ does not match the current file');
+  });
+});
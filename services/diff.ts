@@ -0,0 +1,212 @@
+/**
+ * Line-based diffing for agent change-sets and review panels: a Myers diff to produce hunks,
+ * a unified-diff formatter/parser, and a tolerant hunk applier for model-written patches.
+ */
+
+export interface DiffOp {
+  type: 'equal' | 'insert' | 'delete';
+  line: string;
+}
+
+/** A unified-diff hunk. `lines` keep their ` `, `+` or `-` prefix. */
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: string[];
+}
+
+/** Beyond this many edits the diff degrades to "replace the changed middle" to bound memory. */
+const MAX_EDIT_DISTANCE = 2000;
+
+export const splitLines = (text: string) => (text === '' ? [] : text.split('\n'));
+
+const myers = (a: string[], b: string[]): DiffOp[] | null => {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds v[-(d+1)..d+1] as it was before step d; enough to backtrack.
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return backtrack(a, b, trace);
+    }
+  }
+  return null;
+};
+
+const backtrack = (a: string[], b: string[], trace: Int32Array[]): DiffOp[] => {
+  const ops: DiffOp[] = [];
+  let x = a.length;
+  let y = b.length;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const at = (k: number) => v[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'equal', line: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (d === 0) break;
+    if (x === prevX) {
+      ops.push({ type: 'insert', line: b[y - 1] });
+    } else {
+      ops.push({ type: 'delete', line: a[x - 1] });
+    }
+    x = prevX;
+    y = prevY;
+  }
+  return ops.reverse();
+};
+
+export const diffLines = (before: string, after: string): DiffOp[] => {
+  const a = splitLines(before);
+  const b = splitLines(after);
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+  const middleA = a.slice(prefix, a.length - suffix);
+  const middleB = b.slice(prefix, b.length - suffix);
+  const middle = myers(middleA, middleB) ?? [
+    ...middleA.map(line => ({ type: 'delete' as const, line })),
+    ...middleB.map(line => ({ type: 'insert' as const, line })),
+  ];
+  return [
+    ...a.slice(0, prefix).map(line => ({ type: 'equal' as const, line })),
+    ...middle,
+    ...a.slice(a.length - suffix).map(line => ({ type: 'equal' as const, line })),
+  ];
+};
+
+/** Groups a diff into hunks with `context` lines of surrounding unchanged code. */
+export const computeHunks = (before: string, after: string, context = 3): DiffHunk[] => {
+  const ops = diffLines(before, after);
+  // 1-based line numbers on each side at the position of every op.
+  const oldAt: number[] = [];
+  const newAt: number[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  ops.forEach(op => {
+    oldAt.push(oldLine);
+    newAt.push(newLine);
+    if (op.type !== 'insert') oldLine++;
+    if (op.type !== 'delete') newLine++;
+  });
+
+  // Changes separated by at most 2 * context unchanged lines share a hunk.
+  const groups: [number, number][] = [];
+  ops.forEach((op, index) => {
+    if (op.type === 'equal') return;
+    const last = groups[groups.length - 1];
+    if (last && index - last[1] - 1 <= context * 2) last[1] = index;
+    else groups.push([index, index]);
+  });
+
+  return groups.map(([first, last]) => {
+    const start = Math.max(0, first - context);
+    const end = Math.min(ops.length - 1, last + context);
+    const slice = ops.slice(start, end + 1);
+    return {
+      oldStart: oldAt[start],
+      oldLines: slice.filter(op => op.type !== 'insert').length,
+      newStart: newAt[start],
+      newLines: slice.filter(op => op.type !== 'delete').length,
+      lines: slice.map(op => `${op.type === 'equal' ? ' ' : op.type === 'insert' ? '+' : '-'}${op.line}`),
+    };
+  });
+};
+
+export const formatHunk = (hunk: DiffHunk) =>
+  [`@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`, ...hunk.lines].join('\n');
+
+export const formatUnifiedDiff = (path: string, before: string | null, after: string | null, context = 3) => {
+  const hunks = computeHunks(before ?? '', after ?? '', context);
+  if (hunks.length === 0) return '';
+  return [
+    `--- ${before === null ? '/dev/null' : `a/${path}`}`,
+    `+++ ${after === null ? '/dev/null' : `b/${path}`}`,
+    ...hunks.map(formatHunk),
+  ].join('\n');
+};
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+export const parseUnifiedDiff = (diff: string): DiffHunk[] => {
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+  diff.replace(/\r\n/g, '\n').replace(/\n+$/, '').split('\n').forEach(raw => {
+    const header = raw.match(HUNK_HEADER);
+    if (header) {
+      current = {
+        oldStart: Number(header[1]),
+        oldLines: header[2] === undefined ? 1 : Number(header[2]),
+        newStart: Number(header[3]),
+        newLines: header[4] === undefined ? 1 : Number(header[4]),
+        lines: [],
+      };
+      hunks.push(current);
+      return;
+    }
+    if (!current || raw.startsWith('---') || raw.startsWith('+++') || raw.startsWith('\\')) return;
+    // Models frequently drop the leading space on blank context lines.
+    current.lines.push(raw === '' ? ' ' : raw);
+  });
+  if (hunks.length === 0) throw new Error('Patch contains no hunks');
+  return hunks;
+};
+
+const findSequence = (haystack: string[], needle: string[], preferred: number) => {
+  const matchesAt = (start: number) => needle.every((line, i) => haystack[start + i] === line);
+  if (needle.length === 0) return Math.min(Math.max(preferred, 0), haystack.length);
+  const limit = haystack.length - needle.length;
+  for (let distance = 0; distance <= haystack.length; distance++) {
+    const before = preferred - distance;
+    const after = preferred + distance;
+    if (before >= 0 && before <= limit && matchesAt(before)) return before;
+    if (distance > 0 && after >= 0 && after <= limit && matchesAt(after)) return after;
+    if (before < 0 && after > limit) break;
+  }
+  return -1;
+};
+
+/**
+ * Applies hunks in order. Line numbers are treated as hints: each hunk is anchored on its
+ * context and removed lines, searching outward from the expected position so that patches
+ * written against a slightly different version still land.
+ */
+export const applyHunks = (content: string, hunks: DiffHunk[]) => {
+  const lines = splitLines(content);
+  let drift = 0;
+  hunks.forEach(hunk => {
+    const oldSide = hunk.lines.filter(line => line[0] !== '+').map(line => line.slice(1));
+    const newSide = hunk.lines.filter(line => line[0] !== '-').map(line => line.slice(1));
+    const expected = Math.max(hunk.oldStart - 1, 0) + drift;
+    const start = findSequence(lines, oldSide, expected);
+    if (start === -1) {
+      throw new Error(`Hunk @@ -${hunk.oldStart},${hunk.oldLines} @@ does not match the current file`);
+    }
+    lines.splice(start, oldSide.length, ...newSide);
+    drift = start - (hunk.oldStart - 1) + newSide.length - oldSide.length;
+  });
+  return lines.join('\n');
+};
+
+export const applyUnifiedDiff = (content: string, diff: string) => applyHunks(content, parseUnifiedDiff(diff));
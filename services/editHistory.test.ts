@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { EditHistory, applyHistoryWrites, canRedo, canUndo, recordEdits, redoEdit, renameHistory, undoEdit } from './editHistory';
+import { readFile, writeFile } from './virtualFs';
+
+const typing = (history: EditHistory, path: string, before: string, after: string, now: number) =>
+  recordEdits(history, [{ path, before, after }], { kind: 'typing', now });
+
+/** An agent change to App.tsx and Nav.tsx that also creates Footer.tsx. */
+const AGENT_EDITS = [
+  { path: 'src/App.tsx', before: 'app', after: 'app v2' },
+  { path: 'src/Nav.tsx', before: 'nav', after: 'nav v2' },
+  { path: 'src/Footer.tsx', before: null, after: 'footer' },
+];
+
+const withAgentEdits = () => recordEdits({}, AGENT_EDITS, { kind: 'agent', group: 'run-1', now: 0 });
+
+describe('recordEdits', () => {
+  it('coalesces keystrokes that follow each other quickly into one step', () => {
+    let history = typing({}, 'a.ts', 'a', 'ab', 0);
+    history = typing(history, 'a.ts', 'ab', 'abc', 500);
+    history = typing(history, 'a.ts', 'abc', 'abcd', 2000);
+
+    expect(history['a.ts'].past.map(record => [record.before, record.after])).toEqual([['a', 'abc'], ['abc', 'abcd']]);
+  });
+
+  it('skips edits that changed nothing', () => {
+    expect(recordEdits({}, [{ path: 'a.ts', before: 'a', after: 'a' }], { kind: 'agent' })).toEqual({});
+  });
+});
+
+describe('undoEdit and redoEdit', () => {
+  it('undoes and redoes every file of an agent change in one step', () => {
+    const undone = undoEdit(withAgentEdits(), 'src/Nav.tsx')!;
+    expect(undone.writes).toEqual([
+      { path: 'src/App.tsx', content: 'app' },
+      { path: 'src/Nav.tsx', content: 'nav' },
+      { path: 'src/Footer.tsx', content: null },
+    ]);
+    expect(canUndo(undone.history, 'src/App.tsx')).toBe(false);
+
+    const redone = redoEdit(undone.history, 'src/Footer.tsx')!;
+    expect(redone.writes).toEqual([
+      { path: 'src/App.tsx', content: 'app v2' },
+      { path: 'src/Nav.tsx', content: 'nav v2' },
+      { path: 'src/Footer.tsx', content: 'footer' },
+    ]);
+  });
+
+  it('undoes typing on top of an agent change before the change itself, one file at a time', () => {
+    const history = typing(withAgentEdits(), 'src/App.tsx', 'app v2', 'app v3', 10);
+
+    const first = undoEdit(history, 'src/App.tsx')!;
+    expect(first.writes).toEqual([{ path: 'src/App.tsx', content: 'app v2' }]);
+    // The group is on top of every stack again, so it goes back as a whole.
+    expect(undoEdit(first.history, 'src/App.tsx')!.writes).toHaveLength(3);
+  });
+
+  it('leaves files out of a group step once they were edited on their own', () => {
+    const history = typing(withAgentEdits(), 'src/Nav.tsx', 'nav v2', 'nav v3', 10);
+    expect(undoEdit(history, 'src/App.tsx')!.writes.map(write => write.path)).toEqual(['src/App.tsx', 'src/Footer.tsx']);
+  });
+
+  it('clears the redo stack when the user types', () => {
+    let history = typing({}, 'a.ts', 'a', 'ab', 0);
+    history = undoEdit(history, 'a.ts')!.history;
+    expect(canRedo(history, 'a.ts')).toBe(true);
+
+    history = typing(history, 'a.ts', 'a', 'ax', 5000);
+    expect(canRedo(history, 'a.ts')).toBe(false);
+    expect(redoEdit(history, 'a.ts')).toBeNull();
+  });
+
+  it('has nothing to undo for files without history', () => {
+    expect(undoEdit({}, 'a.ts')).toBeNull();
+    expect(canUndo({}, null)).toBe(false);
+  });
+});
+
+describe('renameHistory', () => {
+  it('keeps the history of a renamed file, and of files inside a moved folder', () => {
+    const renamed = renameHistory(renameHistory(withAgentEdits(), 'src/Nav.tsx', 'src/Header.tsx'), 'src', 'app');
+
+    expect(Object.keys(renamed).sort()).toEqual(['app/App.tsx', 'app/Footer.tsx', 'app/Header.tsx']);
+    expect(undoEdit(renamed, 'app/Header.tsx')!.writes).toEqual([
+      { path: 'app/App.tsx', content: 'app' },
+      { path: 'app/Header.tsx', content: 'nav' },
+      { path: 'app/Footer.tsx', content: null },
+    ]);
+  });
+
+  it('leaves files that only share a prefix alone', () => {
+    const history = typing({}, 'src/App.tsx.bak', 'a', 'b', 0);
+    expect(Object.keys(renameHistory(history, 'src/App.tsx', 'src/Main.tsx'))).toEqual(['src/App.tsx.bak']);
+  });
+});
+
+describe('applyHistoryWrites', () => {
+  it('writes contents back and removes files that did not exist', () => {
+    const files = writeFile(writeFile([], 'src/App.tsx', 'app v2'), 'src/Footer.tsx', 'footer');
+    const restored = applyHistoryWrites(files, [
+      { path: 'src/App.tsx', content: 'app' },
+      { path: 'src/Footer.tsx', content: null },
+      { path: 'src/Gone.tsx', content: null },
+    ]);
+
+    expect(readFile(restored, 'src/App.tsx')).toBe('app');
+    expect(readFile(restored, 'src/Footer.tsx')).toBeUndefined();
+  });
+});
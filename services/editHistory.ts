@@ -0,0 +1,117 @@
+import { FileNode } from '../types';
+import { deleteNode, exists, getFile, rebasePath, writeFile } from './virtualFs';
+
+/**
+ * Per-file undo/redo. Every file keeps its own stack, so switching files never loses history.
+ * Agent-applied changes, replace-all and snapshot restores are recorded with a shared `group`: undoing (or redoing) any
+ * file of the group reverts every file of it in one step, as long as the group is still on top of their stacks.
+ */
+
+export interface EditRecord {
+  /** `null` when the file did not exist on that side of the edit. */
+  before: string | null;
+  after: string | null;
+  at: number;
+  /**
+   * `replace` is a project-wide replace-all and `restore` a checkout or roll-back to a snapshot,
+   * both grouped across files like agent changes.
+   */
+  kind: 'typing' | 'agent' | 'replace' | 'restore';
+  group?: string;
+}
+
+export interface FileHistory {
+  past: EditRecord[];
+  future: EditRecord[];
+}
+
+export type EditHistory = Record<string, FileHistory>;
+
+export interface FileEdit {
+  path: string;
+  before: string | null;
+  after: string | null;
+}
+
+/** Content to write back to the project; `null` removes the file. */
+export interface HistoryWrite {
+  path: string;
+  content: string | null;
+}
+
+export interface HistoryStep {
+  history: EditHistory;
+  writes: HistoryWrite[];
+}
+
+/** Keystrokes closer together than this are undone as one step. */
+const COALESCE_MS = 1000;
+const MAX_RECORDS_PER_FILE = 200;
+
+const EMPTY: FileHistory = { past: [], future: [] };
+
+export const contentAt = (files: FileNode[], path: string) => getFile(files, path)?.content ?? null;
+
+/** Records edits of one kind; edits that changed nothing are skipped. */
+export const recordEdits = (
+  history: EditHistory,
+  edits: FileEdit[],
+  { kind, group, now = Date.now() }: { kind: EditRecord['kind']; group?: string; now?: number }
+): EditHistory => {
+  const next = { ...history };
+  edits.filter(edit => edit.before !== edit.after).forEach(({ path, before, after }) => {
+    const { past } = next[path] ?? EMPTY;
+    const last = past[past.length - 1];
+    const coalesce = kind === 'typing' && last?.kind === 'typing' && now - last.at < COALESCE_MS && last.after === before;
+    const record: EditRecord = coalesce ? { ...last, after, at: now } : { before, after, at: now, kind, group };
+    next[path] = { past: [...past.slice(0, coalesce ? -1 : undefined), record].slice(-MAX_RECORDS_PER_FILE), future: [] };
+  });
+  return next;
+};
+
+/** Paths whose top record (of `stack`) belongs to the same group as `path`'s top record. */
+const stepPaths = (history: EditHistory, path: string, stack: keyof FileHistory) => {
+  const top = history[path]?.[stack].at(-1);
+  if (!top) return [];
+  if (!top.group) return [path];
+  return Object.keys(history).filter(candidate => history[candidate][stack].at(-1)?.group === top.group);
+};
+
+/** Keeps the history of renamed or moved files under their new paths. */
+export const renameHistory = (history: EditHistory, from: string, to: string): EditHistory =>
+  Object.fromEntries(Object.entries(history).map(([path, fileHistory]) => [rebasePath(path, from, to), fileHistory]));
+
+export const canUndo = (history: EditHistory, path: string | null) => !!path && (history[path]?.past.length ?? 0) > 0;
+export const canRedo = (history: EditHistory, path: string | null) => !!path && (history[path]?.future.length ?? 0) > 0;
+
+export const undoEdit = (history: EditHistory, path: string): HistoryStep | null => {
+  const paths = stepPaths(history, path, 'past');
+  if (paths.length === 0) return null;
+  const next = { ...history };
+  const writes = paths.map(target => {
+    const { past, future } = history[target];
+    const record = past[past.length - 1];
+    next[target] = { past: past.slice(0, -1), future: [...future, record] };
+    return { path: target, content: record.before };
+  });
+  return { history: next, writes };
+};
+
+export const redoEdit = (history: EditHistory, path: string): HistoryStep | null => {
+  const paths = stepPaths(history, path, 'future');
+  if (paths.length === 0) return null;
+  const next = { ...history };
+  const writes = paths.map(target => {
+    const { past, future } = history[target];
+    const record = future[future.length - 1];
+    next[target] = { past: [...past, record], future: future.slice(0, -1) };
+    return { path: target, content: record.after };
+  });
+  return { history: next, writes };
+};
+
+export const applyHistoryWrites = (files: FileNode[], writes: HistoryWrite[]) =>
+  writes.reduce((next, { path, content }) => {
+    if (content !== null) return writeFile(next, path, content);
+    return exists(next, path) ? deleteNode(next, path) : next;
+  }, files);
@@ -0,0 +1,98 @@
+import { rebasePath } from './virtualFs';
+
+/**
+ * Open editor tabs, split into side-by-side panes. Pure and immutable like `virtualFs`: every
+ * function returns a new layout. The focused pane's active tab is the app's active file.
+ */
+
+export interface EditorPane {
+  tabs: string[];
+  active: string | null;
+}
+
+export interface EditorLayout {
+  panes: EditorPane[];
+  focused: number;
+}
+
+export const MAX_PANES = 2;
+
+export const EMPTY_LAYOUT: EditorLayout = { panes: [{ tabs: [], active: null }], focused: 0 };
+
+export const activePathOf = (layout: EditorLayout) => layout.panes[layout.focused]?.active ?? null;
+
+const updatePane = (layout: EditorLayout, index: number, update: (pane: EditorPane) => EditorPane): EditorLayout => ({
+  ...layout,
+  panes: layout.panes.map((pane, i) => i === index ? update(pane) : pane),
+});
+
+/** Shows `path` in a pane (the focused one by default), adding a tab after the active one if needed. */
+export const openTab = (layout: EditorLayout, path: string, paneIndex = layout.focused): EditorLayout => ({
+  ...updatePane(layout, paneIndex, pane => {
+    if (pane.tabs.includes(path)) return { ...pane, active: path };
+    const at = pane.active ? pane.tabs.indexOf(pane.active) + 1 : pane.tabs.length;
+    return { tabs: [...pane.tabs.slice(0, at), path, ...pane.tabs.slice(at)], active: path };
+  }),
+  focused: paneIndex,
+});
+
+/** Closes a tab; its neighbour becomes active, and an emptied pane is removed unless it is the last. */
+export const closeTab = (layout: EditorLayout, paneIndex: number, path: string): EditorLayout => {
+  const pane = layout.panes[paneIndex];
+  if (!pane) return layout;
+  const index = pane.tabs.indexOf(path);
+  const tabs = pane.tabs.filter(tab => tab !== path);
+  const active = pane.active === path ? tabs[Math.min(index, tabs.length - 1)] ?? null : pane.active;
+  if (tabs.length === 0 && layout.panes.length > 1) {
+    const panes = layout.panes.filter((_, i) => i !== paneIndex);
+    return { panes, focused: Math.min(layout.focused > paneIndex ? layout.focused - 1 : layout.focused, panes.length - 1) };
+  }
+  return updatePane(layout, paneIndex, () => ({ tabs, active }));
+};
+
+export const reorderTabs = (layout: EditorLayout, paneIndex: number, tabs: string[]) =>
+  updatePane(layout, paneIndex, pane => ({ ...pane, tabs }));
+
+export const focusPane = (layout: EditorLayout, paneIndex: number): EditorLayout =>
+  paneIndex === layout.focused || !layout.panes[paneIndex] ? layout : { ...layout, focused: paneIndex };
+
+/** Hides the focused pane's active file without closing its tab (the welcome screen shows). */
+export const clearActive = (layout: EditorLayout) => updatePane(layout, layout.focused, pane => ({ ...pane, active: null }));
+
+/** Opens the focused file in a new pane to the right. */
+export const splitPane = (layout: EditorLayout): EditorLayout => {
+  const path = activePathOf(layout);
+  if (layout.panes.length >= MAX_PANES || !path) return layout;
+  return { panes: [...layout.panes, { tabs: [path], active: path }], focused: layout.panes.length };
+};
+
+/** Drops tabs of files that no longer exist (deleted by an agent, an undo or the user). */
+export const pruneTabs = (layout: EditorLayout, exists: (path: string) => boolean): EditorLayout => {
+  let next = layout;
+  // Last pane first: removing an emptied pane never shifts the indexes still to visit.
+  for (let index = layout.panes.length - 1; index >= 0; index--) {
+    layout.panes[index].tabs.filter(tab => !exists(tab)).forEach(tab => { next = closeTab(next, index, tab); });
+  }
+  return next;
+};
+
+/** Follows a renamed or moved file (or every file in a moved folder) in all panes. */
+export const renameTabs = (layout: EditorLayout, from: string, to: string): EditorLayout => ({
+  ...layout,
+  panes: layout.panes.map(pane => ({
+    tabs: [...new Set(pane.tabs.map(tab => rebasePath(tab, from, to)))],
+    active: pane.active && rebasePath(pane.active, from, to),
+  })),
+});
+
+/** Reads a layout saved as JSON; anything unreadable yields the empty layout. */
+export const parseEditorLayout = (saved: string | undefined): EditorLayout => {
+  try {
+    const parsed: EditorLayout | null = saved ? JSON.parse(saved) : null;
+    if (!parsed || !Array.isArray(parsed.panes) || parsed.panes.length === 0) return EMPTY_LAYOUT;
+    return { panes: parsed.panes.slice(0, MAX_PANES), focused: Math.min(parsed.focused ?? 0, Math.min(parsed.panes.length, MAX_PANES) - 1) };
+  } catch {
+    return EMPTY_LAYOUT;
+  }
+};
+
@@ -0,0 +1,344 @@
+import { describe, expect, it } from 'vitest';
+import { AgentRole } from '../types';
+import { AgentEvent, DEFAULT_DESIGN_LIBRARY, DesignContext, OrchestratorOptions, PipelineResult, ProjectSnapshot, resumePipeline, runPipeline } from './orchestrator';
+import { BUILT_IN_PIPELINES, PipelineDefinition } from './pipelines';
+import { createMockProvider } from './providers/mock';
+import { LlmProvider, LlmRequest } from './providers/types';
+import { writeFile } from './virtualFs';
+
+const SNAPSHOT: ProjectSnapshot = {
+  files: writeFile([], 'src/App.tsx', 'export default function App() {\n  return null;\n}'),
+  projectGraph: 'src/App.tsx',
+  previewDoc: '',
+  previousPreviewDoc: null,
+};
+
+const DESIGN: DesignContext = { tokens: '{}', library: DEFAULT_DESIGN_LIBRARY, brief: '' };
+
+const TEAM = BUILT_IN_PIPELINES.find(pipeline => pipeline.id === 'team')!;
+
+/**
+ * The mock provider, recording every request it is sent. Stages in `replies` answer with those
+ * texts in order (then cycling); the others with the built-in fixtures.
+ */
+const recordingProvider = (requests: LlmRequest[] = [], replies: Record<string, string[]> = {}): LlmProvider => {
+  const mock = createMockProvider(Object.entries(replies).flatMap(([stage, texts]) => texts.map(text => ({ stage, prompt: '', text, recordedAt: 0 }))));
+  return {
+    ...mock,
+    generate: request => {
+      requests.push(request);
+      return mock.generate(request);
+    },
+    stream: request => {
+      requests.push(request);
+      return mock.stream(request);
+    },
+  };
+};
+
+/** Fails the first `times` calls of `stage` before they reach the mock. */
+const failingProvider = (stage: string, times: number, error: Error): LlmProvider => {
+  const mock = createMockProvider([]);
+  let failures = 0;
+  return {
+    ...mock,
+    stream: request => {
+      if (request.stage === stage && failures < times) {
+        failures++;
+        throw error;
+      }
+      return mock.stream(request);
+    },
+  };
+};
+
+const createOptions = (provider: LlmProvider) => {
+  const events: AgentEvent[] = [];
+  let nextId = 0;
+  const options: OrchestratorOptions = { provider, onEvent: event => events.push(event), createId: () => `id-${++nextId}` };
+  return { events, options };
+};
+
+const start = (pipeline: PipelineDefinition, options: OrchestratorOptions, pausePoints = false) => runPipeline({
+  request: 'Build a counter',
+  pipeline,
+  options: { useSearch: false, useThinking: false },
+  design: DESIGN,
+  pausePoints,
+  snapshot: SNAPSHOT,
+}, options);
+
+const startedTasks = (events: AgentEvent[]) =>
+  events.flatMap(event => event.type === 'task-started' ? [event.task.title] : []);
+
+const finishedTasks = (events: AgentEvent[]) =>
+  events.flatMap(event => event.type === 'task-finished' ? [event.status] : []);
+
+/** Task starts and finishes in the order they were reported, e.g. `+Implementation`, `-completed`. */
+const taskTimeline = (events: AgentEvent[]) => events.flatMap(event =>
+  event.type === 'task-started' ? [`+${event.task.title}`] : event.type === 'task-finished' ? [`-${event.status}`] : []);
+
+const systemMessages = (events: AgentEvent[]) =>
+  events.flatMap(event => event.type === 'message' && event.message.sender === 'system' ? [event.message.text] : []);
+
+const lastProposal = (events: AgentEvent[]) => {
+  const proposals = events.flatMap(event => event.type === 'change-proposed' ? [event.changeSet] : []);
+  return proposals[proposals.length - 1];
+};
+
+describe('runPipeline', () => {
+  it('runs each stage after the stages it depends on', async () => {
+    const { events, options } = createOptions(recordingProvider());
+    const result = await start(BUILT_IN_PIPELINES.find(pipeline => pipeline.id === 'build-qa-loop')!, options);
+
+    expect(result).toEqual({ paused: null });
+    expect(taskTimeline(events)).toEqual([
+      '+Architecture Planning', '-completed',
+      '+Implementation', '-completed',
+      '+QA Tests', '-completed',
+      '+Implementation (developer-fix)', '-completed',
+    ]);
+  });
+
+  it('starts a stage only once all of its branches have finished', async () => {
+    const pipeline: PipelineDefinition = {
+      id: 'fan-in',
+      name: 'Fan-in',
+      stages: [
+        { id: 'designer', role: 'designer', after: [] },
+        { id: 'architect', role: 'architect', after: [] },
+        { id: 'developer', role: 'developer', after: ['designer', 'architect'] },
+      ],
+    };
+    const requests: LlmRequest[] = [];
+    const { events, options } = createOptions(recordingProvider(requests));
+    await start(pipeline, options);
+
+    const timeline = taskTimeline(events);
+    expect(timeline.slice(0, 2).sort()).toEqual(['+Architecture Planning', '+Design System Draft']);
+    expect(timeline.slice(-2)).toEqual(['+Implementation', '-completed']);
+    expect(finishedTasks(events)).toEqual(['completed', 'completed', 'completed']);
+    // The developer sees both the designer's library and the architect's plan.
+    const developer = requests.find(request => request.stage === 'developer')!;
+    expect(developer.prompt).toContain('Design library: shadcn/ui');
+    expect(developer.prompt).toContain('Plan: Plan (offline mock)');
+  });
+
+  it('runs parallel editing stages one at a time on top of each other', async () => {
+    const pipeline: PipelineDefinition = {
+      id: 'parallel-edits',
+      name: 'Parallel edits',
+      stages: [
+        { id: 'architect', role: 'architect', after: [] },
+        { id: 'developer', role: 'developer', after: ['architect'] },
+        { id: 'qa', role: 'qa', after: ['architect'] },
+      ],
+    };
+    const requests: LlmRequest[] = [];
+    const { events, options } = createOptions(recordingProvider(requests));
+    await start(pipeline, options);
+
+    expect(taskTimeline(events)).toEqual([
+      '+Architecture Planning', '-completed',
+      '+Implementation', '-completed',
+      '+QA Tests', '-completed',
+    ]);
+    // QA writes tests for the developer's code, and its tests join the developer's proposal.
+    expect(requests.find(request => request.stage === 'qa')!.prompt).toContain('src/components/Counter.tsx');
+    expect(lastProposal(events).files.map(file => file.path).sort()).toEqual(['src/App.tsx', 'src/components/Counter.test.tsx', 'src/components/Counter.tsx']);
+  });
+
+  it('leaves editing stages that were waiting their turn for the resume when one fails', async () => {
+    const pipeline: PipelineDefinition = {
+      id: 'parallel-edits',
+      name: 'Parallel edits',
+      stages: [
+        { id: 'developer', role: 'developer', after: [] },
+        { id: 'qa', role: 'qa', after: [] },
+      ],
+    };
+    const { events, options } = createOptions(failingProvider('developer', 1, new Error('Model overloaded')));
+    const failed = await start(pipeline, options);
+
+    expect(failed.paused?.pausedAt).toEqual(['developer']);
+    expect(startedTasks(events)).toEqual(['Implementation']);
+
+    const resumed = createOptions(options.provider);
+    await resumePipeline(failed.paused!, {}, SNAPSHOT, resumed.options);
+    expect(taskTimeline(resumed.events)).toEqual(['+Implementation', '-completed', '+QA Tests', '-completed']);
+  });
+
+  it("proposes the designer's tokens for review and builds on them", async () => {
+    const pipeline: PipelineDefinition = {
+      id: 'design-build',
+      name: 'Design and build',
+      stages: [
+        { id: 'designer', role: 'designer', after: [] },
+        { id: 'developer', role: 'developer', after: ['designer'] },
+      ],
+    };
+    const requests: LlmRequest[] = [];
+    const { events, options } = createOptions(recordingProvider(requests));
+    await start(pipeline, options);
+
+    const designed = events.flatMap(event => event.type === 'change-proposed' ? [event.changeSet] : [])[0];
+    expect(designed.agentRole).toBe('designer');
+    expect(designed.files).toEqual([expect.objectContaining({ action: 'create', path: 'theme.json', before: null })]);
+    const tokens = designed.files[0].after!;
+    expect(requests.find(request => request.stage === 'developer')!.prompt).toContain(`Theme tokens: ${tokens}`);
+    // The developer's changes join the same proposal; nothing is written outside of it.
+    expect(lastProposal(events).id).toBe(designed.id);
+    expect(lastProposal(events).files.map(file => file.path).sort()).toEqual(['src/App.tsx', 'src/components/Counter.tsx', 'theme.json']);
+  });
+
+  it('pauses before a pause point and resumes where it stopped', async () => {
+    const requests: LlmRequest[] = [];
+    const { events, options } = createOptions(recordingProvider(requests));
+    const paused = await start(TEAM, options, true);
+
+    expect(paused.paused?.pausedAt).toEqual(['developer']);
+    expect(paused.paused?.failed).toBeUndefined();
+    expect(startedTasks(events)).toEqual(['Design System Draft', 'Architecture Planning']);
+    expect(systemMessages(events)).toContain('Pipeline paused before developer. Review the output so far (edit theme.json if needed), then resume the pipeline.');
+
+    const resumed = createOptions(options.provider);
+    const design: DesignContext = { tokens: '{"colors":{}}', library: 'radix-ui', brief: 'Edited during the pause.' };
+    const result = await resumePipeline(paused.paused!, { design }, SNAPSHOT, resumed.options);
+
+    expect(result.paused).toBeNull();
+    expect(startedTasks(resumed.events)[0]).toBe('Implementation');
+    expect(startedTasks(resumed.events)).not.toContain('Design System Draft');
+    expect(requests.find(request => request.stage === 'developer')!.prompt).toContain('Design library: radix-ui');
+  });
+
+  it('stops at a failed stage and reruns only that stage on resume', async () => {
+    const { events, options } = createOptions(failingProvider('architect', 1, new Error('Model overloaded')));
+    const failed: PipelineResult = await start(TEAM, options);
+
+    expect(failed.paused?.pausedAt).toEqual(['architect']);
+    expect(failed.paused?.failed).toBe(true);
+    expect((failed.error as Error).message).toBe('Model overloaded');
+    expect(taskTimeline(events)).toEqual([
+      '+Design System Draft', '-completed',
+      '+Architecture Planning', '-failed',
+    ]);
+    expect(events).toContainEqual(expect.objectContaining({ type: 'task-finished', status: 'failed', description: 'Model overloaded' }));
+
+    const resumed = createOptions(options.provider);
+    const result = await resumePipeline(failed.paused!, {}, SNAPSHOT, resumed.options);
+
+    expect(result.paused).toBeNull();
+    expect(startedTasks(resumed.events).slice(0, 2)).toEqual(['Architecture Planning', 'Implementation']);
+    expect(startedTasks(resumed.events)).not.toContain('Design System Draft');
+    expect(finishedTasks(resumed.events)).not.toContain('failed');
+  });
+
+  it('hands blocking critic findings to a developer repair pass until the review passes', async () => {
+    const requests: LlmRequest[] = [];
+    const { events, options } = createOptions(recordingProvider(requests));
+    const result = await start(TEAM, options);
+
+    expect(result.paused).toBeNull();
+    expect(startedTasks(events)).toEqual([
+      'Design System Draft',
+      'Architecture Planning',
+      'Implementation',
+      'Critic Review',
+      'Repair iteration 1/2',
+      'Critic Review (iteration 2)',
+    ]);
+    expect(finishedTasks(events).every(status => status === 'completed')).toBe(true);
+
+    const repair = requests.filter(request => request.stage === 'developer')[1];
+    expect(repair.prompt).toContain('Decrement has no lower bound');
+    const reviews = events.flatMap(event => event.type === 'message-updated' && event.patch.text?.startsWith('Score') ? [event.patch.text.split('.')[0]] : []);
+    expect(reviews).toEqual(['Score 6/10', 'Score 9/10']);
+    // The repair updates the run's single proposal instead of stacking a second one.
+    const proposals = new Set(events.flatMap(event => event.type === 'change-proposed' ? [event.changeSet.id] : []));
+    expect(proposals.size).toBe(1);
+    expect(lastProposal(events).files.map(file => file.path).sort()).toEqual(['src/App.tsx', 'src/components/Counter.tsx', 'theme.json']);
+    expect(systemMessages(events).some(text => text.startsWith('Stopped after'))).toBe(false);
+  });
+});
+
+describe('structured replies', () => {
+  const stages = (...roles: AgentRole[]): PipelineDefinition => ({
+    id: roles.join('-'),
+    name: roles.join(' and '),
+    stages: roles.map((role, index) => ({ id: role, role, after: index > 0 ? [roles[index - 1]] : [], repairIterations: role === 'critic' ? 1 : undefined })),
+  });
+
+  const failures = (events: AgentEvent[]) =>
+    events.flatMap(event => event.type === 'message-updated' && event.patch.failure ? [event.patch.failure.error] : []);
+
+  const proposals = (events: AgentEvent[]) => events.filter(event => event.type === 'change-proposed');
+
+  const INVALID = {
+    designer: [JSON.stringify({ library: 'bootstrap', tokens: { colors: {}, spacing: {}, typography: {} }, brief: '' }), 'Invalid design:\n- library must be one of shadcn/ui, chakra-ui, radix-ui'],
+    developer: [JSON.stringify({ explanation: 'Counter', changes: [{ action: 'create', path: 'src/Counter.tsx' }] }), 'Invalid change-set:\n- changes[0] creates "src/Counter.tsx" without content'],
+    critic: [JSON.stringify({ score: 'high', summary: 'Fine', findings: [] }), 'Invalid review:\n- score must be a number'],
+  } as const;
+
+  const VALID = {
+    designer: JSON.stringify({ library: 'radix-ui', tokens: { colors: { primary: '#000' }, spacing: {}, typography: {} }, brief: 'Calm.' }),
+    developer: JSON.stringify({ explanation: 'Counter', changes: [{ action: 'create', path: 'src/Counter.tsx', content: 'export {};' }] }),
+    critic: JSON.stringify({ score: 9, summary: 'Looks good.', findings: [] }),
+  };
+
+  it.each(['designer', 'developer', 'critic'] as const)('asks the %s again with the validation errors and uses the corrected reply', async role => {
+    const [invalid, error] = INVALID[role];
+    const requests: LlmRequest[] = [];
+    const { events, options } = createOptions(recordingProvider(requests, { [role]: [invalid, VALID[role]] }));
+    const result = await start(stages(...(role === 'critic' ? ['developer', role] as const : [role])), options);
+
+    expect(result.paused).toBeNull();
+    expect(failures(events)).toEqual([error]);
+    const [first, repair] = requests.filter(request => request.stage === role);
+    expect(repair.prompt).toBe(`${first.prompt}
+
+Your previous reply was rejected:
+${error}
+Previous reply:
+${invalid}
+
+Return ONLY the corrected JSON document, complete and in the required format.`);
+    expect(finishedTasks(events).every(status => status === 'completed')).toBe(true);
+  });
+
+  it('writes nothing when the designer never returns valid tokens', async () => {
+    const [invalid, error] = INVALID.designer;
+    const { events, options } = createOptions(recordingProvider([], { designer: [invalid] }));
+    const result = await start(stages('designer', 'developer'), options);
+
+    expect(result.paused?.failed).toBe(true);
+    expect(failures(events)).toEqual([error, error, error]);
+    expect(events).toContainEqual(expect.objectContaining({ type: 'message-updated', patch: expect.objectContaining({ text: 'Designer agent returned unusable design tokens; theme.json was not changed.' }) }));
+    expect(events.some(event => event.type === 'design')).toBe(false);
+    expect(proposals(events)).toEqual([]);
+    expect(startedTasks(events)).toEqual(['Design System Draft']);
+  });
+
+  it('writes nothing when the developer never returns a valid change-set', async () => {
+    const [invalid, error] = INVALID.developer;
+    const { events, options } = createOptions(recordingProvider([], { developer: [invalid] }));
+    const result = await start(stages('developer'), options);
+
+    expect(result.paused?.failed).toBe(true);
+    expect(failures(events)).toEqual([error, error, error]);
+    expect(events).toContainEqual(expect.objectContaining({ type: 'message-updated', patch: expect.objectContaining({ text: 'Developer agent returned an unusable change-set; no files were modified.' }) }));
+    expect(proposals(events)).toEqual([]);
+  });
+
+  it('keeps an unreadable critic review as text and runs no repair pass on it', async () => {
+    const [invalid, error] = INVALID.critic;
+    const { events, options } = createOptions(recordingProvider([], { critic: [invalid] }));
+    const result = await start(stages('developer', 'critic'), options);
+
+    expect(result.paused).toBeNull();
+    expect(failures(events)).toEqual([error, error, error]);
+    expect(startedTasks(events)).toEqual(['Implementation', 'Critic Review']);
+    // Only the developer's proposal; the critic changed nothing.
+    expect(proposals(events)).toHaveLength(1);
+  });
+});
+
@@ -0,0 +1,789 @@
+import { TEMPLATES } from '../templates';
+import { CHANGE_SET_OUTPUT, CRITIC_OUTPUT, CriticFinding, CriticReview, DESIGN_LIBRARIES, DESIGN_OUTPUT, StructuredOutput, parseStructured } from './agentSchemas';
+import { AgentOptions, AgentRole, AgentTask, ChangeSet, ChatMessage, CodeDiagnostic, FileNode, TestCaseResult, TokenUsage } from '../types';
+import { PendingChangeSet, ResolvedFileChange, applyResolvedChanges, composeResolvedChanges, createPendingChangeSet, describeFilesForPrompt, formatChangeSetDiff, peekStreamingChange, resolveChangeSet } from './changeSet';
+import { DEFAULT_QUALITY_THRESHOLD, DEFAULT_STAGE_TIMEOUT_SECONDS, PipelineDefinition, PipelineStage, ancestorsOf, orderStages } from './pipelines';
+import { describeModelError } from './providers/retry';
+import { LlmProvider, LlmRequest, LlmResponse, ModelTier, ModelUsage } from './providers/types';
+import { TestReport, isTestPath } from './testRunner';
+import { EMPTY_USAGE, UsageBudget, addUsage, exceededLimits, priceCall } from './usage';
+import { listFiles } from './virtualFs';
+
+/**
+ * Runs agent pipelines (see `pipelines.ts`) independently of React. A run reads an immutable
+ * project snapshot and reports everything it does as `AgentEvent`s; the UI (or a test) decides
+ * how to apply them.
+ */
+
+export const DEFAULT_DESIGN_LIBRARY = 'shadcn/ui';
+
+export interface DesignContext {
+  tokens: string;
+  library: string;
+  brief: string;
+}
+
+export interface ProjectSnapshot {
+  files: FileNode[];
+  projectGraph: string;
+  previewDoc: string;
+  previousPreviewDoc: string | null;
+}
+
+export interface StreamingDraft {
+  path: string;
+  content: string;
+}
+
+export type AgentEvent =
+  | { type: 'task-started'; task: AgentTask }
+  | { type: 'task-finished'; taskId: string; status: 'completed' | 'failed'; description?: string }
+  | { type: 'message'; message: ChatMessage }
+  | { type: 'message-updated'; messageId: string; patch: Partial<ChatMessage> }
+  | { type: 'design'; design: DesignContext }
+  | { type: 'draft'; draft: StreamingDraft | null }
+  | { type: 'change-proposed'; changeSet: PendingChangeSet }
+  | { type: 'usage'; taskId: string; agentRole: AgentRole; model: string; usage: TokenUsage };
+
+export interface OrchestratorOptions {
+  provider: LlmProvider;
+  onEvent: (event: AgentEvent) => void;
+  signal?: AbortSignal;
+  createId?: () => string;
+  /** Executes test files against a project tree; without it the QA stage only writes tests. */
+  runTests?: (files: FileNode[], testPaths: string[]) => Promise<TestReport>;
+  /** Type-checks a project tree; its errors are given to the developer and the critic as evidence. */
+  checkTypes?: (files: FileNode[]) => Promise<CodeDiagnostic[]>;
+  budget?: UsageBudget;
+  /** Estimated cost of the project's earlier runs, for the budget's project limit. */
+  projectCost?: number;
+}
+
+const randomId = () => Math.random().toString(36).substr(2, 9);
+
+export const sanitizeForPrompt = (value: string, maxLen = 6000) => {
+  if (!value) return '';
+  const cleaned = value.replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '').slice(0, maxLen);
+  return cleaned;
+};
+
+export const detectTemplateKey = (request: string): keyof typeof TEMPLATES | null => {
+  const lowerRequest = request.toLowerCase();
+  if (lowerRequest.includes('kanban')) return 'kanban';
+  if (lowerRequest.includes('calculator')) return 'calculator';
+  if (lowerRequest.includes('todo')) return 'todo';
+  if (lowerRequest.includes('login')) return 'login';
+  return null;
+};
+
+/** A stage that already explained its failure in the chat; it ends the run without an error report. */
+class StageFailure extends Error {}
+
+/** A JSON reply that still failed validation after the repair attempts. */
+class StructuredOutputError extends Error {
+  constructor(message: string, readonly messageId: string, readonly reply: string) {
+    super(message);
+  }
+}
+
+/** Re-prompts with the validation errors before a JSON stage gives up. */
+const MAX_REPAIR_ATTEMPTS = 2;
+
+/**
+ * Per-run helpers shared by the stages: task bookkeeping, streamed chat messages, usage and budget
+ * accounting, and type checks.
+ */
+const createStageRunner = ({ provider, onEvent, signal, createId = randomId, checkTypes, budget, projectCost = 0 }: OrchestratorOptions, state: RunState) => {
+  // Calls since this run (or resumed part of it) started; earlier ones are in `projectCost`.
+  let spent = EMPTY_USAGE;
+  const reported = new Set<string>();
+
+  /** Adds a call to the run's usage and reports limits it passes, once each. */
+  const recordUsage = (taskId: string, agentRole: AgentRole, call: ModelUsage) => {
+    const usage = priceCall(call);
+    state.usage = addUsage(state.usage, usage);
+    spent = addUsage(spent, usage);
+    onEvent({ type: 'usage', taskId, agentRole, model: call.model, usage });
+    if (!budget || budget.onExceed !== 'warn') return;
+    exceededLimits(budget, state.usage, projectCost + spent.cost).filter(({ limit }) => !reported.has(limit)).forEach(({ limit, message }) => {
+      reported.add(limit);
+      postMessage({ sender: 'system', text: `Budget warning: ${message}.` });
+    });
+  };
+
+  /** With a stopping budget, ends the run before a model call once a limit has been passed. */
+  const checkBudget = () => {
+    if (!budget || budget.onExceed !== 'stop') return;
+    const exceeded = exceededLimits(budget, state.usage, projectCost + spent.cost);
+    if (exceeded.length === 0) return;
+    if (!reported.has('stop')) {
+      reported.add('stop');
+      postMessage({ sender: 'system', text: `Budget exceeded: ${exceeded.map(({ message }) => message).join('; ')}. The run stopped before its next model call; raise the budget in the Usage view to resume it.` });
+    }
+    throw new StageFailure();
+  };
+
+  const startTask = (title: string, assignedTo: AgentRole) => {
+    const task: AgentTask = { id: createId(), title, status: 'active', assignedTo };
+    onEvent({ type: 'task-started', task });
+    const finish = (status: 'completed' | 'failed', description?: string) =>
+      onEvent({ type: 'task-finished', taskId: task.id, status, description });
+    return { taskId: task.id, finish };
+  };
+
+  /** Runs one stage as a task; the task fails (and the error propagates) if the stage throws. */
+  const runTask = async <T>(title: string, assignedTo: AgentRole, work: (taskId: string) => Promise<T>): Promise<T> => {
+    const { taskId, finish } = startTask(title, assignedTo);
+    try {
+      const result = await work(taskId);
+      finish('completed');
+      return result;
+    } catch (err) {
+      // A stage failure was explained in the chat; other errors are named on the task.
+      finish('failed', err instanceof StageFailure ? undefined : signal?.aborted ? 'Cancelled' : describeModelError(err));
+      throw err;
+    }
+  };
+
+  const postMessage = (message: Omit<ChatMessage, 'id' | 'timestamp'>) => {
+    const id = createId();
+    onEvent({ type: 'message', message: { id, timestamp: new Date(), ...message } });
+    return id;
+  };
+
+  const settleMessage = (messageId: string, patch: Partial<ChatMessage>) =>
+    onEvent({ type: 'message-updated', messageId, patch: { ...patch, streaming: false } });
+
+  /**
+   * Streams a stage's response into a live chat message and returns the full text. `render` maps
+   * the raw text so far to what the message shows (JSON stages show progress instead); callers
+   * replace it with the final text through `settleMessage`.
+   */
+  const streamResponse = async (
+    taskId: string,
+    agentRole: AgentRole,
+    request: Omit<LlmRequest, 'signal'>,
+    hooks: { onText?: (text: string) => void; render?: (text: string) => string } = {}
+  ) => {
+    checkBudget();
+    const messageId = postMessage({ sender: 'agent', agentRole, text: '', streaming: true });
+    let text = '';
+    let groundingUrls: LlmResponse['groundingUrls'];
+    let usage: ModelUsage | undefined;
+    const onRetry: LlmRequest['onRetry'] = notice => onEvent({
+      type: 'message-updated',
+      messageId,
+      patch: { text: `${notice.reason}; retrying in ${Math.ceil(notice.delayMs / 1000)} s (attempt ${notice.attempt}/${notice.maxAttempts})...` },
+    });
+    try {
+      for await (const chunk of provider.stream({ ...request, signal, onRetry })) {
+        text += chunk.text;
+        groundingUrls = chunk.groundingUrls ?? groundingUrls;
+        usage = chunk.usage ?? usage;
+        hooks.onText?.(text);
+        onEvent({ type: 'message-updated', messageId, patch: { text: hooks.render ? hooks.render(text) : text } });
+      }
+    } catch (err) {
+      settleMessage(messageId, {});
+      throw err;
+    }
+    if (usage) recordUsage(taskId, agentRole, usage);
+    return { messageId, text, groundingUrls };
+  };
+
+  /**
+   * Streams a JSON stage's response and validates it against `output`. A rejected reply is kept in
+   * the chat as a failure note and the model is asked again with the validation errors, up to
+   * `MAX_REPAIR_ATTEMPTS` times; then a `StructuredOutputError` names the last reply's message.
+   */
+  const requestStructured = async <T>(
+    taskId: string,
+    agentRole: AgentRole,
+    request: Omit<LlmRequest, 'signal' | 'json' | 'responseSchema'>,
+    output: StructuredOutput<T>,
+    hooks: Parameters<typeof streamResponse>[3] = {}
+  ) => {
+    let prompt = request.prompt;
+    for (let attempt = 0; ; attempt++) {
+      const response = await streamResponse(taskId, agentRole, { ...request, prompt, json: true, responseSchema: { name: output.name, schema: output.schema } }, hooks);
+      try {
+        return { ...response, value: parseStructured(response.text, output) };
+      } catch (err) {
+        const error = err instanceof Error ? err.message : String(err);
+        if (attempt >= MAX_REPAIR_ATTEMPTS) throw new StructuredOutputError(error, response.messageId, response.text);
+        settleMessage(response.messageId, {
+          sender: 'system',
+          agentRole: undefined,
+          text: `The ${agentRole}'s reply did not match the expected format; asking for a corrected one (${attempt + 1}/${MAX_REPAIR_ATTEMPTS}).`,
+          failure: { error, reply: response.text },
+        });
+        prompt = `${request.prompt}
+
+Your previous reply was rejected:
+${error}
+Previous reply:
+${sanitizeForPrompt(response.text, 12000)}
+
+Return ONLY the corrected JSON document, complete and in the required format.`;
+      }
+    }
+  };
+
+  /** Turns a rejected reply's message into the stage's failure notice and ends the run. */
+  const rejectReply = (err: unknown, text: string): never => {
+    if (!(err instanceof StructuredOutputError)) throw err;
+    settleMessage(err.messageId, { sender: 'system', agentRole: undefined, text, failure: { error: err.message, reply: err.reply } });
+    throw new StageFailure();
+  };
+
+  /** Compiler errors in `files`; none when no checker is configured or the check itself fails. */
+  const typeErrors = async (files: FileNode[]) => {
+    if (!checkTypes) return [];
+    try {
+      return (await checkTypes(files)).filter(diagnostic => diagnostic.severity === 'error');
+    } catch (err) {
+      console.error('Type check failed', err);
+      return [];
+    }
+  };
+
+  return { startTask, runTask, postMessage, settleMessage, streamResponse, requestStructured, rejectReply, typeErrors };
+};
+
+type StageRunner = ReturnType<typeof createStageRunner>;
+
+/** What a finished stage hands to the stages downstream of it. */
+interface StageResult {
+  role: AgentRole;
+  design?: DesignContext;
+  plan?: string;
+  review?: string;
+}
+
+/** Serializable state of a run; a paused run is resumed from it. */
+interface RunState {
+  pipeline: PipelineDefinition;
+  request: string;
+  options: AgentOptions;
+  /** Design the run started from, used until a designer stage replaces it. */
+  design: DesignContext;
+  pausePoints: boolean;
+  results: Record<string, StageResult>;
+  /** The project with every change proposed so far applied; later stages build on it. */
+  files: FileNode[];
+  /** All changes proposed so far, composed against the project as the run found it. */
+  changes: ResolvedFileChange[];
+  explanations: string[];
+  changeSetId: string | null;
+  /** Stages whose pause point has already been passed. */
+  released: string[];
+  /** Model calls of the run so far, across pauses. */
+  usage: TokenUsage;
+}
+
+export interface PausedRun extends RunState {
+  pausedAt: string[];
+  /** Set when the run stopped because the `pausedAt` stages failed; resuming runs them again. */
+  failed?: boolean;
+}
+
+export interface PipelineResult {
+  /** Set when the run stopped at a pause point or a failed stage; pass it to `resumePipeline` to continue. */
+  paused: PausedRun | null;
+  /** Why a stage failed, unless the stage already explained it in the chat. */
+  error?: unknown;
+}
+
+/** Inputs a stage reads from its finished ancestors. */
+interface StageContext {
+  design: DesignContext;
+  plan: string;
+  /** QA/critic notes made after the most recent developer pass, for the developer to address. */
+  reviews: string[];
+}
+
+const STAGE_TITLES: Record<AgentRole, string> = {
+  designer: "Design System Draft",
+  architect: "Architecture Planning",
+  developer: "Implementation",
+  qa: "QA Tests",
+  critic: "Critic Review",
+};
+
+const contextFor = (state: RunState, stage: PipelineStage): StageContext => {
+  const ancestors = ancestorsOf(state.pipeline, stage.id);
+  const context: StageContext = { design: state.design, plan: '', reviews: [] };
+  orderStages(state.pipeline).filter(upstream => ancestors.has(upstream.id)).forEach(upstream => {
+    const result = state.results[upstream.id];
+    if (!result) return;
+    if (result.design) context.design = result.design;
+    if (result.plan !== undefined) context.plan = result.plan;
+    if (result.role === 'developer') context.reviews = [];
+    if (result.review) context.reviews.push(`${upstream.role}: ${result.review}`);
+  });
+  return context;
+};
+
+/** Model settings for a stage: its own overrides first, then the run's toggles. */
+const modelSettings = (stage: PipelineStage, options: AgentOptions, defaultTier: ModelTier = options.useThinking ? 'reasoning' : 'fast') => ({
+  tier: stage.tier ?? defaultTier,
+  model: stage.model || undefined,
+  thinkingBudget: stage.thinkingBudget ?? (options.useThinking ? 32768 : undefined),
+  timeoutMs: (stage.timeoutSeconds ?? DEFAULT_STAGE_TIMEOUT_SECONDS) * 1000,
+});
+
+const generatedCode = (changes: ResolvedFileChange[]) =>
+  changes.filter(change => change.after !== null).map(change => `// ${change.path}\n${change.after}`).join('\n\n');
+
+const runDesigner = async (runner: StageRunner, state: RunState, stage: PipelineStage, snapshot: ProjectSnapshot, onEvent: OrchestratorOptions['onEvent'], taskId: string): Promise<StageResult> => {
+  const { options } = state;
+  const response = await runner.requestStructured(taskId, 'designer', {
+    stage: 'designer',
+    ...modelSettings(stage, options),
+    prompt: `You are the Visual Designer. Study the request and return a JSON with { "library": one of ${JSON.stringify(DESIGN_LIBRARIES)}, "tokens": { colors, spacing, typography, radii, shadows }, "brief": short guidance on layouts and states }. Do NOT guess raw CSS; pick from the libraries. If possible, base palette on existing preview markup. Request: ${state.request}
+Existing preview doc (acts like a screenshot): ${sanitizeForPrompt(snapshot.previewDoc || 'not available', 4000)}`,
+    image: options.image,
+    systemInstruction: "Visual Designer with VLM awareness. First emit a design token theme.json (colors, spacing, typography). Pre-seed with a component library (shadcn/ui default). Enforce atomic components and consistent scales. Never use placeholder text.",
+    tools: { search: options.useSearch }
+  }, DESIGN_OUTPUT, { render: () => 'Drafting design tokens...' })
+    .catch(err => runner.rejectReply(err, 'Designer agent returned unusable design tokens; theme.json was not changed.'));
+  const design: DesignContext = {
+    tokens: JSON.stringify(response.value.tokens, null, 2),
+    library: response.value.library,
+    brief: response.value.brief,
+  };
+  onEvent({ type: 'design', design });
+  // The tokens go through review like any other change; the run's later stages see them right away.
+  const resolved = resolveChangeSet(state.files, { explanation: '', changes: [{ action: 'modify', path: 'theme.json', content: design.tokens }] });
+  const changed = resolved[0].before !== design.tokens;
+  if (changed) proposeChanges(state, 'designer', 'Design tokens in theme.json.', resolved, taskId, onEvent);
+  runner.settleMessage(response.messageId, {
+    text: `Library: ${design.library}\nBrief: ${design.brief}\n${changed ? 'Tokens proposed for theme.json; review them in the Changes tab.' : 'theme.json already has these tokens.'}`,
+  });
+  return { role: 'designer', design };
+};
+
+const runArchitect = async (runner: StageRunner, state: RunState, stage: PipelineStage, context: StageContext, snapshot: ProjectSnapshot, taskId: string): Promise<StageResult> => {
+  const { options } = state;
+  const response = await runner.streamResponse(taskId, 'architect', {
+    stage: 'architect',
+    ...modelSettings(stage, options),
+    prompt: `User request: ${state.request}
+Design brief: ${sanitizeForPrompt(context.design.brief)}
+Theme tokens: ${sanitizeForPrompt(context.design.tokens)}
+Project graph (existing files): ${sanitizeForPrompt(snapshot.projectGraph)}
+
+Plan small, atomic components (Logo.tsx, NavLinks.tsx, UserMenu.tsx etc.) and ensure imports reference existing paths.`,
+    systemInstruction: "Senior Software Architect. Maintain a live JSON tree of files and only reference existing imports. Enforce component decomposition and describe how Coder will use the theme.json tokens and the selected component library. Avoid placeholders.",
+    tools: { search: options.useSearch }
+  });
+  const plan = response.text || "";
+  runner.settleMessage(response.messageId, { text: plan, groundingUrls: response.groundingUrls });
+  return { role: 'architect', plan };
+};
+
+/** Asks QA for test files covering the changed components, in the format the test worker runs. */
+const draftTests = async (runner: StageRunner, state: RunState, stage: PipelineStage, context: StageContext, taskId: string) => {
+  const changedPaths = state.changes
+    .filter(change => change.after !== null && !isTestPath(change.path))
+    .map(change => change.path);
+  const targetPaths = changedPaths.length > 0
+    ? changedPaths
+    : listFiles(state.files).map(entry => entry.path).filter(path => path.startsWith('src/') && !isTestPath(path));
+  const response = await runner.requestStructured(taskId, 'qa', {
+    stage: 'qa',
+    ...modelSettings(stage, state.options),
+    prompt: `You are the QA engineer. Write tests for the files below so regressions in this request are caught.
+User request: ${sanitizeForPrompt(state.request)}
+Plan: ${sanitizeForPrompt(context.plan || 'none')}
+Files under test:
+${sanitizeForPrompt(describeFilesForPrompt(state.files, targetPaths), 12000)}
+
+Test environment (anything else fails):
+- Import describe/it/expect/vi from "vitest"; render and screen from "@testing-library/react".
+- There is no DOM: render() produces static markup, so effects and event handlers never run and fireEvent/userEvent are unavailable. Assert on the initial render (getByText, getByRole with { name }, getByLabelText, getByTestId, toHaveAttribute, toHaveClass) and test pure functions directly.
+- No network access.
+- Name each file after the file it tests (e.g. src/components/Counter.test.tsx) and import it with a relative path.
+Return ONLY valid JSON.`,
+    systemInstruction: "QA Engineer. You MUST return ONLY a single JSON object: { \"explanation\": string, \"changes\": [{ \"action\": \"create\" | \"modify\", \"path\": string, \"content\": string }] }. Only create or modify *.test.tsx / *.test.ts files; never touch application code.",
+  }, CHANGE_SET_OUTPUT, { render: () => 'Writing tests...' })
+    .catch(err => runner.rejectReply(err, 'QA agent returned unusable tests; no files were modified.'));
+  const changeSet = response.value;
+  return { changeSet: { ...changeSet, changes: changeSet.changes.filter(change => isTestPath(change.path)) }, messageId: response.messageId };
+};
+
+const summarizeFile = (results: TestCaseResult[]) => {
+  const failed = results.filter(result => result.status === 'failed').length;
+  return failed > 0 ? `${results.length - failed} passed, ${failed} failed` : `${results.length} passed`;
+};
+
+/** Runs the run's test files, one task per file, and turns the report into a review for the developer. */
+const executeTests = async (runner: StageRunner, state: RunState, options: OrchestratorOptions): Promise<string> => {
+  const testPaths = state.changes.filter(change => change.after !== null && isTestPath(change.path)).map(change => change.path);
+  if (testPaths.length === 0) return 'QA wrote no tests.';
+  if (!options.runTests) {
+    runner.postMessage({ sender: 'system', text: 'Tests were written but not run: no test runner is available here.' });
+    return 'Tests were written but not run.';
+  }
+
+  const tasks = testPaths.map(path => ({ path, ...runner.startTask(`Run ${path}`, 'qa') }));
+  let report: TestReport;
+  try {
+    report = await options.runTests(state.files, testPaths);
+    options.signal?.throwIfAborted();
+  } catch (err) {
+    tasks.forEach(task => task.finish('failed'));
+    throw err;
+  }
+
+  // Files that never ran (compile or load errors) are reported like failing tests.
+  const results: TestCaseResult[] = [
+    ...report.results,
+    ...report.errors.map(error => ({ file: error.path, name: 'Could not run', status: 'failed' as const, error: error.message })),
+  ];
+  tasks.forEach(task => {
+    const fileResults = results.filter(result => result.file === task.path || result.file.split(', ').includes(task.path));
+    const failed = fileResults.length === 0 || fileResults.some(result => result.status === 'failed');
+    task.finish(failed ? 'failed' : 'completed', fileResults.length > 0 ? summarizeFile(fileResults) : 'No tests found');
+  });
+
+  const failures = results.filter(result => result.status === 'failed');
+  const verdict = failures.length === 0 && results.length > 0
+    ? `PASS: ${results.length} tests passed.`
+    : `FAIL: ${failures.length} of ${results.length} tests failed.`;
+  runner.postMessage({
+    sender: 'agent',
+    agentRole: 'qa',
+    text: `${verdict} (${Math.round(report.durationMs)} ms)`,
+    testResults: results,
+  });
+  if (failures.length === 0) return verdict;
+  const details = failures.map(result => `- ${result.file} › ${result.name}: ${result.error ?? 'failed'}`).join('\n');
+  return `${verdict}\nFix the application code (or a wrong test) so these pass:\n${details}`;
+};
+
+/** Writes tests for the run's changes, adds them to the proposal and runs them against the working tree. */
+const runQa = async (runner: StageRunner, state: RunState, stage: PipelineStage, context: StageContext, options: OrchestratorOptions, taskId: string): Promise<StageResult> => {
+  const { changeSet, messageId } = await draftTests(runner, state, stage, context, taskId);
+  if (changeSet.changes.length > 0) {
+    let resolved: ResolvedFileChange[];
+    try {
+      resolved = resolveChangeSet(state.files, changeSet);
+    } catch (applyErr) {
+      const detail = applyErr instanceof Error ? applyErr.message : String(applyErr);
+      runner.settleMessage(messageId, { sender: 'system', agentRole: undefined, text: `QA tests could not be applied; no files were modified.\n${detail}` });
+      throw new StageFailure();
+    }
+    proposeChanges(state, 'qa', changeSet.explanation, resolved, taskId, options.onEvent);
+    runner.settleMessage(messageId, {
+      text: `${changeSet.explanation || 'Tests written.'}\n\n${resolved.map(change => `${change.action} ${change.path}`).join('\n')}`,
+      diff: formatChangeSetDiff(resolved),
+    });
+  } else {
+    runner.settleMessage(messageId, { text: changeSet.explanation || 'No new tests.' });
+  }
+  return { role: 'qa', review: await executeTests(runner, state, options) };
+};
+
+const isBlocking = (finding: CriticFinding) => finding.severity !== 'minor';
+
+const MAX_PROMPT_DIAGNOSTICS = 40;
+
+const formatDiagnostics = (diagnostics: CodeDiagnostic[]) => [
+  ...diagnostics.slice(0, MAX_PROMPT_DIAGNOSTICS).map(diagnostic => `${diagnostic.path}:${diagnostic.line}:${diagnostic.column} TS${diagnostic.code}: ${diagnostic.message}`),
+  ...(diagnostics.length > MAX_PROMPT_DIAGNOSTICS ? [`...and ${diagnostics.length - MAX_PROMPT_DIAGNOSTICS} more`] : []),
+].join('\n');
+
+/** One major finding per file the run wrote that does not compile, whatever the critic noticed. */
+const compilerFindings = (state: RunState, errors: CodeDiagnostic[]): CriticFinding[] => state.changes
+  .filter(change => change.after !== null)
+  .map(change => ({ path: change.path, errors: errors.filter(error => error.path === change.path) }))
+  .filter(({ errors: fileErrors }) => fileErrors.length > 0)
+  .map(({ path, errors: fileErrors }) => ({
+    severity: 'major',
+    file: path,
+    issue: `TypeScript reports ${fileErrors.length} error(s):\n${formatDiagnostics(fileErrors)}`,
+  }));
+
+const formatFindings = (findings: CriticFinding[]) => findings
+  .map(finding => `[${finding.severity}] ${finding.file || 'general'}: ${finding.issue}${finding.patch ? `\nSuggested patch:\n${finding.patch}` : ''}`)
+  .join('\n');
+
+const reviewCode = async (runner: StageRunner, state: RunState, stage: PipelineStage, context: StageContext, snapshot: ProjectSnapshot, taskId: string) => {
+  const { design } = context;
+  const errors = await runner.typeErrors(state.files);
+  const response = await runner.requestStructured(taskId, 'critic', {
+    stage: 'critic',
+    ...modelSettings(stage, state.options, 'fast'),
+    prompt: `You are the critic. Compare the generated code with the plan and design tokens.
+Design tokens: ${sanitizeForPrompt(design.tokens)}
+Library: ${sanitizeForPrompt(design.library)}
+Brief: ${sanitizeForPrompt(design.brief)}
+Plan: ${sanitizeForPrompt(context.plan)}
+User request: ${sanitizeForPrompt(state.request)}
+Generated code: ${sanitizeForPrompt(generatedCode(state.changes), 12000)}
+Current preview markup (after run): ${sanitizeForPrompt(snapshot.previewDoc || '')}
+Previous preview markup (before run): ${sanitizeForPrompt(snapshot.previousPreviewDoc || 'none')}
+TypeScript compiler errors (verified, not guesses): ${errors.length > 0 ? `\n${sanitizeForPrompt(formatDiagnostics(errors))}` : 'none'}
+
+Look for visual defects, missing imports, broken behaviour and violations of the no-placeholder rule. Every compiler error in a generated file is at least a major finding.
+Return ONLY JSON: { "score": 0-10 overall quality, "summary": string, "findings": [{ "severity": "blocker" | "major" | "minor", "file": string, "issue": string, "patch"?: unified diff against the generated code }] }.`,
+    systemInstruction: "Reviewer. Blockers and major findings are sent back to the coder, so make each one concrete and fixable. Use minor for polish. Keep feedback tight."
+  }, CRITIC_OUTPUT, { render: () => 'Reviewing the generated code...' }).catch(err => {
+    if (!(err instanceof StructuredOutputError)) throw err;
+    return err;
+  });
+
+  // Unreadable findings are shown as they came and passed on as prose; no repair pass runs on them.
+  if (response instanceof StructuredOutputError) {
+    const text = response.reply || 'Critic review complete.';
+    runner.settleMessage(response.messageId, { text, failure: { error: response.message, reply: response.reply } });
+    return { review: null, text };
+  }
+  const { messageId } = response;
+  const review: CriticReview = { ...response.value, findings: [...response.value.findings, ...compilerFindings(state, errors)] };
+  const summary = `Score ${review.score}/10. ${review.summary}`.trim();
+  const patches = review.findings.filter(finding => finding.patch).map(finding => finding.patch).join('\n');
+  runner.settleMessage(messageId, {
+    text: review.findings.length > 0 ? `${summary}\n\n${formatFindings(review.findings.map(finding => ({ ...finding, patch: undefined })))}` : summary,
+    diff: patches || undefined,
+  });
+  return { review, text: review.findings.length > 0 ? `${summary}\n${formatFindings(review.findings)}` : summary };
+};
+
+/**
+ * Reviews the run's code and, while blocking findings remain and the score is below the stage's
+ * threshold, hands them to a developer repair pass and reviews again, up to `repairIterations`.
+ */
+const runCritic = async (runner: StageRunner, state: RunState, stage: PipelineStage, context: StageContext, snapshot: ProjectSnapshot, onEvent: OrchestratorOptions['onEvent'], taskId: string): Promise<StageResult> => {
+  const maxIterations = stage.repairIterations ?? 0;
+  const threshold = stage.qualityThreshold ?? DEFAULT_QUALITY_THRESHOLD;
+  let outcome = await reviewCode(runner, state, stage, context, snapshot, taskId);
+
+  for (let iteration = 1; iteration <= maxIterations; iteration++) {
+    const blocking = outcome.review?.findings.filter(isBlocking) ?? [];
+    if (blocking.length === 0 || outcome.review!.score >= threshold) break;
+
+    const repairStage: PipelineStage = { id: `${stage.id}-repair-${iteration}`, role: 'developer', after: [] };
+    const repairContext: StageContext = { ...context, reviews: [`critic: ${formatFindings(blocking)}`] };
+    await runner.runTask(`Repair iteration ${iteration}/${maxIterations}`, 'developer', taskId =>
+      runDeveloper(runner, state, repairStage, repairContext, snapshot, onEvent, taskId));
+    outcome = await runner.runTask(`${STAGE_TITLES.critic} (iteration ${iteration + 1})`, 'critic', reviewTaskId =>
+      reviewCode(runner, state, stage, context, snapshot, reviewTaskId));
+  }
+
+  const remaining = outcome.review?.findings.filter(isBlocking) ?? [];
+  if (maxIterations > 0 && remaining.length > 0 && outcome.review!.score < threshold) {
+    runner.postMessage({ sender: 'system', text: `Stopped after ${maxIterations} repair iteration(s) with ${remaining.length} blocking finding(s) left. Review them before accepting the changes.` });
+  }
+  return { role: 'critic', review: outcome.text };
+};
+
+/** Asks the developer for a change-set, or uses a built-in template for well-known first passes. */
+const draftChangeSet = async (runner: StageRunner, state: RunState, stage: PipelineStage, context: StageContext, snapshot: ProjectSnapshot, onEvent: OrchestratorOptions['onEvent'], taskId: string) => {
+  const { options } = state;
+  const { design } = context;
+  const templateKey = detectTemplateKey(state.request);
+  if (templateKey && state.changes.length === 0 && context.reviews.length === 0 && !options.useThinking && !options.useSearch) {
+    const template = TEMPLATES[templateKey];
+    const changeSet: ChangeSet = { explanation: "Built component.", changes: [{ action: 'create', path: template.filename, content: template.content }] };
+    return { changeSet, messageId: runner.postMessage({ sender: 'agent', agentRole: 'developer', text: 'Using the built-in template.' }) };
+  }
+
+  const sourcePaths = listFiles(state.files).map(entry => entry.path).filter(path => path.startsWith('src/'));
+  const followUp = state.changes.length > 0
+    ? '\nThe changes proposed earlier in this run are already applied to the source files below; return only further changes.'
+    : '';
+  const reviews = context.reviews.length > 0
+    ? `\nReview feedback to address:\n${sanitizeForPrompt(context.reviews.join('\n\n'), 6000)}`
+    : '';
+  const errors = await runner.typeErrors(state.files);
+  const compilerErrors = errors.length > 0
+    ? `\nTypeScript compiler errors in the current source files (verified; fix those in files you touch or import):\n${sanitizeForPrompt(formatDiagnostics(errors))}`
+    : '';
+  let draft: StreamingDraft | null = null;
+  const response = await runner.requestStructured(taskId, 'developer', {
+    stage: 'developer',
+    ...modelSettings(stage, options),
+    prompt: `Build a React component using Tailwind and lucide-react.
+Plan: ${context.plan}.
+Design library: ${sanitizeForPrompt(design.library)}. Theme tokens: ${sanitizeForPrompt(design.tokens)}.
+Brief: ${sanitizeForPrompt(design.brief)}
+Project graph: ${sanitizeForPrompt(snapshot.projectGraph)}${followUp}${reviews}${compilerErrors}
+Current source files:
+${sanitizeForPrompt(describeFilesForPrompt(state.files, sourcePaths), 12000)}
+Request: ${state.request}.
+
+Rules:
+- CRITICAL: Do not use placeholder comments like "// ...rest of code". Emit full, working code.
+- Verify imports exist in the project graph (the compiler errors above list the ones that do not); if missing, create the module as another change in the same change-set.
+- Prefer atomic components (Logo/Nav/UserMenu): emit one change per file instead of one massive file.
+- Paths are relative to the project root (e.g. src/components/Nav.tsx).
+- For small edits to an existing file you may send a unified "diff" against the current content instead of the full "content".
+- Use the chosen component library primitives instead of raw CSS.
+- Use RAG: cite exact import syntax from documentation (shadcn/ui, Radix UI or Chakra UI).
+- If building a Kanban board, implement resizable columns with a drag handle and dnd-kit. Make DragOverlay visually distinct (shadow-2xl, scale-105, border-blue-500).
+- Persist design tokens by referencing theme.json when defining styles.
+Return ONLY valid JSON.`,
+    systemInstruction: "Senior React Developer. You MUST return ONLY a single JSON object. Do not include any text before or after the JSON block. Format: { \"explanation\": string, \"changes\": [{ \"action\": \"create\" | \"modify\" | \"delete\", \"path\": string, \"content\"?: string, \"diff\"?: string }] }. CRITICAL: no placeholders or truncated code.",
+    tools: { search: options.useSearch }
+  }, CHANGE_SET_OUTPUT, {
+    onText: raw => {
+      draft = peekStreamingChange(raw);
+      if (draft) onEvent({ type: 'draft', draft });
+    },
+    render: () => draft ? `Writing ${draft.path}...` : 'Drafting change-set...',
+  })
+    .catch(err => runner.rejectReply(err, 'Developer agent returned an unusable change-set; no files were modified.'))
+    .finally(() => onEvent({ type: 'draft', draft: null }));
+  return { changeSet: response.value, messageId: response.messageId };
+};
+
+/**
+ * Applies a stage's changes to the run's working tree and re-proposes the run's whole change-set,
+ * so a fix pass (or QA's tests) updates the pending review instead of stacking a second one.
+ */
+const proposeChanges = (state: RunState, agentRole: AgentRole, explanation: string, resolved: ResolvedFileChange[], taskId: string, onEvent: OrchestratorOptions['onEvent']) => {
+  state.files = applyResolvedChanges(state.files, resolved);
+  state.changes = composeResolvedChanges(state.changes, resolved);
+  state.explanations = [...state.explanations, explanation].filter(Boolean);
+  state.changeSetId = state.changeSetId ?? taskId;
+  onEvent({ type: 'change-proposed', changeSet: createPendingChangeSet(state.changeSetId, agentRole, state.explanations.join('\n'), state.changes) });
+};
+
+/** Resolves the developer's change-set against the run's working tree and proposes it. */
+const runDeveloper = async (runner: StageRunner, state: RunState, stage: PipelineStage, context: StageContext, snapshot: ProjectSnapshot, onEvent: OrchestratorOptions['onEvent'], taskId: string): Promise<StageResult> => {
+  const { changeSet, messageId } = await draftChangeSet(runner, state, stage, context, snapshot, onEvent, taskId);
+
+  let resolved: ResolvedFileChange[];
+  try {
+    resolved = resolveChangeSet(state.files, changeSet);
+  } catch (applyErr) {
+    const detail = applyErr instanceof Error ? applyErr.message : String(applyErr);
+    runner.settleMessage(messageId, { sender: 'system', agentRole: undefined, text: `Developer change-set could not be applied; no files were modified.\n${detail}` });
+    throw new StageFailure();
+  }
+
+  proposeChanges(state, 'developer', changeSet.explanation, resolved, taskId, onEvent);
+
+  const summary = resolved.map(change => `${change.action} ${change.path}`).join('\n');
+  runner.settleMessage(messageId, {
+    text: `${changeSet.explanation || "Implementation complete."}\n\n${summary}\n\nReview the proposal in the Changes tab.`,
+    diff: formatChangeSetDiff(resolved),
+  });
+  return { role: 'developer' };
+};
+
+const runStage = (runner: StageRunner, state: RunState, stage: PipelineStage, snapshot: ProjectSnapshot, options: OrchestratorOptions) => {
+  const { onEvent } = options;
+  const title = stage.id === stage.role ? STAGE_TITLES[stage.role] : `${STAGE_TITLES[stage.role]} (${stage.id})`;
+  return runner.runTask(title, stage.role, async (taskId) => {
+    const context = contextFor(state, stage);
+    switch (stage.role) {
+      case 'designer': return runDesigner(runner, state, stage, snapshot, onEvent, taskId);
+      case 'architect': return runArchitect(runner, state, stage, context, snapshot, taskId);
+      case 'developer': return runDeveloper(runner, state, stage, context, snapshot, onEvent, taskId);
+      case 'qa': return runQa(runner, state, stage, context, options, taskId);
+      case 'critic': return runCritic(runner, state, stage, context, snapshot, onEvent, taskId);
+    }
+  });
+};
+
+/** Roles that propose changes to the run's working tree (the designer its tokens, a critic through its repair passes). */
+const EDITING_ROLES: AgentRole[] = ['designer', 'developer', 'qa', 'critic'];
+
+/**
+ * Runs every stage whose dependencies have finished, in waves. Architect branches of a wave run
+ * alongside the others; editing stages take turns in pipeline order, so each builds on the
+ * changes of the one before it. Stops at the first pause point that is all that is left to run,
+ * or when a stage fails (editing stages waiting their turn are left for the resume); the results
+ * of finished stages are kept, so a failed run resumes at the stages that failed.
+ */
+const execute = async (state: RunState, snapshot: ProjectSnapshot, options: OrchestratorOptions): Promise<PipelineResult> => {
+  const runner = createStageRunner(options, state);
+  const stages = orderStages(state.pipeline);
+  while (true) {
+    const ready = stages.filter(stage => !state.results[stage.id] && stage.after.every(dependency => state.results[dependency]));
+    if (ready.length === 0) return { paused: null };
+    const pausing = ready.filter(stage => stage.pauseBefore && state.pausePoints && !state.released.includes(stage.id));
+    const runnable = ready.filter(stage => !pausing.includes(stage));
+    if (runnable.length === 0) {
+      const names = pausing.map(stage => stage.id).join(', ');
+      runner.postMessage({ sender: 'system', text: `Pipeline paused before ${names}. Review the output so far (edit theme.json if needed), then resume the pipeline.` });
+      return { paused: { ...state, pausedAt: pausing.map(stage => stage.id) } };
+    }
+
+    const run = async (stage: PipelineStage) => {
+      const result = await runStage(runner, state, stage, snapshot, options);
+      state.results = { ...state.results, [stage.id]: result };
+      return true;
+    };
+    // Resolves false once an editing stage has failed; the ones after it then do not start.
+    let turn = Promise.resolve(true);
+    const outcomes = await Promise.allSettled(runnable.map(stage => {
+      if (!EDITING_ROLES.includes(stage.role)) return run(stage);
+      const ran = turn.then(previousRan => previousRan && run(stage));
+      turn = ran.catch(() => false);
+      return ran;
+    }));
+    const failure = outcomes.find((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected');
+    if (failure) {
+      if (options.signal?.aborted) throw failure.reason;
+      const failed = runnable.filter((_, index) => outcomes[index].status === 'rejected').map(stage => stage.id);
+      return {
+        paused: { ...state, pausedAt: failed, failed: true },
+        error: failure.reason instanceof StageFailure ? undefined : failure.reason,
+      };
+    }
+  }
+};
+
+export interface PipelineInput {
+  request: string;
+  pipeline: PipelineDefinition;
+  options: AgentOptions;
+  design: DesignContext;
+  /** When false, stages marked `pauseBefore` run without stopping. */
+  pausePoints: boolean;
+  snapshot: ProjectSnapshot;
+}
+
+/**
+ * Runs a pipeline for one request. Resolves once the run ends, pauses or stops at a failed stage;
+ * rejects when the signal aborts (tasks in flight are marked failed).
+ */
+export const runPipeline = (input: PipelineInput, options: OrchestratorOptions) =>
+  execute({
+    pipeline: input.pipeline,
+    request: input.request,
+    options: input.options,
+    design: input.design,
+    pausePoints: input.pausePoints,
+    results: {},
+    files: input.snapshot.files,
+    changes: [],
+    explanations: [],
+    changeSetId: null,
+    released: [],
+    usage: EMPTY_USAGE,
+  }, input.snapshot, options);
+
+/**
+ * Continues a paused run. The proposal so far is re-applied onto the current project so edits made
+ * during the pause are kept; `design` replaces the design that designer stages produced.
+ */
+export const resumePipeline = (paused: PausedRun, overrides: { design?: DesignContext }, snapshot: ProjectSnapshot, options: OrchestratorOptions) => {
+  const { pausedAt, failed: _, ...state } = paused;
+  const results = overrides.design
+    ? Object.fromEntries(Object.entries(state.results).map(([id, result]) => [id, result.design ? { ...result, design: overrides.design } : result]))
+    : state.results;
+  return execute({
+    ...state,
+    design: overrides.design ?? state.design,
+    results,
+    files: applyResolvedChanges(snapshot.files, state.changes),
+    released: [...state.released, ...pausedAt],
+    // Runs paused before usage was tracked start from nothing.
+    usage: state.usage ?? EMPTY_USAGE,
+  }, snapshot, options);
+};
@@ -0,0 +1,156 @@
+import { AgentRole } from '../types';
+import { ModelTier } from './providers/types';
+
+/**
+ * Agent pipelines are small DAGs of stages. A role may appear more than once (e.g. a second
+ * developer pass after QA), which is how review loops are expressed without cycles.
+ */
+
+export interface PipelineStage {
+  id: string;
+  role: AgentRole;
+  /** Stages that must finish first; empty for entry stages. */
+  after: string[];
+  /** Overrides the run's tier (the "extended reasoning" toggle picks it otherwise). */
+  tier?: ModelTier;
+  /** Overrides the provider's model for this stage. */
+  model?: string;
+  thinkingBudget?: number;
+  /** Seconds a model call may wait for its first chunk and between chunks; a call that stalls longer is retried. */
+  timeoutSeconds?: number;
+  /** Halts the run before this stage so the output so far can be reviewed and edited. */
+  pauseBefore?: boolean;
+  /** Critic stages only: developer repair passes allowed while the critic reports blocking findings. */
+  repairIterations?: number;
+  /** Critic stages only: score (0-10) at which the work is accepted even with findings left. */
+  qualityThreshold?: number;
+}
+
+export interface PipelineDefinition {
+  id: string;
+  name: string;
+  stages: PipelineStage[];
+  /** Built-in presets cannot be edited or deleted, only copied. */
+  builtIn?: boolean;
+}
+
+export const AGENT_ROLES: AgentRole[] = ['designer', 'architect', 'developer', 'qa', 'critic'];
+export const MAX_REPAIR_ITERATIONS = 5;
+export const DEFAULT_QUALITY_THRESHOLD = 8;
+export const DEFAULT_STAGE_TIMEOUT_SECONDS = 300;
+
+const PIPELINES_KEY = 'symbiotic_pipelines';
+
+const single = (role: AgentRole, name: string): PipelineDefinition => ({
+  id: role,
+  name,
+  builtIn: true,
+  stages: [{ id: role, role, after: [] }],
+});
+
+export const BUILT_IN_PIPELINES: PipelineDefinition[] = [
+  {
+    id: 'team',
+    name: 'Team (design → plan → build → review)',
+    builtIn: true,
+    stages: [
+      { id: 'designer', role: 'designer', after: [] },
+      { id: 'architect', role: 'architect', after: ['designer'] },
+      { id: 'developer', role: 'developer', after: ['architect'], pauseBefore: true },
+      { id: 'critic', role: 'critic', after: ['developer'], repairIterations: 2 },
+    ],
+  },
+  {
+    id: 'build-qa-loop',
+    name: 'Plan → build → QA → fix',
+    builtIn: true,
+    stages: [
+      { id: 'architect', role: 'architect', after: [] },
+      { id: 'developer', role: 'developer', after: ['architect'] },
+      { id: 'qa', role: 'qa', after: ['developer'] },
+      { id: 'developer-fix', role: 'developer', after: ['qa'] },
+    ],
+  },
+  single('architect', 'Architect only'),
+  single('designer', 'Visual Designer only'),
+  single('developer', 'Developer only'),
+  single('qa', 'QA only'),
+  single('critic', 'Critic only'),
+];
+
+export const DEFAULT_PIPELINE_ID = 'team';
+
+/**
+ * Returns the stages in an order where every stage follows its dependencies. Throws on unknown
+ * roles, duplicate ids, missing dependencies and cycles.
+ */
+export const orderStages = (pipeline: PipelineDefinition): PipelineStage[] => {
+  const byId = new Map<string, PipelineStage>();
+  pipeline.stages.forEach(stage => {
+    if (!stage.id.trim()) throw new Error('Every stage needs an id');
+    if (byId.has(stage.id)) throw new Error(`Duplicate stage id "${stage.id}"`);
+    if (!AGENT_ROLES.includes(stage.role)) throw new Error(`Unknown role "${stage.role}" in stage "${stage.id}"`);
+    const iterations = stage.repairIterations ?? 0;
+    if (!Number.isInteger(iterations) || iterations < 0 || iterations > MAX_REPAIR_ITERATIONS) {
+      throw new Error(`Stage "${stage.id}" allows 0 to ${MAX_REPAIR_ITERATIONS} repair iterations`);
+    }
+    const threshold = stage.qualityThreshold ?? DEFAULT_QUALITY_THRESHOLD;
+    if (!(threshold >= 0 && threshold <= 10)) throw new Error(`Stage "${stage.id}" needs a quality threshold between 0 and 10`);
+    byId.set(stage.id, stage);
+  });
+  if (byId.size === 0) throw new Error('A pipeline needs at least one stage');
+
+  const ordered: PipelineStage[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+  const visit = (stage: PipelineStage) => {
+    if (state.get(stage.id) === 'done') return;
+    if (state.get(stage.id) === 'visiting') throw new Error(`Stage "${stage.id}" depends on itself through a cycle`);
+    state.set(stage.id, 'visiting');
+    stage.after.forEach(dependency => {
+      const upstream = byId.get(dependency);
+      if (!upstream) throw new Error(`Stage "${stage.id}" runs after unknown stage "${dependency}"`);
+      visit(upstream);
+    });
+    state.set(stage.id, 'done');
+    ordered.push(stage);
+  };
+  pipeline.stages.forEach(visit);
+  return ordered;
+};
+
+/** Ids of every stage `stageId` transitively depends on. */
+export const ancestorsOf = (pipeline: PipelineDefinition, stageId: string) => {
+  const byId = new Map(pipeline.stages.map(stage => [stage.id, stage]));
+  const ancestors = new Set<string>();
+  const walk = (id: string) => byId.get(id)?.after.forEach(dependency => {
+    if (ancestors.has(dependency)) return;
+    ancestors.add(dependency);
+    walk(dependency);
+  });
+  walk(stageId);
+  return ancestors;
+};
+
+export const loadCustomPipelines = (): PipelineDefinition[] => {
+  try {
+    const saved = localStorage.getItem(PIPELINES_KEY);
+    const parsed: PipelineDefinition[] = saved ? JSON.parse(saved) : [];
+    return parsed.filter(pipeline => {
+      try {
+        orderStages(pipeline);
+        return true;
+      } catch {
+        return false;
+      }
+    });
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomPipelines = (pipelines: PipelineDefinition[]) => {
+  localStorage.setItem(PIPELINES_KEY, JSON.stringify(pipelines.filter(pipeline => !pipeline.builtIn)));
+};
+
+export const findPipeline = (pipelines: PipelineDefinition[], id: string) =>
+  pipelines.find(pipeline => pipeline.id === id) ?? BUILT_IN_PIPELINES[0];
@@ -0,0 +1,142 @@
+import { FileNode } from '../types';
+import { BundleError, ProjectBundle, bundleProject, packageNameOf } from './bundler';
+
+export const PREVIEW_CDN = 'https://esm.sh';
+const TAILWIND_CDN = 'https://cdn.tailwindcss.com';
+/** Packages that must exist exactly once on the page; every other CDN module links against these. */
+const SHARED_PACKAGES = ['react', 'react-dom'];
+
+const escapeHtml = (input: string) =>
+  input.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+/** A fresh nonce per document, so a script the project's code injects cannot guess it. */
+export const createNonce = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return btoa(String.fromCharCode(...bytes));
+};
+
+/** Inline scripts must never contain a literal closing tag, even inside strings or comments. */
+const escapeInlineScript = (code: string) => code.replace(/<\/(script)/gi, '<\\/$1').replace(/<!--/g, '<\\!--');
+
+const cdnUrl = (specifier: string, bundle: ProjectBundle, externalPackages: string[]) => {
+  const pkg = packageNameOf(specifier);
+  const version = bundle.dependencies[pkg];
+  const subpath = specifier.slice(pkg.length);
+  const shared = externalPackages.filter(name => name !== pkg);
+  const query = shared.length > 0 ? `?external=${shared.join(',')}` : '';
+  return `${PREVIEW_CDN}/${pkg}${version ? `@${version}` : ''}${subpath}${query}`;
+};
+
+/**
+ * Maps every bare import onto the CDN. React is always marked external so that third-party
+ * packages (lucide-react, @dnd-kit/*) bind to the same React instance as the preview itself,
+ * and packages declared in the project's package.json are shared between each other.
+ */
+const buildImportMap = (bundle: ProjectBundle) => {
+  const declared = Object.keys(bundle.dependencies);
+  const externalPackages = [...new Set([...SHARED_PACKAGES, ...declared, ...bundle.externals.map(packageNameOf)])];
+  const imports: Record<string, string> = {};
+  bundle.externals.forEach(specifier => {
+    imports[specifier] = cdnUrl(specifier, bundle, externalPackages);
+  });
+  externalPackages.forEach(pkg => {
+    imports[pkg] = imports[pkg] || cdnUrl(pkg, bundle, externalPackages);
+    const version = bundle.dependencies[pkg];
+    imports[`${pkg}/`] = `${PREVIEW_CDN}/${pkg}${version ? `@${version}` : ''}/`;
+  });
+  return { imports };
+};
+
+const renderBuildErrors = (errors: BundleError[]) => errors
+  .map(error => `<div class="__symbiotic_error_item"><strong>${escapeHtml(error.path)}</strong><pre>${escapeHtml(error.message)}</pre></div>`)
+  .join('');
+
+const buildRuntime = (bundle: ProjectBundle) => {
+  const imports = bundle.externals.map((specifier, index) => `import * as __ext${index} from ${JSON.stringify(specifier)};`).join('\n');
+  const registry = bundle.externals.map((specifier, index) => `${JSON.stringify(specifier)}: __ext${index}`).join(',\n  ');
+  const factories = Object.values(bundle.modules).map(mod =>
+    `${JSON.stringify(mod.path)}: function (require, module, exports) {\n${mod.code}\n}`
+  ).join(',\n');
+
+  return `${imports}
+const __externals = {
+  ${registry}
+};
+const __factories = {
+${factories}
+};
+const __cache = {};
+const __interop = (namespace) => {
+  const wrapped = Object.assign({ __esModule: true }, namespace);
+  if (!('default' in wrapped)) wrapped.default = namespace;
+  return wrapped;
+};
+function __require(id) {
+  if (id in __externals) return __interop(__externals[id]);
+  if (__cache[id]) return __cache[id].exports;
+  const factory = __factories[id];
+  if (!factory) throw new Error('Cannot find module "' + id + '"');
+  const module = { exports: {} };
+  __cache[id] = module;
+  factory(__require, module, module.exports);
+  return module.exports;
+}
+const entry = __require(${JSON.stringify(bundle.entry)});
+${bundle.mode === 'render' ? `const Component = entry.default || Object.values(entry).find((value) => typeof value === 'function');
+if (!Component) throw new Error(${JSON.stringify(`${bundle.entry} has no component export to render`)});
+__externals['react-dom/client'].createRoot(document.getElementById('root')).render(__externals['react'].createElement(Component));` : ''}`;
+};
+
+/**
+ * Builds a self-contained, sandbox-friendly HTML document that executes the project's module
+ * graph. Compile errors are rendered in place of the app; runtime errors are shown in an overlay
+ * so the last good markup stays visible underneath.
+ */
+export const buildPreviewDocument = (files: FileNode[], activePath?: string | null) => {
+  const bundle = bundleProject(files, activePath);
+  if (!bundle) return '';
+  const importMap = JSON.stringify(buildImportMap(bundle), null, 2);
+  const nonce = createNonce();
+
+  return `<!doctype html>
+<html>
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; script-src 'nonce-${nonce}' ${PREVIEW_CDN} ${TAILWIND_CDN}; connect-src ${PREVIEW_CDN}; style-src 'unsafe-inline' https:; font-src https: data:; img-src data: blob: https:">
+    <script nonce="${nonce}" src="${TAILWIND_CDN}"></script>
+    <style>
+      body { margin: 0; font-family: 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; }
+      .__symbiotic_error { position: fixed; inset: auto 12px 12px 12px; max-height: 60%; overflow: auto; background: rgba(69,10,10,0.95); color: #fecaca; padding: 12px 14px; border-radius: 12px; border: 1px solid rgba(248,113,113,0.5); font: 12px/1.5 ui-monospace, monospace; z-index: 2147483647; }
+      .__symbiotic_error pre { margin: 4px 0 8px; white-space: pre-wrap; word-break: break-word; }
+    </style>
+    <script type="importmap" nonce="${nonce}">${escapeInlineScript(importMap)}</script>
+    <script nonce="${nonce}">
+      window.__symbiotic_css = function (path, css) {
+        var style = document.querySelector('style[data-path="' + path + '"]') || document.createElement('style');
+        style.setAttribute('type', 'text/tailwindcss');
+        style.setAttribute('data-path', path);
+        style.textContent = css;
+        document.head.appendChild(style);
+      };
+      window.__symbiotic_report = function (message) {
+        var overlay = document.querySelector('.__symbiotic_error') || document.createElement('div');
+        overlay.className = '__symbiotic_error';
+        var item = document.createElement('pre');
+        item.textContent = message;
+        overlay.appendChild(item);
+        document.body.appendChild(overlay);
+      };
+      window.addEventListener('error', function (event) { window.__symbiotic_report(String(event.error && event.error.stack || event.message)); });
+      window.addEventListener('unhandledrejection', function (event) { window.__symbiotic_report(String(event.reason && event.reason.stack || event.reason)); });
+    </script>
+  </head>
+  <body>
+    <div id="root"></div>
+    ${bundle.errors.length > 0 ? `<div class="__symbiotic_error"><strong>Build failed</strong>${renderBuildErrors(bundle.errors)}</div>` : ''}
+    <script type="module" nonce="${nonce}">
+${escapeInlineScript(buildRuntime(bundle))}
+    </script>
+  </body>
+</html>`;
+};
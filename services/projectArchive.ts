@@ -0,0 +1,343 @@
+import { Unzipped, strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import { FileNode } from '../types';
+import { bundleModules, bundleProject, isScriptPath, packageNameOf } from './bundler';
+import { globToRegExp } from './projectSearch';
+import { isTestPath } from './testRunner';
+import { basename, dirname, exists, getFile, listFiles, normalizePath, writeFile } from './virtualFs';
+
+/**
+ * Zip and folder import/export of the `FileNode` tree. Exports add whatever a plain Vite app
+ * needs (package.json scripts, index.html, an entry, vite.config.ts) so `npm install && npm run dev`
+ * works on the archive; imports skip dependency/build folders, `.gitignore`d paths and binary files.
+ */
+
+/** A file offered for import; `read` is only called for files that are not skipped by path or size. */
+export interface ImportSource {
+  path: string;
+  size: number;
+  read: () => Promise<Uint8Array>;
+}
+
+export interface SkippedFile {
+  path: string;
+  reason: 'ignored' | 'binary' | 'too-large';
+}
+
+export interface ImportedProject {
+  files: FileNode[];
+  skipped: SkippedFile[];
+}
+
+/** Larger files would not survive in browser storage and are rarely hand-written source. */
+export const MAX_IMPORT_FILE_BYTES = 512 * 1024;
+
+/** Skipped wherever they appear, whether or not the project has a `.gitignore`. */
+const ALWAYS_IGNORED = ['node_modules', '.git', 'dist', 'build', 'coverage', '.next', '.vite', '.cache', '.DS_Store', 'Thumbs.db'];
+/** Regenerated by `npm install` and far too large to keep in the editor. */
+const LOCKFILES = ['package-lock.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lockb'];
+
+const BINARY_EXTENSIONS = new Set([
+  'png', 'jpg', 'jpeg', 'gif', 'webp', 'avif', 'bmp', 'ico', 'woff', 'woff2', 'ttf', 'otf', 'eot',
+  'mp3', 'mp4', 'wav', 'ogg', 'webm', 'pdf', 'zip', 'gz', 'tgz', 'wasm', 'exe', 'dll', 'so',
+]);
+
+const VITE_DEV_DEPENDENCIES: Record<string, string> = {
+  '@vitejs/plugin-react': '^4.3.4',
+  '@types/react': 'latest',
+  '@types/react-dom': 'latest',
+  typescript: '^5.6.3',
+  vite: '^6.0.0',
+};
+const TEST_DEV_DEPENDENCIES: Record<string, string> = { vitest: '^3.0.0', jsdom: '^26.0.0' };
+
+export const projectSlug = (name: string) => name.toLowerCase().replace(/[^a-z0-9._-]+/g, '-').replace(/^-+|-+$/g, '') || 'symbiotic-app';
+
+/**
+ * Whether `path` should be left out of an import. `.gitignore` support covers the common subset:
+ * comments, plain names and globs; negations (`!keep.me`) are ignored.
+ */
+export const createIgnoreFilter = (gitignore = '') => {
+  const patterns = [
+    ...ALWAYS_IGNORED.map(globToRegExp),
+    ...gitignore.split(/\r?\n/)
+      .map(line => line.trim())
+      .filter(line => line && !line.startsWith('#') && !line.startsWith('!'))
+      .map(line => globToRegExp(line.replace(/^\/+|\/+$/g, ''))),
+  ];
+  return (path: string) => LOCKFILES.includes(path) || patterns.some(pattern => pattern.test(path));
+};
+
+/** Folder shared by every path (`repo-main/` in GitHub zips), or `''`. */
+const commonRoot = (paths: string[]) => {
+  const first = paths[0]?.split('/')[0];
+  if (!first || paths.some(path => !path.startsWith(`${first}/`))) return '';
+  return `${first}/`;
+};
+
+/** Decodes UTF-8 text, or returns null for binary content. */
+const decodeText = (path: string, data: Uint8Array) => {
+  const extension = basename(path).split('.').pop()?.toLowerCase() ?? '';
+  if (BINARY_EXTENSIONS.has(extension) || data.subarray(0, 8000).includes(0)) return null;
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(data);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Builds a project from imported files, dropping ignored, oversized and binary ones. `root` is
+ * stripped from every path; by default it is the folder all of them share, if any.
+ */
+export const importSources = async (sources: ImportSource[], root = commonRoot(sources.map(source => source.path))): Promise<ImportedProject> => {
+  const entries = sources
+    .map(source => ({ ...source, path: normalizePath(source.path.slice(root.length)) }))
+    .filter(source => source.path);
+  const gitignore = entries.find(source => source.path === '.gitignore');
+  const isIgnored = createIgnoreFilter(gitignore ? strFromU8(await gitignore.read()) : '');
+
+  const skipped: SkippedFile[] = [];
+  let files: FileNode[] = [];
+  for (const source of entries.sort((a, b) => a.path.localeCompare(b.path))) {
+    if (isIgnored(source.path)) {
+      skipped.push({ path: source.path, reason: 'ignored' });
+      continue;
+    }
+    if (source.size > MAX_IMPORT_FILE_BYTES) {
+      skipped.push({ path: source.path, reason: 'too-large' });
+      continue;
+    }
+    const content = decodeText(source.path, await source.read());
+    if (content === null) skipped.push({ path: source.path, reason: 'binary' });
+    else files = writeFile(files, source.path, content);
+  }
+  return { files, skipped };
+};
+
+/** Reads a zip archive; dependency folders are not even decompressed. */
+export const importZip = (data: Uint8Array) => {
+  const isIgnored = createIgnoreFilter();
+  const skipped: SkippedFile[] = [];
+  let unzipped: Unzipped;
+  try {
+    unzipped = unzipSync(data, {
+      filter: file => {
+        if (file.name.endsWith('/')) return false;
+        const ignored = isIgnored(file.name);
+        if (ignored) skipped.push({ path: file.name, reason: 'ignored' });
+        return !ignored;
+      },
+    });
+  } catch (err) {
+    throw new Error(`Not a valid zip archive (${err instanceof Error ? err.message : String(err)})`);
+  }
+  return importSources(Object.entries(unzipped).map(([path, bytes]) => ({ path, size: bytes.length, read: async () => bytes })))
+    .then(project => ({ ...project, skipped: [...skipped, ...project.skipped] }));
+};
+
+/** The project's package.json, `{}` when there is none, or null when it does not parse. */
+const readManifest = (files: FileNode[]): Record<string, unknown> | null => {
+  try {
+    const manifest = JSON.parse(getFile(files, 'package.json')?.content?.trim() || '{}');
+    return manifest && typeof manifest === 'object' && !Array.isArray(manifest) ? manifest : null;
+  } catch {
+    return null;
+  }
+};
+
+/** The string entries of a package.json map such as `dependencies`; anything else is dropped. */
+const stringMap = (value: unknown): Record<string, string> =>
+  value && typeof value === 'object' && !Array.isArray(value)
+    ? Object.fromEntries(Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === 'string'))
+    : {};
+
+/** Bare imports of the given scripts, as package names (`react-dom/client` -> `react-dom`). */
+const packagesImportedBy = (files: FileNode[], paths: string[]) =>
+  [...new Set(bundleModules(files, paths).externals.map(packageNameOf))].filter(name => !name.startsWith('node:'));
+
+/**
+ * The tree as it is exported: the project's own files plus whatever is missing for Vite to
+ * run it. Existing files are never replaced; package.json only gains entries it lacks.
+ */
+export const withViteScaffold = (files: FileNode[], projectName: string) => {
+  let next = files;
+  const scripts = listFiles(files).map(entry => entry.path).filter(isScriptPath);
+  const tests = scripts.filter(isTestPath);
+  const sources = scripts.filter(path => !isTestPath(path));
+
+  // The preview renders the default export of App.tsx when there is no main.tsx; do the same.
+  const bundle = bundleProject(files);
+  let entry = bundle?.entry ?? null;
+  if (bundle?.mode === 'render') {
+    const folder = dirname(bundle.entry);
+    const main = folder ? `${folder}/main.tsx` : 'main.tsx';
+    const component = `./${basename(bundle.entry).replace(/\.[jt]sx?$/, '')}`;
+    if (!exists(next, main)) next = writeFile(next, main, `import React from 'react';
+import { createRoot } from 'react-dom/client';
+import App from '${component}';
+
+createRoot(document.getElementById('root')!).render(
+  <React.StrictMode>
+    <App />
+  </React.StrictMode>
+);
+`);
+    entry = main;
+  }
+
+  if (!exists(next, 'index.html')) {
+    next = writeFile(next, 'index.html', `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${projectName}</title>
+    <!-- Tailwind's Play CDN, as in the Symbiotic preview. -->
+    <script src="https://cdn.tailwindcss.com"></script>
+  </head>
+  <body>
+    <div id="root"></div>
+    ${entry ? `<script type="module" src="/${entry}"></script>` : ''}
+  </body>
+</html>
+`);
+  }
+
+  if (!listFiles(next).some(({ path }) => /^vite\.config\.[cm]?[jt]s$/.test(path))) {
+    next = writeFile(next, 'vite.config.ts', `${tests.length > 0 ? '/// <reference types="vitest" />\n' : ''}import { fileURLToPath, URL } from 'node:url';
+import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+
+export default defineConfig({
+  plugins: [react()],
+  resolve: {
+    alias: { '@': fileURLToPath(new URL('./${exists(next, 'src') ? 'src' : ''}', import.meta.url)) },
+  },${tests.length > 0 ? `
+  test: { environment: 'jsdom' },` : ''}
+});
+`);
+  }
+
+  if (!exists(next, '.gitignore')) next = writeFile(next, '.gitignore', 'node_modules\ndist\n');
+
+  // A package.json that does not parse is exported untouched rather than silently replaced.
+  const manifest = readManifest(files);
+  if (!manifest) return next;
+  const declaredDependencies = stringMap(manifest.dependencies);
+  const declaredDevDependencies = stringMap(manifest.devDependencies);
+  const declared = { ...declaredDevDependencies, ...declaredDependencies };
+  const versionOf = (name: string) => declared[name] ?? 'latest';
+  const runtime = new Set(['react', 'react-dom', ...packagesImportedBy(next, sources.concat(entry && !sources.includes(entry) ? [entry] : []))]);
+  const testOnly = packagesImportedBy(next, tests).filter(name => !runtime.has(name));
+
+  const devDependencies = { ...VITE_DEV_DEPENDENCIES, ...(tests.length > 0 ? TEST_DEV_DEPENDENCIES : {}) };
+  testOnly.forEach(name => { devDependencies[name] = declared[name] ?? devDependencies[name] ?? 'latest'; });
+  const merged = {
+    name: projectSlug(projectName),
+    version: '0.0.0',
+    private: true,
+    ...manifest,
+    type: manifest.type ?? 'module',
+    scripts: {
+      dev: 'vite',
+      build: 'vite build',
+      preview: 'vite preview',
+      ...(tests.length > 0 ? { test: 'vitest run' } : {}),
+      ...stringMap(manifest.scripts),
+    },
+    dependencies: {
+      ...Object.fromEntries([...runtime].map(name => [name, versionOf(name)])),
+      ...declaredDependencies,
+    },
+    devDependencies: { ...devDependencies, ...declaredDevDependencies },
+  };
+  return writeFile(next, 'package.json', `${JSON.stringify(merged, null, 2)}\n`);
+};
+
+/** Zips the runnable project under a top-level folder named after it. */
+export const exportProjectZip = (files: FileNode[], projectName: string) => {
+  const folder = projectSlug(projectName);
+  const entries = listFiles(withViteScaffold(files, projectName))
+    .map(({ path, node }) => [`${folder}/${path}`, strToU8(node.content ?? '')] as const);
+  return zipSync(Object.fromEntries(entries), { level: 6 });
+};
+
+/** Starts a browser download of `data`. */
+export const downloadFile = (data: Uint8Array, fileName: string, type = 'application/zip') => {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+/** Minimal File System Access API surface; not every browser (or TS lib) has it. */
+interface DirectoryHandle {
+  kind: 'directory';
+  name: string;
+  values: () => AsyncIterable<DirectoryHandle | { kind: 'file'; name: string; getFile: () => Promise<File> }>;
+}
+
+const fileSource = (path: string, file: File): ImportSource => ({
+  path,
+  size: file.size,
+  read: async () => new Uint8Array(await file.arrayBuffer()),
+});
+
+/** Walks a picked directory; ignored folders such as node_modules are skipped without listing them. */
+const walkDirectory = async (handle: DirectoryHandle, prefix: string, isIgnored: (path: string) => boolean, out: ImportSource[], skipped: SkippedFile[]) => {
+  for await (const child of handle.values()) {
+    const path = prefix ? `${prefix}/${child.name}` : child.name;
+    if (isIgnored(path)) skipped.push({ path, reason: 'ignored' });
+    else if (child.kind === 'directory') await walkDirectory(child, path, isIgnored, out, skipped);
+    else out.push(fileSource(path, await child.getFile()));
+  }
+};
+
+/** Opens a hidden file input and resolves with the chosen files (empty when cancelled). */
+const chooseFiles = (configure: (input: HTMLInputElement) => void) => new Promise<File[]>(resolve => {
+  const input = document.createElement('input');
+  input.type = 'file';
+  configure(input);
+  input.addEventListener('change', () => resolve(Array.from(input.files ?? [])));
+  input.addEventListener('cancel', () => resolve([]));
+  input.click();
+});
+
+/** Asks for a .zip and imports it; resolves with null when the user cancels. */
+export const pickZipProject = async (): Promise<(ImportedProject & { name: string }) | null> => {
+  const [file] = await chooseFiles(input => { input.accept = '.zip,application/zip'; });
+  if (!file) return null;
+  const project = await importZip(new Uint8Array(await file.arrayBuffer()));
+  return { ...project, name: file.name.replace(/\.zip$/i, '') };
+};
+
+/**
+ * Asks for a local folder and imports it. Uses the File System Access API where available and a
+ * directory input elsewhere; resolves with null when the user cancels.
+ */
+export const pickFolderProject = async (): Promise<(ImportedProject & { name: string }) | null> => {
+  const picker = (window as unknown as { showDirectoryPicker?: () => Promise<DirectoryHandle> }).showDirectoryPicker;
+  if (picker) {
+    let handle: DirectoryHandle;
+    try {
+      handle = await picker();
+    } catch (err) {
+      if (err instanceof DOMException && err.name === 'AbortError') return null;
+      throw err;
+    }
+    const sources: ImportSource[] = [];
+    const skipped: SkippedFile[] = [];
+    // Only the built-in rules apply while walking; the project's .gitignore is applied afterwards.
+    await walkDirectory(handle, '', createIgnoreFilter(), sources, skipped);
+    const project = await importSources(sources, '');
+    return { ...project, skipped: [...skipped, ...project.skipped], name: handle.name };
+  }
+
+  const files = await chooseFiles(input => { input.webkitdirectory = true; });
+  if (files.length === 0) return null;
+  // Paths start with the chosen folder's name, which `importSources` strips as the common root.
+  const project = await importSources(files.map(file => fileSource(file.webkitRelativePath || file.name, file)));
+  return { ...project, name: (files[0].webkitRelativePath || files[0].name).split('/')[0] };
+};
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { FileNode } from '../types';
+import { EMPTY_SEARCH, SearchOptions, globToRegExp, replaceInProject, searchProject, selectFiles, splitGlobs } from './projectSearch';
+import { readFile, writeFile } from './virtualFs';
+
+const FILES: FileNode[] = [
+  ['src/App.tsx', 'const count = 1;\nconst total = count + 1;\n'],
+  ['src/components/Counter.tsx', 'export const Counter = () => count;'],
+  ['src/components/Counter.test.tsx', 'it("counts", () => {});'],
+  ['README.md', 'Counts things.'],
+  ['node_modules/react/index.js', 'count'],
+].reduce<FileNode[]>((nodes, [path, content]) => writeFile(nodes, path, content), []);
+
+const search = (options: Partial<SearchOptions>) => searchProject(FILES, { ...EMPTY_SEARCH, ...options });
+const replace = (options: Partial<SearchOptions>, replacement: string) => replaceInProject(FILES, { ...EMPTY_SEARCH, ...options }, replacement);
+
+const matches = (glob: string, path: string) => globToRegExp(glob).test(path);
+
+describe('globToRegExp', () => {
+  it('keeps * within a folder and lets ** cross folders', () => {
+    expect(matches('src/*.tsx', 'src/App.tsx')).toBe(true);
+    expect(matches('src/*.tsx', 'src/components/Counter.tsx')).toBe(false);
+    expect(matches('src/**/*.tsx', 'src/components/Counter.tsx')).toBe(true);
+    expect(matches('src/**', 'src/components/Counter.tsx')).toBe(true);
+  });
+
+  it('lets **/ match no folder at all', () => {
+    expect(matches('src/**/App.tsx', 'src/App.tsx')).toBe(true);
+    expect(matches('**/App.tsx', 'App.tsx')).toBe(true);
+  });
+
+  it('matches a bare name at any depth, and everything inside a matching folder', () => {
+    expect(matches('*.test.tsx', 'src/components/Counter.test.tsx')).toBe(true);
+    expect(matches('node_modules', 'node_modules/react/index.js')).toBe(true);
+    expect(matches('components', 'src/components/Counter.tsx')).toBe(true);
+    expect(matches('Counter', 'src/components/Counter.tsx')).toBe(false);
+  });
+
+  it('anchors globs with a folder at the project root', () => {
+    expect(matches('components/*.tsx', 'src/components/Counter.tsx')).toBe(false);
+  });
+
+  it('supports ? and brace lists', () => {
+    expect(matches('src/App.?sx', 'src/App.tsx')).toBe(true);
+    expect(matches('*.{ts,tsx}', 'src/App.tsx')).toBe(true);
+    expect(matches('*.{ts,tsx}', 'README.md')).toBe(false);
+  });
+
+  it('treats regex characters literally', () => {
+    expect(matches('a+b.ts', 'a+b.ts')).toBe(true);
+    expect(matches('a+b.ts', 'aab.ts')).toBe(false);
+  });
+});
+
+describe('splitGlobs', () => {
+  it('splits on commas outside brace lists and drops empty entries and leading ./', () => {
+    const globs = splitGlobs(' *.{ts,tsx}, ./docs/** ,,README.md');
+    expect(globs.map(glob => glob.source)).toEqual([
+      globToRegExp('*.{ts,tsx}').source,
+      globToRegExp('docs/**').source,
+      globToRegExp('README.md').source,
+    ]);
+  });
+
+  it('returns nothing for an empty list', () => {
+    expect(splitGlobs('')).toEqual([]);
+  });
+});
+
+describe('selectFiles', () => {
+  it('applies include and exclude globs together', () => {
+    const paths = selectFiles(FILES, { include: 'src/**/*.tsx', exclude: '*.test.tsx' }).map(entry => entry.path);
+    expect(paths).toEqual(['src/App.tsx', 'src/components/Counter.tsx']);
+  });
+});
+
+describe('searchProject', () => {
+  it('reports the line and column of every match', () => {
+    const results = search({ query: 'count', caseSensitive: true, include: 'src' });
+    expect(results.total).toBe(4);
+    expect(results.files[0].matches.map(({ line, column, before, match, after }) => ({ line, column, before, match, after }))).toEqual([
+      { line: 1, column: 7, before: 'const ', match: 'count', after: ' = 1;' },
+      { line: 2, column: 15, before: 'const total = ', match: 'count', after: ' + 1;' },
+    ]);
+  });
+
+  it('matches whole words only when asked', () => {
+    expect(search({ query: 'count' }).total).toBe(7);
+    expect(search({ query: 'count', wholeWord: true }).total).toBe(4);
+  });
+
+  it('stops at the match limit', () => {
+    const results = searchProject(FILES, { ...EMPTY_SEARCH, query: 'count' }, 2);
+    expect(results.total).toBe(2);
+    expect(results.truncated).toBe(true);
+  });
+
+  it('throws on an invalid regex', () => {
+    expect(() => search({ query: '(', regex: true })).toThrow();
+  });
+});
+
+describe('replaceInProject', () => {
+  it('replaces literally unless regex is on', () => {
+    const literal = replace({ query: 'count', caseSensitive: true, wholeWord: true }, '$&s');
+    expect(readFile(literal.files, 'src/App.tsx')).toBe('const $&s = 1;\nconst total = $&s + 1;\n');
+
+    const pattern = replace({ query: '(\\w+) = (\\d)', regex: true, include: 'src/App.tsx' }, '$2 = $1 ($&, $$)');
+    expect(readFile(pattern.files, 'src/App.tsx')).toBe('const 1 = count (count = 1, $);\nconst total = count + 1;\n');
+  });
+
+  it('expands named groups and the text around the match', () => {
+    const result = replace({ query: '(?<name>Counts) (?=things)', regex: true }, "[$<name>|$`|$']");
+    expect(readFile(result.files, 'README.md')).toBe('[Counts||things.]things.');
+  });
+
+  it('returns one edit per changed file and leaves excluded files alone', () => {
+    const result = replace({ query: 'count', exclude: 'node_modules' }, 'n');
+    expect(result.edits.map(edit => edit.path)).toEqual(['src/App.tsx', 'src/components/Counter.tsx', 'src/components/Counter.test.tsx', 'README.md']);
+    expect(readFile(result.files, 'node_modules/react/index.js')).toBe('count');
+    expect(result.edits[0]).toEqual({ path: 'src/App.tsx', before: 'const count = 1;\nconst total = count + 1;\n', after: 'const n = 1;\nconst total = n + 1;\n' });
+  });
+
+  it('skips zero-length matches, like the search does', () => {
+    for (const query of ['^', '\\b', 'z*', '(?=count)']) {
+      expect(search({ query, regex: true }).total).toBe(0);
+      expect(replace({ query, regex: true }, '!').edits).toEqual([]);
+    }
+  });
+
+  it('replaces exactly the matches the search lists when a pattern can also match nothing', () => {
+    const options = { query: 'o*', regex: true, include: 'README.md' };
+    expect(search(options).files[0].matches.map(match => match.from)).toEqual([1]);
+    expect(readFile(replace(options, '_').files, 'README.md')).toBe('C_unts things.');
+  });
+
+  it('does nothing for an empty query', () => {
+    expect(replace({ query: '' }, 'x')).toEqual({ files: FILES, edits: [] });
+  });
+});
@@ -0,0 +1,204 @@
+import { FileNode } from '../types';
+import { FileEdit } from './editHistory';
+import { listFiles, writeFile } from './virtualFs';
+
+/**
+ * Project-wide search and replace over the `FileNode` tree. Pure like `virtualFs`: replacing
+ * returns a new tree plus the per-file edits, which the app records as one undoable step.
+ */
+
+export interface SearchOptions {
+  query: string;
+  regex: boolean;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  /** Comma-separated globs; empty includes every file. */
+  include: string;
+  exclude: string;
+}
+
+export interface SearchMatch {
+  /** Offsets into the file's content. */
+  from: number;
+  to: number;
+  line: number;
+  column: number;
+  /** The matched line, split around the match (long lines are clipped). */
+  before: string;
+  match: string;
+  after: string;
+}
+
+export interface FileSearchResult {
+  path: string;
+  matches: SearchMatch[];
+}
+
+export interface SearchResults {
+  files: FileSearchResult[];
+  total: number;
+  /** Set when the search stopped at `maxMatches`. */
+  truncated: boolean;
+}
+
+export const EMPTY_SEARCH: SearchOptions = { query: '', regex: false, caseSensitive: false, wholeWord: false, include: '', exclude: '' };
+
+const DEFAULT_MAX_MATCHES = 2000;
+const PREVIEW_CONTEXT = 40;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Throws (with the engine's message) when a regex query is invalid. */
+export const buildMatcher = ({ query, regex, caseSensitive, wholeWord }: SearchOptions) => {
+  const source = regex ? query : escapeRegExp(query);
+  return new RegExp(wholeWord ? `\\b(?:${source})\\b` : source, `g${caseSensitive ? '' : 'i'}m`);
+};
+
+/**
+ * `*` stays within a folder, `**` crosses folders, `?` is one character and `{a,b}` is either.
+ * A glob without a `/` matches a file or folder name at any depth (`*.test.tsx`, `node_modules`).
+ */
+export const globToRegExp = (glob: string) => {
+  let pattern = '';
+  for (let index = 0; index < glob.length; index++) {
+    const char = glob[index];
+    if (char === '*' && glob[index + 1] === '*') {
+      pattern += glob[index + 2] === '/' ? '(?:.*/)?' : '.*';
+      index += glob[index + 2] === '/' ? 2 : 1;
+    } else if (char === '*') pattern += '[^/]*';
+    else if (char === '?') pattern += '[^/]';
+    else if (char === '{') pattern += '(?:';
+    else if (char === '}') pattern += ')';
+    else if (char === ',') pattern += '|';
+    else pattern += escapeRegExp(char);
+  }
+  const anchored = glob.includes('/') ? `^${pattern}` : `(?:^|/)${pattern}`;
+  return new RegExp(`${anchored}(?:/.*)?$`);
+};
+
+/** Splits a comma-separated glob list, keeping commas inside `{...}` with their glob. */
+export const splitGlobs = (list: string) => {
+  const globs: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of list) {
+    if (char === ',' && depth === 0) {
+      globs.push(current);
+      current = '';
+      continue;
+    }
+    if (char === '{') depth++;
+    if (char === '}') depth = Math.max(0, depth - 1);
+    current += char;
+  }
+  return [...globs, current].map(glob => glob.trim().replace(/^\.?\//, '')).filter(Boolean).map(globToRegExp);
+};
+
+/** Files the options' include/exclude globs select. */
+export const selectFiles = (files: FileNode[], { include, exclude }: Pick<SearchOptions, 'include' | 'exclude'>) => {
+  const included = splitGlobs(include);
+  const excluded = splitGlobs(exclude);
+  return listFiles(files).filter(({ path }) =>
+    (included.length === 0 || included.some(glob => glob.test(path))) && !excluded.some(glob => glob.test(path)));
+};
+
+const preview = (content: string, from: number, to: number) => {
+  const lineStart = content.lastIndexOf('\n', from - 1) + 1;
+  const lineEnd = content.indexOf('\n', from);
+  const end = lineEnd === -1 ? content.length : lineEnd;
+  const before = content.slice(lineStart, from);
+  return {
+    before: before.length > PREVIEW_CONTEXT ? `…${before.slice(-PREVIEW_CONTEXT)}` : before,
+    match: content.slice(from, Math.min(to, end)),
+    after: content.slice(Math.min(to, end), end).slice(0, 200),
+  };
+};
+
+/**
+ * Every non-empty match of a global `matcher` in `content`. Search and replace both go through
+ * here, so replace-all rewrites exactly the matches the search listed.
+ */
+const findMatches = function* (matcher: RegExp, content: string) {
+  matcher.lastIndex = 0;
+  for (let found = matcher.exec(content); found; found = matcher.exec(content)) {
+    // Empty matches (`^`, `\b`, `x*`) would never advance, and there is nothing to show or replace.
+    if (found[0].length === 0) {
+      matcher.lastIndex++;
+      continue;
+    }
+    yield found;
+  }
+};
+
+/** Expands `$$`, `$&`, `` $` ``, `$'`, `$1`...`$99` and `$<name>` like `String.prototype.replace`. */
+const expandReplacement = (replacement: string, found: RegExpExecArray, content: string) =>
+  replacement.replace(/\$(\$|&|`|'|\d{1,2}|<([^>]*)>)/g, (token, key: string, name: string | undefined) => {
+    if (key === '$') return '$';
+    if (key === '&') return found[0];
+    if (key === '`') return content.slice(0, found.index);
+    if (key === "'") return content.slice(found.index + found[0].length);
+    if (name !== undefined) return found.groups ? found.groups[name] ?? '' : token;
+    const group = Number(key);
+    if (group > 0 && group < found.length) return found[group] ?? '';
+    // `$12` with fewer than 12 groups is `$1` followed by a literal `2`.
+    const single = Number(key[0]);
+    if (key.length === 2 && single > 0 && single < found.length) return `${found[single] ?? ''}${key[1]}`;
+    return token;
+  });
+
+/** Throws when the query is an invalid regex; an empty query finds nothing. */
+export const searchProject = (files: FileNode[], options: SearchOptions, maxMatches = DEFAULT_MAX_MATCHES): SearchResults => {
+  const results: SearchResults = { files: [], total: 0, truncated: false };
+  if (!options.query) return results;
+  const matcher = buildMatcher(options);
+  for (const { path, node } of selectFiles(files, options)) {
+    const content = node.content ?? '';
+    const matches: SearchMatch[] = [];
+    let line = 1;
+    let lineStart = 0;
+    let scanned = 0;
+    for (const found of findMatches(matcher, content)) {
+      if (results.total === maxMatches) {
+        results.truncated = true;
+        break;
+      }
+      for (; scanned < found.index; scanned++) {
+        if (content[scanned] === '\n') {
+          line++;
+          lineStart = scanned + 1;
+        }
+      }
+      const from = found.index;
+      const to = from + found[0].length;
+      matches.push({ from, to, line, column: from - lineStart + 1, ...preview(content, from, to) });
+      results.total++;
+    }
+    if (matches.length > 0) results.files.push({ path, matches });
+    if (results.truncated) break;
+  }
+  return results;
+};
+
+/**
+ * Replaces every match the search finds in the selected files. With `regex`, the replacement may
+ * use `$1`/`$&` like `String.prototype.replace`; otherwise it is inserted literally.
+ */
+export const replaceInProject = (files: FileNode[], options: SearchOptions, replacement: string) => {
+  const edits: FileEdit[] = [];
+  if (!options.query) return { files, edits };
+  const matcher = buildMatcher(options);
+  const next = selectFiles(files, options).reduce((tree, { path, node }) => {
+    const before = node.content ?? '';
+    let after = '';
+    let copied = 0;
+    for (const found of findMatches(matcher, before)) {
+      after += before.slice(copied, found.index) + (options.regex ? expandReplacement(replacement, found, before) : replacement);
+      copied = found.index + found[0].length;
+    }
+    after += before.slice(copied);
+    if (after === before) return tree;
+    edits.push({ path, before, after });
+    return writeFile(tree, path, after);
+  }, files);
+  return { files: next, edits };
+};
@@ -0,0 +1,200 @@
+import { INITIAL_FILES } from '../constants';
+import { TEMPLATES } from '../templates';
+import { FileNode, ProjectMeta } from '../types';
+import { ProjectItem, StoredProject, copyProject, deleteStoredProject, importProjects, listProjects, putProject, readMeta } from './storage';
+import { isValidName, writeFile } from './virtualFs';
+
+/**
+ * Named projects, persisted in IndexedDB by `storage`. Settings that belong to the user (theme,
+ * pipelines, provider) stay in localStorage, as does the id of the last opened project.
+ */
+
+export type ProjectTemplate = keyof typeof TEMPLATES | 'blank';
+
+const ACTIVE_PROJECT_KEY = 'symbiotic_active_project';
+const MIGRATED_KEY = 'migratedFromLocalStorage';
+/** Project list of the localStorage layout; each project's data lived under `symbiotic_project_<id>_<item>`. */
+const LEGACY_PROJECTS_KEY = 'symbiotic_projects';
+/** Before projects existed, one project's data lived under `symbiotic_<item>`. */
+const LEGACY_ITEMS: ('files' | ProjectItem)[] = ['files', 'app_state', 'preview_doc', 'preview_time', 'editor_layout'];
+
+export const PROJECT_TEMPLATES: { key: ProjectTemplate; label: string }[] = [
+  { key: 'blank', label: 'Blank project' },
+  { key: 'kanban', label: 'Kanban board' },
+  { key: 'todo', label: 'Todo list' },
+  { key: 'calculator', label: 'Calculator' },
+  { key: 'login', label: 'Login form' },
+];
+
+const randomId = () => Math.random().toString(36).slice(2, 11);
+
+const isProjectMeta = (value: unknown): value is ProjectMeta =>
+  !!value && typeof value === 'object' && typeof (value as ProjectMeta).id === 'string' && typeof (value as ProjectMeta).name === 'string';
+
+const newMeta = (projects: ProjectMeta[], name: string): ProjectMeta => {
+  const now = Date.now();
+  return { id: randomId(), name: uniqueProjectName(projects, name), createdAt: now, updatedAt: now };
+};
+
+/**
+ * Parses a `FileNode[]` saved as JSON, keeping every well-formed node. Data that does not parse
+ * at all is kept verbatim in `recovered/files.json.txt` next to the starter files.
+ */
+const salvageTree = (raw: string | null, recovered: string[], label: string): FileNode[] => {
+  if (raw === null) return INITIAL_FILES;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    recovered.push(`${label}: the saved files could not be parsed; the raw data is in recovered/files.json.txt`);
+    return writeFile(INITIAL_FILES, 'recovered/files.json.txt', raw);
+  }
+  const clean = (nodes: unknown, parent: string): FileNode[] => (Array.isArray(nodes) ? nodes : []).flatMap(node => {
+    const name = node && typeof node === 'object' ? (node as FileNode).name : undefined;
+    const path = parent ? `${parent}/${name}` : String(name);
+    if (typeof name !== 'string' || !isValidName(name)) {
+      recovered.push(`${label}: skipped an unreadable entry in ${parent || 'the project root'}`);
+      return [];
+    }
+    const { children, ...rest } = node as FileNode;
+    if (rest.type === 'folder') return [{ ...rest, children: clean(children, path) }];
+    if (rest.type === 'file' && (rest.content === undefined || typeof rest.content === 'string')) return [rest];
+    recovered.push(`${label}: skipped ${path}`);
+    return [];
+  });
+  if (!Array.isArray(parsed)) {
+    recovered.push(`${label}: the saved files were not a file list; the raw data is in recovered/files.json.txt`);
+    return writeFile(INITIAL_FILES, 'recovered/files.json.txt', raw);
+  }
+  return clean(parsed, '');
+};
+
+const readLegacyProject = (meta: ProjectMeta, read: (item: string) => string | null, recovered: string[]): StoredProject => ({
+  meta,
+  files: salvageTree(read('files'), recovered, meta.name),
+  items: Object.fromEntries(LEGACY_ITEMS.filter(item => item !== 'files').flatMap(item => {
+    const value = read(item);
+    return value === null ? [] : [[item, value]];
+  })),
+});
+
+/**
+ * Moves projects saved by earlier versions from localStorage into IndexedDB, once. The copy is
+ * written in a single transaction and the localStorage keys are only removed after it commits.
+ */
+const migrateLocalStorage = async () => {
+  const recovered: string[] = [];
+  if (await readMeta<boolean>(MIGRATED_KEY)) return recovered;
+
+  let metas: ProjectMeta[] = [];
+  try {
+    const list: unknown = JSON.parse(localStorage.getItem(LEGACY_PROJECTS_KEY) || '[]');
+    metas = Array.isArray(list) ? list.filter(isProjectMeta) : [];
+  } catch {
+    recovered.push('The saved project list could not be parsed; projects whose data remains are listed by id.');
+    const ids = new Set(Object.keys(localStorage).flatMap(key => key.match(/^symbiotic_project_(\w+)_files$/)?.slice(1) ?? []));
+    metas = [...ids].map(id => ({ id, name: `Recovered ${id}`, createdAt: Date.now(), updatedAt: Date.now() }));
+  }
+  const projects = metas.map(meta => readLegacyProject(meta, item => localStorage.getItem(`symbiotic_project_${meta.id}_${item}`), recovered));
+  if (localStorage.getItem('symbiotic_files') !== null) {
+    projects.push(readLegacyProject(newMeta(metas, 'My Project'), item => localStorage.getItem(`symbiotic_${item}`), recovered));
+  }
+
+  await importProjects(projects, { [MIGRATED_KEY]: true });
+  metas.forEach(meta => LEGACY_ITEMS.forEach(item => localStorage.removeItem(`symbiotic_project_${meta.id}_${item}`)));
+  LEGACY_ITEMS.forEach(item => localStorage.removeItem(`symbiotic_${item}`));
+  localStorage.removeItem(LEGACY_PROJECTS_KEY);
+  return recovered;
+};
+
+/**
+ * The saved projects (never empty) and notes about data that had to be recovered while
+ * migrating from localStorage.
+ */
+export const loadProjects = async () => {
+  const recovered = await migrateLocalStorage();
+  const projects = (await listProjects()).filter(isProjectMeta);
+  if (projects.length > 0) return { projects, recovered };
+  const created = await createProject([], 'My Project', INITIAL_FILES);
+  return { projects: created.projects, recovered };
+};
+
+export const loadActiveProjectId = (projects: ProjectMeta[]) => {
+  const saved = localStorage.getItem(ACTIVE_PROJECT_KEY);
+  return projects.some(project => project.id === saved) ? saved as string : projects[0].id;
+};
+
+export const saveActiveProjectId = (id: string) => {
+  localStorage.setItem(ACTIVE_PROJECT_KEY, id);
+};
+
+/** `name`, or `name 2`, `name 3`... when another project already uses it. */
+export const uniqueProjectName = (projects: ProjectMeta[], name: string) => {
+  const base = name.trim() || 'Untitled';
+  const taken = new Set(projects.map(project => project.name));
+  if (!taken.has(base)) return base;
+  let index = 2;
+  while (taken.has(`${base} ${index}`)) index++;
+  return `${base} ${index}`;
+};
+
+/** The starter tree: a blank app, or one whose `App.tsx` renders a built-in template. */
+export const templateFiles = (template: ProjectTemplate): FileNode[] => {
+  if (template === 'blank') return INITIAL_FILES;
+  const { filename, content } = TEMPLATES[template];
+  const component = filename.replace(/\.tsx$/, '');
+  return writeFile(writeFile(INITIAL_FILES, `src/${filename}`, content), 'src/App.tsx', `import React from "react";
+import ${component} from "./${component}";
+
+export default function App() {
+  return <${component} />;
+}
+`);
+};
+
+/** Adds a project holding `files`; resolves with the new list and the project once it is stored. */
+export const createProject = async (projects: ProjectMeta[], name: string, files: FileNode[]) => {
+  const project = newMeta(projects, name);
+  await importProjects([{ meta: project, files, items: {} }]);
+  return { projects: [...projects, project], project };
+};
+
+/** An error to show for `name`, or null when project `id` may be renamed to it. */
+export const validateProjectName = (projects: ProjectMeta[], id: string, name: string) => {
+  const trimmed = name.trim();
+  if (!trimmed) return 'Project name cannot be empty';
+  if (projects.some(project => project.id !== id && project.name === trimmed)) return `A project named "${trimmed}" already exists`;
+  return null;
+};
+
+export const renameProject = async (projects: ProjectMeta[], id: string, name: string) => {
+  const error = validateProjectName(projects, id, name);
+  if (error) throw new Error(error);
+  const next = projects.map(project => project.id === id ? { ...project, name: name.trim(), updatedAt: Date.now() } : project);
+  const renamed = next.find(project => project.id === id);
+  if (renamed) await putProject(renamed);
+  return next;
+};
+
+/** Copies project `id` with its files and saved state into a new project named "<name> copy". */
+export const duplicateProject = async (projects: ProjectMeta[], id: string) => {
+  const source = projects.find(project => project.id === id);
+  if (!source) throw new Error('Project not found');
+  const project = newMeta(projects, `${source.name} copy`);
+  await copyProject(id, project);
+  return { projects: [...projects, project], project };
+};
+
+export const deleteProject = async (projects: ProjectMeta[], id: string) => {
+  if (projects.length <= 1) throw new Error('The last project cannot be deleted');
+  await deleteStoredProject(id);
+  return projects.filter(project => project.id !== id);
+};
+
+/** Bumps `updatedAt` after a save; the switcher lists recently edited projects first. */
+export const touchProject = async (projects: ProjectMeta[], id: string) => {
+  const next = projects.map(project => project.id === id ? { ...project, updatedAt: Date.now() } : project);
+  const touched = next.find(project => project.id === id);
+  if (touched) await putProject(touched);
+  return next;
+};
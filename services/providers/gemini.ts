@@ -0,0 +1,73 @@
+import { GenerateContentParameters, GenerateContentResponse, GoogleGenAI } from '@google/genai';
+import { LlmProvider, LlmRequest, LlmResponse, ModelUsage } from './types';
+
+const DEFAULT_MODELS = {
+  fast: 'gemini-3-flash-preview',
+  reasoning: 'gemini-3-pro-preview',
+};
+
+const toContents = (request: LlmRequest): GenerateContentParameters['contents'] => {
+  if (!request.image) return request.prompt;
+  const [header, data] = request.image.split(',');
+  const mimeType = header.match(/data:(.*?);/)?.[1] || 'image/png';
+  return [{ role: 'user', parts: [{ text: request.prompt }, { inlineData: { mimeType, data: data ?? header } }] }];
+};
+
+const extractGrounding = (response: GenerateContentResponse) =>
+  response.candidates?.[0]?.groundingMetadata?.groundingChunks?.map(chunk => ({
+    title: chunk.web?.title || 'Source',
+    uri: chunk.web?.uri || '#',
+  })) || [];
+
+// Streamed chunks report the call's totals so far; only some chunks carry them.
+const extractUsage = (response: GenerateContentResponse, model: string): ModelUsage | undefined => {
+  const metadata = response.usageMetadata;
+  if (!metadata) return undefined;
+  return {
+    model,
+    inputTokens: metadata.promptTokenCount ?? 0,
+    outputTokens: metadata.candidatesTokenCount ?? 0,
+    thinkingTokens: metadata.thoughtsTokenCount ?? 0,
+  };
+};
+
+export const createGeminiProvider = (options: { apiKey: string; fastModel?: string; reasoningModel?: string }): LlmProvider => {
+  const ai = new GoogleGenAI({ apiKey: options.apiKey });
+  const models = {
+    fast: options.fastModel || DEFAULT_MODELS.fast,
+    reasoning: options.reasoningModel || DEFAULT_MODELS.reasoning,
+  };
+
+  const modelFor = (request: LlmRequest) => request.model || models[request.tier];
+
+  const toParameters = (request: LlmRequest): GenerateContentParameters => ({
+    model: modelFor(request),
+    contents: toContents(request),
+    config: {
+      systemInstruction: request.systemInstruction,
+      responseMimeType: request.json ? 'application/json' : undefined,
+      responseJsonSchema: request.json ? request.responseSchema?.schema : undefined,
+      thinkingConfig: request.thinkingBudget ? { thinkingBudget: request.thinkingBudget } : undefined,
+      // Search grounding cannot be combined with JSON mode, so JSON stages run ungrounded.
+      tools: request.tools?.search && !request.json ? [{ googleSearch: {} }] : undefined,
+      abortSignal: request.signal,
+    },
+  });
+
+  return {
+    kind: 'gemini',
+    label: 'Google Gemini',
+    generate: async (request): Promise<LlmResponse> => {
+      const response = await ai.models.generateContent(toParameters(request));
+      const groundingUrls = extractGrounding(response);
+      return { text: response.text || '', groundingUrls: groundingUrls.length > 0 ? groundingUrls : undefined, usage: extractUsage(response, modelFor(request)) };
+    },
+    stream: async function* (request) {
+      const stream = await ai.models.generateContentStream(toParameters(request));
+      for await (const chunk of stream) {
+        const groundingUrls = extractGrounding(chunk);
+        yield { text: chunk.text || '', groundingUrls: groundingUrls.length > 0 ? groundingUrls : undefined, usage: extractUsage(chunk, modelFor(request)) };
+      }
+    },
+  };
+};
@@ -0,0 +1,191 @@
+import { LlmProvider, LlmRequest, LlmResponse, ModelUsage } from './types';
+
+export interface RecordedResponse {
+  stage: string;
+  prompt: string;
+  text: string;
+  recordedAt: number;
+}
+
+const RECORDINGS_KEY = 'symbiotic_llm_recordings';
+const MAX_RECORDINGS = 200;
+const STREAM_CHUNK_SIZE = 48;
+
+const COUNTER_COMPONENT = `import React, { useState } from 'react';
+import { Minus, Plus } from 'lucide-react';
+
+export default function Counter() {
+  const [count, setCount] = useState(0);
+  return (
+    <div className="flex items-center gap-4 p-6 rounded-2xl bg-slate-900 text-white shadow-xl">
+      <button aria-label="Decrement" onClick={() => setCount(c => c - 1)} className="p-2 rounded-lg bg-slate-800 hover:bg-slate-700"><Minus className="w-4 h-4" /></button>
+      <span className="text-3xl font-bold tabular-nums w-16 text-center">{count}</span>
+      <button aria-label="Increment" onClick={() => setCount(c => c + 1)} className="p-2 rounded-lg bg-indigo-600 hover:bg-indigo-500"><Plus className="w-4 h-4" /></button>
+    </div>
+  );
+}`;
+
+const MOCK_APP = `import React from 'react';
+import Counter from './components/Counter';
+
+export default function App() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-slate-950">
+      <Counter />
+    </div>
+  );
+}`;
+
+const COUNTER_TEST = `import React from 'react';
+import { describe, expect, it } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import Counter from './Counter';
+
+describe('Counter', () => {
+  it('starts at zero', () => {
+    render(<Counter />);
+    expect(screen.getByText('0')).toBeInTheDocument();
+  });
+
+  it('labels both buttons', () => {
+    render(<Counter />);
+    expect(screen.getByRole('button', { name: 'Increment' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Decrement' })).toBeInTheDocument();
+  });
+});`;
+
+/**
+ * Canned responses per stage so the whole pipeline runs without a network or key. A list is
+ * replayed in order (cycling), e.g. a critic that blocks once and then accepts the repair.
+ */
+const FIXTURES: Record<string, string | string[]> = {
+  designer: JSON.stringify({
+    library: 'shadcn/ui',
+    tokens: {
+      colors: { primary: '#6366f1', accent: '#22d3ee', background: '#020617', surface: '#0f172a', text: '#e2e8f0' },
+      spacing: { xs: 4, sm: 8, md: 12, lg: 16, xl: 24 },
+      typography: { fontFamily: 'Inter, system-ui, sans-serif', heading: { size: 24, weight: 700 }, body: { size: 14, weight: 500 } },
+      radii: { sm: 6, md: 12, lg: 16 },
+      shadows: { card: '0 10px 30px rgba(2,6,23,0.45)' },
+    },
+    brief: 'Dark surface cards centred on the page; primary actions in indigo, secondary in slate.',
+  }),
+  architect: [
+    'Plan (offline mock):',
+    '1. src/components/Counter.tsx — self-contained counter with increment/decrement buttons (lucide-react icons).',
+    '2. src/App.tsx — centres <Counter /> on a dark background.',
+    'Styling uses the theme.json palette via Tailwind utility classes.',
+  ].join('\n'),
+  developer: JSON.stringify({
+    explanation: 'Added a Counter component and rendered it from App (offline mock).',
+    changes: [
+      { action: 'create', path: 'src/components/Counter.tsx', content: COUNTER_COMPONENT },
+      { action: 'modify', path: 'src/App.tsx', content: MOCK_APP },
+    ],
+  }),
+  qa: JSON.stringify({
+    explanation: 'Added render tests for Counter (offline mock).',
+    changes: [{ action: 'create', path: 'src/components/Counter.test.tsx', content: COUNTER_TEST }],
+  }),
+  critic: [
+    JSON.stringify({
+      score: 6,
+      summary: 'Layout matches the plan, but the counter can go below zero (offline mock).',
+      findings: [{
+        severity: 'major',
+        file: 'src/components/Counter.tsx',
+        issue: 'Decrement has no lower bound; clamp the count at 0.',
+        patch: '@@ -21,1 +21,1 @@\n-onClick={() => setCount(c => c - 1)}\n+onClick={() => setCount(c => Math.max(0, c - 1))}',
+      }],
+    }),
+    JSON.stringify({
+      score: 9,
+      summary: 'Imports resolve and no placeholders remain (offline mock).',
+      findings: [{ severity: 'minor', file: 'src/components/Counter.tsx', issue: 'Consider aria-live="polite" on the count.' }],
+    }),
+  ],
+};
+
+/** Rough counts (four characters a token) so usage accounting can be tried offline; the mock is never priced. */
+const estimateUsage = (request: LlmRequest, text: string): ModelUsage => ({
+  model: 'mock',
+  inputTokens: Math.ceil(((request.systemInstruction ?? '').length + request.prompt.length) / 4),
+  outputTokens: Math.ceil(text.length / 4),
+  thinkingTokens: 0,
+});
+
+export const loadRecordings = (): RecordedResponse[] => {
+  try {
+    const saved = localStorage.getItem(RECORDINGS_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const clearRecordings = () => localStorage.removeItem(RECORDINGS_KEY);
+
+const saveRecording = (recording: RecordedResponse) => {
+  const next = [...loadRecordings(), recording].slice(-MAX_RECORDINGS);
+  try {
+    localStorage.setItem(RECORDINGS_KEY, JSON.stringify(next));
+  } catch (err) {
+    console.warn('Could not store model recording', err);
+  }
+};
+
+/**
+ * Deterministic offline provider. The nth call for a stage replays the nth recording captured
+ * for that stage (cycling), and falls back to the built-in fixtures when nothing was recorded.
+ */
+export const createMockProvider = (recordings: RecordedResponse[] = loadRecordings()): LlmProvider => {
+  const calls: Record<string, number> = {};
+
+  const replay = (request: LlmRequest): LlmResponse => {
+    request.signal?.throwIfAborted();
+    const candidates = recordings.filter(recording => recording.stage === request.stage);
+    const index = calls[request.stage] ?? 0;
+    calls[request.stage] = index + 1;
+    if (candidates.length > 0) return { text: candidates[index % candidates.length].text };
+    const fixture = FIXTURES[request.stage];
+    if (Array.isArray(fixture)) return { text: fixture[index % fixture.length] };
+    return { text: fixture ?? (request.json ? '{}' : `Offline mock response for ${request.stage}.`) };
+  };
+
+  const respond = (request: LlmRequest): LlmResponse => {
+    const { text } = replay(request);
+    return { text, usage: estimateUsage(request, text) };
+  };
+
+  return {
+    kind: 'mock',
+    label: 'Offline mock',
+    generate: async (request) => respond(request),
+    stream: async function* (request) {
+      const { text, usage } = respond(request);
+      for (let offset = 0; offset < text.length; offset += STREAM_CHUNK_SIZE) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+        request.signal?.throwIfAborted();
+        yield { text: text.slice(offset, offset + STREAM_CHUNK_SIZE), usage: offset + STREAM_CHUNK_SIZE >= text.length ? usage : undefined };
+      }
+    },
+  };
+};
+
+/** Wraps a live provider and stores each completed response for later offline replay. */
+export const withRecording = (provider: LlmProvider): LlmProvider => ({
+  ...provider,
+  generate: async (request) => {
+    const response = await provider.generate(request);
+    saveRecording({ stage: request.stage, prompt: request.prompt.slice(0, 2000), text: response.text, recordedAt: Date.now() });
+    return response;
+  },
+  stream: async function* (request) {
+    let text = '';
+    for await (const chunk of provider.stream(request)) {
+      text += chunk.text;
+      yield chunk;
+    }
+    saveRecording({ stage: request.stage, prompt: request.prompt.slice(0, 2000), text, recordedAt: Date.now() });
+  },
+});
@@ -0,0 +1,129 @@
+import { ProviderHttpError, parseRetryAfter } from './retry';
+import { LlmProvider, LlmRequest, ModelUsage } from './types';
+
+const DEFAULT_MODELS = {
+  fast: 'gpt-4o-mini',
+  reasoning: 'gpt-4o',
+};
+
+type ChatContent = string | ({ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } })[];
+
+const toMessages = (request: LlmRequest) => {
+  const messages: { role: 'system' | 'user'; content: ChatContent }[] = [];
+  if (request.systemInstruction) messages.push({ role: 'system', content: request.systemInstruction });
+  messages.push({
+    role: 'user',
+    content: request.image
+      ? [{ type: 'text', text: request.prompt }, { type: 'image_url', image_url: { url: request.image } }]
+      : request.prompt,
+  });
+  return messages;
+};
+
+// Schemas are not strict: OpenAI's strict mode requires every property, which optional fields such as `diff` are not.
+const responseFormat = (request: LlmRequest) => {
+  if (!request.json) return undefined;
+  if (!request.responseSchema) return { type: 'json_object' };
+  return { type: 'json_schema', json_schema: { name: request.responseSchema.name, schema: request.responseSchema.schema, strict: false } };
+};
+
+/** The `usage` object of a completion; reasoning tokens are part of `completion_tokens` there. */
+interface OpenAiUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  prompt_tokens_details?: { cached_tokens?: number };
+  completion_tokens_details?: { reasoning_tokens?: number };
+}
+
+// Local servers sometimes send `usage: null` or leave fields out; those calls are not counted.
+const isOpenAiUsage = (value: unknown): value is OpenAiUsage => {
+  const usage = value as Partial<OpenAiUsage> | null;
+  return typeof usage === 'object' && usage !== null && typeof usage.prompt_tokens === 'number' && typeof usage.completion_tokens === 'number';
+};
+
+const toUsage = (value: unknown, model: string): ModelUsage | undefined => {
+  if (!isOpenAiUsage(value)) return undefined;
+  const thinkingTokens = value.completion_tokens_details?.reasoning_tokens ?? 0;
+  return { model, inputTokens: value.prompt_tokens, outputTokens: value.completion_tokens - thinkingTokens, thinkingTokens };
+};
+
+const readError = async (response: Response) => {
+  const body = await response.text().catch(() => '');
+  try {
+    const parsed = JSON.parse(body);
+    return parsed?.error?.message || body || response.statusText;
+  } catch {
+    return body || response.statusText;
+  }
+};
+
+/**
+ * Talks to any server implementing the OpenAI `/chat/completions` API (OpenAI, Azure-style
+ * gateways, Ollama, LM Studio, vLLM...). Search grounding is not part of that API and is ignored.
+ */
+export const createOpenAiCompatibleProvider = (options: { baseUrl: string; apiKey?: string; fastModel?: string; reasoningModel?: string }): LlmProvider => {
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+  const models = {
+    fast: options.fastModel || DEFAULT_MODELS.fast,
+    reasoning: options.reasoningModel || DEFAULT_MODELS.reasoning,
+  };
+
+  const modelFor = (request: LlmRequest) => request.model || models[request.tier];
+
+  const send = async (request: LlmRequest, stream: boolean) => {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      signal: request.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: modelFor(request),
+        messages: toMessages(request),
+        stream,
+        // Asks for a final chunk with the call's token usage.
+        stream_options: stream ? { include_usage: true } : undefined,
+        response_format: responseFormat(request),
+      }),
+    });
+    if (!response.ok) {
+      const message = JSON.stringify({ error: { code: response.status, message: await readError(response) } });
+      throw new ProviderHttpError(message, response.status, parseRetryAfter(response.headers.get('Retry-After')));
+    }
+    return response;
+  };
+
+  return {
+    kind: 'openai',
+    label: 'OpenAI-compatible',
+    generate: async (request) => {
+      const response = await send(request, false);
+      const payload = await response.json();
+      return { text: payload?.choices?.[0]?.message?.content ?? '', usage: toUsage(payload?.usage, payload?.model || modelFor(request)) };
+    },
+    stream: async function* (request) {
+      const response = await send(request, true);
+      if (!response.body) throw new Error('Streaming is not supported by this server');
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const events = buffer.split('\n');
+        buffer = events.pop() ?? '';
+        for (const line of events) {
+          const data = line.trim().replace(/^data:\s*/, '');
+          if (!data || data === '[DONE]' || !line.trim().startsWith('data:')) continue;
+          const payload = JSON.parse(data);
+          const text = payload?.choices?.[0]?.delta?.content;
+          const usage = toUsage(payload?.usage, payload?.model || modelFor(request));
+          if (text || usage) yield { text: text || '', usage };
+        }
+      }
+    },
+  };
+};
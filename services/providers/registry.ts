@@ -0,0 +1,53 @@
+import { GEMINI_KEY_ENV_ORDER } from '../../envKeys';
+import { createGeminiProvider } from './gemini';
+import { createMockProvider, withRecording } from './mock';
+import { createOpenAiCompatibleProvider } from './openaiCompatible';
+import { withRetry } from './retry';
+import { LlmProvider, ProviderSettings } from './types';
+
+const SETTINGS_KEY = 'symbiotic_provider';
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = { kind: 'gemini' };
+
+export const loadProviderSettings = (): ProviderSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    return saved ? { ...DEFAULT_PROVIDER_SETTINGS, ...JSON.parse(saved) } : DEFAULT_PROVIDER_SETTINGS;
+  } catch {
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/**
+ * Builds the configured provider. Live providers retry transient failures (see `withRetry`).
+ * Throws with a user-facing message when it is misconfigured.
+ */
+export const createProvider = (settings: ProviderSettings): LlmProvider => {
+  let provider: LlmProvider;
+  switch (settings.kind) {
+    case 'mock':
+      return createMockProvider();
+    case 'openai':
+      if (!settings.baseUrl) throw new Error('Set the base URL of your OpenAI-compatible API in Settings.');
+      provider = createOpenAiCompatibleProvider({
+        baseUrl: settings.baseUrl,
+        apiKey: settings.apiKey,
+        fastModel: settings.fastModel,
+        reasoningModel: settings.reasoningModel,
+      });
+      break;
+    default: {
+      const apiKey = settings.apiKey || import.meta.env.RESOLVED_GEMINI_API_KEY;
+      if (!apiKey) {
+        const keyList = GEMINI_KEY_ENV_ORDER.join(' or ');
+        throw new Error(`Missing Gemini API key. Add ${keyList} to your .env.local file.`);
+      }
+      provider = createGeminiProvider({ apiKey, fastModel: settings.fastModel, reasoningModel: settings.reasoningModel });
+    }
+  }
+  return withRetry(settings.recordResponses ? withRecording(provider) : provider);
+};
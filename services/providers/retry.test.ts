@@ -0,0 +1,243 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ModelTimeoutError, ProviderHttpError, RETRYABLE_STATUSES, parseRetryAfter, withRetry } from './retry';
+import { LlmProvider, LlmRequest, LlmStreamChunk, RetryNotice } from './types';
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new DOMException('Aborted', 'AbortError'));
+  }, { once: true });
+});
+
+/** Attempt n streams one chunk per gap of `attempts[n]`, each after waiting that many milliseconds. */
+const slowProvider = (attempts: number[][]): LlmProvider => {
+  let call = 0;
+  return {
+    kind: 'mock',
+    label: 'Slow',
+    generate: async () => ({ text: '' }),
+    stream: async function* (request) {
+      const gaps = attempts[Math.min(call++, attempts.length - 1)];
+      for (const [index, gap] of gaps.entries()) {
+        await sleep(gap, request.signal);
+        yield { text: String(index) };
+      }
+    },
+  };
+};
+
+/** Answers `generate` with each outcome in turn, throwing the errors; `calls` holds when every attempt started. */
+const scriptedProvider = (outcomes: (string | Error)[]) => {
+  const calls: number[] = [];
+  const provider: LlmProvider = {
+    kind: 'mock',
+    label: 'Scripted',
+    generate: async () => {
+      const outcome = outcomes[Math.min(calls.length, outcomes.length - 1)];
+      calls.push(Date.now());
+      if (outcome instanceof Error) throw outcome;
+      return { text: outcome };
+    },
+    stream: async function* () {},
+  };
+  return { provider, calls };
+};
+
+const REQUEST: LlmRequest = { stage: 'developer', tier: 'fast', prompt: '' };
+
+const POLICY = { maxAttempts: 2, baseDelayMs: 1, maxDelayMs: 1 };
+
+const collect = async (provider: LlmProvider, request: Partial<LlmRequest> = {}) => {
+  const chunks: LlmStreamChunk[] = [];
+  for await (const chunk of provider.stream({ ...REQUEST, timeoutMs: 60, ...request })) chunks.push(chunk);
+  return chunks.map(chunk => chunk.text).join('');
+};
+
+/** Runs a call, recording its retry notices; failures resolve to the error so the timers can run first. */
+const generate = (provider: LlmProvider) => {
+  const notices: RetryNotice[] = [];
+  const result = provider.generate({ ...REQUEST, onRetry: notice => notices.push(notice) }).catch((err: unknown) => err);
+  return { result, notices };
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(0);
+  // No jitter, so every delay is the full backoff.
+  vi.spyOn(Math, 'random').mockReturnValue(1);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('withRetry', () => {
+  const unavailable = () => new ProviderHttpError('Unavailable', 503);
+
+  it('doubles the delay after each failure, up to the maximum', async () => {
+    const { provider, calls } = scriptedProvider([unavailable(), unavailable(), unavailable(), 'done']);
+    const { result, notices } = generate(withRetry(provider, { maxAttempts: 4, baseDelayMs: 1000, maxDelayMs: 3000 }));
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(calls).toHaveLength(1);
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toEqual({ text: 'done' });
+    expect(calls).toHaveLength(4);
+    expect(notices).toEqual([
+      { attempt: 2, maxAttempts: 4, delayMs: 1000, reason: 'Model provider returned HTTP 503' },
+      { attempt: 3, maxAttempts: 4, delayMs: 2000, reason: 'Model provider returned HTTP 503' },
+      { attempt: 4, maxAttempts: 4, delayMs: 3000, reason: 'Model provider returned HTTP 503' },
+    ]);
+  });
+
+  it('waits between half and all of the backoff', async () => {
+    vi.mocked(Math.random).mockReturnValue(0);
+    const { provider } = scriptedProvider([unavailable(), 'done']);
+    const { result, notices } = generate(withRetry(provider));
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toEqual({ text: 'done' });
+    expect(notices.map(notice => notice.delayMs)).toEqual([500]);
+  });
+
+  it('gives up with the last error after the last attempt', async () => {
+    const error = unavailable();
+    const { provider, calls } = scriptedProvider([error]);
+    const { result, notices } = generate(withRetry(provider, { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 30000 }));
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toBe(error);
+    expect(calls).toHaveLength(3);
+    expect(notices.map(notice => notice.delayMs)).toEqual([1000, 2000]);
+  });
+
+  it.each(RETRYABLE_STATUSES)('retries HTTP %i', async status => {
+    const { provider, calls } = scriptedProvider([new ProviderHttpError('Failed', status), 'done']);
+    const { result } = generate(withRetry(provider, POLICY));
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toEqual({ text: 'done' });
+    expect(calls).toHaveLength(2);
+  });
+
+  it.each([400, 401, 403, 404, 422])('fails at once on HTTP %i', async status => {
+    const error = new ProviderHttpError('Failed', status);
+    const { provider, calls } = scriptedProvider([error, 'done']);
+    const { result, notices } = generate(withRetry(provider, POLICY));
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toBe(error);
+    expect(calls).toHaveLength(1);
+    expect(notices).toEqual([]);
+  });
+
+  it('retries dropped connections but not other errors', async () => {
+    const dropped = scriptedProvider([new TypeError('Failed to fetch'), 'done']);
+    const retried = generate(withRetry(dropped.provider, POLICY));
+    const error = new Error('Unexpected reply');
+    const broken = scriptedProvider([error, 'done']);
+    const failed = generate(withRetry(broken.provider, POLICY));
+    await vi.runAllTimersAsync();
+
+    await expect(retried.result).resolves.toEqual({ text: 'done' });
+    expect(retried.notices.map(notice => notice.reason)).toEqual(['Network error']);
+    await expect(failed.result).resolves.toBe(error);
+    expect(broken.calls).toHaveLength(1);
+  });
+
+  it('waits as long as the server asks instead of backing off', async () => {
+    const { provider } = scriptedProvider([
+      new ProviderHttpError('Unavailable', 503, 5000),
+      Object.assign(new Error('{"error": {"details": [{"retryDelay": "7s"}]}}'), { status: 503 }),
+      'done',
+    ]);
+    const { result, notices } = generate(withRetry(provider));
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toEqual({ text: 'done' });
+    expect(notices.map(notice => notice.delayMs)).toEqual([5000, 7000]);
+  });
+
+  it('holds every call of the provider after a 429 until the requested delay has passed', async () => {
+    const { provider, calls } = scriptedProvider([new ProviderHttpError('Too many requests', 429, 2000), 'done']);
+    const limited = withRetry(provider);
+    const first = generate(limited);
+    await vi.advanceTimersByTimeAsync(500);
+    const second = generate(limited);
+
+    await vi.advanceTimersByTimeAsync(1400);
+    expect(calls).toHaveLength(1);
+    await vi.runAllTimersAsync();
+
+    await expect(first.result).resolves.toEqual({ text: 'done' });
+    await expect(second.result).resolves.toEqual({ text: 'done' });
+    expect(calls.slice(1).every(time => time >= 2000)).toBe(true);
+    expect(second.notices).toEqual([]);
+  });
+
+  it('holds other calls after a 429 without Retry-After, but not after other failures', async () => {
+    const callsAfter = async (error: Error) => {
+      const { provider, calls } = scriptedProvider([error, 'done']);
+      const limited = withRetry(provider);
+      generate(limited);
+      await vi.advanceTimersByTimeAsync(500);
+      generate(limited);
+      await vi.advanceTimersByTimeAsync(400);
+      const started = calls.length;
+      await vi.runAllTimersAsync();
+      return started;
+    };
+
+    expect(await callsAfter(new ProviderHttpError('Too many requests', 429))).toBe(1);
+    expect(await callsAfter(unavailable())).toBe(2);
+  });
+
+  it('lets a stream run past the timeout while chunks keep arriving', async () => {
+    const provider = withRetry(slowProvider([[30, 30, 30, 30, 30]]), POLICY);
+    const result = collect(provider);
+    await vi.runAllTimersAsync();
+    await expect(result).resolves.toBe('01234');
+  });
+
+  it('retries a call whose first chunk does not arrive in time', async () => {
+    const notices: RetryNotice[] = [];
+    const provider = withRetry(slowProvider([[200], [10]]), POLICY);
+    const result = collect(provider, { onRetry: notice => notices.push(notice) });
+    await vi.runAllTimersAsync();
+    await expect(result).resolves.toBe('0');
+    expect(notices.map(notice => notice.reason)).toEqual([expect.stringMatching(/^The model did not answer within/)]);
+  });
+
+  it('fails a stream that stalls after its first chunk without retrying it', async () => {
+    const provider = withRetry(slowProvider([[10, 200], [10]]), POLICY);
+    const result = collect(provider).catch((err: unknown) => err);
+    await vi.runAllTimersAsync();
+    const error = await result;
+    expect(error).toBeInstanceOf(ModelTimeoutError);
+    expect((error as Error).message).toMatch(/^The model stopped responding/);
+  });
+});
+
+
+describe('parseRetryAfter', () => {
+  it('reads a delay in seconds', () => {
+    expect(parseRetryAfter('120')).toBe(120000);
+    expect(parseRetryAfter('1.5')).toBe(1500);
+    expect(parseRetryAfter('-3')).toBe(0);
+  });
+
+  it('reads an HTTP date relative to now', () => {
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:30 GMT')).toBe(30000);
+    expect(parseRetryAfter('Wed, 31 Dec 2025 23:59:00 GMT')).toBe(0);
+  });
+
+  it('ignores missing or unreadable headers', () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('')).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
@@ -0,0 +1,182 @@
+import { LlmProvider, LlmRequest } from './types';
+
+/**
+ * Retries transient model failures (rate limits, overloaded servers, dropped connections and
+ * timeouts) with exponential backoff. A 429 or a server-requested delay holds every call of the
+ * provider until it has passed, so parallel stages do not keep hitting the limit.
+ */
+
+export interface RetryPolicy {
+  /** Attempts per call, the first one included. */
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { maxAttempts: 4, baseDelayMs: 1000, maxDelayMs: 30000 };
+
+/** An HTTP error from a provider that talks to its API directly. */
+export class ProviderHttpError extends Error {
+  constructor(message: string, readonly status: number, readonly retryAfterMs?: number) {
+    super(message);
+  }
+}
+
+/** An attempt that waited longer than its request's `timeoutMs` for the first chunk or the next one. */
+export class ModelTimeoutError extends Error {}
+
+export const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+/** HTTP status of a provider error; Gemini's `ApiError` and `ProviderHttpError` both carry one. */
+const statusOf = (err: unknown) => {
+  const status = (err as { status?: unknown } | null)?.status;
+  return typeof status === 'number' ? status : undefined;
+};
+
+/** Seconds or an HTTP date, as sent in a Retry-After header. */
+export const parseRetryAfter = (header: string | null) => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/** The delay the server asked for: a Retry-After header, or the RetryInfo detail of a Gemini error. */
+const retryAfterOf = (err: unknown) => {
+  if (err instanceof ProviderHttpError && err.retryAfterMs !== undefined) return err.retryAfterMs;
+  const match = err instanceof Error ? err.message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/) : null;
+  return match ? Number(match[1]) * 1000 : undefined;
+};
+
+export const isTransientError = (err: unknown) => {
+  if (err instanceof ModelTimeoutError) return true;
+  const status = statusOf(err);
+  if (status !== undefined) return RETRYABLE_STATUSES.includes(status);
+  // fetch rejects with a TypeError when the network is down or the connection drops.
+  return err instanceof TypeError;
+};
+
+/** A short reason for a failed call, for retry notices and failed tasks. */
+export const describeModelError = (err: unknown) => {
+  if (err instanceof ModelTimeoutError) return err.message;
+  const status = statusOf(err);
+  if (status === 429) return 'Rate limited by the model provider';
+  if (status !== undefined) return `Model provider returned HTTP ${status}`;
+  if (err instanceof TypeError) return 'Network error';
+  return err instanceof Error ? err.message.slice(0, 200) : String(err);
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal?.reason);
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/** Holds calls while a rate limit lasts; the longest requested delay wins. */
+const createRateLimiter = () => {
+  let blockedUntil = 0;
+  return {
+    wait: (signal?: AbortSignal) => sleep(Math.max(0, blockedUntil - Date.now()), signal),
+    block: (ms: number) => { blockedUntil = Math.max(blockedUntil, Date.now() + ms); },
+  };
+};
+
+/**
+ * One attempt's view of `request`: aborted by the caller's signal, or when `timeoutMs` passes
+ * without a response. `received` restarts the timer, so a long stream only times out when it stalls.
+ */
+const startAttempt = (request: LlmRequest) => {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(request.signal?.reason);
+  if (request.signal?.aborted) onAbort();
+  request.signal?.addEventListener('abort', onAbort, { once: true });
+  let timedOut = false;
+  let started = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const arm = () => {
+    if (!request.timeoutMs) return;
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, request.timeoutMs);
+  };
+  arm();
+  return {
+    request: { ...request, signal: controller.signal },
+    received: () => {
+      started = true;
+      arm();
+    },
+    /** The error to report for `err`, which is an abort when the attempt timed out. */
+    failure: (err: unknown) => {
+      if (!timedOut) return err;
+      const seconds = Math.round(request.timeoutMs! / 1000);
+      return new ModelTimeoutError(started ? `The model stopped responding for ${seconds} s` : `The model did not answer within ${seconds} s`);
+    },
+    end: () => {
+      clearTimeout(timer);
+      request.signal?.removeEventListener('abort', onAbort);
+    },
+  };
+};
+
+export const withRetry = (provider: LlmProvider, policy: RetryPolicy = DEFAULT_RETRY_POLICY): LlmProvider => {
+  const limiter = createRateLimiter();
+
+  /** Waits before the next attempt, or rethrows when `err` is final. */
+  const backOff = async (request: LlmRequest, err: unknown, attempt: number) => {
+    if (request.signal?.aborted || !isTransientError(err) || attempt + 1 >= policy.maxAttempts) throw err;
+    const requested = retryAfterOf(err);
+    const delayMs = requested ?? Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt) * (0.5 + Math.random() / 2);
+    if (requested !== undefined || statusOf(err) === 429) limiter.block(delayMs);
+    request.onRetry?.({ attempt: attempt + 2, maxAttempts: policy.maxAttempts, delayMs, reason: describeModelError(err) });
+    await sleep(delayMs, request.signal);
+  };
+
+  return {
+    ...provider,
+    generate: async (request) => {
+      for (let attempt = 0; ; attempt++) {
+        await limiter.wait(request.signal);
+        const current = startAttempt(request);
+        try {
+          return await provider.generate(current.request);
+        } catch (err) {
+          await backOff(request, current.failure(err), attempt);
+        } finally {
+          current.end();
+        }
+      }
+    },
+    // Once text has been yielded the caller has shown it, so only calls that fail before their first chunk are retried.
+    stream: async function* (request) {
+      for (let attempt = 0; ; attempt++) {
+        await limiter.wait(request.signal);
+        const current = startAttempt(request);
+        let received = false;
+        try {
+          for await (const chunk of provider.stream(current.request)) {
+            received = true;
+            current.received();
+            yield chunk;
+          }
+          return;
+        } catch (err) {
+          if (received) throw current.failure(err);
+          await backOff(request, current.failure(err), attempt);
+        } finally {
+          current.end();
+        }
+      }
+    },
+  };
+};
@@ -0,0 +1,94 @@
+/**
+ * Provider-neutral contract for model calls. Agent stages describe *what* they need (a tier,
+ * JSON output, search grounding); each provider maps that onto its own API.
+ */
+
+export type ModelTier = 'fast' | 'reasoning';
+
+export type ProviderKind = 'gemini' | 'openai' | 'mock';
+
+/** The subset of JSON Schema that both Gemini and OpenAI structured output accept. */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  /** Whether an object may have keys not listed in `properties` (any value). */
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: string[];
+  minimum?: number;
+  maximum?: number;
+}
+
+export interface LlmRequest {
+  /** Pipeline stage issuing the call (designer, architect, ...). Used for logging and replay. */
+  stage: string;
+  tier: ModelTier;
+  prompt: string;
+  systemInstruction?: string;
+  /** Optional base64 data URL attached to the prompt. */
+  image?: string;
+  /** Ask the provider for a single JSON document instead of prose. */
+  json?: boolean;
+  /** Shape of the JSON reply; providers with structured output constrain the model to it. */
+  responseSchema?: { name: string; schema: JsonSchema };
+  thinkingBudget?: number;
+  tools?: { search?: boolean };
+  /** Overrides the provider's model for the tier. */
+  model?: string;
+  /** Aborts the in-flight request; providers reject (or end the stream) with an `AbortError`. */
+  signal?: AbortSignal;
+  /** How long an attempt may wait for its first chunk, and then between chunks; `withRetry` aborts and retries it. */
+  timeoutMs?: number;
+  /** Called by `withRetry` before it waits to try a failed call again. */
+  onRetry?: (notice: RetryNotice) => void;
+}
+
+export interface RetryNotice {
+  /** The attempt about to be made, counting from 1. */
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+  reason: string;
+}
+
+/** Tokens of one call as the provider reports them. */
+export interface ModelUsage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+}
+
+export interface LlmResponse {
+  text: string;
+  groundingUrls?: { title: string; uri: string }[];
+  usage?: ModelUsage;
+}
+
+export interface LlmStreamChunk {
+  /** Incremental text since the previous chunk. */
+  text: string;
+  groundingUrls?: { title: string; uri: string }[];
+  /** Totals of the call so far; the last chunk that has them counts. */
+  usage?: ModelUsage;
+}
+
+export interface LlmProvider {
+  kind: ProviderKind;
+  label: string;
+  generate: (request: LlmRequest) => Promise<LlmResponse>;
+  stream: (request: LlmRequest) => AsyncIterable<LlmStreamChunk>;
+}
+
+export interface ProviderSettings {
+  kind: ProviderKind;
+  apiKey?: string;
+  /** Base URL of an OpenAI-compatible API, e.g. `https://api.openai.com/v1` or a local server. */
+  baseUrl?: string;
+  fastModel?: string;
+  reasoningModel?: string;
+  /** Store every live response so the mock provider can replay it offline. */
+  recordResponses?: boolean;
+}
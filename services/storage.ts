@@ -0,0 +1,391 @@
+import { Commit, ConversationThread, FileNode, ProjectMeta } from '../types';
+import { basename, dirname } from './virtualFs';
+
+/**
+ * IndexedDB persistence for projects. Files are stored as one record per node and a save only
+ * writes the records that changed since the project was loaded or last saved. Conversation
+ * threads are one record each. Version control keeps commits, branch refs and file contents
+ * (blobs, keyed by their hash so unchanged files are stored once). A record that fails validation
+ * is skipped (and reported) on load instead of resetting the whole project.
+ */
+
+/** Per-project values stored next to the files. */
+export type ProjectItem = 'app_state' | 'preview_doc' | 'preview_time' | 'editor_layout' | 'active_thread' | 'design_context' | 'paused_run' | 'vcs_head' | 'usage';
+
+export interface StoredProject {
+  meta: ProjectMeta;
+  files: FileNode[];
+  items: Partial<Record<ProjectItem, string>>;
+}
+
+export interface LoadedProject {
+  files: FileNode[];
+  items: Partial<Record<ProjectItem, string>>;
+  threads: ConversationThread[];
+  /** Records that were unreadable and left out, or folders rebuilt for orphaned files. */
+  recovered: string[];
+}
+
+/** Raised when the browser refuses a write because the origin's storage quota is used up. */
+export class StorageQuotaError extends Error {}
+
+interface FileRecord {
+  projectId: string;
+  path: string;
+  /** Position among the parent folder's children. */
+  order: number;
+  node: Omit<FileNode, 'children'>;
+}
+
+interface ItemRecord {
+  projectId: string;
+  item: ProjectItem;
+  value: string;
+}
+
+interface ThreadRecord extends ConversationThread {
+  projectId: string;
+}
+
+interface CommitRecord extends Commit {
+  projectId: string;
+}
+
+interface BlobRecord {
+  projectId: string;
+  hash: string;
+  content: string;
+}
+
+/** A branch; `commit` is null until its first commit. */
+interface RefRecord {
+  projectId: string;
+  name: string;
+  commit: string | null;
+}
+
+export interface StoredHistory {
+  commits: Commit[];
+  branches: Record<string, string | null>;
+  /** Commit records that were unreadable and left out. */
+  skipped: number;
+}
+
+const DB_NAME = 'symbiotic';
+
+/** One step per schema version; step `n` upgrades a version-`n` database to `n + 1`. */
+const MIGRATIONS: ((db: IDBDatabase, transaction: IDBTransaction) => void)[] = [
+  // 1: project metadata, one record per file or folder, and per-project items.
+  db => {
+    db.createObjectStore('projects', { keyPath: 'id' });
+    db.createObjectStore('files', { keyPath: ['projectId', 'path'] }).createIndex('projectId', 'projectId');
+    db.createObjectStore('items', { keyPath: ['projectId', 'item'] }).createIndex('projectId', 'projectId');
+    db.createObjectStore('meta');
+  },
+  // 2: conversation threads, one record each.
+  db => {
+    db.createObjectStore('threads', { keyPath: ['projectId', 'id'] }).createIndex('projectId', 'projectId');
+  },
+  // 3: version control: commits, file contents by hash, and branches.
+  db => {
+    db.createObjectStore('commits', { keyPath: ['projectId', 'id'] }).createIndex('projectId', 'projectId');
+    db.createObjectStore('blobs', { keyPath: ['projectId', 'hash'] }).createIndex('projectId', 'projectId');
+    db.createObjectStore('refs', { keyPath: ['projectId', 'name'] }).createIndex('projectId', 'projectId');
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS.length;
+
+/** Stores holding records of one project, indexed by `projectId`. */
+const PROJECT_STORES = ['files', 'items', 'threads', 'commits', 'blobs', 'refs'];
+const STORES = ['projects', ...PROJECT_STORES, 'meta'];
+
+let database: Promise<IDBDatabase> | null = null;
+
+const promisify = <T,>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const openDatabase = () => {
+  database ??= new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('This browser does not support IndexedDB, so projects cannot be saved.'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, SCHEMA_VERSION);
+    request.onupgradeneeded = (event) => {
+      const transaction = request.transaction as IDBTransaction;
+      for (let version = event.oldVersion; version < SCHEMA_VERSION; version++) MIGRATIONS[version](request.result, transaction);
+    };
+    request.onblocked = () => reject(new Error('Storage is being upgraded in another tab. Close the other Symbiotic tabs and reload.'));
+    request.onsuccess = () => {
+      const db = request.result;
+      // A newer version opened in another tab: let it upgrade and reconnect on the next call.
+      db.onversionchange = () => {
+        db.close();
+        database = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+  }).catch(err => {
+    database = null;
+    throw err;
+  });
+  return database;
+};
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+/** Runs `work` in one transaction and resolves once it has committed. */
+const transact = async (stores: string[], mode: IDBTransactionMode, work: (transaction: IDBTransaction) => void) => {
+  const db = await openDatabase();
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(stores, mode);
+    const fail = () => {
+      const error = transaction.error;
+      reject(isQuotaError(error)
+        ? new StorageQuotaError('Browser storage is full, so the latest changes were not saved. Export or delete projects you no longer need to free up space.')
+        : error ?? new Error('The storage transaction was aborted'));
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = fail;
+    transaction.onabort = fail;
+    try {
+      work(transaction);
+    } catch (err) {
+      transaction.abort();
+      reject(err);
+    }
+  });
+};
+
+const readAll = async <T,>(store: string, projectId?: string) => {
+  const db = await openDatabase();
+  const objectStore = db.transaction(store, 'readonly').objectStore(store);
+  return promisify<T[]>(projectId === undefined ? objectStore.getAll() : objectStore.index('projectId').getAll(projectId));
+};
+
+const toRecords = (projectId: string, nodes: FileNode[], prefix = ''): FileRecord[] =>
+  nodes.flatMap((node, order) => {
+    const path = prefix ? `${prefix}/${node.name}` : node.name;
+    const { children, ...rest } = node;
+    const record: FileRecord = { projectId, path, order, node: rest };
+    return node.type === 'folder' ? [record, ...toRecords(projectId, children ?? [], path)] : [record];
+  });
+
+/** Serialized records as last written or read, per project; saves diff against them. */
+const savedRecords = new Map<string, Map<string, string>>();
+
+const remember = (projectId: string, records: FileRecord[]) => {
+  savedRecords.set(projectId, new Map(records.map(record => [record.path, JSON.stringify(record)])));
+};
+
+const isValidRecord = (record: unknown): record is FileRecord => {
+  if (!record || typeof record !== 'object') return false;
+  const { path, order, node } = record as FileRecord;
+  return typeof path === 'string' && path.length > 0 && typeof order === 'number' && !!node && typeof node === 'object'
+    && node.name === basename(path) && (node.type === 'folder' || (node.type === 'file' && (node.content === undefined || typeof node.content === 'string')));
+};
+
+const isValidThread = (record: unknown): record is ThreadRecord => {
+  if (!record || typeof record !== 'object') return false;
+  const { id, title, createdAt, updatedAt, messages, tasks } = record as ThreadRecord;
+  return typeof id === 'string' && typeof title === 'string' && typeof createdAt === 'number' && typeof updatedAt === 'number'
+    && Array.isArray(messages) && messages.every(message => !!message && typeof message.id === 'string' && typeof message.text === 'string')
+    && Array.isArray(tasks) && tasks.every(task => !!task && typeof task.id === 'string' && typeof task.title === 'string');
+};
+
+const isValidCommit = (record: unknown): record is CommitRecord => {
+  if (!record || typeof record !== 'object') return false;
+  const { id, parent, message, createdAt, tree } = record as CommitRecord;
+  return typeof id === 'string' && (parent === null || typeof parent === 'string') && typeof message === 'string' && typeof createdAt === 'number'
+    && Array.isArray(tree) && tree.every(entry => !!entry && typeof entry.path === 'string' && (entry.type === 'folder' || typeof entry.blob === 'string'));
+};
+
+/** Rebuilds the tree from records, recreating folders whose own record was lost. */
+const toTree = (records: FileRecord[], recovered: string[]) => {
+  const byPath = new Map(records.map(record => [record.path, record]));
+  records.forEach(record => {
+    for (let parent = dirname(record.path); parent; parent = dirname(parent)) {
+      const existing = byPath.get(parent);
+      if (existing?.node.type === 'folder') break;
+      if (existing) {
+        // A file record where a folder must be: the folder wins, the file is reported.
+        recovered.push(`${parent} (file replaced by a folder of the same name)`);
+      } else {
+        recovered.push(`${parent}/ (missing folder recreated)`);
+      }
+      byPath.set(parent, { projectId: record.projectId, path: parent, order: Number.MAX_SAFE_INTEGER, node: { name: basename(parent), type: 'folder' } });
+    }
+  });
+  const children = new Map<string, FileRecord[]>();
+  byPath.forEach(record => {
+    const parent = dirname(record.path);
+    children.set(parent, [...(children.get(parent) ?? []), record]);
+  });
+  const build = (parent: string): FileNode[] => (children.get(parent) ?? [])
+    .sort((a, b) => a.order - b.order || a.path.localeCompare(b.path))
+    .map(({ path, node }) => node.type === 'folder' ? { ...node, children: build(path) } : node);
+  return build('');
+};
+
+export const listProjects = () => readAll<ProjectMeta>('projects');
+
+export const putProject = (meta: ProjectMeta) => transact(['projects'], 'readwrite', transaction => {
+  transaction.objectStore('projects').put(meta);
+});
+
+export const loadProject = async (projectId: string): Promise<LoadedProject> => {
+  const [fileRecords, itemRecords, threadRecords] = await Promise.all([
+    readAll<unknown>('files', projectId),
+    readAll<ItemRecord>('items', projectId),
+    readAll<unknown>('threads', projectId),
+  ]);
+  const recovered: string[] = [];
+  const unreadable: string[] = [];
+  const valid = fileRecords.filter((record): record is FileRecord => {
+    if (isValidRecord(record)) return true;
+    const path = (record as Partial<FileRecord> | null)?.path;
+    if (typeof path === 'string') unreadable.push(path);
+    recovered.push(`${typeof path === 'string' ? path : 'a file'} (unreadable record skipped)`);
+    return false;
+  });
+  const files = toTree(valid, recovered);
+  // The next save diffs against what was read: it deletes unreadable records and writes rebuilt folders.
+  remember(projectId, valid);
+  unreadable.forEach(path => savedRecords.get(projectId)?.set(path, ''));
+  const items: LoadedProject['items'] = {};
+  itemRecords.forEach(record => {
+    if (typeof record?.value === 'string') items[record.item] = record.value;
+  });
+  const threads = threadRecords.flatMap(record => {
+    if (isValidThread(record)) {
+      const { projectId: _, ...thread } = record;
+      return [thread];
+    }
+    const title = (record as Partial<ThreadRecord> | null)?.title;
+    recovered.push(`${typeof title === 'string' && title ? `conversation "${title}"` : 'a conversation'} (unreadable record skipped)`);
+    return [];
+  });
+  return { files, items, threads, recovered };
+};
+
+/** Writes the records that changed since the last load or save of `projectId`, and deletes removed ones. */
+export const saveProjectFiles = async (projectId: string, files: FileNode[]) => {
+  const records = toRecords(projectId, files);
+  const previous = savedRecords.get(projectId) ?? new Map<string, string>();
+  const next = new Map(records.map(record => [record.path, JSON.stringify(record)]));
+  const changed = records.filter(record => previous.get(record.path) !== next.get(record.path));
+  const removed = [...previous.keys()].filter(path => !next.has(path));
+  if (changed.length === 0 && removed.length === 0) return;
+  await transact(['files'], 'readwrite', transaction => {
+    const store = transaction.objectStore('files');
+    changed.forEach(record => store.put(record));
+    removed.forEach(path => store.delete([projectId, path]));
+  });
+  savedRecords.set(projectId, next);
+};
+
+export const saveProjectItem = (projectId: string, item: ProjectItem, value: string) =>
+  transact(['items'], 'readwrite', transaction => {
+    transaction.objectStore('items').put({ projectId, item, value } satisfies ItemRecord);
+  });
+
+/** Writes one thread; the chat saves the open thread as it changes. */
+export const saveThread = (projectId: string, thread: ConversationThread) =>
+  transact(['threads'], 'readwrite', transaction => {
+    transaction.objectStore('threads').put({ ...thread, projectId } satisfies ThreadRecord);
+  });
+
+export const deleteThread = (projectId: string, threadId: string) =>
+  transact(['threads'], 'readwrite', transaction => {
+    transaction.objectStore('threads').delete([projectId, threadId]);
+  });
+
+export const readHistory = async (projectId: string): Promise<StoredHistory> => {
+  const [commitRecords, refRecords] = await Promise.all([readAll<unknown>('commits', projectId), readAll<RefRecord>('refs', projectId)]);
+  const commits = commitRecords.flatMap(record => {
+    if (!isValidCommit(record)) return [];
+    const { projectId: _, ...commit } = record;
+    return [commit];
+  });
+  const branches = Object.fromEntries(refRecords
+    .filter(record => typeof record?.name === 'string' && (record.commit === null || typeof record.commit === 'string'))
+    .map(record => [record.name, record.commit]));
+  return { commits, branches, skipped: commitRecords.length - commits.length };
+};
+
+/** File contents by hash; hashes without a stored blob are left out. */
+export const readBlobs = async (projectId: string, hashes: string[]) => {
+  const db = await openDatabase();
+  const store = db.transaction('blobs', 'readonly').objectStore('blobs');
+  const records = await Promise.all([...new Set(hashes)].map(hash => promisify<BlobRecord | undefined>(store.get([projectId, hash]))));
+  return new Map(records.flatMap(record => typeof record?.content === 'string' ? [[record.hash, record.content] as const] : []));
+};
+
+/** Stores a commit with the blobs it adds and moves `branch` (unless null) to it, all or nothing. */
+export const writeCommit = (projectId: string, commit: Commit, blobs: Map<string, string>, branch: string | null) =>
+  transact(['commits', 'blobs', 'refs'], 'readwrite', transaction => {
+    blobs.forEach((content, hash) => transaction.objectStore('blobs').put({ projectId, hash, content } satisfies BlobRecord));
+    transaction.objectStore('commits').put({ ...commit, projectId } satisfies CommitRecord);
+    if (branch !== null) transaction.objectStore('refs').put({ projectId, name: branch, commit: commit.id } satisfies RefRecord);
+  });
+
+export const writeBranch = (projectId: string, name: string, commit: string | null) =>
+  transact(['refs'], 'readwrite', transaction => {
+    transaction.objectStore('refs').put({ projectId, name, commit } satisfies RefRecord);
+  });
+
+export const deleteBranch = (projectId: string, name: string) =>
+  transact(['refs'], 'readwrite', transaction => {
+    transaction.objectStore('refs').delete([projectId, name]);
+  });
+
+/** Copies every record of `fromId` (files, items, threads, history) under the new project `meta` (whose `id` is the target). */
+export const copyProject = async (fromId: string, meta: ProjectMeta) => {
+  const records = await Promise.all(PROJECT_STORES.map(store => readAll<{ projectId: string }>(store, fromId)));
+  await transact(['projects', ...PROJECT_STORES], 'readwrite', transaction => {
+    transaction.objectStore('projects').put(meta);
+    PROJECT_STORES.forEach((store, index) => records[index].forEach(record => transaction.objectStore(store).put({ ...record, projectId: meta.id })));
+  });
+};
+
+export const deleteStoredProject = async (projectId: string) => {
+  const db = await openDatabase();
+  const keysOf = (store: string) => promisify(db.transaction(store, 'readonly').objectStore(store).index('projectId').getAllKeys(projectId));
+  const keys = await Promise.all(PROJECT_STORES.map(keysOf));
+  await transact(['projects', ...PROJECT_STORES], 'readwrite', transaction => {
+    transaction.objectStore('projects').delete(projectId);
+    PROJECT_STORES.forEach((store, index) => keys[index].forEach(key => transaction.objectStore(store).delete(key)));
+  });
+  savedRecords.delete(projectId);
+};
+
+/** Writes whole projects in a single transaction (used by migrations: all or nothing). */
+export const importProjects = (projects: StoredProject[], meta: Record<string, unknown> = {}) =>
+  transact(STORES, 'readwrite', transaction => {
+    projects.forEach(project => {
+      transaction.objectStore('projects').put(project.meta);
+      toRecords(project.meta.id, project.files).forEach(record => transaction.objectStore('files').put(record));
+      Object.entries(project.items).forEach(([item, value]) => {
+        if (value !== undefined) transaction.objectStore('items').put({ projectId: project.meta.id, item: item as ProjectItem, value });
+      });
+    });
+    Object.entries(meta).forEach(([key, value]) => transaction.objectStore('meta').put(value, key));
+  });
+
+export const readMeta = async <T,>(key: string) => {
+  const db = await openDatabase();
+  return promisify<T | undefined>(db.transaction('meta', 'readonly').objectStore('meta').get(key));
+};
+
+/** "12.4 MB of 2.1 GB" when the browser reports its storage estimate. */
+export const describeStorageUsage = async () => {
+  const estimate = await navigator.storage?.estimate?.().catch(() => null);
+  if (!estimate?.usage || !estimate.quota) return null;
+  const format = (bytes: number) => bytes >= 1024 ** 3 ? `${(bytes / 1024 ** 3).toFixed(1)} GB` : `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+  return `${format(estimate.usage)} of ${format(estimate.quota)}`;
+};
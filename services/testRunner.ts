@@ -0,0 +1,140 @@
+import { transform } from 'sucrase';
+import { FileNode, TestCaseResult } from '../types';
+import { BundleError, BundledModule, bundleModules, packageNameOf } from './bundler';
+import { PREVIEW_CDN, createNonce } from './previewDocument';
+import testWorkerSource from './testWorker.ts?raw';
+
+/**
+ * Runs the project's test files in a module worker. The worker is started from a sandboxed iframe,
+ * so it runs in an opaque origin (no access to the app's storage, IndexedDB or cookies), and the
+ * iframe's CSP limits it to loading scripts from the CDN. It has no DOM, so tests can only exercise
+ * pure logic and statically rendered markup (`react-dom/server`). `vitest`, `@jest/globals` and
+ * `@testing-library/react` are provided by the worker itself; every other bare import is loaded
+ * from the CDN.
+ */
+
+export interface TestReport {
+  results: TestCaseResult[];
+  /** Files that failed to compile or load; their tests never ran. */
+  errors: BundleError[];
+  durationMs: number;
+}
+
+export interface TestWorkerRequest {
+  modules: Record<string, BundledModule>;
+  /** Bare specifier -> CDN URL; specifiers the worker provides itself are skipped there. */
+  externals: Record<string, string>;
+  testPaths: string[];
+  testTimeoutMs: number;
+}
+
+export type TestWorkerResponse =
+  | { type: 'result'; result: TestCaseResult }
+  | { type: 'error'; error: BundleError }
+  | { type: 'done' };
+
+/** What the sandbox iframe relays to the app: the worker's messages, or that the worker crashed. */
+type TestSandboxMessage = TestWorkerResponse | { type: 'crashed'; message: string };
+
+const DEFAULT_RUN_TIMEOUT_MS = 30000;
+const DEFAULT_TEST_TIMEOUT_MS = 5000;
+
+export const isTestPath = (path: string) => /\.(test|spec)\.[jt]sx?$/.test(path);
+
+/**
+ * Workers cannot use the preview's import map, so every package is loaded by full URL and pinned
+ * to the same React through `?deps=`, which keeps hooks and the server renderer on one copy.
+ */
+const workerCdnUrl = (specifier: string, dependencies: Record<string, string>) => {
+  const pkg = packageNameOf(specifier);
+  const versioned = (name: string) => `${name}${dependencies[name] ? `@${dependencies[name]}` : ''}`;
+  const subpath = specifier.slice(pkg.length);
+  const query = pkg === 'react' ? '' : `?deps=${['react', 'react-dom'].filter(name => name !== pkg).map(versioned).join(',')}`;
+  return `${PREVIEW_CDN}/${versioned(pkg)}${subpath}${query}`;
+};
+
+// The worker must start from a blob to share the iframe's opaque origin, so it is compiled here
+// instead of by Vite; it has no runtime imports.
+let compiledWorker: string | null = null;
+const workerSource = () => compiledWorker ??= transform(testWorkerSource, { transforms: ['typescript'], disableESTransforms: true }).code;
+
+/**
+ * The sandbox page: it starts the worker from the source the app sends and relays its messages.
+ * Workers created from a blob inherit the page's CSP: no fetch, XHR or sockets, scripts only from
+ * the CDN, and eval for the test modules.
+ */
+const sandboxDocument = (nonce: string) => `<!doctype html>
+<html>
+  <head>
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; script-src 'nonce-${nonce}' 'unsafe-eval' blob: ${PREVIEW_CDN}; worker-src blob:">
+    <script nonce="${nonce}">
+      addEventListener('message', (event) => {
+        if (event.source !== parent) return;
+        const url = URL.createObjectURL(new Blob([event.data.source], { type: 'text/javascript' }));
+        const worker = new Worker(url, { type: 'module' });
+        worker.onmessage = (message) => parent.postMessage(message.data, '*');
+        worker.onerror = (error) => {
+          error.preventDefault();
+          parent.postMessage({ type: 'crashed', message: error.message || 'Test worker crashed' }, '*');
+        };
+        worker.postMessage(event.data.request);
+      });
+    </script>
+  </head>
+</html>`;
+
+export const runTestsInWorker = (
+  files: FileNode[],
+  testPaths: string[],
+  { timeoutMs = DEFAULT_RUN_TIMEOUT_MS, testTimeoutMs = DEFAULT_TEST_TIMEOUT_MS }: { timeoutMs?: number; testTimeoutMs?: number } = {}
+): Promise<TestReport> => {
+  const startedAt = Date.now();
+  const bundle = bundleModules(files, testPaths);
+  const externals = Object.fromEntries(
+    [...bundle.externals, 'react-dom/server'].map(specifier => [specifier, workerCdnUrl(specifier, bundle.dependencies)])
+  );
+  const results: TestCaseResult[] = [];
+  const errors: BundleError[] = [...bundle.errors];
+
+  return new Promise(resolve => {
+    const frame = document.createElement('iframe');
+    // Without allow-same-origin the frame, and the worker it starts, get an opaque origin.
+    frame.setAttribute('sandbox', 'allow-scripts');
+    frame.style.display = 'none';
+    frame.srcdoc = sandboxDocument(createNonce());
+
+    const finish = () => {
+      clearTimeout(timer);
+      window.removeEventListener('message', onMessage);
+      // Removing the frame terminates its worker.
+      frame.remove();
+      resolve({ results, errors, durationMs: Date.now() - startedAt });
+    };
+    // A synchronous infinite loop cannot be interrupted from inside; the worker is discarded instead.
+    const timer = setTimeout(() => {
+      errors.push({ path: testPaths.join(', '), message: `Test run timed out after ${timeoutMs} ms` });
+      finish();
+    }, timeoutMs);
+
+    const onMessage = (event: MessageEvent<TestSandboxMessage>) => {
+      if (event.source !== frame.contentWindow) return;
+      const message = event.data;
+      if (message.type === 'result') results.push(message.result);
+      else if (message.type === 'error') errors.push(message.error);
+      else if (message.type === 'crashed') {
+        errors.push({ path: testPaths.join(', '), message: message.message });
+        finish();
+      } else finish();
+    };
+    window.addEventListener('message', onMessage);
+
+    const request: TestWorkerRequest = {
+      modules: bundle.modules,
+      externals,
+      testPaths: testPaths.filter(path => bundle.modules[path]),
+      testTimeoutMs,
+    };
+    frame.onload = () => frame.contentWindow?.postMessage({ source: workerSource(), request }, '*');
+    document.body.appendChild(frame);
+  });
+};
@@ -0,0 +1,670 @@
+import type { TestCaseResult } from '../types';
+import type { TestWorkerRequest, TestWorkerResponse } from './testRunner';
+
+/**
+ * Module worker behind `runTestsInWorker`. It provides a small vitest/jest-compatible API and a
+ * static `@testing-library/react` (markup is rendered with `react-dom/server` and queried as a
+ * parsed tree), runs each test file with a fresh module cache and reports results one by one.
+ * `runTestsInWorker` compiles this file itself and starts it in a sandbox, so it must not import
+ * anything at runtime.
+ */
+
+type Fn = (...args: unknown[]) => unknown;
+type Matcher = string | RegExp;
+
+const post = (message: TestWorkerResponse) => self.postMessage(message);
+const describeError = (err: unknown) => err instanceof Error ? err.message : String(err);
+
+// --- Static DOM ----------------------------------------------------------------------------
+
+interface TextNode {
+  text: string;
+}
+
+interface ElementNode {
+  tagName: string;
+  attributes: Record<string, string>;
+  children: (ElementNode | TextNode)[];
+  parent: ElementNode | null;
+  innerHTML: string;
+  readonly textContent: string;
+  getAttribute: (name: string) => string | null;
+  hasAttribute: (name: string) => boolean;
+}
+
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+const TOKEN_PATTERN = /<!--[\s\S]*?-->|<\/([a-zA-Z][\w-]*)\s*>|<([a-zA-Z][\w-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?)*)\s*(\/?)>|([^<]+)/g;
+const ATTRIBUTE_PATTERN = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+
+const decodeEntities = (text: string) => text
+  .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&#x27;|&#39;/g, "'")
+  .replace(/&nbsp;/g, ' ').replace(/&amp;/g, '&');
+
+const isElement = (node: ElementNode | TextNode): node is ElementNode => 'tagName' in node;
+
+const createNode = (tagName: string, attributes: Record<string, string> = {}, parent: ElementNode | null = null): ElementNode => ({
+  tagName: tagName.toUpperCase(),
+  attributes,
+  children: [],
+  parent,
+  innerHTML: '',
+  get textContent() {
+    return this.children.map((child: ElementNode | TextNode) => isElement(child) ? child.textContent : child.text).join('');
+  },
+  getAttribute: (name) => name in attributes ? attributes[name] : null,
+  hasAttribute: (name) => name in attributes,
+});
+
+/** Parses renderer output (well-formed, attributes double-quoted) into `container`. */
+const parseInto = (container: ElementNode, html: string) => {
+  container.children = [];
+  container.innerHTML = html;
+  let current = container;
+  for (const [, closing, opening, rawAttributes, selfClosing, text] of html.matchAll(TOKEN_PATTERN)) {
+    if (text !== undefined) {
+      current.children.push({ text: decodeEntities(text) });
+    } else if (opening) {
+      const attributes: Record<string, string> = {};
+      for (const [, name, double, single, bare] of (rawAttributes || '').matchAll(ATTRIBUTE_PATTERN)) {
+        attributes[name.toLowerCase()] = decodeEntities(double ?? single ?? bare ?? '');
+      }
+      const element = createNode(opening, attributes, current);
+      current.children.push(element);
+      if (!selfClosing && !VOID_TAGS.has(opening.toLowerCase())) current = element;
+    } else if (closing) {
+      let node: ElementNode | null = current;
+      while (node && node !== container && node.tagName !== closing.toUpperCase()) node = node.parent;
+      if (node && node !== container) current = node.parent ?? container;
+    }
+  }
+};
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/** Markup of `node`, for `debug()`. */
+const serialize = (node: ElementNode | TextNode): string => {
+  if (!isElement(node)) return escapeHtml(node.text);
+  const tag = node.tagName.toLowerCase();
+  const attributes = Object.entries(node.attributes).map(([name, value]) => ` ${name}="${escapeHtml(value).replace(/"/g, '&quot;')}"`).join('');
+  return VOID_TAGS.has(tag) ? `<${tag}${attributes}>` : `<${tag}${attributes}>${node.children.map(serialize).join('')}</${tag}>`;
+};
+
+const descendants = (root: ElementNode): ElementNode[] =>
+  root.children.filter(isElement).flatMap(child => [child, ...descendants(child)]);
+
+const normalizeText = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const matchesText = (text: string | null, matcher: Matcher) => {
+  if (text === null) return false;
+  const normalized = normalizeText(text);
+  return typeof matcher === 'string' ? normalized === matcher : new RegExp(matcher.source, matcher.flags.replace('g', '')).test(normalized);
+};
+
+const ownText = (element: ElementNode) => element.children.filter(child => !isElement(child)).map(child => (child as TextNode).text).join('');
+
+const implicitRole = (element: ElementNode) => {
+  const tag = element.tagName.toLowerCase();
+  const type = element.getAttribute('type');
+  if (/^h[1-6]$/.test(tag)) return 'heading';
+  if (tag === 'input') {
+    if (type === 'checkbox' || type === 'radio') return type;
+    if (type === 'button' || type === 'submit' || type === 'reset') return 'button';
+    return 'textbox';
+  }
+  const roles: Record<string, string> = {
+    button: 'button', textarea: 'textbox', select: 'combobox', ul: 'list', ol: 'list', li: 'listitem', img: 'img',
+    nav: 'navigation', main: 'main', form: 'form', table: 'table', tr: 'row', td: 'cell', th: 'columnheader',
+    header: 'banner', footer: 'contentinfo', aside: 'complementary', dialog: 'dialog', progress: 'progressbar',
+  };
+  if (tag === 'a') return element.hasAttribute('href') ? 'link' : null;
+  return roles[tag] ?? null;
+};
+
+const accessibleName = (element: ElementNode) =>
+  element.getAttribute('aria-label') ?? element.getAttribute('alt') ?? (normalizeText(element.textContent) || element.getAttribute('title') || '');
+
+interface QueryOptions {
+  /** Role queries: the accessible name. */
+  name?: Matcher;
+  /** Role queries: the heading level. */
+  level?: number;
+}
+
+type QueryAll = (root: ElementNode, matcher: Matcher, options?: QueryOptions) => ElementNode[];
+type Query = (matcher: Matcher, options?: QueryOptions) => unknown;
+
+const QUERIES: Record<string, QueryAll> = {
+  Text: (root, matcher) => descendants(root).filter(element => matchesText(ownText(element), matcher)),
+  Role: (root, role, options = {}) => descendants(root).filter(element =>
+    (element.getAttribute('role') ?? implicitRole(element)) === role
+    && (options.name === undefined || matchesText(accessibleName(element), options.name))
+    && (options.level === undefined || element.tagName === `H${options.level}`)),
+  LabelText: (root, matcher) => descendants(root).flatMap(element => {
+    if (matchesText(element.getAttribute('aria-label'), matcher)) return [element];
+    if (element.tagName !== 'LABEL' || !matchesText(element.textContent, matcher)) return [];
+    const target = element.getAttribute('for');
+    if (target) return descendants(root).filter(candidate => candidate.getAttribute('id') === target);
+    return descendants(element).filter(candidate => ['INPUT', 'SELECT', 'TEXTAREA'].includes(candidate.tagName));
+  }),
+  PlaceholderText: (root, matcher) => descendants(root).filter(element => matchesText(element.getAttribute('placeholder'), matcher)),
+  AltText: (root, matcher) => descendants(root).filter(element => matchesText(element.getAttribute('alt'), matcher)),
+  TestId: (root, matcher) => descendants(root).filter(element => matchesText(element.getAttribute('data-testid'), matcher)),
+  DisplayValue: (root, matcher) => descendants(root).filter(element => matchesText(element.getAttribute('value'), matcher)),
+};
+
+/** getBy/getAllBy/queryBy/queryAllBy/findBy/findAllBy for every query, bound to `root`. */
+const boundQueries = (root: () => ElementNode) => {
+  const bound: Record<string, Query> = {};
+  Object.entries(QUERIES).forEach(([name, queryAll]) => {
+    const describeQuery = (matcher: Matcher) => `${name.replace(/([A-Z])/g, ' $1').trim().toLowerCase()}: ${String(matcher)}`;
+    const getAll = (matcher: Matcher, options?: QueryOptions) => {
+      const found = queryAll(root(), matcher, options);
+      if (found.length === 0) throw new Error(`Unable to find an element by ${describeQuery(matcher)}`);
+      return found;
+    };
+    const get = (matcher: Matcher, options?: QueryOptions) => {
+      const found = getAll(matcher, options);
+      if (found.length > 1) throw new Error(`Found multiple elements by ${describeQuery(matcher)}`);
+      return found[0];
+    };
+    bound[`queryAllBy${name}`] = (matcher, options) => queryAll(root(), matcher, options);
+    bound[`queryBy${name}`] = (matcher, options) => {
+      const found = queryAll(root(), matcher, options);
+      if (found.length > 1) throw new Error(`Found multiple elements by ${describeQuery(matcher)}`);
+      return found[0] ?? null;
+    };
+    bound[`getAllBy${name}`] = getAll;
+    bound[`getBy${name}`] = get;
+    bound[`findAllBy${name}`] = async (matcher, options) => getAll(matcher, options);
+    bound[`findBy${name}`] = async (matcher, options) => get(matcher, options);
+  });
+  return bound;
+};
+
+// --- Assertions ------------------------------------------------------------------------------
+
+const format = (value: unknown): string => {
+  if (value && typeof value === 'object' && 'tagName' in value) return `<${String((value as ElementNode).tagName).toLowerCase()}>`;
+  if (typeof value === 'function') return `[Function${value.name ? ` ${value.name}` : ''}]`;
+  if (value === undefined) return 'undefined';
+  try {
+    const text = JSON.stringify(value);
+    return text.length > 200 ? `${text.slice(0, 200)}...` : text;
+  } catch {
+    return String(value);
+  }
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isIterable = (value: unknown): value is Iterable<unknown> => isObject(value) && Symbol.iterator in value;
+
+const asElement = (value: unknown) => isObject(value) && 'tagName' in value ? value as unknown as ElementNode : null;
+
+const lengthOf = (value: unknown) => value === null || value === undefined ? undefined : (Object(value) as { length?: unknown }).length;
+
+const isEqual = (a: unknown, b: unknown): boolean => {
+  if (Object.is(a, b)) return true;
+  if (!isObject(a) || !isObject(b)) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  const keysOf = (value: Record<string, unknown>) => Object.keys(value).filter(key => value[key] !== undefined);
+  const keys = keysOf(a);
+  return keys.length === keysOf(b).length && keys.every(key => isEqual(a[key], b[key]));
+};
+
+const matchesObject = (actual: unknown, expected: unknown): boolean => {
+  if (!isObject(expected) || !isObject(actual)) return isEqual(actual, expected);
+  if (Array.isArray(expected)) return Array.isArray(actual) && actual.length === expected.length && expected.every((item, i) => matchesObject(actual[i], item));
+  return Object.keys(expected).every(key => matchesObject(actual[key], expected[key]));
+};
+
+const readPath = (value: unknown, path: unknown) => {
+  const keys = Array.isArray(path) ? path.map(String) : String(path).split('.');
+  let current = value;
+  for (const key of keys) {
+    if (current === null || current === undefined || !(key in Object(current))) return { found: false, value: undefined };
+    current = (current as Record<string, unknown>)[key];
+  }
+  return { found: true, value: current };
+};
+
+const callsOf = (received: unknown) => {
+  if (!isMock(received)) throw new Error(`${format(received)} is not a mock function`);
+  return received.mock.calls;
+};
+
+const thrownBy = (received: unknown) => {
+  if (typeof received !== 'function') throw new Error('toThrow expects a function');
+  try {
+    received();
+    return { threw: false, error: undefined as unknown };
+  } catch (error) {
+    return { threw: true, error };
+  }
+};
+
+const contains = (received: unknown, item: unknown) => typeof received === 'string'
+  ? typeof item === 'string' && received.includes(item)
+  : isIterable(received) && Array.from(received).includes(item);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Each matcher returns whether it passed and what was expected, phrased to follow "expected <received>". */
+const MATCHERS: Record<string, (received: unknown, ...expected: unknown[]) => [boolean, string]> = {
+  toBe: (received, expected) => [Object.is(received, expected), `to be ${format(expected)}`],
+  toEqual: (received, expected) => [isEqual(received, expected), `to equal ${format(expected)}`],
+  toStrictEqual: (received, expected) => [isEqual(received, expected), `to strictly equal ${format(expected)}`],
+  toMatchObject: (received, expected) => [matchesObject(received, expected), `to match ${format(expected)}`],
+  toBeTruthy: (received) => [!!received, 'to be truthy'],
+  toBeFalsy: (received) => [!received, 'to be falsy'],
+  toBeNull: (received) => [received === null, 'to be null'],
+  toBeUndefined: (received) => [received === undefined, 'to be undefined'],
+  toBeDefined: (received) => [received !== undefined, 'to be defined'],
+  toBeNaN: (received) => [Number.isNaN(received), 'to be NaN'],
+  toBeGreaterThan: (received, expected) => [Number(received) > Number(expected), `to be greater than ${expected}`],
+  toBeGreaterThanOrEqual: (received, expected) => [Number(received) >= Number(expected), `to be at least ${expected}`],
+  toBeLessThan: (received, expected) => [Number(received) < Number(expected), `to be less than ${expected}`],
+  toBeLessThanOrEqual: (received, expected) => [Number(received) <= Number(expected), `to be at most ${expected}`],
+  toBeCloseTo: (received, expected, digits = 2) => [Math.abs(Number(received) - Number(expected)) < 10 ** -Number(digits) / 2, `to be close to ${expected}`],
+  toBeInstanceOf: (received, expected) => [typeof expected === 'function' && received instanceof expected, `to be an instance of ${typeof expected === 'function' ? expected.name : format(expected)}`],
+  toContain: (received, expected) => [contains(received, expected), `to contain ${format(expected)}`],
+  toContainEqual: (received, expected) => [isIterable(received) && Array.from(received).some(item => isEqual(item, expected)), `to contain ${format(expected)}`],
+  toHaveLength: (received, expected) => [lengthOf(received) === expected, `to have length ${expected}`],
+  toMatch: (received, expected) => [expected instanceof RegExp ? expected.test(String(received)) : String(received).includes(String(expected)), `to match ${String(expected)}`],
+  toHaveProperty: (received, path, ...value) => {
+    const { found, value: actual } = readPath(received, path);
+    return [found && (value.length === 0 || isEqual(actual, value[0])), `to have property ${format(path)}${value.length ? ` = ${format(value[0])}` : ''}`];
+  },
+  toThrow: (received, expected) => {
+    const { threw, error } = thrownBy(received);
+    const message = describeError(error);
+    const pass = threw && (expected === undefined
+      || (typeof expected === 'string' && message.includes(expected))
+      || (expected instanceof RegExp && expected.test(message))
+      || (typeof expected === 'function' && error instanceof expected));
+    return [pass, expected === undefined ? 'to throw' : `to throw ${String(expected)}`];
+  },
+  toHaveBeenCalled: (received) => [callsOf(received).length > 0, 'to have been called'],
+  toHaveBeenCalledTimes: (received, times) => [callsOf(received).length === times, `to have been called ${times} times (called ${callsOf(received).length})`],
+  toHaveBeenCalledWith: (received, ...args) => [callsOf(received).some(call => isEqual(call, args)), `to have been called with ${format(args)}`],
+  toHaveBeenLastCalledWith: (received, ...args) => [isEqual(callsOf(received).at(-1), args), `to have last been called with ${format(args)}`],
+  // jest-dom style matchers over the static tree.
+  toBeInTheDocument: (received) => [received !== null && received !== undefined, 'to be in the document'],
+  toBeVisible: (received) => [asElement(received)?.getAttribute('hidden') === null, 'to be visible'],
+  toHaveTextContent: (received, expected) => [matchesText(asElement(received)?.textContent ?? null, expected instanceof RegExp ? expected : new RegExp(escapeRegExp(String(expected)))), `to have text content ${String(expected)}`],
+  toHaveAttribute: (received, name, ...value) => {
+    const element = asElement(received);
+    return [!!element?.hasAttribute(String(name)) && (value.length === 0 || element.getAttribute(String(name)) === String(value[0])), `to have attribute ${name}${value.length ? `="${value[0]}"` : ''}`];
+  },
+  toHaveClass: (received, ...names) => {
+    const classes = (asElement(received)?.getAttribute('class') ?? '').split(/\s+/);
+    return [names.flatMap(name => String(name).split(/\s+/)).every(name => classes.includes(name)), `to have class ${names.join(' ')}`];
+  },
+  toBeDisabled: (received) => [!!asElement(received)?.hasAttribute('disabled'), 'to be disabled'],
+  toBeEnabled: (received) => [!asElement(received)?.hasAttribute('disabled'), 'to be enabled'],
+  toBeChecked: (received) => [!!asElement(received)?.hasAttribute('checked'), 'to be checked'],
+  toHaveValue: (received, expected) => [asElement(received)?.getAttribute('value') === String(expected), `to have value ${format(expected)}`],
+};
+MATCHERS.toThrowError = MATCHERS.toThrow;
+MATCHERS.toBeCalled = MATCHERS.toHaveBeenCalled;
+MATCHERS.toBeCalledWith = MATCHERS.toHaveBeenCalledWith;
+
+const assertions = (received: unknown, negated: boolean, mode: 'sync' | 'resolves' | 'rejects') => {
+  const bound: Record<string, Fn> = {};
+  Object.entries(MATCHERS).forEach(([name, matcher]) => {
+    const check = (value: unknown, args: unknown[]) => {
+      const [pass, expectation] = matcher(value, ...args);
+      if (pass === negated) throw new Error(`expected ${format(value)} ${negated ? 'not ' : ''}${expectation}`);
+    };
+    bound[name] = (...args: unknown[]) => {
+      if (mode === 'sync') return check(received, args);
+      return Promise.resolve(received).then(
+        value => {
+          if (mode === 'rejects') throw new Error(`expected promise to reject, it resolved with ${format(value)}`);
+          check(value, args);
+        },
+        error => {
+          if (mode === 'resolves') throw new Error(`expected promise to resolve, it rejected with ${describeError(error)}`);
+          // `rejects.toThrow(...)` inspects the rejection as if a function had thrown it.
+          check(name.startsWith('toThrow') ? () => { throw error; } : error, args);
+        }
+      );
+    };
+  });
+  return bound;
+};
+
+const expect = (received: unknown) => ({
+  ...assertions(received, false, 'sync'),
+  not: assertions(received, true, 'sync'),
+  resolves: { ...assertions(received, false, 'resolves'), not: assertions(received, true, 'resolves') },
+  rejects: { ...assertions(received, false, 'rejects'), not: assertions(received, true, 'rejects') },
+});
+
+// --- Mocks -----------------------------------------------------------------------------------
+
+interface MockState {
+  calls: unknown[][];
+  results: { type: 'return' | 'throw'; value: unknown }[];
+}
+
+interface Mock extends Fn {
+  mock: MockState;
+  mockImplementation: (next: Fn) => Mock;
+  mockImplementationOnce: (next: Fn) => Mock;
+  mockReturnValue: (value: unknown) => Mock;
+  mockReturnValueOnce: (value: unknown) => Mock;
+  mockResolvedValue: (value: unknown) => Mock;
+  mockRejectedValue: (value: unknown) => Mock;
+  mockClear: () => Mock;
+  mockReset: () => Mock;
+  mockRestore: () => Mock;
+}
+
+const isMock = (value: unknown): value is Mock => typeof value === 'function' && 'mock' in value;
+
+/** Every mock created by the current file, for `vi.clearAllMocks()` and `vi.resetAllMocks()`. */
+let mocks: Mock[] = [];
+
+const mockFn = (implementation?: Fn) => {
+  let current = implementation;
+  let once: Fn[] = [];
+  const state: MockState = { calls: [], results: [] };
+  const spy: Mock = Object.assign(function (this: unknown, ...args: unknown[]) {
+    state.calls.push(args);
+    const run = once.shift() ?? current;
+    try {
+      const value = run ? run.apply(this, args) : undefined;
+      state.results.push({ type: 'return', value });
+      return value;
+    } catch (err) {
+      state.results.push({ type: 'throw', value: err });
+      throw err;
+    }
+  }, {
+    mock: state,
+    mockImplementation: (next: Fn) => { current = next; return spy; },
+    mockImplementationOnce: (next: Fn) => { once.push(next); return spy; },
+    mockReturnValue: (value: unknown) => { current = () => value; return spy; },
+    mockReturnValueOnce: (value: unknown) => { once.push(() => value); return spy; },
+    mockResolvedValue: (value: unknown) => { current = () => Promise.resolve(value); return spy; },
+    mockRejectedValue: (value: unknown) => { current = () => Promise.reject(value); return spy; },
+    mockClear: () => { state.calls = []; state.results = []; return spy; },
+    mockReset: () => { state.calls = []; state.results = []; current = implementation; once = []; return spy; },
+    // Spies replace this with one that puts the original method back.
+    mockRestore: () => spy.mockReset(),
+  });
+  mocks.push(spy);
+  return spy;
+};
+
+const restorers: Fn[] = [];
+
+const vi = {
+  fn: mockFn,
+  spyOn: (target: object, key: string) => {
+    const record = target as Record<string, unknown>;
+    const original = record[key];
+    if (typeof original !== 'function') throw new Error(`Cannot spy on ${key}: it is not a function`);
+    const spy = mockFn(function (this: unknown, ...args: unknown[]) { return original.apply(this, args); });
+    spy.mockRestore = () => {
+      record[key] = original;
+      return spy;
+    };
+    restorers.push(spy.mockRestore);
+    record[key] = spy;
+    return spy;
+  },
+  isMockFunction: isMock,
+  clearAllMocks: () => { mocks.forEach(mock => mock.mockClear()); },
+  resetAllMocks: () => { mocks.forEach(mock => mock.mockReset()); },
+  restoreAllMocks: () => restorers.splice(0).forEach(restore => restore()),
+};
+
+// --- Test registry ---------------------------------------------------------------------------
+
+interface TestEntry {
+  kind: 'test';
+  name: string;
+  fn: Fn;
+  only: boolean;
+}
+
+interface Suite {
+  kind: 'suite';
+  name: string;
+  entries: (TestEntry | Suite)[];
+  only: boolean;
+  beforeAll: Fn[];
+  afterAll: Fn[];
+  beforeEach: Fn[];
+  afterEach: Fn[];
+}
+
+const createSuite = (name: string, only = false): Suite => ({ kind: 'suite', name, entries: [], only, beforeAll: [], afterAll: [], beforeEach: [], afterEach: [] });
+
+let currentSuite = createSuite('');
+/** Set when the current file uses `.only`; then only the marked tests and suites run. */
+let hasOnly = false;
+
+const formatTitle = (title: string, row: unknown[]) => {
+  let index = 0;
+  return title.replace(/%[sdipjo]/g, () => format(row[index++]).replace(/^"|"$/g, ''));
+};
+
+const withEach = (register: (name: string, fn: Fn) => void) =>
+  (table: unknown[]) => (title: string, fn: Fn) => table.forEach(row => {
+    const args = Array.isArray(row) ? row : [row];
+    register(formatTitle(title, args), () => fn(...args));
+  });
+
+const registerTest = (only: boolean) => (name: string, fn: Fn) => {
+  hasOnly ||= only;
+  currentSuite.entries.push({ kind: 'test', name, fn, only });
+};
+const skip = () => undefined;
+const test = Object.assign(registerTest(false), {
+  only: Object.assign(registerTest(true), { each: withEach(registerTest(true)) }),
+  skip,
+  todo: skip,
+  each: withEach(registerTest(false)),
+});
+
+const registerSuite = (only: boolean) => (name: string, body: Fn) => {
+  hasOnly ||= only;
+  const suite = createSuite(name, only);
+  const parent = currentSuite;
+  parent.entries.push(suite);
+  currentSuite = suite;
+  try {
+    body();
+  } finally {
+    currentSuite = parent;
+  }
+};
+const describe = Object.assign(registerSuite(false), {
+  only: Object.assign(registerSuite(true), { each: withEach(registerSuite(true)) }),
+  skip,
+  each: withEach(registerSuite(false)),
+});
+
+const hooks = {
+  beforeAll: (fn: Fn) => { currentSuite.beforeAll.push(fn); },
+  afterAll: (fn: Fn) => { currentSuite.afterAll.push(fn); },
+  beforeEach: (fn: Fn) => { currentSuite.beforeEach.push(fn); },
+  afterEach: (fn: Fn) => { currentSuite.afterEach.push(fn); },
+};
+
+const TEST_API = { describe, it: test, test, expect, vi, jest: vi, ...hooks };
+
+// --- Module loading --------------------------------------------------------------------------
+
+const interop = (namespace: unknown): Record<string, unknown> => {
+  const wrapped: Record<string, unknown> = Object.assign({ __esModule: true }, namespace);
+  if (!('default' in wrapped)) wrapped.default = namespace;
+  return wrapped;
+};
+
+const member = (value: unknown, name: string) => isObject(value) ? value[name] : undefined;
+
+/** Named export of a CDN module, whether it is exposed directly or only on its default export. */
+const exportedFunction = (namespace: unknown, name: string) => {
+  const value = member(namespace, name) ?? member(member(namespace, 'default'), name);
+  return typeof value === 'function' ? value as Fn : null;
+};
+
+let createReactElement: Fn | null = null;
+let renderToStaticMarkup: Fn | null = null;
+const body = createNode('body');
+
+/** What the running test printed with `debug()`; it is attached to the test's result. */
+let debugOutput: string[] = [];
+const debug = (element: unknown = body) => {
+  const node = asElement(element);
+  debugOutput.push(node ? serialize(node) : format(element));
+};
+
+const screen = { ...boundQueries(() => body), debug };
+
+const render = (ui: unknown, options: { wrapper?: Fn } = {}) => {
+  if (!renderToStaticMarkup || !createReactElement) throw new Error('react-dom/server could not be loaded, so components cannot be rendered');
+  const renderMarkup = (element: unknown) =>
+    String(renderToStaticMarkup!(options.wrapper ? createReactElement!(options.wrapper, null, element) : element));
+  const container = createNode('div', {}, body);
+  parseInto(container, renderMarkup(ui));
+  body.children.push(container);
+  return {
+    container,
+    baseElement: body,
+    asFragment: () => container.innerHTML,
+    debug: (element: unknown = container) => debug(element),
+    rerender: (next: unknown) => parseInto(container, renderMarkup(next)),
+    unmount: () => { body.children = body.children.filter(child => child !== container); },
+    ...boundQueries(() => container),
+  };
+};
+
+const cleanup = () => { body.children = []; };
+
+const unsupportedInteraction = () => {
+  throw new Error('Events are not supported in the QA sandbox: components are rendered statically, so test the initial markup or pure logic instead.');
+};
+const interactions = new Proxy({}, { get: () => unsupportedInteraction });
+
+/** Modules the worker provides instead of loading them from the CDN. */
+const BUILT_IN_MODULES: Record<string, () => unknown> = {
+  'vitest': () => TEST_API,
+  '@jest/globals': () => TEST_API,
+  '@testing-library/react': () => ({ render, screen, cleanup, fireEvent: interactions, act: async (fn?: Fn) => fn?.(), waitFor: async (fn: Fn) => fn() }),
+  '@testing-library/user-event': () => ({ default: { setup: () => interactions, ...interactions } }),
+  '@testing-library/jest-dom': () => ({}),
+  '@testing-library/jest-dom/vitest': () => ({}),
+};
+
+const loadExternals = async (externals: Record<string, string>) => {
+  const loaded: Record<string, unknown> = {};
+  await Promise.all(Object.entries(externals).filter(([specifier]) => !(specifier in BUILT_IN_MODULES)).map(async ([specifier, url]) => {
+    try {
+      loaded[specifier] = interop(await import(/* @vite-ignore */ url));
+    } catch (err) {
+      post({ type: 'error', error: { path: specifier, message: `Could not load ${specifier}: ${describeError(err)}` } });
+    }
+  }));
+  return loaded;
+};
+
+const createRequire = (request: TestWorkerRequest, externals: Record<string, unknown>) => {
+  const cache: Record<string, { exports: unknown }> = {};
+  const require = (id: string): unknown => {
+    if (id in BUILT_IN_MODULES) return interop(BUILT_IN_MODULES[id]());
+    if (id in externals) return externals[id];
+    if (cache[id]) return cache[id].exports;
+    const mod = request.modules[id];
+    if (!mod) throw new Error(`Cannot find module "${id}"`);
+    const module = { exports: {} };
+    cache[id] = module;
+    const factory = new Function('require', 'module', 'exports', '__symbiotic_css', 'process', mod.code);
+    factory(require, module, module.exports, () => undefined, { env: { NODE_ENV: 'test' } });
+    return module.exports;
+  };
+  return require;
+};
+
+// --- Running ---------------------------------------------------------------------------------
+
+const withTimeout = (work: Promise<unknown>, ms: number) => new Promise((resolve, reject) => {
+  const timer = setTimeout(() => reject(new Error(`Test timed out after ${ms} ms`)), ms);
+  work.then(resolve, reject).finally(() => clearTimeout(timer));
+});
+
+/** Whether `entry` runs, or a test inside it does; `selected` is set when no `.only` limits what runs here. */
+const runs = (entry: TestEntry | Suite, selected: boolean): boolean =>
+  entry.kind === 'test' ? selected || entry.only : entry.entries.some(child => runs(child, selected || entry.only));
+
+const runSuite = async (file: string, suite: Suite, path: string[], inherited: Pick<Suite, 'beforeEach' | 'afterEach'>, timeoutMs: number, selected: boolean) => {
+  const report = (name: string, error?: unknown) => {
+    const result: TestCaseResult = { file, name: [...path, name].join(' › '), status: error === undefined ? 'passed' : 'failed' };
+    if (error !== undefined) result.error = describeError(error);
+    if (debugOutput.length > 0) result.output = debugOutput.join('\n');
+    debugOutput = [];
+    post({ type: 'result', result });
+  };
+  const selectedHere = selected || suite.only;
+  if (!runs(suite, selected)) return;
+  const beforeEach = [...inherited.beforeEach, ...suite.beforeEach];
+  const afterEach = [...suite.afterEach, ...inherited.afterEach];
+
+  try {
+    for (const hook of suite.beforeAll) await withTimeout(Promise.resolve().then(hook), timeoutMs);
+  } catch (err) {
+    report('beforeAll', err);
+    return;
+  }
+  for (const entry of suite.entries) {
+    if (!runs(entry, selectedHere)) continue;
+    if (entry.kind === 'suite') {
+      await runSuite(file, entry, [...path, entry.name], { beforeEach, afterEach }, timeoutMs, selectedHere);
+      continue;
+    }
+    let failure: unknown;
+    try {
+      for (const hook of beforeEach) await withTimeout(Promise.resolve().then(hook), timeoutMs);
+      await withTimeout(Promise.resolve().then(entry.fn), timeoutMs);
+    } catch (err) {
+      failure = err ?? new Error('Test failed');
+    }
+    try {
+      for (const hook of afterEach) await withTimeout(Promise.resolve().then(hook), timeoutMs);
+    } catch (err) {
+      failure = failure ?? err;
+    }
+    cleanup();
+    vi.restoreAllMocks();
+    report(entry.name, failure);
+  }
+  for (const hook of suite.afterAll) await Promise.resolve().then(hook).catch(() => undefined);
+};
+
+self.onmessage = async (event: MessageEvent<TestWorkerRequest>) => {
+  const request = event.data;
+  const externals = await loadExternals(request.externals);
+  createReactElement = exportedFunction(externals['react'], 'createElement');
+  renderToStaticMarkup = exportedFunction(externals['react-dom/server'], 'renderToStaticMarkup');
+  Object.assign(globalThis, TEST_API);
+
+  for (const file of request.testPaths) {
+    currentSuite = createSuite('');
+    hasOnly = false;
+    mocks = [];
+    debugOutput = [];
+    try {
+      createRequire(request, externals)(file);
+    } catch (err) {
+      post({ type: 'error', error: { path: file, message: describeError(err) } });
+      continue;
+    }
+    await runSuite(file, currentSuite, [], { beforeEach: [], afterEach: [] }, request.testTimeoutMs, !hasOnly);
+  }
+  post({ type: 'done' });
+};
@@ -0,0 +1,94 @@
+import { ChatMessage, ConversationThread } from '../types';
+
+/**
+ * Conversation threads of a project. Pure and immutable like `virtualFs`; `storage` persists
+ * them and the workspace keeps the open thread's messages and tasks in its own state.
+ */
+
+export interface ThreadMatch {
+  thread: ConversationThread;
+  /** The first message containing the query, or null when only the title matched (or no query). */
+  excerpt: { before: string; match: string; after: string } | null;
+}
+
+const TITLE_LENGTH = 60;
+const EXCERPT_CONTEXT = 40;
+
+export const createThread = (id: string): ConversationThread => {
+  const now = Date.now();
+  return { id, title: '', createdAt: now, updatedAt: now, messages: [], tasks: [] };
+};
+
+/** The first line of the first user message, shortened; empty until the user has written one. */
+export const threadTitle = (messages: ChatMessage[]) => {
+  const first = messages.find(message => message.sender === 'user' && message.text.trim())?.text.trim().split('\n')[0] ?? '';
+  return first.length > TITLE_LENGTH ? `${first.slice(0, TITLE_LENGTH - 1)}…` : first;
+};
+
+/** The thread with `messages` and `tasks`; an untitled thread is named after its first user message. */
+export const updateThread = (thread: ConversationThread, messages: ChatMessage[], tasks: ConversationThread['tasks']): ConversationThread =>
+  ({ ...thread, messages, tasks, title: thread.title || threadTitle(messages), updatedAt: Date.now() });
+
+/** A new thread holding the messages of `thread` up to and including `messageId`. */
+export const branchThread = (thread: ConversationThread, messageId: string, id: string): ConversationThread => {
+  const index = thread.messages.findIndex(message => message.id === messageId);
+  const messages = thread.messages.slice(0, index + 1);
+  return { ...createThread(id), title: `${thread.title || threadTitle(messages) || 'Conversation'} (branch)`, messages };
+};
+
+/**
+ * The checkpoints of a conversation, oldest first, labeled with the request of their turn. The
+ * replies of one run share the checkpoint taken after it, so it is listed once.
+ */
+export const threadCheckpoints = (messages: ChatMessage[]) => {
+  const checkpoints: { id: string; label: string }[] = [];
+  let request = '';
+  messages.forEach(message => {
+    if (message.sender === 'user') request = threadTitle([message]) || '(image)';
+    if (!message.checkpoint || checkpoints.some(checkpoint => checkpoint.id === message.checkpoint)) return;
+    checkpoints.push({ id: message.checkpoint, label: `${message.sender === 'user' ? 'Before' : 'After'}: ${request || 'agent run'}` });
+  });
+  return checkpoints;
+};
+
+/**
+ * A thread as read back from storage. A page closed mid-run leaves messages marked as streaming
+ * and tasks still active; they are settled here so the chat does not wait for them forever.
+ */
+export const restoreThread = (thread: ConversationThread): ConversationThread => ({
+  ...thread,
+  messages: thread.messages.map(message => ({
+    ...message,
+    timestamp: message.timestamp instanceof Date ? message.timestamp : new Date(message.timestamp),
+    streaming: undefined,
+  })),
+  tasks: thread.tasks.map(task => task.status === 'active' || task.status === 'pending'
+    ? { ...task, status: 'failed', description: 'Interrupted: the page was closed while this task was running.' }
+    : task),
+});
+
+/** Most recently updated first. */
+export const sortThreads = (threads: ConversationThread[]) => [...threads].sort((a, b) => b.updatedAt - a.updatedAt);
+
+/** Threads whose title or messages contain `query` (case-insensitive), most recent first; all of them for an empty query. */
+export const searchThreads = (threads: ConversationThread[], query: string): ThreadMatch[] => {
+  const needle = query.trim().toLowerCase();
+  return sortThreads(threads).flatMap(thread => {
+    if (!needle) return [{ thread, excerpt: null }];
+    for (const message of thread.messages) {
+      const at = message.text.toLowerCase().indexOf(needle);
+      if (at === -1) continue;
+      const start = Math.max(0, at - EXCERPT_CONTEXT);
+      const end = at + needle.length;
+      return [{
+        thread,
+        excerpt: {
+          before: `${start > 0 ? '…' : ''}${message.text.slice(start, at)}`.replace(/\s+/g, ' '),
+          match: message.text.slice(at, end),
+          after: message.text.slice(end, end + EXCERPT_CONTEXT).replace(/\s+/g, ' '),
+        },
+      }];
+    }
+    return thread.title.toLowerCase().includes(needle) ? [{ thread, excerpt: null }] : [];
+  });
+};
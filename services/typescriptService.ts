@@ -0,0 +1,92 @@
+import { CodeDiagnostic, FileNode } from '../types';
+import { listFiles } from './virtualFs';
+
+/**
+ * Client for the TypeScript language service running in a module worker. Every request carries
+ * the project tree it refers to (the editor's files or an agent run's working tree); the worker
+ * only re-checks files whose content changed since the previous request.
+ */
+
+export interface QuickInfo {
+  /** Signature or type, e.g. `const count: number`. */
+  text: string;
+  documentation: string;
+  from: number;
+  to: number;
+}
+
+export interface DefinitionLocation {
+  path: string;
+  offset: number;
+}
+
+export type TypeScriptQuery =
+  | { type: 'diagnostics' }
+  | { type: 'quickInfo'; path: string; position: number }
+  | { type: 'definition'; path: string; position: number };
+
+export type TypeScriptRequest = TypeScriptQuery & {
+  id: number;
+  /** Project path -> content, for every file of the tree. */
+  files: Record<string, string>;
+};
+
+export type TypeScriptResponse =
+  | { id: number; type: 'diagnostics'; diagnostics: CodeDiagnostic[] }
+  | { id: number; type: 'quickInfo'; info: QuickInfo | null }
+  | { id: number; type: 'definition'; location: DefinitionLocation | null }
+  | { id: number; type: 'error'; message: string };
+
+let worker: Worker | null = null;
+let nextId = 0;
+const pending = new Map<number, { resolve: (response: TypeScriptResponse) => void; reject: (err: Error) => void }>();
+
+/** Started on first use: loading the compiler and the DOM typings takes a moment. */
+const getWorker = () => {
+  if (worker) return worker;
+  worker = new Worker(new URL('./typescriptWorker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (event: MessageEvent<TypeScriptResponse>) => {
+    const response = event.data;
+    const request = pending.get(response.id);
+    pending.delete(response.id);
+    if (response.type === 'error') request?.reject(new Error(response.message));
+    else request?.resolve(response);
+  };
+  worker.onerror = (event) => {
+    event.preventDefault();
+    // A crashed compiler fails what is in flight; the next request starts a fresh worker.
+    pending.forEach(request => request.reject(new Error(event.message || 'TypeScript worker crashed')));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  };
+  return worker;
+};
+
+const send = (query: TypeScriptQuery, files: FileNode[]) => new Promise<TypeScriptResponse>((resolve, reject) => {
+  const id = ++nextId;
+  pending.set(id, { resolve, reject });
+  const request: TypeScriptRequest = {
+    ...query,
+    id,
+    files: Object.fromEntries(listFiles(files).map(({ path, node }) => [path, node.content ?? ''])),
+  };
+  getWorker().postMessage(request);
+});
+
+/** Syntax and type errors of every TypeScript/JavaScript file in the tree. */
+export const checkProject = async (files: FileNode[]) => {
+  const response = await send({ type: 'diagnostics' }, files);
+  return response.type === 'diagnostics' ? response.diagnostics : [];
+};
+
+export const getQuickInfo = async (files: FileNode[], path: string, position: number) => {
+  const response = await send({ type: 'quickInfo', path, position }, files);
+  return response.type === 'quickInfo' ? response.info : null;
+};
+
+/** Where the symbol at `position` is declared, when that is a project file. */
+export const findDefinition = async (files: FileNode[], path: string, position: number) => {
+  const response = await send({ type: 'definition', path, position }, files);
+  return response.type === 'definition' ? response.location : null;
+};
@@ -0,0 +1,156 @@
+import ts from 'typescript';
+import type { CodeDiagnostic } from '../types';
+import type { TypeScriptRequest, TypeScriptResponse } from './typescriptService';
+
+/**
+ * Module worker behind `typescriptService`: one language service over the project's files, which
+ * live at `/<project path>`. Packages are not installed, so every bare import is declared as an
+ * untyped module; relative imports must resolve to a project file.
+ */
+
+const LIB_DIR = '/node_modules/typescript/lib/';
+const AMBIENT_PATH = '/__symbiotic_ambient.d.ts';
+
+// The ES2022 + DOM declarations, bundled with the worker.
+const LIB_FILES: Record<string, string> = Object.fromEntries(
+  Object.entries(import.meta.glob<string>(
+    '../node_modules/typescript/lib/lib.{es5,es201*,es202[012]*,dom,dom.iterable,decorators*}.d.ts',
+    { query: '?raw', import: 'default', eager: true }
+  )).map(([path, text]) => [LIB_DIR + path.split('/').pop(), text])
+);
+
+// Assets imported for their side effects or URL.
+const ASSET_MODULES = ['css', 'svg', 'png', 'jpg', 'jpeg', 'gif', 'webp'].map(extension => `declare module '*.${extension}';`);
+
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2022,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  jsx: ts.JsxEmit.ReactJSX,
+  lib: ['lib.es2022.d.ts', 'lib.dom.d.ts', 'lib.dom.iterable.d.ts'],
+  // Untyped packages make everything imported from them `any`; strict mode would flag all of it.
+  strict: false,
+  allowJs: true,
+  resolveJsonModule: true,
+  allowImportingTsExtensions: true,
+  esModuleInterop: true,
+  isolatedModules: true,
+  skipLibCheck: true,
+  noEmit: true,
+};
+
+const isScript = (path: string) => /\.(tsx?|jsx?|mts|cts)$/.test(path);
+const isBare = (specifier: string) => !specifier.startsWith('.') && !specifier.startsWith('/');
+
+const contents = new Map<string, string>();
+const versions = new Map<string, number>();
+
+const writeVersioned = (path: string, text: string) => {
+  if (contents.get(path) === text) return;
+  contents.set(path, text);
+  versions.set(path, (versions.get(path) ?? 0) + 1);
+};
+
+const ambientDeclarations = () => {
+  const packages = new Set(['react/jsx-runtime']);
+  contents.forEach((text, path) => {
+    if (!isScript(path)) return;
+    ts.preProcessFile(text, true, true).importedFiles
+      .filter(({ fileName }) => isBare(fileName))
+      .forEach(({ fileName }) => packages.add(fileName));
+  });
+  return [...ASSET_MODULES, ...[...packages].sort().map(name => `declare module ${JSON.stringify(name)};`)].join('\n');
+};
+
+/** Mirrors the request's tree; unchanged files keep their version, so their checks are reused. */
+const sync = (files: Record<string, string>) => {
+  [...contents.keys()].filter(path => path !== AMBIENT_PATH && !Object.hasOwn(files, path.slice(1))).forEach(path => {
+    contents.delete(path);
+    versions.delete(path);
+  });
+  Object.entries(files).forEach(([path, text]) => writeVersioned(`/${path}`, text));
+  writeVersioned(AMBIENT_PATH, ambientDeclarations());
+};
+
+const readFile = (path: string) => contents.get(path) ?? LIB_FILES[path];
+
+const host: ts.LanguageServiceHost = {
+  getScriptFileNames: () => [...contents.keys()].filter(path => path === AMBIENT_PATH || isScript(path)),
+  getScriptVersion: path => String(versions.get(path) ?? 0),
+  getScriptSnapshot: path => {
+    const text = readFile(path);
+    return text === undefined ? undefined : ts.ScriptSnapshot.fromString(text);
+  },
+  getCurrentDirectory: () => '/',
+  getCompilationSettings: () => COMPILER_OPTIONS,
+  getDefaultLibFileName: options => LIB_DIR + ts.getDefaultLibFileName(options),
+  fileExists: path => readFile(path) !== undefined,
+  readFile,
+};
+
+const service = ts.createLanguageService(host, ts.createDocumentRegistry());
+
+const SEVERITY: Record<ts.DiagnosticCategory, CodeDiagnostic['severity']> = {
+  [ts.DiagnosticCategory.Error]: 'error',
+  [ts.DiagnosticCategory.Warning]: 'warning',
+  [ts.DiagnosticCategory.Suggestion]: 'info',
+  [ts.DiagnosticCategory.Message]: 'info',
+};
+
+const toDiagnostic = (path: string, diagnostic: ts.Diagnostic): CodeDiagnostic => {
+  const from = diagnostic.start ?? 0;
+  const { line, character } = diagnostic.file?.getLineAndCharacterOfPosition(from) ?? { line: 0, character: 0 };
+  return {
+    path,
+    from,
+    to: from + (diagnostic.length ?? 0),
+    line: line + 1,
+    column: character + 1,
+    severity: SEVERITY[diagnostic.category],
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+    code: diagnostic.code,
+  };
+};
+
+const diagnostics = () => host.getScriptFileNames()
+  .filter(path => path !== AMBIENT_PATH)
+  .flatMap(path => [...service.getSyntacticDiagnostics(path), ...service.getSemanticDiagnostics(path)]
+    .map(diagnostic => toDiagnostic(path.slice(1), diagnostic)));
+
+const answer = (request: TypeScriptRequest): TypeScriptResponse => {
+  const { id } = request;
+  switch (request.type) {
+    case 'diagnostics':
+      return { id, type: 'diagnostics', diagnostics: diagnostics() };
+    case 'quickInfo': {
+      const info = service.getQuickInfoAtPosition(`/${request.path}`, request.position);
+      return {
+        id,
+        type: 'quickInfo',
+        info: info ? {
+          text: ts.displayPartsToString(info.displayParts),
+          documentation: ts.displayPartsToString(info.documentation),
+          from: info.textSpan.start,
+          to: info.textSpan.start + info.textSpan.length,
+        } : null,
+      };
+    }
+    case 'definition': {
+      const definition = (service.getDefinitionAtPosition(`/${request.path}`, request.position) ?? [])
+        .find(entry => contents.has(entry.fileName) && entry.fileName !== AMBIENT_PATH);
+      return { id, type: 'definition', location: definition ? { path: definition.fileName.slice(1), offset: definition.textSpan.start } : null };
+    }
+  }
+};
+
+self.onmessage = (event: MessageEvent<TypeScriptRequest>) => {
+  const request = event.data;
+  let response: TypeScriptResponse;
+  try {
+    sync(request.files);
+    response = answer(request);
+  } catch (err) {
+    response = { id: request.id, type: 'error', message: err instanceof Error ? err.message : String(err) };
+  }
+  self.postMessage(response);
+};
@@ -0,0 +1,136 @@
+import { AgentRole, TokenUsage } from '../types';
+import { ModelUsage } from './providers/types';
+
+/**
+ * Token and cost accounting for agent runs. Providers report the tokens of each call; they are
+ * priced here and added up per task, run and project, then checked against the user's budget.
+ * Prices are list prices, so costs are estimates.
+ */
+
+export interface RunUsage {
+  request: string;
+  finishedAt: number;
+  usage: TokenUsage;
+}
+
+export interface ProjectUsage {
+  total: TokenUsage;
+  byRole: Partial<Record<AgentRole, TokenUsage>>;
+  byModel: Record<string, TokenUsage>;
+  /** Most recent first. */
+  runs: RunUsage[];
+}
+
+/** Limits of the agents' spending; an unset limit does not apply. */
+export interface UsageBudget {
+  runTokens?: number;
+  /** USD. */
+  runCost?: number;
+  /** USD, everything the project's runs have cost so far included. */
+  projectCost?: number;
+  /** `stop` ends a run before its next model call once a limit is passed; `warn` only reports it. */
+  onExceed: 'warn' | 'stop';
+}
+
+export type BudgetLimit = 'runTokens' | 'runCost' | 'projectCost';
+
+const BUDGET_KEY = 'symbiotic_budget';
+const MAX_RECORDED_RUNS = 50;
+
+export const DEFAULT_BUDGET: UsageBudget = { onExceed: 'warn' };
+
+export const EMPTY_USAGE: TokenUsage = { calls: 0, inputTokens: 0, outputTokens: 0, thinkingTokens: 0, cost: 0, unpricedCalls: 0 };
+
+export const EMPTY_PROJECT_USAGE: ProjectUsage = { total: EMPTY_USAGE, byRole: {}, byModel: {}, runs: [] };
+
+/** USD per million tokens, matched by prefix so dated model versions share a price. */
+const MODEL_PRICES: [string, { input: number; output: number }][] = [
+  ['gemini-3-pro', { input: 2, output: 12 }],
+  ['gemini-3-flash', { input: 0.5, output: 3 }],
+  ['gemini-2.5-pro', { input: 1.25, output: 10 }],
+  ['gemini-2.5-flash', { input: 0.3, output: 2.5 }],
+  ['gpt-4o-mini', { input: 0.15, output: 0.6 }],
+  ['gpt-4o', { input: 2.5, output: 10 }],
+];
+
+export const priceCall = (call: ModelUsage): TokenUsage => {
+  const price = MODEL_PRICES.find(([prefix]) => call.model.startsWith(prefix))?.[1];
+  return {
+    calls: 1,
+    inputTokens: call.inputTokens,
+    outputTokens: call.outputTokens,
+    thinkingTokens: call.thinkingTokens,
+    cost: price ? (call.inputTokens * price.input + (call.outputTokens + call.thinkingTokens) * price.output) / 1_000_000 : 0,
+    unpricedCalls: price ? 0 : 1,
+  };
+};
+
+export const addUsage = (a: TokenUsage, b: TokenUsage): TokenUsage => ({
+  calls: a.calls + b.calls,
+  inputTokens: a.inputTokens + b.inputTokens,
+  outputTokens: a.outputTokens + b.outputTokens,
+  thinkingTokens: a.thinkingTokens + b.thinkingTokens,
+  cost: a.cost + b.cost,
+  unpricedCalls: a.unpricedCalls + b.unpricedCalls,
+});
+
+export const totalTokens = (usage: TokenUsage) => usage.inputTokens + usage.outputTokens + usage.thinkingTokens;
+
+/** Adds one priced call to the project's totals. */
+export const recordCall = (project: ProjectUsage, role: AgentRole, model: string, usage: TokenUsage): ProjectUsage => ({
+  ...project,
+  total: addUsage(project.total, usage),
+  byRole: { ...project.byRole, [role]: addUsage(project.byRole[role] ?? EMPTY_USAGE, usage) },
+  byModel: { ...project.byModel, [model]: addUsage(project.byModel[model] ?? EMPTY_USAGE, usage) },
+});
+
+/** Adds a finished run to the project's recent runs; its calls are already in the totals. */
+export const recordRun = (project: ProjectUsage, request: string, usage: TokenUsage): ProjectUsage => ({
+  ...project,
+  runs: [{ request, finishedAt: Date.now(), usage }, ...project.runs].slice(0, MAX_RECORDED_RUNS),
+});
+
+export const parseProjectUsage = (saved: string | undefined): ProjectUsage => {
+  try {
+    const parsed = saved ? JSON.parse(saved) : null;
+    return parsed && typeof parsed.total?.calls === 'number' && Array.isArray(parsed.runs) ? { ...EMPTY_PROJECT_USAGE, ...parsed } : EMPTY_PROJECT_USAGE;
+  } catch {
+    return EMPTY_PROJECT_USAGE;
+  }
+};
+
+/**
+ * The limits `budget` has been passed, with a sentence for each. `runUsage` is the run so far and
+ * `projectCost` the project's cost with the run included.
+ */
+export const exceededLimits = (budget: UsageBudget, runUsage: TokenUsage, projectCost: number) => {
+  const exceeded: { limit: BudgetLimit; message: string }[] = [];
+  if (budget.runTokens !== undefined && totalTokens(runUsage) > budget.runTokens) {
+    exceeded.push({ limit: 'runTokens', message: `the run used ${formatTokens(totalTokens(runUsage))} tokens of its ${formatTokens(budget.runTokens)} budget` });
+  }
+  if (budget.runCost !== undefined && runUsage.cost > budget.runCost) {
+    exceeded.push({ limit: 'runCost', message: `the run cost ${formatCost(runUsage.cost)} of its ${formatCost(budget.runCost)} budget` });
+  }
+  if (budget.projectCost !== undefined && projectCost > budget.projectCost) {
+    exceeded.push({ limit: 'projectCost', message: `the project cost ${formatCost(projectCost)} of its ${formatCost(budget.projectCost)} budget` });
+  }
+  return exceeded;
+};
+
+export const loadBudget = (): UsageBudget => {
+  try {
+    const saved = localStorage.getItem(BUDGET_KEY);
+    return saved ? { ...DEFAULT_BUDGET, ...JSON.parse(saved) } : DEFAULT_BUDGET;
+  } catch {
+    return DEFAULT_BUDGET;
+  }
+};
+
+export const saveBudget = (budget: UsageBudget) => {
+  localStorage.setItem(BUDGET_KEY, JSON.stringify(budget));
+};
+
+export const formatTokens = (count: number) =>
+  count >= 1_000_000 ? `${(count / 1_000_000).toFixed(2)}M` : count >= 1000 ? `${(count / 1000).toFixed(1)}k` : String(count);
+
+export const formatCost = (cost: number) => `$${cost < 1 ? cost.toFixed(4) : cost.toFixed(2)}`;
@@ -0,0 +1,144 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Commit, FileNode } from '../types';
+import { checkoutBranch, commitFiles, commitLog, compareSnapshots, createBranch, openRepository, readSnapshot, removeBranch, tipOf, treeEdits, validateBranchName } from './versionControl';
+import { listEntries, readFile, writeFile } from './virtualFs';
+
+/** An in-memory stand-in for the IndexedDB stores the repository writes to. */
+const store = vi.hoisted(() => ({
+  commits: new Map<string, Commit>(),
+  blobs: new Map<string, string>(),
+  refs: new Map<string, string | null>(),
+  items: new Map<string, string>(),
+  blobWrites: [] as string[][],
+}));
+
+vi.mock('./storage', () => ({
+  readHistory: async () => ({ commits: [...store.commits.values()], branches: Object.fromEntries(store.refs), skipped: 0 }),
+  readBlobs: async (_projectId: string, hashes: string[]) =>
+    new Map(hashes.flatMap(hash => store.blobs.has(hash) ? [[hash, store.blobs.get(hash)!] as const] : [])),
+  writeCommit: async (_projectId: string, commit: Commit, blobs: Map<string, string>, branch: string | null) => {
+    store.blobWrites.push([...blobs.keys()]);
+    blobs.forEach((content, hash) => store.blobs.set(hash, content));
+    store.commits.set(commit.id, commit);
+    if (branch !== null) store.refs.set(branch, commit.id);
+  },
+  writeBranch: async (_projectId: string, name: string, commit: string | null) => {
+    store.refs.set(name, commit);
+  },
+  deleteBranch: async (_projectId: string, name: string) => {
+    store.refs.delete(name);
+  },
+  saveProjectItem: async (_projectId: string, item: string, value: string) => {
+    store.items.set(item, value);
+  },
+}));
+
+const FILES: FileNode[] = writeFile(writeFile(writeFile([], 'src/App.tsx', 'app'), 'src/components/Nav.tsx', 'nav'), 'README.md', 'app');
+
+beforeEach(() => {
+  store.commits.clear();
+  store.blobs.clear();
+  store.refs.clear();
+  store.items.clear();
+  store.blobWrites.length = 0;
+});
+
+describe('treeEdits', () => {
+  it('lists added, changed and removed files only', () => {
+    const after = writeFile(writeFile(FILES, 'src/App.tsx', 'app v2'), 'src/Footer.tsx', 'footer');
+    expect(treeEdits(FILES, after)).toEqual([
+      { path: 'src/App.tsx', before: 'app', after: 'app v2' },
+      { path: 'src/Footer.tsx', before: null, after: 'footer' },
+    ]);
+    expect(treeEdits(after, FILES)).toContainEqual({ path: 'src/Footer.tsx', before: 'footer', after: null });
+    expect(treeEdits(FILES, FILES)).toEqual([]);
+  });
+});
+
+describe('commitFiles', () => {
+  it('starts an empty main branch and extends it with each commit', async () => {
+    const repo = await openRepository('project');
+    expect(repo.branches).toEqual({ main: null });
+
+    const first = await commitFiles(repo, FILES, 'First', 'user');
+    const second = await commitFiles(first.repo, writeFile(FILES, 'src/App.tsx', 'app v2'), '  ', 'agent');
+
+    expect(second.commit.parent).toBe(first.commit.id);
+    expect(second.commit.message).toBe('Snapshot');
+    expect(tipOf(second.repo)).toBe(second.commit);
+    expect(commitLog(second.repo, second.commit.id).map(commit => commit.id)).toEqual([second.commit.id, first.commit.id]);
+    expect(store.refs.get('main')).toBe(second.commit.id);
+    // A reloaded repository sees the same history.
+    expect((await openRepository('project')).branches).toEqual(second.repo.branches);
+  });
+
+  it('stores each distinct content once, across files and commits', async () => {
+    const first = await commitFiles(await openRepository('project'), FILES, 'First', 'user');
+    await commitFiles(first.repo, writeFile(FILES, 'src/App.tsx', 'app v2'), 'Second', 'user');
+
+    // README.md and src/App.tsx share a blob; the second commit only adds the new App.tsx.
+    expect(store.blobWrites.map(hashes => hashes.length)).toEqual([2, 1]);
+    expect(store.blobs.size).toBe(3);
+    const blobOf = (commit: Commit, path: string) => commit.tree.find(entry => entry.path === path)?.blob;
+    expect(blobOf(first.commit, 'README.md')).toBe(blobOf(first.commit, 'src/App.tsx'));
+  });
+});
+
+describe('readSnapshot', () => {
+  it('rebuilds the tree with its folders, order and languages', async () => {
+    const { repo, commit } = await commitFiles(await openRepository('project'), FILES, 'First', 'user');
+    const snapshot = await readSnapshot(repo, commit);
+
+    expect(listEntries(snapshot).map(({ path, node }) => [path, node.type, node.content, node.language]))
+      .toEqual(listEntries(FILES).map(({ path, node }) => [path, node.type, node.content, node.language]));
+  });
+});
+
+describe('compareSnapshots', () => {
+  it('diffs two commits file by file', async () => {
+    const first = await commitFiles(await openRepository('project'), FILES, 'First', 'user');
+    const changed = writeFile(writeFile(FILES, 'src/App.tsx', 'app v2'), 'src/Footer.tsx', 'footer');
+    const second = await commitFiles(first.repo, changed, 'Second', 'user');
+
+    const diffs = await compareSnapshots(second.repo, first.commit, second.commit);
+    expect(diffs.map(({ path, status }) => [path, status])).toEqual([['src/App.tsx', 'modified'], ['src/Footer.tsx', 'added']]);
+    expect(diffs[0].diff).toBe('--- a/src/App.tsx\n+++ b/src/App.tsx\n@@ -1,1 +1,1 @@\n-app\n+app v2');
+  });
+
+  it('compares against an empty project when there is no earlier commit', async () => {
+    const { repo, commit } = await commitFiles(await openRepository('project'), FILES, 'First', 'user');
+    const diffs = await compareSnapshots(repo, null, commit);
+    expect(diffs.map(diff => diff.status)).toEqual(['added', 'added', 'added']);
+  });
+});
+
+describe('branches', () => {
+  it('checks out a branch whose tip restores the files it was created with', async () => {
+    const first = await commitFiles(await openRepository('project'), FILES, 'First', 'user');
+    const branched = await createBranch(first.repo, ' feature ', first.commit.id);
+    expect(branched.head).toBe('feature');
+    expect(store.items.get('vcs_head')).toBe('feature');
+
+    const onFeature = await commitFiles(branched, writeFile(FILES, 'src/App.tsx', 'feature app'), 'Feature', 'user');
+    expect(onFeature.repo.branches.main).toBe(first.commit.id);
+
+    const backOnMain = await checkoutBranch(onFeature.repo, 'main');
+    expect(readFile(await readSnapshot(backOnMain, tipOf(backOnMain)!), 'src/App.tsx')).toBe('app');
+    const backOnFeature = await checkoutBranch(backOnMain, 'feature');
+    expect(readFile(await readSnapshot(backOnFeature, tipOf(backOnFeature)!), 'src/App.tsx')).toBe('feature app');
+    expect((await openRepository('project', 'feature')).head).toBe('feature');
+  });
+
+  it('validates branch names and refuses to delete the checked-out branch', async () => {
+    const repo = await openRepository('project');
+    expect(validateBranchName(repo, 'main')).toBe('A branch named "main" already exists');
+    expect(validateBranchName(repo, 'fix bug')).toBe('Use letters, digits, ".", "-", "_" and "/" only');
+    expect(validateBranchName(repo, 'fix/bug-1')).toBeNull();
+    await expect(checkoutBranch(repo, 'missing')).rejects.toThrow('Branch "missing" does not exist');
+    await expect(removeBranch(repo, 'main')).rejects.toThrow('The checked-out branch cannot be deleted');
+
+    const withFeature = await checkoutBranch(await createBranch(repo, 'feature', null), 'main');
+    expect((await removeBranch(withFeature, 'feature')).branches).toEqual({ main: null });
+    expect(store.refs.has('feature')).toBe(false);
+  });
+});
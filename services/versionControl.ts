@@ -0,0 +1,166 @@
+import { Commit, FileNode, TreeEntry } from '../types';
+import { formatUnifiedDiff } from './diff';
+import { FileEdit } from './editHistory';
+import { deleteBranch, readBlobs, readHistory, saveProjectItem, writeBranch, writeCommit } from './storage';
+import { basename, dirname, listEntries, listFiles } from './virtualFs';
+
+/**
+ * Local version control for a project: commits are snapshots of the whole file tree, chained by
+ * parent, and branches point at commits. File contents are stored once per distinct content,
+ * keyed by their SHA-256. A `Repository` value is immutable; every operation writes to `storage`
+ * and resolves with the next one.
+ */
+
+export interface Repository {
+  projectId: string;
+  commits: Record<string, Commit>;
+  /** Branch name to its latest commit, or null before the branch has one. */
+  branches: Record<string, string | null>;
+  /** The checked-out branch; new commits extend it. */
+  head: string;
+}
+
+export interface SnapshotDiff {
+  path: string;
+  status: 'added' | 'modified' | 'deleted';
+  diff: string;
+}
+
+export const DEFAULT_BRANCH = 'main';
+
+const hashContent = async (text: string) => {
+  if (!globalThis.crypto?.subtle) throw new Error('Version control needs a secure context (https or localhost) to hash files.');
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const tipOf = (repo: Repository, branch = repo.head) => {
+  const id = repo.branches[branch];
+  return id ? repo.commits[id] ?? null : null;
+};
+
+/** Commits reachable from `id`, newest first. */
+export const commitLog = (repo: Repository, id: string | null) => {
+  const log: Commit[] = [];
+  for (let commit = id ? repo.commits[id] : undefined; commit; commit = commit.parent ? repo.commits[commit.parent] : undefined) {
+    log.push(commit);
+  }
+  return log;
+};
+
+/** An error to show for `name`, or null when a branch may be created with it. */
+export const validateBranchName = (repo: Repository, name: string) => {
+  const trimmed = name.trim();
+  if (!trimmed) return 'Branch name cannot be empty';
+  if (!/^[\w.-]+(\/[\w.-]+)*$/.test(trimmed)) return 'Use letters, digits, ".", "-", "_" and "/" only';
+  if (trimmed in repo.branches) return `A branch named "${trimmed}" already exists`;
+  return null;
+};
+
+/** Edits that turn the files of `before` into those of `after`; unchanged files are left out. */
+export const treeEdits = (before: FileNode[], after: FileNode[]): FileEdit[] => {
+  const beforeFiles = new Map(listFiles(before).map(({ path, node }) => [path, node.content ?? '']));
+  const afterFiles = new Map(listFiles(after).map(({ path, node }) => [path, node.content ?? '']));
+  return [...new Set([...beforeFiles.keys(), ...afterFiles.keys()])]
+    .filter(path => beforeFiles.get(path) !== afterFiles.get(path))
+    .map(path => ({ path, before: beforeFiles.get(path) ?? null, after: afterFiles.get(path) ?? null }));
+};
+
+const snapshotTree = async (files: FileNode[]) => {
+  const blobs = new Map<string, string>();
+  const tree: TreeEntry[] = [];
+  for (const { path, node } of listEntries(files)) {
+    if (node.type === 'folder') {
+      tree.push({ path, type: 'folder' });
+      continue;
+    }
+    const content = node.content ?? '';
+    const blob = await hashContent(content);
+    blobs.set(blob, content);
+    tree.push({ path, type: 'file', blob, ...(node.language ? { language: node.language } : {}) });
+  }
+  return { tree, blobs };
+};
+
+const buildTree = (tree: TreeEntry[], blobs: Map<string, string>) => {
+  const root: FileNode[] = [];
+  const folders = new Map<string, FileNode[]>([['', root]]);
+  tree.forEach(entry => {
+    const siblings = folders.get(dirname(entry.path));
+    if (!siblings) return;
+    if (entry.type === 'folder') {
+      const children: FileNode[] = [];
+      folders.set(entry.path, children);
+      siblings.push({ name: basename(entry.path), type: 'folder', children });
+    } else {
+      siblings.push({ name: basename(entry.path), type: 'file', content: blobs.get(entry.blob ?? '') ?? '', ...(entry.language ? { language: entry.language } : {}) });
+    }
+  });
+  return root;
+};
+
+/** Loads the project's history; a project without one starts on an empty `main` branch. */
+export const openRepository = async (projectId: string, savedHead?: string): Promise<Repository> => {
+  const { commits, branches } = await readHistory(projectId);
+  if (Object.keys(branches).length === 0) branches[DEFAULT_BRANCH] = null;
+  const head = savedHead && savedHead in branches ? savedHead : DEFAULT_BRANCH in branches ? DEFAULT_BRANCH : Object.keys(branches)[0];
+  return { projectId, commits: Object.fromEntries(commits.map(commit => [commit.id, commit])), branches, head };
+};
+
+/** Snapshots `files` as a new commit on the checked-out branch. */
+export const commitFiles = async (repo: Repository, files: FileNode[], message: string, author: Commit['author']) => {
+  const { tree, blobs } = await snapshotTree(files);
+  // Contents already referenced by a commit are stored; only new ones are written.
+  const stored = new Set(Object.values(repo.commits).flatMap(commit => commit.tree.flatMap(entry => entry.blob ? [entry.blob] : [])));
+  const added = new Map([...blobs].filter(([hash]) => !stored.has(hash)));
+  const fields = { parent: repo.branches[repo.head] ?? null, message: message.trim() || 'Snapshot', author, createdAt: Date.now(), tree };
+  const commit: Commit = { id: await hashContent(JSON.stringify(fields)), ...fields };
+  await writeCommit(repo.projectId, commit, added, repo.head);
+  return { repo: { ...repo, commits: { ...repo.commits, [commit.id]: commit }, branches: { ...repo.branches, [repo.head]: commit.id } }, commit };
+};
+
+/** The file tree as it was at `commit`. */
+export const readSnapshot = async (repo: Repository, commit: Commit) => {
+  const blobs = await readBlobs(repo.projectId, commit.tree.flatMap(entry => entry.blob ? [entry.blob] : []));
+  return buildTree(commit.tree, blobs);
+};
+
+/** Per-file diffs from `from` (an empty project when null) to `to`. */
+export const compareSnapshots = async (repo: Repository, from: Commit | null, to: Commit): Promise<SnapshotDiff[]> => {
+  const blobOf = (commit: Commit | null) => new Map((commit?.tree ?? []).flatMap(entry => entry.blob ? [[entry.path, entry.blob] as const] : []));
+  const before = blobOf(from);
+  const after = blobOf(to);
+  const paths = [...new Set([...before.keys(), ...after.keys()])].filter(path => before.get(path) !== after.get(path)).sort();
+  const contents = await readBlobs(repo.projectId, paths.flatMap(path => [before.get(path), after.get(path)].filter((hash): hash is string => !!hash)));
+  return paths.map(path => {
+    const beforeContent = before.has(path) ? contents.get(before.get(path) as string) ?? '' : null;
+    const afterContent = after.has(path) ? contents.get(after.get(path) as string) ?? '' : null;
+    return {
+      path,
+      status: beforeContent === null ? 'added' : afterContent === null ? 'deleted' : 'modified',
+      diff: formatUnifiedDiff(path, beforeContent, afterContent),
+    };
+  });
+};
+
+export const checkoutBranch = async (repo: Repository, branch: string): Promise<Repository> => {
+  if (!(branch in repo.branches)) throw new Error(`Branch "${branch}" does not exist`);
+  await saveProjectItem(repo.projectId, 'vcs_head', branch);
+  return { ...repo, head: branch };
+};
+
+/** Creates `name` at `commitId` and checks it out. */
+export const createBranch = async (repo: Repository, name: string, commitId: string | null) => {
+  const error = validateBranchName(repo, name);
+  if (error) throw new Error(error);
+  await writeBranch(repo.projectId, name.trim(), commitId);
+  return checkoutBranch({ ...repo, branches: { ...repo.branches, [name.trim()]: commitId } }, name.trim());
+};
+
+/** Removes a branch that is not checked out; its commits stay reachable from other branches only. */
+export const removeBranch = async (repo: Repository, name: string): Promise<Repository> => {
+  if (name === repo.head) throw new Error('The checked-out branch cannot be deleted');
+  await deleteBranch(repo.projectId, name);
+  const { [name]: _, ...branches } = repo.branches;
+  return { ...repo, branches };
+};
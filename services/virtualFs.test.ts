@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { FileNode } from '../types';
+import { copyNode, copyPath, getNode, listEntries, moveNode, readFile, renameNode, updateNode, writeFile } from './virtualFs';
+
+const TREE: FileNode[] = [
+  'src/App.tsx',
+  'src/components/Nav.tsx',
+  'src/components/Footer.tsx',
+  'src/main.tsx',
+  'README.md',
+].reduce<FileNode[]>((nodes, path) => writeFile(nodes, path, `// ${path}`), []);
+
+const paths = (nodes: FileNode[]) => listEntries(nodes).map(entry => entry.path);
+
+const childNames = (nodes: FileNode[], path: string) => getNode(nodes, path)?.children?.map(child => child.name);
+
+describe('moveNode', () => {
+  it('moves a folder with everything in it, creating missing target folders', () => {
+    const moved = moveNode(TREE, 'src/components', 'src/ui/shared/components');
+
+    expect(getNode(moved, 'src/components')).toBeNull();
+    expect(readFile(moved, 'src/ui/shared/components/Nav.tsx')).toBe('// src/components/Nav.tsx');
+    expect(readFile(moved, 'src/ui/shared/components/Footer.tsx')).toBe('// src/components/Footer.tsx');
+    expect(readFile(TREE, 'src/components/Nav.tsx')).toBe('// src/components/Nav.tsx');
+  });
+
+  it('rejects moving onto an existing path', () => {
+    expect(() => moveNode(TREE, 'src/main.tsx', 'src/App.tsx')).toThrow('"src/App.tsx" already exists');
+    expect(() => moveNode(TREE, 'src/components', 'src')).toThrow('"src" already exists');
+  });
+
+  it('rejects moving a folder into itself', () => {
+    expect(() => moveNode(TREE, 'src', 'src/components/src')).toThrow('Cannot move a folder into itself');
+  });
+
+  it('rejects missing sources and invalid names', () => {
+    expect(() => moveNode(TREE, 'src/Missing.tsx', 'src/Other.tsx')).toThrow('Not found: src/Missing.tsx');
+    expect(() => moveNode(TREE, 'src/main.tsx', 'src/..')).toThrow('Invalid path');
+  });
+
+  it('reorders a node within its folder when given a sibling to go before', () => {
+    expect(childNames(TREE, 'src')).toEqual(['App.tsx', 'components', 'main.tsx']);
+    const reordered = moveNode(TREE, 'src/main.tsx', 'src/main.tsx', 'App.tsx');
+
+    expect(childNames(reordered, 'src')).toEqual(['main.tsx', 'App.tsx', 'components']);
+    expect(moveNode(TREE, 'src/main.tsx', 'src/main.tsx', 'main.tsx')).toBe(TREE);
+  });
+
+  it('inserts a moved node before the named sibling in its new folder', () => {
+    const moved = moveNode(TREE, 'README.md', 'src/components/README.md', 'Footer.tsx');
+
+    expect(childNames(moved, 'src/components')).toEqual(['Nav.tsx', 'README.md', 'Footer.tsx']);
+    expect(getNode(moved, 'src/components/README.md')?.language).toBe('markdown');
+  });
+
+  it('infers the language again when a file changes extension', () => {
+    const moved = moveNode(TREE, 'README.md', 'docs/readme.html');
+    expect(getNode(moved, 'docs/readme.html')?.language).toBe('html');
+  });
+});
+
+describe('renameNode', () => {
+  it('renames in place and keeps the node where it was', () => {
+    const renamed = renameNode(TREE, 'src/components/Nav.tsx', 'Header.tsx');
+    expect(childNames(renamed, 'src/components')).toEqual(['Footer.tsx', 'Header.tsx']);
+    expect(readFile(renamed, 'src/components/Header.tsx')).toBe('// src/components/Nav.tsx');
+  });
+
+  it('rejects names that would leave the folder', () => {
+    expect(() => renameNode(TREE, 'src/App.tsx', '../App.tsx')).toThrow('Invalid name: ../App.tsx');
+  });
+});
+
+describe('copyNode', () => {
+  it('copies a folder right after the original, leaving the original in place', () => {
+    const copied = copyNode(TREE, 'src/components', 'src/components copy');
+
+    expect(childNames(copied, 'src')).toEqual(['App.tsx', 'components', 'components copy', 'main.tsx']);
+    expect(readFile(copied, 'src/components copy/Nav.tsx')).toBe('// src/components/Nav.tsx');
+    expect(readFile(copied, 'src/components/Nav.tsx')).toBe('// src/components/Nav.tsx');
+  });
+
+  it('clears the review status of the copy and everything inside it', () => {
+    const reviewed = updateNode(
+      updateNode(TREE, 'src/components', { changeStatus: 'modified' }),
+      'src/components/Nav.tsx',
+      { changeStatus: 'added' }
+    );
+    const copied = copyNode(reviewed, 'src/components', 'lib/components');
+
+    expect(listEntries(copied).filter(entry => entry.path.startsWith('lib/')).map(entry => entry.node.changeStatus))
+      .toEqual([undefined, undefined, undefined]);
+    expect(getNode(copied, 'src/components/Nav.tsx')?.changeStatus).toBe('added');
+  });
+
+  it('rejects clashes and copying a folder into itself', () => {
+    expect(() => copyNode(TREE, 'src/main.tsx', 'src/App.tsx')).toThrow('"src/App.tsx" already exists');
+    expect(() => copyNode(TREE, 'src', 'src/nested/src')).toThrow('Cannot copy a folder into itself');
+  });
+});
+
+describe('copyPath', () => {
+  it('numbers copies until it finds a free name, keeping file extensions', () => {
+    expect(copyPath(TREE, 'src/components/Nav.tsx')).toBe('src/components/Nav copy.tsx');
+    const once = copyNode(TREE, 'src/components/Nav.tsx', 'src/components/Nav copy.tsx');
+    expect(copyPath(once, 'src/components/Nav.tsx')).toBe('src/components/Nav copy 2.tsx');
+  });
+
+  it('keeps dots in folder names', () => {
+    const tree = writeFile(TREE, 'packages/ui.kit/index.ts', '');
+    expect(copyPath(tree, 'packages/ui.kit')).toBe('packages/ui.kit copy');
+  });
+});
+
+describe('listEntries', () => {
+  it('lists folders before their children with nested paths', () => {
+    expect(paths(TREE)).toEqual([
+      'src',
+      'src/App.tsx',
+      'src/components',
+      'src/components/Nav.tsx',
+      'src/components/Footer.tsx',
+      'src/main.tsx',
+      'README.md',
+    ]);
+  });
+});
@@ -0,0 +1,230 @@
+import { FileNode } from '../types';
+
+/**
+ * Path-addressed operations over the `FileNode` tree. Every function is pure: it returns a new
+ * tree and never mutates its input, so results can be handed straight to React state setters.
+ * Paths are POSIX-style and relative to the project root (`src/components/Nav.tsx`).
+ */
+
+export interface FileEntry {
+  path: string;
+  node: FileNode;
+}
+
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+  ts: 'typescript',
+  tsx: 'typescript',
+  js: 'javascript',
+  jsx: 'javascript',
+  mjs: 'javascript',
+  json: 'json',
+  css: 'css',
+  html: 'html',
+  md: 'markdown',
+};
+
+export const normalizePath = (path: string) => {
+  const segments: string[] = [];
+  path.replace(/\\/g, '/').split('/').forEach(segment => {
+    if (!segment || segment === '.') return;
+    if (segment === '..') segments.pop();
+    else segments.push(segment);
+  });
+  return segments.join('/');
+};
+
+export const joinPath = (...parts: string[]) => normalizePath(parts.filter(Boolean).join('/'));
+
+export const dirname = (path: string) => {
+  const normalized = normalizePath(path);
+  const index = normalized.lastIndexOf('/');
+  return index === -1 ? '' : normalized.slice(0, index);
+};
+
+export const basename = (path: string) => {
+  const normalized = normalizePath(path);
+  return normalized.slice(normalized.lastIndexOf('/') + 1);
+};
+
+export const inferLanguage = (path: string) => {
+  const extension = basename(path).split('.').pop()?.toLowerCase() || '';
+  return LANGUAGE_BY_EXTENSION[extension] || 'plaintext';
+};
+
+export const isValidName = (name: string) => Boolean(name) && name !== '.' && name !== '..' && !/[\\/]/.test(name);
+
+/** Depth-first listing of every node with its full path, folders before their children. */
+export const listEntries = (nodes: FileNode[], prefix = ''): FileEntry[] =>
+  nodes.flatMap(node => {
+    const path = prefix ? `${prefix}/${node.name}` : node.name;
+    const entry = { path, node };
+    return node.type === 'folder' ? [entry, ...listEntries(node.children || [], path)] : [entry];
+  });
+
+export const listFiles = (nodes: FileNode[]) => listEntries(nodes).filter(entry => entry.node.type === 'file');
+
+export const getNode = (nodes: FileNode[], path: string): FileNode | null => {
+  const segments = normalizePath(path).split('/').filter(Boolean);
+  let level: FileNode[] | undefined = nodes;
+  let found: FileNode | null = null;
+  for (const segment of segments) {
+    found = level?.find(node => node.name === segment) ?? null;
+    if (!found) return null;
+    level = found.children;
+  }
+  return found;
+};
+
+export const getFile = (nodes: FileNode[], path: string | null | undefined) => {
+  if (!path) return null;
+  const node = getNode(nodes, path);
+  return node?.type === 'file' ? node : null;
+};
+
+export const readFile = (nodes: FileNode[], path: string) => getFile(nodes, path)?.content;
+
+export const exists = (nodes: FileNode[], path: string) => getNode(nodes, path) !== null;
+
+/**
+ * Rebuilds only the branch leading to `folderPath`, handing the folder's children to `update`.
+ * Missing folders along the way are created when `createMissing` is set.
+ */
+const updateChildren = (
+  nodes: FileNode[],
+  folderPath: string,
+  update: (children: FileNode[]) => FileNode[],
+  createMissing = false
+): FileNode[] => {
+  const segments = normalizePath(folderPath).split('/').filter(Boolean);
+  if (segments.length === 0) return update(nodes);
+  const [head, ...rest] = segments;
+  const existing = nodes.find(node => node.name === head);
+  if (existing && existing.type !== 'folder') throw new Error(`"${head}" is a file, not a folder`);
+  if (!existing) {
+    if (!createMissing) throw new Error(`Folder not found: ${folderPath}`);
+    const folder: FileNode = { name: head, type: 'folder', isOpen: true, children: updateChildren([], rest.join('/'), update, true) };
+    return [...nodes, folder];
+  }
+  return nodes.map(node => node === existing
+    ? { ...node, children: updateChildren(node.children || [], rest.join('/'), update, createMissing) }
+    : node);
+};
+
+/** Creates or overwrites a file, creating parent folders as needed. */
+export const writeFile = (nodes: FileNode[], path: string, content: string, patch: Partial<FileNode> = {}) => {
+  const normalized = normalizePath(path);
+  const name = basename(normalized);
+  if (!isValidName(name)) throw new Error(`Invalid file path: ${path}`);
+  return updateChildren(nodes, dirname(normalized), children => {
+    const existing = children.find(node => node.name === name);
+    if (existing?.type === 'folder') throw new Error(`"${normalized}" is a folder`);
+    if (existing) return children.map(node => node === existing ? { ...node, ...patch, content } : node);
+    return [...children, { name, type: 'file', language: inferLanguage(name), ...patch, content }];
+  }, true);
+};
+
+/** Like `writeFile`, but refuses to overwrite an existing node. */
+export const createFile = (nodes: FileNode[], path: string, content = '') => {
+  if (exists(nodes, path)) throw new Error(`"${normalizePath(path)}" already exists`);
+  return writeFile(nodes, path, content);
+};
+
+export const createFolder = (nodes: FileNode[], path: string) => {
+  const normalized = normalizePath(path);
+  const name = basename(normalized);
+  if (!isValidName(name)) throw new Error(`Invalid folder path: ${path}`);
+  if (exists(nodes, normalized)) throw new Error(`"${normalized}" already exists`);
+  return updateChildren(nodes, dirname(normalized), children => [
+    ...children,
+    { name, type: 'folder', isOpen: true, children: [] },
+  ], true);
+};
+
+/** Shallow-merges `patch` into the node at `path` (content, language, status flags...). */
+export const updateNode = (nodes: FileNode[], path: string, patch: Partial<FileNode>) => {
+  const normalized = normalizePath(path);
+  if (!exists(nodes, normalized)) throw new Error(`Not found: ${normalized}`);
+  const name = basename(normalized);
+  return updateChildren(nodes, dirname(normalized), children =>
+    children.map(node => node.name === name ? { ...node, ...patch } : node));
+};
+
+export const deleteNode = (nodes: FileNode[], path: string) => {
+  const normalized = normalizePath(path);
+  if (!exists(nodes, normalized)) throw new Error(`Not found: ${normalized}`);
+  const name = basename(normalized);
+  return updateChildren(nodes, dirname(normalized), children => children.filter(node => node.name !== name));
+};
+
+/** Inserts `node` before the sibling named `before`, or last when there is no such sibling. */
+const insertBefore = (children: FileNode[], node: FileNode, before?: string) => {
+  const index = before ? children.findIndex(child => child.name === before) : -1;
+  return index === -1 ? [...children, node] : [...children.slice(0, index), node, ...children.slice(index)];
+};
+
+/**
+ * Moves a file or folder to `toPath` (its new full path). Used for both renames and moves;
+ * the target folder is created if needed and clashes are rejected. `before` names the sibling
+ * to insert in front of, which also reorders a node within its own folder.
+ */
+export const moveNode = (nodes: FileNode[], fromPath: string, toPath: string, before?: string) => {
+  const from = normalizePath(fromPath);
+  const to = normalizePath(toPath);
+  if (from === to && (!before || before === basename(from))) return nodes;
+  const node = getNode(nodes, from);
+  if (!node) throw new Error(`Not found: ${from}`);
+  if (!isValidName(basename(to))) throw new Error(`Invalid path: ${toPath}`);
+  if (to.startsWith(`${from}/`)) throw new Error('Cannot move a folder into itself');
+  if (from !== to && exists(nodes, to)) throw new Error(`"${to}" already exists`);
+  const moved: FileNode = {
+    ...node,
+    name: basename(to),
+    language: node.type === 'file' ? inferLanguage(to) : node.language,
+  };
+  return updateChildren(deleteNode(nodes, from), dirname(to), children => insertBefore(children, moved, before), true);
+};
+
+/** A copy of `node` and everything in it, without the review status of the original. */
+const withoutChangeStatus = (node: FileNode): FileNode => ({
+  ...node,
+  changeStatus: undefined,
+  children: node.children?.map(withoutChangeStatus),
+});
+
+/** Copies a file or folder (with everything in it) to `toPath`, right after the original when they share a folder. */
+export const copyNode = (nodes: FileNode[], fromPath: string, toPath: string) => {
+  const from = normalizePath(fromPath);
+  const to = normalizePath(toPath);
+  const node = getNode(nodes, from);
+  if (!node) throw new Error(`Not found: ${from}`);
+  if (!isValidName(basename(to))) throw new Error(`Invalid path: ${toPath}`);
+  if (to.startsWith(`${from}/`)) throw new Error('Cannot copy a folder into itself');
+  if (exists(nodes, to)) throw new Error(`"${to}" already exists`);
+  const copy: FileNode = { ...withoutChangeStatus(node), name: basename(to) };
+  return updateChildren(nodes, dirname(to), children => {
+    const index = dirname(from) === dirname(to) ? children.findIndex(child => child.name === node.name) : -1;
+    return index === -1 ? [...children, copy] : [...children.slice(0, index + 1), copy, ...children.slice(index + 1)];
+  }, true);
+};
+
+/** First free sibling path for a copy: `Nav copy.tsx`, then `Nav copy 2.tsx`, ... */
+export const copyPath = (nodes: FileNode[], path: string) => {
+  const name = basename(path);
+  const dot = getNode(nodes, path)?.type === 'file' ? name.lastIndexOf('.') : -1;
+  const [stem, extension] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+  for (let attempt = 1; ; attempt++) {
+    const candidate = joinPath(dirname(path), `${stem} copy${attempt > 1 ? ` ${attempt}` : ''}${extension}`);
+    if (!exists(nodes, candidate)) return candidate;
+  }
+};
+
+/** Where `path` ends up after `from` moved to `to` (itself, or something inside a moved folder). */
+export const rebasePath = (path: string, from: string, to: string) => {
+  if (path === from) return to;
+  return path.startsWith(`${from}/`) ? `${to}${path.slice(from.length)}` : path;
+};
+
+export const renameNode = (nodes: FileNode[], path: string, newName: string) => {
+  if (!isValidName(newName)) throw new Error(`Invalid name: ${newName}`);
+  return moveNode(nodes, path, joinPath(dirname(path), newName));
+};
@@ -1,8 +1,6 @@
 
 export type AgentRole = 'architect' | 'developer' | 'qa' | 'designer' | 'critic';
 
-export type TargetAgent = 'team' | AgentRole;
-
 export type Theme = 'light' | 'dark';
 
 export type SaveStatus = 'saved' | 'saving' | 'unsaved';
@@ -25,6 +23,72 @@ export interface ChatMessage {
     content: string; // base64
   };
   groundingUrls?: { title: string; uri: string }[];
+  diff?: string; // unified diff of the files an agent changed
+  streaming?: boolean; // text is still arriving from the model
+  testResults?: TestCaseResult[]; // QA run attached to the message
+  failure?: { error: string; reply: string }; // an agent reply rejected by validation: what was wrong and the raw text
+  checkpoint?: string; // commit of the project at this message: before the run for user messages, after it for agent replies
+}
+
+/** Outcome of one test case run by the QA agent. */
+export interface TestCaseResult {
+  file: string;
+  name: string;
+  status: 'passed' | 'failed';
+  error?: string;
+  /** What the test printed with `debug()`. */
+  output?: string;
+}
+
+/** A TypeScript compiler message for a project file; offsets index into the file's content. */
+export interface CodeDiagnostic {
+  path: string;
+  from: number;
+  to: number;
+  line: number;
+  column: number;
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+  code: number;
+}
+
+/** Review state of a file an agent touched: `added`/`modified` once accepted, until the user opens it. */
+export type FileChangeStatus = 'added' | 'modified';
+
+export interface ProjectMeta {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** One conversation with the agents and the tasks its runs created; a project keeps all of them. */
+export interface ConversationThread {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messages: ChatMessage[];
+  tasks: AgentTask[];
+}
+
+/** One file or folder of a snapshot, in tree order; a file points at its content by hash. */
+export interface TreeEntry {
+  path: string;
+  type: 'file' | 'folder';
+  language?: string;
+  blob?: string;
+}
+
+/** A snapshot of a project's files. Its id is the hash of everything else in it. */
+export interface Commit {
+  id: string;
+  parent: string | null;
+  message: string;
+  /** `agent` for the snapshots taken automatically when an agent run starts. */
+  author: 'user' | 'agent';
+  createdAt: number;
+  tree: TreeEntry[];
 }
 
 export interface FileNode {
@@ -34,7 +98,22 @@ export interface FileNode {
   language?: string;
   children?: FileNode[];
   isOpen?: boolean;
-  isNew?: boolean; 
+  changeStatus?: FileChangeStatus;
+}
+
+export type FileChangeAction = 'create' | 'modify' | 'delete';
+
+/** One entry of a developer change-set. `modify` carries either full `content` or a unified `diff`. */
+export interface FileChange {
+  action: FileChangeAction;
+  path: string;
+  content?: string;
+  diff?: string;
+}
+
+export interface ChangeSet {
+  explanation: string;
+  changes: FileChange[];
 }
 
 export interface AgentTask {
@@ -43,6 +122,20 @@ export interface AgentTask {
   status: 'pending' | 'active' | 'completed' | 'failed';
   assignedTo: AgentRole;
   description?: string;
+  /** Model calls made by the task; unset until it makes one. */
+  usage?: TokenUsage;
+}
+
+/** Tokens used by model calls and their estimated cost in USD. */
+export interface TokenUsage {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** Reasoning tokens, billed as output but counted apart from `outputTokens`. */
+  thinkingTokens: number;
+  cost: number;
+  /** Calls to models without a known price; `cost` leaves them out. */
+  unpricedCalls: number;
 }
 
 export interface AgentOptions {
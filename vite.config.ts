@@ -50,10 +50,21 @@ export default defineConfig(({ mode }) => {
               genai: ['@google/genai'],
               dndkit: ['@dnd-kit/core', '@dnd-kit/sortable', '@dnd-kit/utilities'],
               icons: ['lucide-react'],
+              bundler: ['sucrase'],
+              editor: [
+                '@codemirror/state', '@codemirror/view', '@codemirror/commands', '@codemirror/search',
+                '@codemirror/autocomplete', '@codemirror/language', '@codemirror/lang-javascript',
+                '@codemirror/lang-css', '@codemirror/lang-html', '@codemirror/lang-json',
+                '@codemirror/lang-markdown', '@codemirror/theme-one-dark',
+              ],
             },
           },
         },
         chunkSizeWarningLimit: 700,
+      },
+      // The type checker runs in a module worker.
+      worker: {
+        format: 'es',
       },
        define: {
          'import.meta.env.RESOLVED_GEMINI_API_KEY': JSON.stringify(geminiKey),